@@ -305,6 +305,10 @@ export class BenchmarkRunner {
 
           onProgressUpdate: (progress: JobProgress): void => {
             // empty
+          },
+
+          onJobCheckpoint: (): void => {
+            // empty
           }
         };
         indexingJob.start({indexChangesOnly: false}).catch(console.error);
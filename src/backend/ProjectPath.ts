@@ -26,7 +26,55 @@ export class ProjectPathClass {
     return path.isAbsolute(pathStr) ? pathStr : path.join(this.Root, pathStr);
   }
 
+  /**
+   * Libraries are extra media folders that show up as top level directories of the gallery.
+   */
+  public get Libraries(): { name: string, folder: string }[] {
+    return (this.cfg.Media.libraries || [])
+      .filter(l => !!l.name && !!l.folder)
+      .map(l => ({name: l.name, folder: this.getAbsolutePath(l.folder)}));
+  }
+
+  /**
+   * Returns the library that the gallery relative path belongs to, or null if it is in the Images folder.
+   */
+  public getLibrary(relativePath: string): { name: string, folder: string } {
+    const first = path.normalize(path.join(path.sep, relativePath)).split(path.sep)[1];
+    if (!first) {
+      return null;
+    }
+    return this.Libraries.find(l => l.name === first) || null;
+  }
+
+  /**
+   * Returns the absolute folder that contains the gallery relative path (a library or the Images folder).
+   */
+  public getMediaRoot(relativePath: string): string {
+    const library = this.getLibrary(relativePath);
+    return library ? library.folder : this.ImageFolder;
+  }
+
+  /**
+   * Converts a gallery relative path to an absolute path.
+   * Paths starting with a library name are resolved to the folder of the library.
+   */
+  public getMediaPath(...relativePath: string[]): string {
+    const relative = path.normalize(path.join(path.sep, ...relativePath));
+    const library = this.getLibrary(relative);
+    if (!library) {
+      return path.join(this.ImageFolder, relative);
+    }
+    return path.join(library.folder, relative.substring(library.name.length + 1));
+  }
+
   public getRelativePathToImages(pathStr: string): string {
+    // the most specific library wins if the folders are nested
+    const library = this.Libraries
+      .sort((a, b) => b.folder.length - a.folder.length)
+      .find(l => pathStr === l.folder || pathStr.startsWith(path.join(l.folder, path.sep)));
+    if (library) {
+      return path.join(library.name, path.relative(library.folder, pathStr));
+    }
     return path.relative(this.ImageFolder, pathStr);
   }
 
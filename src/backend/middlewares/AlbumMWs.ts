@@ -86,6 +86,169 @@ export class AlbumMWs {
       );
     }
   }
-}
 
+  public static async createManualAlbum(
+      req: Request,
+      res: Response,
+      next: NextFunction
+  ): Promise<void> {
+    if (Config.Album.enabled === false) {
+      return next();
+    }
+    if (
+        typeof req.body === 'undefined' ||
+        typeof req.body.name !== 'string' ||
+        req.body.name.trim() === '' ||
+        (typeof req.body.mediaIds !== 'undefined' && !AlbumMWs.isIdList(req.body.mediaIds))
+    ) {
+      return next(
+          new ErrorDTO(ErrorCodes.INPUT_ERROR, 'name or mediaIds field is missing or invalid')
+      );
+    }
+    try {
+      req.resultPipe = await ObjectManagers.getInstance().AlbumManager.addManualAlbum(
+          req.body.name.trim(),
+          req.body.mediaIds
+      );
+      return next();
+    } catch (err) {
+      return next(
+          new ErrorDTO(
+              ErrorCodes.ALBUM_ERROR,
+              'Error during creating manual album',
+              err
+          )
+      );
+    }
+  }
 
+  public static async listAlbumMedia(
+      req: Request,
+      res: Response,
+      next: NextFunction
+  ): Promise<void> {
+    if (Config.Album.enabled === false) {
+      return next();
+    }
+    if (!req.params['id'] || !Utils.isUInt32(parseInt(req.params['id'], 10))) {
+      return next();
+    }
+    try {
+      req.resultPipe = await ObjectManagers.getInstance().AlbumManager.getAlbumMedia(
+          parseInt(req.params['id'], 10),
+          req.session['user'].permissions
+      );
+      return next();
+    } catch (err) {
+      return next(
+          new ErrorDTO(
+              ErrorCodes.ALBUM_ERROR,
+              'Error during listing album media',
+              err
+          )
+      );
+    }
+  }
+
+  public static async addMediaToAlbum(
+      req: Request,
+      res: Response,
+      next: NextFunction
+  ): Promise<void> {
+    if (Config.Album.enabled === false) {
+      return next();
+    }
+    if (!req.params['id'] || !Utils.isUInt32(parseInt(req.params['id'], 10))) {
+      return next();
+    }
+    if (typeof req.body === 'undefined' || !AlbumMWs.isIdList(req.body.mediaIds)) {
+      return next(
+          new ErrorDTO(ErrorCodes.INPUT_ERROR, 'mediaIds field is missing or invalid')
+      );
+    }
+    try {
+      await ObjectManagers.getInstance().AlbumManager.addMediaToAlbum(
+          parseInt(req.params['id'], 10),
+          req.body.mediaIds
+      );
+      req.resultPipe = 'ok';
+      return next();
+    } catch (err) {
+      return next(
+          new ErrorDTO(
+              ErrorCodes.ALBUM_ERROR,
+              'Error during adding media to album',
+              err
+          )
+      );
+    }
+  }
+
+  public static async removeMediaFromAlbum(
+      req: Request,
+      res: Response,
+      next: NextFunction
+  ): Promise<void> {
+    if (Config.Album.enabled === false) {
+      return next();
+    }
+    if (!req.params['id'] || !Utils.isUInt32(parseInt(req.params['id'], 10)) ||
+        !req.params['mediaId'] || !Utils.isUInt32(parseInt(req.params['mediaId'], 10))) {
+      return next();
+    }
+    try {
+      await ObjectManagers.getInstance().AlbumManager.removeMediaFromAlbum(
+          parseInt(req.params['id'], 10),
+          [parseInt(req.params['mediaId'], 10)]
+      );
+      req.resultPipe = 'ok';
+      return next();
+    } catch (err) {
+      return next(
+          new ErrorDTO(
+              ErrorCodes.ALBUM_ERROR,
+              'Error during removing media from album',
+              err
+          )
+      );
+    }
+  }
+
+  public static async reorderAlbumMedia(
+      req: Request,
+      res: Response,
+      next: NextFunction
+  ): Promise<void> {
+    if (Config.Album.enabled === false) {
+      return next();
+    }
+    if (!req.params['id'] || !Utils.isUInt32(parseInt(req.params['id'], 10))) {
+      return next();
+    }
+    if (typeof req.body === 'undefined' || !AlbumMWs.isIdList(req.body.mediaIds)) {
+      return next(
+          new ErrorDTO(ErrorCodes.INPUT_ERROR, 'mediaIds field is missing or invalid')
+      );
+    }
+    try {
+      await ObjectManagers.getInstance().AlbumManager.reorderAlbumMedia(
+          parseInt(req.params['id'], 10),
+          req.body.mediaIds
+      );
+      req.resultPipe = 'ok';
+      return next();
+    } catch (err) {
+      return next(
+          new ErrorDTO(
+              ErrorCodes.ALBUM_ERROR,
+              'Error during reordering album',
+              err
+          )
+      );
+    }
+  }
+
+  private static isIdList(ids: unknown): ids is number[] {
+    return Array.isArray(ids) && ids.every((id) => Number.isInteger(id) && Utils.isUInt32(id));
+  }
+}
@@ -8,15 +8,28 @@ import {ObjectManagers} from '../model/ObjectManagers';
 import {ContentWrapper} from '../../common/entities/ConentWrapper';
 import {ProjectPath} from '../ProjectPath';
 import {Config} from '../../common/config/private/Config';
-import {UserDTOUtils} from '../../common/entities/UserDTO';
+import {UserDTOUtils, UserRoles} from '../../common/entities/UserDTO';
 import {MediaDTO, MediaDTOUtils} from '../../common/entities/MediaDTO';
 import {QueryParams} from '../../common/QueryParams';
 import {VideoProcessing} from '../model/fileaccess/fileprocessing/VideoProcessing';
-import {SearchQueryDTO, SearchQueryTypes,} from '../../common/entities/SearchQueryDTO';
+import {
+  ANDSearchQuery,
+  ORSearchQuery,
+  SearchQueryDTO,
+  SearchQueryTypes,
+  ToDateSearch,
+} from '../../common/entities/SearchQueryDTO';
 import {LocationLookupException} from '../exceptions/LocationLookupException';
 import {SupportedFormats} from '../../common/SupportedFormats';
 import {ServerTime} from './ServerTimingMWs';
 import {SortByTypes} from '../../common/entities/SortingMethods';
+import {MediaMetadataEditDTO} from '../../common/entities/MediaMetadataEditDTO';
+import {MetadataWriter} from '../model/fileaccess/MetadataWriter';
+import {MotionPhotoProcessing} from '../model/fileaccess/fileprocessing/MotionPhotoProcessing';
+import {MapTileDTO} from '../../common/entities/MapClusterDTO';
+import {VideoSpriteProcessing} from '../model/fileaccess/fileprocessing/VideoSpriteProcessing';
+import {Utils} from '../../common/Utils';
+import {SharingManager} from '../model/database/SharingManager';
 
 export class GalleryMWs {
   @ServerTime('1.db', 'List Directory')
@@ -26,10 +39,7 @@ export class GalleryMWs {
     next: NextFunction
   ): Promise<void> {
     const directoryName = req.params['directory'] || '/';
-    const absoluteDirectoryName = path.join(
-      ProjectPath.ImageFolder,
-      directoryName
-    );
+    const absoluteDirectoryName = ProjectPath.getMediaPath(directoryName);
     try {
       if ((await fsp.stat(absoluteDirectoryName)).isDirectory() === false) {
         return next();
@@ -88,10 +98,7 @@ export class GalleryMWs {
       return next();
     }
     const directoryName = req.params['directory'] || '/';
-    const absoluteDirectoryName = path.join(
-      ProjectPath.ImageFolder,
-      directoryName
-    );
+    const absoluteDirectoryName = ProjectPath.getMediaPath(directoryName);
     try {
       if ((await fsp.stat(absoluteDirectoryName)).isDirectory() === false) {
         return next();
@@ -182,10 +189,7 @@ export class GalleryMWs {
     if (!req.params['mediaPath']) {
       return next();
     }
-    const fullMediaPath = path.join(
-      ProjectPath.ImageFolder,
-      req.params['mediaPath']
-    );
+    const fullMediaPath = ProjectPath.getMediaPath(req.params['mediaPath']);
 
     // check if file exist
     try {
@@ -230,6 +234,165 @@ export class GalleryMWs {
     return next();
   }
 
+  public static async loadHLSFile(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    if (!req.resultPipe) {
+      return next();
+    }
+    const hlsFile = req.params['hlsFile'];
+    // only the playlists and segments can be served from the stream folder
+    if (!hlsFile || !/^(master\.m3u8|\d+p\/(index\.m3u8|segment\d+\.ts))$/.test(hlsFile)) {
+      return next(
+        new ErrorDTO(ErrorCodes.INPUT_ERROR, 'Invalid HLS file: ' + hlsFile)
+      );
+    }
+    const fullHLSPath = path.join(VideoProcessing.generateHLSPath(req.resultPipe as string), hlsFile);
+    try {
+      await fsp.access(fullHLSPath);
+    } catch (e) {
+      return next(
+        new ErrorDTO(
+          ErrorCodes.GENERAL_ERROR,
+          'no such file:' + req.params['mediaPath'] + '/hls/' + hlsFile,
+          'can\'t find file: ' + fullHLSPath
+        )
+      );
+    }
+    req.resultPipe = fullHLSPath;
+    return next();
+  }
+
+  /**
+   * Loads the sprite sheet or its WebVTT track, renders them if they do not exist yet
+   */
+  public static async loadVideoSprite(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    if (!req.resultPipe) {
+      return next();
+    }
+    if (Config.Media.Video.scrubPreview === false) {
+      return next(
+        new ErrorDTO(ErrorCodes.GENERAL_ERROR, 'Scrub previews are disabled')
+      );
+    }
+    const videoPath = req.resultPipe as string;
+    try {
+      await VideoSpriteProcessing.generateSprite(videoPath);
+    } catch (err) {
+      return next(
+        new ErrorDTO(
+          ErrorCodes.THUMBNAIL_GENERATION_ERROR,
+          'Error during generating sprite: ' + req.params['mediaPath'],
+          err.toString()
+        )
+      );
+    }
+    req.resultPipe = req.params['spriteFile'] === 'sprite.vtt' ?
+      VideoSpriteProcessing.generateVTTPath(videoPath) :
+      VideoSpriteProcessing.generateSpritePath(videoPath);
+    return next();
+  }
+
+  public static async loadMotionVideo(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    if (!req.resultPipe) {
+      return next();
+    }
+    if (Config.Media.Photo.motionPhotos === false) {
+      return next(
+        new ErrorDTO(ErrorCodes.GENERAL_ERROR, 'Live and Motion Photos are disabled')
+      );
+    }
+    try {
+      const video = await MotionPhotoProcessing.getMotionVideo(req.resultPipe as string);
+      if (!video) {
+        return next(
+          new ErrorDTO(ErrorCodes.GENERAL_ERROR, 'Photo has no video part: ' + req.params['mediaPath'])
+        );
+      }
+      req.resultPipe = video;
+      return next();
+    } catch (err) {
+      return next(
+        new ErrorDTO(
+          ErrorCodes.GENERAL_ERROR,
+          'Error during loading the video part of: ' + req.params['mediaPath'],
+          err.toString()
+        )
+      );
+    }
+  }
+
+  public static async updateMetadata(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    if (Config.Media.Photo.MetadataEditing.enabled === false) {
+      return next(
+        new ErrorDTO(ErrorCodes.METADATA_WRITE_ERROR, 'Metadata editing is disabled')
+      );
+    }
+    if (!req.resultPipe) {
+      return next();
+    }
+
+    const body = req.body || {};
+    const edit: MediaMetadataEditDTO = {};
+    if (body.rating !== undefined) {
+      if (!Number.isInteger(body.rating) || body.rating < 0 || body.rating > 5) {
+        return next(new ErrorDTO(ErrorCodes.INPUT_ERROR, 'Rating should be an integer between 0 and 5'));
+      }
+      edit.rating = body.rating;
+    }
+    if (body.keywords !== undefined) {
+      if (!Array.isArray(body.keywords) || body.keywords.some((k: unknown) => typeof k !== 'string')) {
+        return next(new ErrorDTO(ErrorCodes.INPUT_ERROR, 'Keywords should be a list of strings'));
+      }
+      edit.keywords = [...new Set<string>(body.keywords.map((k: string) => k.trim()).filter((k: string) => !!k))];
+    }
+    for (const field of ['title', 'caption'] as const) {
+      if (body[field] !== undefined) {
+        if (typeof body[field] !== 'string') {
+          return next(new ErrorDTO(ErrorCodes.INPUT_ERROR, field + ' should be a string'));
+        }
+        edit[field] = body[field].trim();
+      }
+    }
+
+    try {
+      const metadata = await MetadataWriter.writePhotoMetadata(req.resultPipe as string, edit);
+      await ObjectManagers.getInstance().IndexingManager.saveEditedMetadata(
+        req.params['mediaPath'],
+        metadata
+      );
+      req.resultPipe = {
+        rating: metadata.rating || 0,
+        keywords: metadata.keywords || [],
+        title: metadata.title,
+        caption: metadata.caption,
+      } as MediaMetadataEditDTO;
+      return next();
+    } catch (err) {
+      return next(
+        new ErrorDTO(
+          ErrorCodes.METADATA_WRITE_ERROR,
+          'Error during writing metadata of: ' + req.params['mediaPath'],
+          err
+        )
+      );
+    }
+  }
+
   @ServerTime('1.db', 'Search')
   public static async search(
     req: Request,
@@ -255,6 +418,23 @@ export class GalleryMWs {
       result.directories.forEach(
         (dir): MediaDTO[] => (dir.media = dir.media || [])
       );
+      // libraries and folders that the user has no permission to are not listed
+      const permissions = req.session['user'].permissions;
+      if (
+        permissions &&
+        permissions.length > 0 &&
+        permissions[0] !== '/*'
+      ) {
+        result.directories = result.directories.filter((d): boolean =>
+          UserDTOUtils.isDirectoryAvailable(d, permissions)
+        );
+        result.media = result.media.filter((m): boolean =>
+          UserDTOUtils.isDirectoryAvailable(m.directory, permissions)
+        );
+        result.metaFile = result.metaFile.filter((m): boolean =>
+          UserDTOUtils.isDirectoryAvailable(m.directory, permissions)
+        );
+      }
       req.resultPipe = new ContentWrapper(null, result);
       return next();
     } catch (err) {
@@ -273,6 +453,139 @@ export class GalleryMWs {
     }
   }
 
+  @ServerTime('1.db', 'Map clusters')
+  public static async getMapClusters(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    if (
+      Config.Map.enabled === false ||
+      !req.params['searchQueryDTO']
+    ) {
+      return next();
+    }
+
+    const tile: MapTileDTO = {
+      z: parseInt(req.params['z'], 10),
+      x: parseInt(req.params['x'], 10),
+      y: parseInt(req.params['y'], 10),
+    };
+    if (
+      [tile.z, tile.x, tile.y].some((v): boolean => isNaN(v) || v < 0) ||
+      tile.z > 30 ||
+      tile.x >= Math.pow(2, tile.z) ||
+      tile.y >= Math.pow(2, tile.z)
+    ) {
+      return next(new ErrorDTO(ErrorCodes.INPUT_ERROR, 'Invalid map tile'));
+    }
+
+    try {
+      const query: SearchQueryDTO = JSON.parse(
+        req.params['searchQueryDTO'] as string
+      );
+      // folders can be shown on the map without search
+      if (
+        Config.Search.enabled === false &&
+        query.type !== SearchQueryTypes.directory
+      ) {
+        return next(new ErrorDTO(ErrorCodes.INPUT_ERROR, 'Search is disabled'));
+      }
+      let permissions: string[] = req.session['user'].permissions;
+      if (req.session['user'].role <= UserRoles.LimitedGuest) {
+        const sharingKey: string = req.session['user'].usedSharingKey;
+        const sharing = sharingKey ?
+          await ObjectManagers.getInstance().SharingManager.findOneForGuest(sharingKey) : null;
+        if ((sharingKey && !sharing) || !SharingManager.isGuestQueryAllowed(sharing, query)) {
+          return next(new ErrorDTO(ErrorCodes.NOT_AUTHORISED, 'Only the shared media can be shown on the map'));
+        }
+        if (sharing?.searchQuery) {
+          // the shared query is not limited to the shared path, but to what its creator can see
+          permissions = sharing.creator?.permissions;
+        }
+      }
+      req.resultPipe =
+        await ObjectManagers.getInstance().SearchManager.getMapClusters(
+          query,
+          tile,
+          permissions
+        );
+      return next();
+    } catch (err) {
+      if (err instanceof LocationLookupException) {
+        return next(
+          new ErrorDTO(
+            ErrorCodes.LocationLookUp_ERROR,
+            'Cannot find location: ' + err.location,
+            err
+          )
+        );
+      }
+      return next(
+        new ErrorDTO(ErrorCodes.GENERAL_ERROR, 'Error during clustering the map', err)
+      );
+    }
+  }
+
+  /**
+   * Lists the photos and videos of the same day from the earlier years, using the memories media selectors
+   */
+  @ServerTime('1.db', 'Memories')
+  public static async getMemories(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    if (Config.Gallery.Memories.enabled === false) {
+      return next();
+    }
+
+    // memories are from the earlier years, the end of this day a year ago is the latest
+    // the day is in the server's local time, like in the date pattern search
+    const to = new Date();
+    to.setHours(0, 0, 0, 0);
+    to.setDate(to.getDate() + 1);
+    to.setFullYear(to.getFullYear() - 1);
+    const beforeThisYear: ToDateSearch = {
+      type: SearchQueryTypes.to_date,
+      value: to.getTime() - 1
+    };
+
+    try {
+      const media: MediaDTO[] = [];
+      for (const pick of Config.Gallery.Memories.mediaPick) {
+        const query: ANDSearchQuery = {
+          type: SearchQueryTypes.AND,
+          list: [Utils.clone(pick.searchQuery), beforeThisYear]
+        };
+        const picked = await ObjectManagers.getInstance().SearchManager.getNMedia(
+          query,
+          pick.sortBy,
+          pick.pick,
+          false,
+          req.session['user'].permissions
+        );
+        media.push(...picked.filter((p): boolean =>
+          media.findIndex((m): boolean => MediaDTOUtils.equals(m, p)) === -1));
+      }
+      req.resultPipe = new ContentWrapper(null, {
+        searchQuery: {
+          type: SearchQueryTypes.OR,
+          list: Config.Gallery.Memories.mediaPick.map((p): SearchQueryDTO => p.searchQuery)
+        } as ORSearchQuery,
+        directories: [],
+        media,
+        metaFile: [],
+        resultOverflow: false
+      });
+      return next();
+    } catch (err) {
+      return next(
+        new ErrorDTO(ErrorCodes.GENERAL_ERROR, 'Error during listing memories', err)
+      );
+    }
+  }
+
   @ServerTime('1.db', 'Autocomplete')
   public static async autocomplete(
     req: Request,
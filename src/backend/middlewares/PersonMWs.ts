@@ -4,6 +4,7 @@ import {ObjectManagers} from '../model/ObjectManagers';
 import {PersonDTO,} from '../../common/entities/PersonDTO';
 import {Utils} from '../../common/Utils';
 import {PersonEntry} from '../model/database/enitites/PersonEntry';
+import {Config} from '../../common/config/private/Config';
 
 export class PersonMWs {
   public static async updatePerson(
@@ -64,8 +65,10 @@ export class PersonMWs {
       next: NextFunction
   ): Promise<void> {
     try {
-      req.resultPipe =
-          await ObjectManagers.getInstance().PersonManager.getAll();
+      const persons = await ObjectManagers.getInstance().PersonManager.getAll();
+      // hidden persons are only listed for the ones who can unhide them
+      req.resultPipe = req.session['user'].role >= Config.Faces.writeAccessMinRole ?
+          persons : persons.filter((p) => !p.isHidden);
 
       return next();
     } catch (err) {
@@ -79,6 +82,138 @@ export class PersonMWs {
     }
   }
 
+  public static async mergePersons(
+      req: Request,
+      res: Response,
+      next: NextFunction
+  ): Promise<void> {
+    const names = req.body?.persons;
+    if (!Array.isArray(names) || names.length === 0 || names.some((n) => typeof n !== 'string')) {
+      return next(
+          new ErrorDTO(ErrorCodes.INPUT_ERROR, 'Missing persons to merge')
+      );
+    }
+
+    try {
+      req.resultPipe =
+          await ObjectManagers.getInstance().PersonManager.mergePersons(
+              req.params['name'] as string,
+              names
+          );
+      return next();
+    } catch (err) {
+      return next(
+          new ErrorDTO(
+              ErrorCodes.PERSON_ERROR,
+              'Error during merging persons',
+              err
+          )
+      );
+    }
+  }
+
+  public static async setPersonCover(
+      req: Request,
+      res: Response,
+      next: NextFunction
+  ): Promise<void> {
+    const mediaPath = req.body?.mediaPath;
+    if (mediaPath !== null && typeof mediaPath !== 'string') {
+      return next(
+          new ErrorDTO(ErrorCodes.INPUT_ERROR, 'Missing media path')
+      );
+    }
+
+    try {
+      req.resultPipe =
+          await ObjectManagers.getInstance().PersonManager.setCover(
+              req.params['name'] as string,
+              mediaPath
+          );
+      return next();
+    } catch (err) {
+      return next(
+          new ErrorDTO(
+              ErrorCodes.PERSON_ERROR,
+              'Error during setting the cover of a person',
+              err
+          )
+      );
+    }
+  }
+
+  public static async listFaceClusters(
+      req: Request,
+      res: Response,
+      next: NextFunction
+  ): Promise<void> {
+    try {
+      req.resultPipe =
+          await ObjectManagers.getInstance().PersonManager.getFaceClusters();
+      return next();
+    } catch (err) {
+      return next(
+          new ErrorDTO(
+              ErrorCodes.PERSON_ERROR,
+              'Error during listing face clusters',
+              err
+          )
+      );
+    }
+  }
+
+  public static async nameFaceCluster(
+      req: Request,
+      res: Response,
+      next: NextFunction
+  ): Promise<void> {
+    const name = req.body?.name;
+    if (typeof name !== 'string' || name.trim() === '') {
+      return next(
+          new ErrorDTO(ErrorCodes.INPUT_ERROR, 'Missing person name')
+      );
+    }
+
+    try {
+      req.resultPipe =
+          await ObjectManagers.getInstance().PersonManager.nameFaceCluster(
+              parseInt(req.params['id'], 10),
+              name.trim()
+          );
+      return next();
+    } catch (err) {
+      return next(
+          new ErrorDTO(
+              ErrorCodes.PERSON_ERROR,
+              'Error during naming a face cluster',
+              err
+          )
+      );
+    }
+  }
+
+  public static async getDetectedFace(
+      req: Request,
+      res: Response,
+      next: NextFunction
+  ): Promise<void> {
+    try {
+      req.resultPipe =
+          await ObjectManagers.getInstance().PersonManager.getDetectedFace(
+              parseInt(req.params['id'], 10)
+          );
+      return next();
+    } catch (err) {
+      return next(
+          new ErrorDTO(
+              ErrorCodes.PERSON_ERROR,
+              'Error during loading a detected face',
+              err
+          )
+      );
+    }
+  }
+
   public static async cleanUpPersonResults(
       req: Request,
       res: Response,
@@ -38,7 +38,7 @@ export class RenderingMWs {
     const user = {
       id: req.session['user'].id,
       name: req.session['user'].name,
-      csrfToken: req.session['user'].csrfToken || req.csrfToken(),
+      csrfToken: req.session['user'].csrfToken,
       role: req.session['user'].role,
       usedSharingKey: req.session['user'].usedSharingKey,
       permissions: req.session['user'].permissions,
@@ -1,11 +1,16 @@
 import {NextFunction, Request, Response} from 'express';
-import {CreateSharingDTO, SharingDTO, SharingDTOKey} from '../../common/entities/SharingDTO';
+import {CreateSharingDTO, SharingAccessTypes, SharingDTO, SharingDTOKey} from '../../common/entities/SharingDTO';
 import {ObjectManagers} from '../model/ObjectManagers';
 import {ErrorCodes, ErrorDTO} from '../../common/entities/Error';
 import {Config} from '../../common/config/private/Config';
 import {QueryParams} from '../../common/QueryParams';
 import * as path from 'path';
-import {UserRoles} from '../../common/entities/UserDTO';
+import {UserDTO, UserDTOUtils, UserRoles} from '../../common/entities/UserDTO';
+import {SharingManager} from '../model/database/SharingManager';
+import {ContentWrapper} from '../../common/entities/ConentWrapper';
+import {Logger} from '../Logger';
+
+const LOG_TAG = '[SharingMWs]';
 
 export class SharingMWs {
   public static async getSharing(
@@ -20,7 +25,7 @@ export class SharingMWs {
 
     try {
       req.resultPipe =
-        await ObjectManagers.getInstance().SharingManager.findOne(sharingKey);
+        await ObjectManagers.getInstance().SharingManager.findOne(sharingKey, true);
       return next();
     } catch (err) {
       return next(
@@ -58,6 +63,119 @@ export class SharingMWs {
     }
   }
 
+  public static async getSharedContent(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    if (Config.Sharing.enabled === false) {
+      return next();
+    }
+    const sharingKey = req.params[QueryParams.gallery.sharingKey_params];
+    const user: UserDTO = req.session['user'];
+
+    try {
+      const sharing = await ObjectManagers.getInstance().SharingManager.findOne(sharingKey, true);
+      if (!sharing || !SharingManager.isSelectionSharing(sharing)) {
+        return next(
+          new ErrorDTO(ErrorCodes.INPUT_ERROR, 'Sharing does not exist or it is a directory sharing')
+        );
+      }
+      // guests can only list the sharing they logged in with
+      if (user.usedSharingKey !== sharing.sharingKey &&
+        user.role < UserRoles.Admin &&
+        sharing.creator.id !== user.id) {
+        return next(new ErrorDTO(ErrorCodes.NOT_AUTHORISED));
+      }
+      req.resultPipe = new ContentWrapper(
+        null,
+        await ObjectManagers.getInstance().SharingManager.getSharedMedia(sharing)
+      );
+      return next();
+    } catch (err) {
+      return next(
+        new ErrorDTO(
+          ErrorCodes.GENERAL_ERROR,
+          'Error during listing shared media',
+          err
+        )
+      );
+    }
+  }
+
+  public static async getSharingStats(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    if (Config.Sharing.enabled === false) {
+      return next();
+    }
+    const sharingKey = req.params[QueryParams.gallery.sharingKey_params];
+
+    try {
+      const sharing = await ObjectManagers.getInstance().SharingManager.findOne(sharingKey, true);
+      if (!sharing) {
+        return next(new ErrorDTO(ErrorCodes.INPUT_ERROR, 'Sharing does not exist'));
+      }
+      if (req.session['user'].role < UserRoles.Admin &&
+        sharing.creator.id !== req.session['user'].id) {
+        return next(new ErrorDTO(ErrorCodes.NOT_AUTHORISED, 'Only the creator can see the sharing stats.'));
+      }
+      req.resultPipe =
+        await ObjectManagers.getInstance().SharingManager.getStats(sharing);
+      return next();
+    } catch (err) {
+      return next(
+        new ErrorDTO(
+          ErrorCodes.GENERAL_ERROR,
+          'Error during retrieving sharing stats',
+          err
+        )
+      );
+    }
+  }
+
+  /**
+   * Logs the media or directory access of sharing guests.
+   * It does not wait for the logging to finish.
+   */
+  public static logAccess(
+    type: SharingAccessTypes
+  ): (req: Request, res: Response, next: NextFunction) => void {
+    return function logAccess(
+      req: Request,
+      res: Response,
+      next: NextFunction
+    ): void {
+      const sharingKey = req.session['user']?.usedSharingKey;
+      if (Config.Sharing.enabled === false || !sharingKey) {
+        return next();
+      }
+      ObjectManagers.getInstance().SharingManager.registerAccess(
+        sharingKey,
+        type,
+        req.ip,
+        req.get('user-agent'),
+        req.params['mediaPath'] || req.params['directory'] || null
+      ).catch((err) => Logger.warn(LOG_TAG, 'Can\'t log sharing access', err));
+      return next();
+    };
+  }
+
+  /**
+   * The original photo is both shown in the lightbox and downloaded from there.
+   * Browsers tell them apart with the fetch destination, a missing one is counted as a download.
+   */
+  public static logPhotoAccess(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): void {
+    const type = req.get('sec-fetch-dest') === 'image' ? SharingAccessTypes.View : SharingAccessTypes.Download;
+    return SharingMWs.logAccess(type)(req, res, next);
+  }
+
   public static async createSharing(
     req: Request,
     res: Response,
@@ -83,6 +201,14 @@ export class SharingMWs {
       );
     }
 
+    const selectionError = SharingMWs.validateSelection(createSharing, req.session['user']) ||
+      await SharingMWs.validateSearchQuerySelection(createSharing, req.session['user']);
+    if (selectionError) {
+      return next(
+        new ErrorDTO(ErrorCodes.INPUT_ERROR, selectionError)
+      );
+    }
+
     let sharingKey = SharingMWs.generateKey();
 
     // create one not yet used
@@ -107,7 +233,12 @@ export class SharingMWs {
         createSharing.valid >= 0 // if === -1 its forever
           ? Date.now() + createSharing.valid
           : new Date(9999, 0, 1).getTime(), // never expire
-      includeSubfolders: createSharing.includeSubfolders,
+      // selection sharings do not give access to the directory
+      includeSubfolders: createSharing.includeSubfolders && !createSharing.searchQuery && !createSharing.media,
+      searchQuery: createSharing.searchQuery || null,
+      media: createSharing.media || null,
+      maxViews: createSharing.maxViews > 0 ? createSharing.maxViews : null,
+      viewCount: 0,
       timeStamp: Date.now(),
     };
 
@@ -161,6 +292,7 @@ export class SharingMWs {
           ? Date.now() + updateSharing.valid
           : new Date(9999, 0, 1).getTime(), // never expire
       includeSubfolders: updateSharing.includeSubfolders,
+      maxViews: updateSharing.maxViews > 0 ? updateSharing.maxViews : null,
       timeStamp: Date.now(),
     };
 
@@ -204,7 +336,7 @@ export class SharingMWs {
     try {
       // Check if user has the right to delete sharing.
       if (req.session['user'].role < UserRoles.Admin) {
-        const s = await ObjectManagers.getInstance().SharingManager.findOne(sharingKey);
+        const s = await ObjectManagers.getInstance().SharingManager.findOne(sharingKey, true);
         if (s.creator.id !== req.session['user'].id) {
           return next(new ErrorDTO(ErrorCodes.NOT_AUTHORISED, 'Can\'t delete sharing.'));
         }
@@ -279,6 +411,52 @@ export class SharingMWs {
     }
   }
 
+  /**
+   * Validates and normalizes the search query or media list of a sharing.
+   * @return error message if the selection is not valid
+   */
+  private static validateSelection(sharing: CreateSharingDTO, user: UserDTO): string {
+    const hasQuery = sharing.searchQuery !== undefined && sharing.searchQuery !== null;
+    const hasMedia = sharing.media !== undefined && sharing.media !== null;
+    if (hasQuery && hasMedia) {
+      return 'Only one of searchQuery and media can be shared';
+    }
+    if (hasQuery &&
+      (typeof sharing.searchQuery !== 'object' || typeof sharing.searchQuery.type !== 'number')) {
+      return 'searchQuery is not valid';
+    }
+    if (hasMedia) {
+      if (!Array.isArray(sharing.media) || sharing.media.length === 0 ||
+        sharing.media.some((m) => typeof m !== 'string')) {
+        return 'media should be a non empty list of media paths';
+      }
+      sharing.media = sharing.media.map(SharingManager.normalizeMediaPath);
+      const forbidden = sharing.media.find((m) => m.startsWith('..') ||
+        !UserDTOUtils.isDirectoryPathAvailable(path.dirname(m), user.permissions));
+      if (forbidden) {
+        return 'Not allowed to share: ' + forbidden;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Users with limited directory access can only share a search query that does not find media outside of their directories.
+   * @return error message if the search query is not allowed
+   */
+  private static async validateSearchQuerySelection(sharing: CreateSharingDTO, user: UserDTO): Promise<string> {
+    if (!sharing.searchQuery ||
+      !user.permissions || user.permissions.length === 0 || user.permissions[0] === '/*') {
+      return null;
+    }
+    const result = await ObjectManagers.getInstance().SearchManager.search(sharing.searchQuery);
+    const forbidden = result.media.find((m) => !UserDTOUtils.isDirectoryAvailable(m.directory, user.permissions));
+    if (forbidden) {
+      return 'Not allowed to share: ' + path.join(forbidden.directory.path, forbidden.directory.name, forbidden.name);
+    }
+    return null;
+  }
+
   private static generateKey(): string {
     function s4(): string {
       return Math.floor((1 + Math.random()) * 0x10000)
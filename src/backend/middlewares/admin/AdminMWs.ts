@@ -4,8 +4,13 @@ import {ObjectManagers} from '../../model/ObjectManagers';
 import {StatisticDTO} from '../../../common/entities/settings/StatisticDTO';
 import {MessengerRepository} from '../../model/messenger/MessengerRepository';
 import {JobStartDTO} from '../../../common/entities/job/JobDTO';
+import {QueryParams} from '../../../common/QueryParams';
+import {Utils} from '../../../common/Utils';
 
 export class AdminMWs {
+  private static readonly JOB_HISTORY_PAGE_SIZE = 20;
+  private static readonly JOB_HISTORY_MAX_PAGE_SIZE = 200;
+
   public static async loadStatistic(
     req: Request,
     res: Response,
@@ -23,6 +28,7 @@ export class AdminMWs {
         videos: await galleryManager.countVideos(),
         diskUsage: await galleryManager.countMediaSize(),
         persons: await personManager.countFaces(),
+        watcher: ObjectManagers.getInstance().WatcherManager.Status,
       } as StatisticDTO;
       return next();
     } catch (err) {
@@ -114,6 +120,36 @@ export class AdminMWs {
     }
   }
 
+  public static async resumeJob(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const id = req.params['id'];
+      await ObjectManagers.getInstance().JobManager.resume(id);
+      req.resultPipe = 'ok';
+      return next();
+    } catch (err) {
+      if (err instanceof Error) {
+        return next(
+          new ErrorDTO(
+            ErrorCodes.JOB_ERROR,
+            'Job error: ' + err.toString(),
+            err
+          )
+        );
+      }
+      return next(
+        new ErrorDTO(
+          ErrorCodes.JOB_ERROR,
+          'Job error: ' + JSON.stringify(err, null, '  '),
+          err
+        )
+      );
+    }
+  }
+
   public static stopJob(req: Request, res: Response, next: NextFunction): void {
     try {
       const id = req.params['id'];
@@ -147,7 +183,7 @@ export class AdminMWs {
     next: NextFunction
   ): void {
     try {
-      req.resultPipe = MessengerRepository.Instance.getAll().map(msgr => msgr.Name);
+      req.resultPipe = MessengerRepository.Instance.getAll();
       return next();
     } catch (err) {
       if (err instanceof Error) {
@@ -225,4 +261,64 @@ export class AdminMWs {
       );
     }
   }
+
+  public static async getJobHistory(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    const params = QueryParams.admin.jobHistory;
+    const page = parseInt(req.query[params.page] as string, 10) || 0;
+    const pageSize = parseInt(req.query[params.pageSize] as string, 10) || AdminMWs.JOB_HISTORY_PAGE_SIZE;
+    const state = parseInt(req.query[params.state] as string, 10) || null;
+    if (!Utils.isUInt32(page) || !Utils.isUInt32(pageSize) ||
+      pageSize > AdminMWs.JOB_HISTORY_MAX_PAGE_SIZE) {
+      return next(new ErrorDTO(ErrorCodes.INPUT_ERROR, 'Invalid page'));
+    }
+    try {
+      req.resultPipe = await ObjectManagers.getInstance().JobManager.getHistory({
+        jobName: (req.query[params.jobName] as string) || null,
+        state,
+        page,
+        pageSize
+      });
+      return next();
+    } catch (err) {
+      return next(
+        new ErrorDTO(
+          ErrorCodes.JOB_ERROR,
+          'Error during loading the job history',
+          err
+        )
+      );
+    }
+  }
+
+  public static async getJobHistoryRun(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    if (!req.params['id'] || !Utils.isUInt32(parseInt(req.params['id'], 10))) {
+      return next(new ErrorDTO(ErrorCodes.INPUT_ERROR, 'Invalid job run id'));
+    }
+    try {
+      const run = await ObjectManagers.getInstance().JobManager.getHistoryRun(
+        parseInt(req.params['id'], 10)
+      );
+      if (!run) {
+        return next(new ErrorDTO(ErrorCodes.JOB_ERROR, 'Cannot find job run: ' + req.params['id']));
+      }
+      req.resultPipe = run;
+      return next();
+    } catch (err) {
+      return next(
+        new ErrorDTO(
+          ErrorCodes.JOB_ERROR,
+          'Error during loading the job run',
+          err
+        )
+      );
+    }
+  }
 }
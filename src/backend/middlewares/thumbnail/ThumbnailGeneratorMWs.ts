@@ -1,4 +1,3 @@
-import * as path from 'path';
 import * as fs from 'fs';
 import {NextFunction, Request, Response} from 'express';
 import {ErrorCodes, ErrorDTO} from '../../../common/entities/Error';
@@ -11,6 +10,8 @@ import {MediaDTO} from '../../../common/entities/MediaDTO';
 import {PhotoProcessing} from '../../model/fileaccess/fileprocessing/PhotoProcessing';
 import {ServerTime} from '../ServerTimingMWs';
 import {PersonEntry} from '../../model/database/enitites/PersonEntry';
+import {DetectedFaceEntity} from '../../model/database/enitites/DetectedFaceEntity';
+import {PhotoDTO} from '../../../common/entities/PhotoDTO';
 
 export class ThumbnailGeneratorMWs {
   private static ThumbnailMapEntries =
@@ -78,8 +79,7 @@ export class ThumbnailGeneratorMWs {
           continue;
         }
         // load parameters
-        const mediaPath = path.join(
-            ProjectPath.ImageFolder,
+        const mediaPath = ProjectPath.getMediaPath(
             item.sampleRegion.media.directory.path,
             item.sampleRegion.media.directory.name,
             item.sampleRegion.media.name
@@ -131,6 +131,33 @@ export class ThumbnailGeneratorMWs {
     }
   }
 
+  public static async generateDetectedFaceThumbnail(
+      req: Request,
+      res: Response,
+      next: NextFunction
+  ): Promise<void> {
+    if (!req.resultPipe) {
+      return next();
+    }
+    const face: DetectedFaceEntity = req.resultPipe as DetectedFaceEntity;
+    try {
+      req.resultPipe = await PhotoProcessing.generateFaceThumbnail(
+          face.media as PhotoDTO,
+          {name: '', box: face.box}
+      );
+      return next();
+    } catch (error) {
+      console.error(error);
+      return next(
+          new ErrorDTO(
+              ErrorCodes.THUMBNAIL_GENERATION_ERROR,
+              'Error during generating face thumbnail: ' + face.id,
+              error.toString()
+          )
+      );
+    }
+  }
+
   public static generateThumbnailFactory(
       sourceType: ThumbnailSourceType
   ): (req: Request, res: Response, next: NextFunction) => Promise<void> {
@@ -228,8 +255,7 @@ export class ThumbnailGeneratorMWs {
   }
 
   private static addThInfoToAPhoto(photo: MediaDTO, directory: DirectoryPathDTO): void {
-    const fullMediaPath = path.join(
-        ProjectPath.ImageFolder,
+    const fullMediaPath = ProjectPath.getMediaPath(
         directory.path,
         directory.name,
         photo.name
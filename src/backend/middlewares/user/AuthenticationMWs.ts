@@ -8,6 +8,8 @@ import {Utils} from '../../../common/Utils';
 import {QueryParams} from '../../../common/QueryParams';
 import * as path from 'path';
 import {Logger} from '../../Logger';
+import {SharingManager} from '../../model/database/SharingManager';
+import {SharingAccessTypes} from '../../../common/entities/SharingDTO';
 
 const LOG_TAG = 'AuthenticationMWs';
 
@@ -27,7 +29,7 @@ export class AuthenticationMWs {
     try {
       const user = await AuthenticationMWs.getSharingUser(req);
       if (user) {
-        req.session['user'] = user;
+        await AuthenticationMWs.loginSharingUser(req, user);
         return next();
       }
       // eslint-disable-next-line no-empty
@@ -50,6 +52,23 @@ export class AuthenticationMWs {
       return next();
     }
 
+    // API tokens are used for scripting, they take precedence over the session
+    const token = AuthenticationMWs.getBearerToken(req);
+    if (token) {
+      try {
+        const user = await ObjectManagers.getInstance().UserManager.findApiTokenUser(token);
+        if (!user) {
+          res.status(401);
+          return next(new ErrorDTO(ErrorCodes.NOT_AUTHENTICATED, 'Invalid or expired API token'));
+        }
+        // the token user only lives for this request, the session cookie is not touched
+        Object.defineProperty(req, 'session', {value: {user}, writable: true, configurable: true});
+        return next();
+      } catch (err) {
+        return next(new ErrorDTO(ErrorCodes.CREDENTIAL_NOT_FOUND, null, err));
+      }
+    }
+
     // if already authenticated, do not try to use sharing authentication
     if (typeof req.session['user'] !== 'undefined') {
       return next();
@@ -58,7 +77,7 @@ export class AuthenticationMWs {
     try {
       const user = await AuthenticationMWs.getSharingUser(req);
       if (user) {
-        req.session['user'] = user;
+        await AuthenticationMWs.loginSharingUser(req, user);
         return next();
       }
     } catch (err) {
@@ -92,13 +111,34 @@ export class AuthenticationMWs {
   public static authorisePath(
       paramName: string,
       isDirectory: boolean
-  ): (req: Request, res: Response, next: NextFunction) => void {
-    return function authorisePath(
+  ): (req: Request, res: Response, next: NextFunction) => Promise<Response | void> {
+    return async function authorisePath(
         req: Request,
         res: Response,
         next: NextFunction
-    ): Response | void {
+    ): Promise<Response | void> {
       let p: string = req.params[paramName];
+
+      // selection sharings only give access to their media
+      if (req.session['user'].usedSharingKey) {
+        try {
+          const sharing = await ObjectManagers.getInstance().SharingManager
+              .findOneForGuest(req.session['user'].usedSharingKey);
+          if (!sharing) { // expired or deleted
+            return res.sendStatus(403);
+          }
+          if (SharingManager.isSelectionSharing(sharing)) {
+            if (isDirectory ||
+                !(await ObjectManagers.getInstance().SharingManager.isMediaSharedForGuest(sharing, p))) {
+              return res.sendStatus(403);
+            }
+            return next();
+          }
+        } catch (err) {
+          return next(new ErrorDTO(ErrorCodes.GENERAL_ERROR, 'Error during checking sharing', err));
+        }
+      }
+
       if (!isDirectory) {
         p = path.dirname(p);
       }
@@ -176,6 +216,7 @@ export class AuthenticationMWs {
         permissions: [sharingPath],
         usedSharingKey: sharing.sharingKey,
       } as UserDTO;
+      await AuthenticationMWs.registerSharingOpen(req, sharing.sharingKey);
       return next();
     } catch (err) {
       return next(new ErrorDTO(ErrorCodes.GENERAL_ERROR, null, err));
@@ -251,6 +292,43 @@ export class AuthenticationMWs {
     return next();
   }
 
+  /**
+   * Returns the token of the 'Authorization: Bearer <token>' header if present.
+   */
+  public static getBearerToken(req: Request): string {
+    const header = req.headers?.authorization;
+    if (!header || !header.startsWith('Bearer ')) {
+      return null;
+    }
+    return header.substring('Bearer '.length).trim() || null;
+  }
+
+  private static async registerSharingOpen(req: Request, sharingKey: string): Promise<void> {
+    try {
+      await ObjectManagers.getInstance().SharingManager.registerAccess(
+          sharingKey,
+          SharingAccessTypes.Open,
+          req.ip,
+          req.get('user-agent')
+      );
+    } catch (err) {
+      Logger.warn(LOG_TAG, 'Can\'t log sharing access', err);
+    }
+  }
+
+  /**
+   * Opening the sharing is only counted once per session,
+   * the later requests of the same guest carry the sharing key too.
+   */
+  private static async loginSharingUser(req: Request, user: UserDTO): Promise<void> {
+    const sessionUser: UserDTO = req.session['user'];
+    req.session['user'] = user;
+    if (sessionUser && sessionUser.usedSharingKey === user.usedSharingKey) {
+      return;
+    }
+    await AuthenticationMWs.registerSharingOpen(req, user.usedSharingKey);
+  }
+
   private static async getSharingUser(req: Request): Promise<UserDTO> {
     if (
         Config.Sharing.enabled === true &&
@@ -0,0 +1,84 @@
+import {NextFunction, Request, Response} from 'express';
+import {Config} from '../../../common/config/private/Config';
+import {ErrorCodes, ErrorDTO} from '../../../common/entities/Error';
+import {OIDCCallbackParams, OIDCClient} from '../../model/oidc/OIDCClient';
+import {ObjectManagers} from '../../model/ObjectManagers';
+import {Utils} from '../../../common/Utils';
+import {Logger} from '../../Logger';
+import {QueryParams} from '../../../common/QueryParams';
+
+const LOG_TAG = '[OIDCMWs]';
+
+export class OIDCMWs {
+
+  private static isEnabled(): boolean {
+    return Config.Users.authenticationRequired === true &&
+      Config.Users.OIDC.enabled === true;
+  }
+
+  private static getRedirectUri(req: Request): string {
+    const base = Config.Server.publicUrl ||
+      (req.protocol + '://' + req.get('host') + Config.Server.urlBase);
+    return Utils.concatUrls(base, Config.Server.apiPath, '/user/oidc/callback');
+  }
+
+  /**
+   * Redirects to the login page of the OpenID Connect provider.
+   */
+  public static async login(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    if (!OIDCMWs.isEnabled()) {
+      res.sendStatus(404);
+      return;
+    }
+    try {
+      const request = await OIDCClient.createLoginRequest(OIDCMWs.getRedirectUri(req));
+      req.session['oidc'] = request.state;
+      return res.redirect(request.url);
+    } catch (err) {
+      return next(
+        new ErrorDTO(
+          ErrorCodes.GENERAL_ERROR,
+          'Can\'t start OpenID Connect login',
+          err
+        )
+      );
+    }
+  }
+
+  /**
+   * Finishes the SSO login and redirects to the gallery.
+   * On failure, it redirects to the login page, so local login is still available.
+   */
+  public static async callback(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    if (!OIDCMWs.isEnabled()) {
+      res.sendStatus(404);
+      return;
+    }
+    const loginState = req.session['oidc'];
+    delete req.session['oidc'];
+    try {
+      const claims = await OIDCClient.handleCallback(req.query as OIDCCallbackParams, loginState);
+      const user = Utils.clone(
+        await ObjectManagers.getInstance().UserManager.upsertOIDCUser(OIDCClient.mapUser(claims))
+      );
+      delete user.password;
+      req.session['user'] = user;
+      Logger.info(LOG_TAG, 'SSO login: ' + user.name);
+      return res.redirect(Utils.concatUrls(Config.Server.urlBase, '/'));
+    } catch (err) {
+      Logger.warn(LOG_TAG, 'Failed SSO login: ' + (err?.message || err));
+      const params: { [key: string]: string } = {};
+      params[QueryParams.login.oidcError] = 'true';
+      return res.redirect(Utils.concatUrls(Config.Server.urlBase, '/login') +
+        '?' + new URLSearchParams(params).toString());
+    }
+  }
+}
@@ -3,6 +3,8 @@ import {ErrorCodes, ErrorDTO} from '../../../common/entities/Error';
 import {ObjectManagers} from '../../model/ObjectManagers';
 import {Utils} from '../../../common/Utils';
 import {Config} from '../../../common/config/private/Config';
+import {CreateApiTokenDTO} from '../../../common/entities/ApiTokenDTO';
+import {UserRoles} from '../../../common/entities/UserDTO';
 
 export class UserMWs {
   public static async createUser(
@@ -83,6 +85,39 @@ export class UserMWs {
     }
   }
 
+  public static async changePermissions(
+      req: Request,
+      res: Response,
+      next: NextFunction
+  ): Promise<void> {
+    if (Config.Users.authenticationRequired === false) {
+      return next(new ErrorDTO(ErrorCodes.USER_MANAGEMENT_DISABLED));
+    }
+    if (
+        typeof req.params === 'undefined' ||
+        typeof req.params.id === 'undefined' ||
+        typeof req.body === 'undefined' ||
+        !Array.isArray(req.body.newPermissions) ||
+        req.body.newPermissions.some((p: unknown) => typeof p !== 'string')
+    ) {
+      return next(new ErrorDTO(ErrorCodes.INPUT_ERROR, 'newPermissions should be a list of folders'));
+    }
+
+    try {
+      // folders, e.g.: /family* (a library with its subfolders)
+      const permissions = (req.body.newPermissions as string[])
+          .map((p) => p.trim())
+          .filter((p) => p.length > 0);
+      await ObjectManagers.getInstance().UserManager.changePermissions(
+          parseInt(req.params.id, 10),
+          permissions.length > 0 ? permissions : null
+      );
+      return next();
+    } catch (err) {
+      return next(new ErrorDTO(ErrorCodes.GENERAL_ERROR, null, err));
+    }
+  }
+
   public static async listUsers(
       req: Request,
       res: Response,
@@ -104,4 +139,96 @@ export class UserMWs {
       return next(new ErrorDTO(ErrorCodes.GENERAL_ERROR, null, err));
     }
   }
+
+  public static async listApiTokens(
+      req: Request,
+      res: Response,
+      next: NextFunction
+  ): Promise<void> {
+    if (Config.Users.authenticationRequired === false) {
+      return next(new ErrorDTO(ErrorCodes.USER_MANAGEMENT_DISABLED));
+    }
+    if (typeof req.session['user'].id === 'undefined') {
+      return next(new ErrorDTO(ErrorCodes.NOT_AUTHORISED, 'Only registered users can have API tokens'));
+    }
+
+    try {
+      req.resultPipe = await ObjectManagers.getInstance().UserManager.listApiTokens(
+          req.session['user'].id
+      );
+      return next();
+    } catch (err) {
+      return next(new ErrorDTO(ErrorCodes.GENERAL_ERROR, null, err));
+    }
+  }
+
+  public static async createApiToken(
+      req: Request,
+      res: Response,
+      next: NextFunction
+  ): Promise<void> {
+    if (Config.Users.authenticationRequired === false) {
+      return next(new ErrorDTO(ErrorCodes.USER_MANAGEMENT_DISABLED));
+    }
+    if (typeof req.session['user'].id === 'undefined') {
+      return next(new ErrorDTO(ErrorCodes.NOT_AUTHORISED, 'Only registered users can have API tokens'));
+    }
+    if (
+        typeof req.body === 'undefined' ||
+        typeof req.body.newToken === 'undefined'
+    ) {
+      return next(new ErrorDTO(ErrorCodes.INPUT_ERROR, 'newToken not found'));
+    }
+    const newToken: CreateApiTokenDTO = req.body.newToken;
+    if (typeof newToken.name !== 'string' || newToken.name.trim() === '') {
+      return next(new ErrorDTO(ErrorCodes.INPUT_ERROR, 'Token name is required'));
+    }
+    const role: UserRoles = newToken.role || req.session['user'].role;
+    if (!UserRoles[role] || role > req.session['user'].role) {
+      return next(new ErrorDTO(ErrorCodes.INPUT_ERROR, 'Token role can\'t be higher than the user\'s role'));
+    }
+    if (newToken.expires && (typeof newToken.expires !== 'number' || newToken.expires < Date.now())) {
+      return next(new ErrorDTO(ErrorCodes.INPUT_ERROR, 'Token expiry should be in the future'));
+    }
+
+    try {
+      req.resultPipe = await ObjectManagers.getInstance().UserManager.createApiToken(
+          req.session['user'].id,
+          {name: newToken.name.trim(), role, expires: newToken.expires}
+      );
+      return next();
+    } catch (err) {
+      return next(new ErrorDTO(ErrorCodes.GENERAL_ERROR, null, err));
+    }
+  }
+
+  public static async deleteApiToken(
+      req: Request,
+      res: Response,
+      next: NextFunction
+  ): Promise<void> {
+    if (Config.Users.authenticationRequired === false) {
+      return next(new ErrorDTO(ErrorCodes.USER_MANAGEMENT_DISABLED));
+    }
+    if (typeof req.session['user'].id === 'undefined') {
+      return next(new ErrorDTO(ErrorCodes.NOT_AUTHORISED, 'Only registered users can have API tokens'));
+    }
+    if (
+        typeof req.params === 'undefined' ||
+        typeof req.params.id === 'undefined'
+    ) {
+      return next();
+    }
+
+    try {
+      // users can only revoke their own tokens
+      await ObjectManagers.getInstance().UserManager.deleteApiToken(
+          req.session['user'].id,
+          parseInt(req.params.id, 10)
+      );
+      return next();
+    } catch (err) {
+      return next(new ErrorDTO(ErrorCodes.GENERAL_ERROR, null, err));
+    }
+  }
 }
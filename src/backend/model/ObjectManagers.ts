@@ -15,6 +15,7 @@ import {PersonManager} from './database/PersonManager';
 import {SharingManager} from './database/SharingManager';
 import {IObjectManager} from './database/IObjectManager';
 import {ExtensionManager} from './extension/ExtensionManager';
+import {WatcherManager} from './fileaccess/WatcherManager';
 
 const LOG_TAG = '[ObjectManagers]';
 
@@ -34,6 +35,7 @@ export class ObjectManagers {
   private locationManager: LocationManager;
   private albumManager: AlbumManager;
   private extensionManager: ExtensionManager;
+  private watcherManager: WatcherManager;
   private initDone = false;
 
   constructor() {
@@ -99,6 +101,7 @@ export class ObjectManagers {
     this.JobManager = new JobManager();
     this.LocationManager = new LocationManager();
     this.ExtensionManager = new ExtensionManager();
+    this.WatcherManager = new WatcherManager();
 
     for (const manager of ObjectManagers.getInstance().managers) {
       if (manager === ObjectManagers.getInstance().versionManager) {
@@ -269,4 +272,16 @@ export class ObjectManagers {
     this.extensionManager = value;
     this.managers.push(this.extensionManager as IObjectManager);
   }
+
+  get WatcherManager(): WatcherManager {
+    return this.watcherManager;
+  }
+
+  set WatcherManager(value: WatcherManager) {
+    if (this.watcherManager) {
+      this.managers.splice(this.managers.indexOf(this.watcherManager as IObjectManager), 1);
+    }
+    this.watcherManager = value;
+    this.managers.push(this.watcherManager as IObjectManager);
+  }
 }
@@ -7,6 +7,14 @@ import {SearchQueryDTO} from '../../../common/entities/SearchQueryDTO';
 import {SavedSearchEntity} from './enitites/album/SavedSearchEntity';
 import {Logger} from '../../Logger';
 import {IObjectManager} from './IObjectManager';
+import {ManualAlbumEntity} from './enitites/album/ManualAlbumEntity';
+import {ManualAlbumDTO} from '../../../common/entities/album/ManualAlbumDTO';
+import {AlbumMediaEntity} from './enitites/album/AlbumMediaEntity';
+import {MediaEntity} from './enitites/MediaEntity';
+import {SQLTextMatch} from './enitites/EntityUtils';
+import {MediaDTO} from '../../../common/entities/MediaDTO';
+import {UserDTOUtils} from '../../../common/entities/UserDTO';
+import {SearchQueryTypes, TextSearch, TextSearchQueryMatchTypes} from '../../../common/entities/SearchQueryDTO';
 
 const LOG_TAG = '[AlbumManager]';
 
@@ -16,12 +24,28 @@ export class AlbumManager implements IObjectManager {
    */
   private isDBValid = false;
 
-  private static async updateAlbum(album: SavedSearchEntity): Promise<void> {
+  /**
+   * Manual albums are listed through the album search query,
+   * so they share the cover and count logic with the saved searches.
+   */
+  public static getSearchQuery(album: AlbumBaseDTO): SearchQueryDTO {
+    if ((album as SavedSearchDTO).searchQuery) {
+      return (album as SavedSearchDTO).searchQuery;
+    }
+    return {
+      type: SearchQueryTypes.album,
+      text: album.name,
+      matchType: TextSearchQueryMatchTypes.exact_match,
+    } as TextSearch;
+  }
+
+  private static async updateAlbum(album: AlbumBaseEntity): Promise<void> {
     const connection = await SQLConnection.getConnection();
+    const searchQuery = AlbumManager.getSearchQuery(album);
     const cover =
-        await ObjectManagers.getInstance().CoverManager.getCoverForAlbum(album);
+        await ObjectManagers.getInstance().CoverManager.getCoverForAlbum({searchQuery});
     const count = await
-        ObjectManagers.getInstance().SearchManager.getCount((album as SavedSearchDTO).searchQuery);
+        ObjectManagers.getInstance().SearchManager.getCount(searchQuery);
 
     await connection
         .createQueryBuilder()
@@ -58,6 +82,161 @@ export class AlbumManager implements IObjectManager {
     await AlbumManager.updateAlbum(a);
   }
 
+  public async addManualAlbum(
+      name: string,
+      mediaIds: number[] = []
+  ): Promise<ManualAlbumDTO> {
+    const connection = await SQLConnection.getConnection();
+    if ((await connection.getRepository(ManualAlbumEntity).countBy({name})) > 0) {
+      throw new Error('Album already exists with name:' + name);
+    }
+    const album = await connection
+        .getRepository(ManualAlbumEntity)
+        .save({name, locked: false, count: 0});
+    await this.addMediaToAlbum(album.id, mediaIds);
+    return {
+      id: album.id,
+      name: album.name,
+      locked: album.locked,
+      count: mediaIds.length
+    };
+  }
+
+  /**
+   * Appends media to the end of the album. Media that is already in the album is skipped.
+   */
+  public async addMediaToAlbum(albumId: number, mediaIds: number[]): Promise<void> {
+    const album = await this.getManualAlbum(albumId);
+    const connection = await SQLConnection.getConnection();
+    const albumMedia = await this.getAlbumMediaEntries(albumId);
+    const existingIds = albumMedia.filter(am => am.media).map(am => am.media.id);
+    let position = albumMedia.length > 0 ? albumMedia[albumMedia.length - 1].position + 1 : 0;
+
+    const toAdd = mediaIds.filter((id, i) => mediaIds.indexOf(id) === i && !existingIds.includes(id));
+    if (toAdd.length === 0) {
+      return;
+    }
+    const media = await connection
+        .getRepository(MediaEntity)
+        .createQueryBuilder('media')
+        .innerJoin('media.directory', 'directory')
+        .select(['media.id', 'media.name', 'directory.name', 'directory.path'])
+        .where('media.id IN (:...ids)', {ids: toAdd})
+        .getMany();
+    if (media.length !== toAdd.length) {
+      throw new Error('Could not find all media to add, ids:' +
+          toAdd.filter(id => !media.find(m => m.id === id)).join(','));
+    }
+
+    await connection.getRepository(AlbumMediaEntity).save(
+        toAdd.map(id => media.find(m => m.id === id)).map(m => ({
+          album,
+          media: m,
+          position: position++,
+          directoryPath: m.directory.path,
+          directoryName: m.directory.name,
+          name: m.name
+        }))
+    );
+    await AlbumManager.updateAlbum(album);
+  }
+
+  public async removeMediaFromAlbum(albumId: number, mediaIds: number[]): Promise<void> {
+    const album = await this.getManualAlbum(albumId);
+    if (mediaIds.length === 0) {
+      return;
+    }
+    const connection = await SQLConnection.getConnection();
+    await connection
+        .getRepository(AlbumMediaEntity)
+        .createQueryBuilder()
+        .delete()
+        .where(SQLTextMatch.column('albumId') + ' = :albumId', {albumId})
+        .andWhere(SQLTextMatch.column('mediaId') + ' IN (:...mediaIds)', {mediaIds})
+        .execute();
+    await AlbumManager.updateAlbum(album);
+  }
+
+  /**
+   * Moves the listed media to the front of the album in the given order,
+   * the rest of the album keeps its current order behind them.
+   */
+  public async reorderAlbumMedia(albumId: number, mediaIds: number[]): Promise<void> {
+    await this.getManualAlbum(albumId);
+    const connection = await SQLConnection.getConnection();
+    const albumMedia = await this.getAlbumMediaEntries(albumId);
+    const indexOf = (am: AlbumMediaEntity): number => {
+      const i = am.media ? mediaIds.indexOf(am.media.id) : -1;
+      return i === -1 ? mediaIds.length : i;
+    };
+    // Array.sort is stable, so not listed media keeps its order
+    albumMedia.sort((a, b) => indexOf(a) - indexOf(b));
+    albumMedia.forEach((am, i) => am.position = i);
+    await connection.getRepository(AlbumMediaEntity).save(albumMedia);
+  }
+
+  /**
+   * @param permissions directories the user can access, the media of other directories are skipped
+   */
+  public async getAlbumMedia(albumId: number, permissions: string[] = null): Promise<MediaDTO[]> {
+    await this.getManualAlbum(albumId);
+    const connection = await SQLConnection.getConnection();
+    const media = (await connection
+        .getRepository(AlbumMediaEntity)
+        .createQueryBuilder('albumMedia')
+        .innerJoinAndSelect('albumMedia.media', 'media')
+        .leftJoin('media.directory', 'directory')
+        .addSelect(['directory.id', 'directory.name', 'directory.path'])
+        .where('albumMedia.album = :albumId', {albumId})
+        .orderBy('albumMedia.position', 'ASC')
+        .getMany()).map(am => am.media);
+    if (!permissions || permissions.length === 0 || permissions[0] === '/*') {
+      return media;
+    }
+    return media.filter(m => UserDTOUtils.isDirectoryAvailable(m.directory, permissions));
+  }
+
+  /**
+   * Reindexing can give new ids to the media (e.g.: after a DB reset),
+   * album entries that lost their media are matched again by directory and file name.
+   */
+  public async rematchAlbumMedia(): Promise<void> {
+    const connection = await SQLConnection.getConnection();
+    const col = SQLTextMatch.column;
+    await connection.query(
+        'UPDATE album_media_entity SET ' + col('mediaId') + ' = (' +
+        'SELECT media_entity.id FROM media_entity ' +
+        'INNER JOIN directory_entity ON directory_entity.id = media_entity.' + col('directoryId') + ' ' +
+        'WHERE media_entity.name = album_media_entity.name ' +
+        'AND directory_entity.name = album_media_entity.' + col('directoryName') + ' ' +
+        'AND directory_entity.path = album_media_entity.' + col('directoryPath') + ' LIMIT 1) ' +
+        'WHERE ' + col('mediaId') + ' IS NULL'
+    );
+  }
+
+  private async getManualAlbum(id: number): Promise<ManualAlbumEntity> {
+    const connection = await SQLConnection.getConnection();
+    const album = await connection
+        .getRepository(ManualAlbumEntity)
+        .findOneBy({id});
+    if (!album) {
+      throw new Error('Could not find manual album, id:' + id);
+    }
+    return album;
+  }
+
+  private async getAlbumMediaEntries(albumId: number): Promise<AlbumMediaEntity[]> {
+    const connection = await SQLConnection.getConnection();
+    return await connection
+        .getRepository(AlbumMediaEntity)
+        .createQueryBuilder('albumMedia')
+        .leftJoin('albumMedia.media', 'media')
+        .select(['albumMedia.id', 'albumMedia.position', 'media.id'])
+        .where('albumMedia.album = :albumId', {albumId})
+        .orderBy('albumMedia.position', 'ASC')
+        .getMany();
+  }
+
   public async deleteAlbum(id: number): Promise<void> {
     const connection = await SQLConnection.getConnection();
 
@@ -87,6 +266,7 @@ export class AlbumManager implements IObjectManager {
   }
 
   public async onNewDataVersion(): Promise<void> {
+    await this.rematchAlbumMedia();
     await this.resetCovers();
   }
 
@@ -103,7 +283,7 @@ export class AlbumManager implements IObjectManager {
     const albums = await connection.getRepository(AlbumBaseEntity).find();
 
     for (const a of albums) {
-      await AlbumManager.updateAlbum(a as SavedSearchEntity);
+      await AlbumManager.updateAlbum(a);
       // giving back the control to the main event loop (Macrotask queue)
       // https://blog.insiderattack.net/promises-next-ticks-and-immediates-nodejs-event-loop-part-3-9226cbe7a6aa
       await new Promise(setImmediate);
@@ -163,7 +163,7 @@ export class CoverManager implements IObjectManager {
             q.where('media.directory = :dir', {
               dir: dir.id,
             });
-            if (Config.Database.type === DatabaseType.mysql) {
+            if (Config.Database.type === DatabaseType.mysql || Config.Database.type === DatabaseType.postgres) {
               q.orWhere('directory.path like :path || \'%\'', {
                 path: DiskManager.pathFromParent(dir),
               });
@@ -18,6 +18,9 @@ import { DiskManager } from '../fileaccess/DiskManager';
 const LOG_TAG = '[GalleryManager]';
 
 export class GalleryManager {
+  // above this, the hash chunks are too short and nearly every photo ends up in the same bucket
+  public static readonly MAX_SIMILARITY_THRESHOLD = 16;
+
   public static parseRelativeDirePath(relativeDirectoryName: string): {
     name: string;
     parent: string;
@@ -55,8 +58,7 @@ export class GalleryManager {
       }
 
       const stat = fs.statSync(
-          path.join(ProjectPath.ImageFolder, relativeDirectoryName)
-      );
+          ProjectPath.getMediaPath(relativeDirectoryName));
       const lastModified = DiskManager.calcLastModified(stat);
 
       // If it seems that the content did not change, do not work on it
@@ -275,9 +277,161 @@ export class GalleryManager {
         true
     );
 
+    if (Config.Duplicates.perceptualHashing) {
+      const similarGroups = await this.getSimilarMedia(connection);
+      for (const group of similarGroups) {
+        // merge with the group that already lists any of the media
+        const foundDuplicates = duplicateParis.find(
+            (dp): boolean =>
+                !!dp.media.find(
+                    (m): boolean => !!group.media.find((gm): boolean => gm.id === m.id)
+                )
+        );
+        if (!foundDuplicates) {
+          duplicateParis.push(group);
+          continue;
+        }
+        group.media.forEach((gm): void => {
+          if (foundDuplicates.media.find((m): boolean => m.id === gm.id)) {
+            return;
+          }
+          foundDuplicates.media.push(gm);
+        });
+        foundDuplicates.similarities = (foundDuplicates.similarities || []).concat(group.similarities);
+      }
+    }
+
     return duplicateParis;
   }
 
+  /**
+   * Groups the media by their perceptual hash.
+   * Two media are similar if their hashes differ
+   * in at most Config.Duplicates.similarityThreshold bits.
+   * To avoid comparing every pair, hashes are split into threshold+1 chunks:
+   * if two hashes are similar, at least one of their chunks is equal (pigeonhole principle),
+   * so only media that share a chunk need to be compared.
+   * A pair is only compared in the bucket of the first chunk they share.
+   */
+  private async getSimilarMedia(connection: Connection): Promise<DuplicatesDTO[]> {
+    const threshold = Math.min(Config.Duplicates.similarityThreshold, GalleryManager.MAX_SIMILARITY_THRESHOLD);
+    const hashes: { id: number, hash: bigint }[] = (await connection
+        .getRepository(MediaEntity)
+        .createQueryBuilder('media')
+        .select(['media.id as id', 'media.metadata.perceptualHash as hash'])
+        .where('media.metadata.perceptualHash IS NOT NULL')
+        .getRawMany())
+        .map((r: { id: number, hash: string }) => ({id: r.id, hash: BigInt('0x' + r.hash)}));
+
+    const chunkCount = threshold + 1;
+    // chunk values of every hash and the media indexes by chunk value for every chunk
+    const chunks: bigint[][] = hashes.map(() => []);
+    const buckets: Map<bigint, number[]>[] = [];
+    for (let c = 0; c < chunkCount; ++c) {
+      const from = Math.floor((c * 64) / chunkCount);
+      const to = Math.floor(((c + 1) * 64) / chunkCount);
+      const mask = (BigInt(1) << BigInt(to - from)) - BigInt(1);
+      buckets.push(new Map<bigint, number[]>());
+      hashes.forEach((h, index): void => {
+        const value = (h.hash >> BigInt(from)) & mask;
+        chunks[index].push(value);
+        if (!buckets[c].has(value)) {
+          buckets[c].set(value, []);
+        }
+        buckets[c].get(value).push(index);
+      });
+    }
+    const sharesEarlierChunk = (a: number, b: number, chunk: number): boolean => {
+      for (let c = 0; c < chunk; ++c) {
+        if (chunks[a][c] === chunks[b][c]) {
+          return true;
+        }
+      }
+      return false;
+    };
+
+    const hammingDistance = (a: bigint, b: bigint): number => {
+      let x = a ^ b;
+      let count = 0;
+      while (x) {
+        x &= x - BigInt(1);
+        count++;
+      }
+      return count;
+    };
+
+    // union-find to merge the similar pairs into groups
+    const parent = hashes.map((h, i) => i);
+    const find = (i: number): number => {
+      while (parent[i] !== i) {
+        parent[i] = parent[parent[i]];
+        i = parent[i];
+      }
+      return i;
+    };
+    const pairs: { a: number, b: number, distance: number }[] = [];
+    for (let c = 0; c < chunkCount; ++c) {
+      for (const bucket of buckets[c].values()) {
+        for (let i = 0; i < bucket.length; ++i) {
+          for (let j = i + 1; j < bucket.length; ++j) {
+            // already compared in an earlier bucket
+            if (sharesEarlierChunk(bucket[i], bucket[j], c)) {
+              continue;
+            }
+            const distance = hammingDistance(hashes[bucket[i]].hash, hashes[bucket[j]].hash);
+            if (distance > threshold) {
+              continue;
+            }
+            pairs.push({a: bucket[i], b: bucket[j], distance});
+            parent[find(bucket[i])] = find(bucket[j]);
+          }
+        }
+      }
+    }
+
+    const groups = new Map<number, DuplicatesDTO>();
+    let mediaCount = 0;
+    for (const pair of pairs) {
+      const root = find(pair.a);
+      if (!groups.has(root)) {
+        if (mediaCount >= Config.Duplicates.listingLimit) {
+          continue;
+        }
+        groups.set(root, {media: [], similarities: []});
+      }
+      const group = groups.get(root);
+      for (const index of [pair.a, pair.b]) {
+        if (!group.media.find((m): boolean => m.id === hashes[index].id)) {
+          group.media.push({id: hashes[index].id} as MediaEntity);
+          mediaCount++;
+        }
+      }
+      group.similarities.push({
+        a: hashes[pair.a].id,
+        b: hashes[pair.b].id,
+        score: 1 - pair.distance / 64
+      });
+    }
+
+    // load the media with their directories
+    const mediaIds = [...groups.values()].map(g => g.media.map(m => m.id)).flat();
+    const mediaMap = new Map<number, MediaEntity>();
+    const chunkSize = 500;
+    for (let i = 0; i < mediaIds.length; i += chunkSize) {
+      (await connection
+          .getRepository(MediaEntity)
+          .createQueryBuilder('media')
+          .innerJoinAndSelect('media.directory', 'directory')
+          .where('media.id IN (:...ids)', {ids: mediaIds.slice(i, i + chunkSize)})
+          .getMany())
+          .forEach(m => mediaMap.set(m.id, m));
+    }
+    for (const group of groups.values()) {
+      group.media = group.media.map(m => mediaMap.get(m.id)).filter(m => !!m);
+    }
+    return [...groups.values()].filter(g => g.media.length > 1);
+  }
+
   /**
    * Returns with the directories only, does not include media or metafiles
    */
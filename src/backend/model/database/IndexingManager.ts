@@ -3,7 +3,7 @@ import {DirectoryEntity} from './enitites/DirectoryEntity';
 import {SQLConnection} from './SQLConnection';
 import {PhotoEntity, PhotoMetadataEntity} from './enitites/PhotoEntity';
 import {Utils} from '../../../common/Utils';
-import {PhotoMetadata,} from '../../../common/entities/PhotoDTO';
+import {FaceRegion, PhotoDTO, PhotoMetadata,} from '../../../common/entities/PhotoDTO';
 import {Connection, ObjectLiteral, Repository} from 'typeorm';
 import {MediaEntity} from './enitites/MediaEntity';
 import {MediaDTO, MediaDTOUtils} from '../../../common/entities/MediaDTO';
@@ -20,12 +20,29 @@ import * as fs from 'fs';
 import {SearchQueryDTO} from '../../../common/entities/SearchQueryDTO';
 import {PersonEntry} from './enitites/PersonEntry';
 import {PersonJunctionTable} from './enitites/PersonJunctionTable';
+import {DetectedFaceEntity} from './enitites/DetectedFaceEntity';
 import {MDFileEntity} from './enitites/MDFileEntity';
 import {MDFileDTO} from '../../../common/entities/MDFileDTO';
 import {DiskManager} from '../fileaccess/DiskManager';
+import {GalleryManager} from './GalleryManager';
 
 const LOG_TAG = '[IndexingManager]';
 
+/**
+ * What is already known about a file from the last scan
+ */
+export interface IndexedMediaDTO {
+  fileSize: number;
+  perceptualHash: string;
+  // it has a Live Photo video or an embedded Motion Photo clip
+  motion: boolean;
+}
+
+export interface IndexedDirectoryMediaDTO {
+  lastScanned: number;
+  media: Map<string, IndexedMediaDTO>;
+}
+
 export class IndexingManager {
   SavingReady: Promise<void> = null;
   private SavingReadyPR: () => void = null;
@@ -42,8 +59,7 @@ export class IndexingManager {
   ): Promise<void> {
     for (const f of files) {
       if (ServerPG2ConfMap[f.name] === ServerSidePG2ConfAction.SAVED_SEARCH) {
-        const fullMediaPath = path.join(
-          ProjectPath.ImageFolder,
+        const fullMediaPath = ProjectPath.getMediaPath(
           parent.path,
           parent.name,
           f.name
@@ -81,7 +97,8 @@ export class IndexingManager {
         // With weak devices it is possible that the media that stores
         // the galley gets unmounted that triggers a full gallery wipe.
         // Prevent it by stopping indexing on an empty folder.
-        if (fs.readdirSync(ProjectPath.ImageFolder).length === 0) {
+        // Libraries can be on different media, so their root folder is checked.
+        if (fs.readdirSync(ProjectPath.getMediaRoot(relativeDirectoryName)).length === 0) {
           return reject(new Error('Root directory is empty. This is probably error and would erase gallery database. Stopping indexing.'));
         }
 
@@ -150,7 +167,7 @@ export class IndexingManager {
   /**
    * Queues up a directory to save to the DB.
    */
-  protected async queueForSave(
+  public async queueForSave(
     scannedDirectory: ParentDirectoryDTO
   ): Promise<void> {
     // Is this dir  already queued for saving?
@@ -191,6 +208,86 @@ export class IndexingManager {
     }
   }
 
+  /**
+   * Lists the already indexed media of the directory by file name,
+   * so the scanning can skip the expensive processing of the unchanged files.
+   * @return null if the directory was not scanned yet
+   */
+  public async getIndexedMedia(relativeDirectoryName: string): Promise<IndexedDirectoryMediaDTO> {
+    const connection = await SQLConnection.getConnection();
+    const directoryPath = GalleryManager.parseRelativeDirePath(relativeDirectoryName);
+    const dir = await connection
+      .getRepository(DirectoryEntity)
+      .createQueryBuilder('directory')
+      .where('directory.name = :name AND directory.path = :path', {
+        name: directoryPath.name,
+        path: directoryPath.parent,
+      })
+      .select(['directory.id', 'directory.lastScanned'])
+      .getOne();
+    if (!dir || dir.lastScanned == null) {
+      return null;
+    }
+    const media = new Map<string, IndexedMediaDTO>();
+    (await connection
+      .getRepository(MediaEntity)
+      .createQueryBuilder('media')
+      .select(['media.name as name', 'media.metadata.fileSize as size', 'media.metadata.perceptualHash as hash',
+        'media.motion as motion'])
+      .where('media.directory = :dir', {dir: dir.id})
+      .getRawMany())
+      .forEach((r: { name: string, size: number | string, hash: string, motion: boolean | number }): void => {
+        media.set(r.name, {fileSize: Number(r.size), perceptualHash: r.hash || null, motion: !!r.motion});
+      });
+    return {lastScanned: dir.lastScanned, media};
+  }
+
+  /**
+   * Updates the user editable metadata (rating, keywords, title, caption) of an already indexed photo
+   * without rescanning its directory.
+   */
+  public async saveEditedMetadata(
+    relativeMediaPath: string,
+    metadata: PhotoMetadata
+  ): Promise<void> {
+    const connection = await SQLConnection.getConnection();
+    const directoryPath = GalleryManager.parseRelativeDirePath(
+      path.dirname(relativeMediaPath)
+    );
+    const photo = await connection
+      .getRepository(PhotoEntity)
+      .createQueryBuilder('media')
+      .innerJoin('media.directory', 'directory')
+      .where('directory.name = :dirName AND directory.path = :dirPath AND media.name = :name', {
+        dirName: directoryPath.name,
+        dirPath: directoryPath.parent,
+        name: path.basename(relativeMediaPath)
+      })
+      .select(['media.id'])
+      .getOne();
+    if (!photo) {
+      // not indexed yet, the indexing will read the sidecar
+      return;
+    }
+    await connection
+      .createQueryBuilder()
+      .update(PhotoEntity)
+      .set({
+        metadata: {
+          rating: metadata.rating || 0,
+          keywords: metadata.keywords || [],
+          title: metadata.title || null,
+          caption: metadata.caption || null
+        }
+      })
+      .where('id = :id', {id: photo.id})
+      .execute();
+    await ObjectManagers.getInstance().onDataChange({
+      name: directoryPath.name,
+      path: directoryPath.parent
+    } as ParentDirectoryDTO);
+  }
+
   protected async saveParentDir(
     connection: Connection,
     scannedDirectory: ParentDirectoryDTO
@@ -362,6 +459,7 @@ export class IndexingManager {
       .where('media.directory = :dir', {
         dir: parentDirId,
       })
+      .addSelect('media.metadata.perceptualHash')
       .getMany();
 
     const mediaChange = {
@@ -370,6 +468,8 @@ export class IndexingManager {
       insertP: [] as MediaDTO[], // insert photo
       insertV: [] as MediaDTO[], // insert video
     };
+    const namedFaces = await this.loadNamedDetectedFaces(connection, parentDirId);
+    const aliases = await ObjectManagers.getInstance().PersonManager.getAliases();
     const personsPerPhoto: { faces: { name: string, mediaId?: number }[]; mediaName: string }[] = [];
     // eslint-disable-next-line @typescript-eslint/prefer-for-of
     for (let i = 0; i < media.length; i++) {
@@ -382,6 +482,16 @@ export class IndexingManager {
         }
       }
 
+      if (aliases.size > 0 && (media[i].metadata as PhotoMetadata).faces) {
+        // indexing the renamed and merged persons with their current name
+        (media[i].metadata as PhotoMetadata).faces.forEach((f) => f.name = aliases.get(f.name.toLowerCase()) || f.name);
+      }
+      if (namedFaces.has(media[i].name)) {
+        // faces named on the faces page are not in the file, keeping them
+        const metadata = media[i].metadata as PhotoMetadata;
+        metadata.faces = (metadata.faces || []).concat(namedFaces.get(media[i].name)
+          .filter(nf => !(metadata.faces || []).some(f => f.name === nf.name)));
+      }
       const scannedFaces: { name: string }[] = (media[i].metadata as PhotoMetadata).faces || [];
       if ((media[i].metadata as PhotoMetadata).faces) {
         // if it has faces, cache them
@@ -407,8 +517,12 @@ export class IndexingManager {
       } else {
         // Media already in the DB, only needs to be updated
         delete (mediaItem.metadata as PhotoMetadata).faces;
-        if (!Utils.equalsFilter(mediaItem.metadata, media[i].metadata)) {
+        if (!Utils.equalsFilter(mediaItem.metadata, media[i].metadata) ||
+          JSON.stringify(mediaItem.alternates || []) !== JSON.stringify(media[i].alternates || []) ||
+          !!(mediaItem as PhotoDTO).motion !== !!(media[i] as PhotoDTO).motion) {
           mediaItem.metadata = media[i].metadata;
+          mediaItem.alternates = media[i].alternates || null;
+          (mediaItem as PhotoDTO).motion = (media[i] as PhotoDTO).motion || null;
           (MediaDTOUtils.isPhoto(mediaItem)
               ? mediaChange.saveP
               : mediaChange.saveV
@@ -417,7 +531,8 @@ export class IndexingManager {
       }
 
       personsPerPhoto.push({
-        faces: scannedFaces,
+        // a person is linked to a media only once, even if it is on the photo multiple times (e.g.: merged persons)
+        faces: scannedFaces.filter((f, j) => scannedFaces.findIndex((sf) => sf.name === f.name) === j),
         mediaName: mediaItem.name
       });
     }
@@ -452,6 +567,34 @@ export class IndexingManager {
     await mediaRepository.remove(indexedMedia);
   }
 
+  /**
+   * @return face regions by media name
+   */
+  protected async loadNamedDetectedFaces(
+    connection: Connection,
+    parentDirId: number
+  ): Promise<Map<string, FaceRegion[]>> {
+    const faces = await connection
+      .getRepository(DetectedFaceEntity)
+      .createQueryBuilder('face')
+      .innerJoin('face.media', 'media')
+      .innerJoin('face.person', 'person')
+      .select(['face.id', 'face.box.left', 'face.box.top', 'face.box.width', 'face.box.height',
+        'media.name', 'person.name'])
+      .where('media.directory = :dir', {
+        dir: parentDirId,
+      })
+      .getMany();
+    const ret = new Map<string, FaceRegion[]>();
+    for (const face of faces) {
+      if (!ret.has(face.media.name)) {
+        ret.set(face.media.name, []);
+      }
+      ret.get(face.media.name).push({name: face.person.name, box: face.box});
+    }
+    return ret;
+  }
+
   protected async savePersonsToMedia(
     connection: Connection,
     parentDirId: number,
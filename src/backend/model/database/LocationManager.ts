@@ -1,32 +1,91 @@
-import {GPSMetadata} from '../../../common/entities/PhotoDTO';
-import * as NodeGeocoder from 'node-geocoder';
+import {GPSMetadata, PositionMetaData} from '../../../common/entities/PhotoDTO';
 import {LocationLookupException} from '../../exceptions/LocationLookupException';
 import {LRU} from '../../../common/Utils';
 import {IObjectManager} from './IObjectManager';
 import {ParentDirectoryDTO} from '../../../common/entities/DirectoryDTO';
+import {Config} from '../../../common/config/private/Config';
+import {GeocodingProviders} from '../../../common/config/private/PrivateConfig';
+import {ProjectPath} from '../../ProjectPath';
+import {Logger} from '../../Logger';
+import {GeocodingProvider, PlaceNames} from '../geocoding/GeocodingProvider';
+import {OpenStreetMapGeocodingProvider} from '../geocoding/OpenStreetMapGeocodingProvider';
+import {OfflineGeocodingProvider} from '../geocoding/OfflineGeocodingProvider';
+
+const LOG_TAG = '[LocationManager]';
 
 export class LocationManager implements IObjectManager {
   // onNewDataVersion only need for TypeScript, otherwise the interface is not implemented.
   readonly onNewDataVersion: (changedDir?: ParentDirectoryDTO) => Promise<void>;
-  readonly geocoder: NodeGeocoder.Geocoder;
   cache = new LRU<GPSMetadata>(100);
+  reverseCache = new LRU<PlaceNames>(100);
+  private provider: GeocodingProvider = null;
+  private providerConfig: string = null;
 
-  constructor() {
-    this.geocoder = NodeGeocoder({provider: 'openstreetmap'});
+  /**
+   * Returns the configured geocoding provider. It is recreated if the config changes.
+   */
+  get Provider(): GeocodingProvider {
+    const providerConfig = Config.Map.Geocoding.provider + ':' + Config.Map.Geocoding.offlineDataset;
+    if (this.providerConfig !== providerConfig) {
+      if (Config.Map.Geocoding.provider === GeocodingProviders.offline) {
+        this.provider = new OfflineGeocodingProvider(Config.Map.Geocoding.offlineDataset ?
+          ProjectPath.getAbsolutePath(Config.Map.Geocoding.offlineDataset) : null);
+      } else {
+        this.provider = new OpenStreetMapGeocodingProvider();
+      }
+      this.providerConfig = providerConfig;
+      this.cache = new LRU<GPSMetadata>(100);
+      this.reverseCache = new LRU<PlaceNames>(100);
+    }
+    return this.provider;
   }
 
   async getGPSData(text: string): Promise<GPSMetadata> {
     if (!this.cache.get(text)) {
-      const ret = await this.geocoder.geocode(text);
-      if (ret.length < 1) {
+      const ret = await this.Provider.geocode(text);
+      if (!ret) {
         throw new LocationLookupException('Cannot find location:' + text, text);
       }
-      this.cache.set(text, {
-        latitude: ret[0].latitude,
-        longitude: ret[0].longitude,
-      });
+      this.cache.set(text, ret);
     }
 
     return this.cache.get(text);
   }
+
+  async getPlaceNames(gps: GPSMetadata): Promise<PlaceNames> {
+    // ~100m precision is plenty for city level lookup
+    const key = gps.latitude.toFixed(3) + ',' + gps.longitude.toFixed(3);
+    if (!this.reverseCache.get(key)) {
+      const ret = await this.Provider.reverse(gps);
+      if (!ret) {
+        return null;
+      }
+      this.reverseCache.set(key, ret);
+    }
+    return this.reverseCache.get(key);
+  }
+
+  /**
+   * Fills the missing city, state and country from the GPS coordinates.
+   * Lookup errors are logged, but not thrown, so they do not break indexing.
+   */
+  async fillPositionData(positionData: PositionMetaData): Promise<void> {
+    if (!positionData?.GPSData ||
+      typeof positionData.GPSData.latitude !== 'number' ||
+      typeof positionData.GPSData.longitude !== 'number' ||
+      (positionData.city && positionData.state && positionData.country)) {
+      return;
+    }
+    try {
+      const names = await this.getPlaceNames(positionData.GPSData);
+      if (!names) {
+        return;
+      }
+      positionData.city = positionData.city || names.city;
+      positionData.state = positionData.state || names.state;
+      positionData.country = positionData.country || names.country;
+    } catch (err) {
+      Logger.warn(LOG_TAG, 'Can\'t look up location names', err.toString());
+    }
+  }
 }
@@ -2,9 +2,20 @@ import {SQLConnection} from './SQLConnection';
 import {PersonEntry} from './enitites/PersonEntry';
 import {PersonDTO} from '../../../common/entities/PersonDTO';
 import {Logger} from '../../Logger';
-import {SQL_COLLATE} from './enitites/EntityUtils';
+import {SQLTextMatch} from './enitites/EntityUtils';
 import {PersonJunctionTable} from './enitites/PersonJunctionTable';
 import {IObjectManager} from './IObjectManager';
+import {DetectedFaceEntity} from './enitites/DetectedFaceEntity';
+import {PhotoEntity, PhotoMetadataEntity} from './enitites/PhotoEntity';
+import {MediaEntity} from './enitites/MediaEntity';
+import {FaceClusterDTO} from '../../../common/entities/FaceClusterDTO';
+import {FaceRegionBox, PhotoDTO} from '../../../common/entities/PhotoDTO';
+import {DetectedFace} from '../fileaccess/FaceDetector';
+import {Config} from '../../../common/config/private/Config';
+import {PersonAliasEntity} from './enitites/PersonAliasEntity';
+import {Connection, In} from 'typeorm';
+import {GalleryManager} from './GalleryManager';
+import * as path from 'path';
 
 const LOG_TAG = '[PersonManager]';
 
@@ -17,9 +28,10 @@ export class PersonManager implements IObjectManager {
 
   private static async updateCounts(): Promise<void> {
     const connection = await SQLConnection.getConnection();
+    const col = SQLTextMatch.column;
     await connection.query(
         'UPDATE person_entry SET count = ' +
-        ' (SELECT COUNT(1) FROM person_junction_table WHERE person_junction_table.personId = person_entry.id)'
+        ' (SELECT COUNT(1) FROM person_junction_table WHERE person_junction_table.' + col('personId') + ' = person_entry.id)'
     );
 
     // remove persons without photo
@@ -33,14 +45,17 @@ export class PersonManager implements IObjectManager {
 
   private static async updateSamplePhotos(): Promise<void> {
     const connection = await SQLConnection.getConnection();
+    const col = SQLTextMatch.column;
+    // the user picked sample region wins
     await connection.query(
-        'update person_entry set sampleRegionId = ' +
+        'update person_entry set ' + col('sampleRegionId') + ' = ' +
+        'COALESCE(person_entry.' + col('coverRegionId') + ', ' +
         '(Select person_junction_table.id from  media_entity ' +
-        'left join person_junction_table on media_entity.id = person_junction_table.mediaId ' +
-        'where person_junction_table.personId=person_entry.id ' +
-        'order by media_entity.metadataRating desc, ' +
-        'media_entity.metadataCreationdate desc ' +
-        'limit 1)'
+        'left join person_junction_table on media_entity.id = person_junction_table.' + col('mediaId') + ' ' +
+        'where person_junction_table.' + col('personId') + '=person_entry.id ' +
+        'order by media_entity.' + col('metadataRating') + ' desc, ' +
+        'media_entity.' + col('metadataCreationDate') + ' desc ' +
+        'limit 1))'
     );
   }
 
@@ -51,18 +66,31 @@ export class PersonManager implements IObjectManager {
     this.isDBValid = false;
     const connection = await SQLConnection.getConnection();
     const repository = connection.getRepository(PersonEntry);
-    const person = await repository
+    let person = await repository
         .createQueryBuilder('person')
         .limit(1)
-        .where('person.name LIKE :name COLLATE ' + SQL_COLLATE, {name})
+        .where(`person.name ${SQLTextMatch.like()} :name${SQLTextMatch.collate}`, {name})
         .getOne();
+    if (!person) {
+      throw new Error('Person not found: ' + name);
+    }
 
-    if (typeof partialPerson.name !== 'undefined') {
-      person.name = partialPerson.name;
+    if (typeof partialPerson.name !== 'undefined' && partialPerson.name !== person.name) {
+      const existing = await repository.findOneBy({name: partialPerson.name});
+      // MySQL matches names case-insensitively, a case-only rename finds the same person
+      if (existing && existing.id !== person.id) {
+        // renaming to an existing person is the same as merging into that
+        person = await this.mergePersons(existing.name, [person.name]);
+      } else {
+        await this.renamePerson(connection, person, partialPerson.name);
+      }
     }
     if (typeof partialPerson.isFavourite !== 'undefined') {
       person.isFavourite = partialPerson.isFavourite;
     }
+    if (typeof partialPerson.isHidden !== 'undefined') {
+      person.isHidden = partialPerson.isHidden;
+    }
     await repository.save(person);
 
     await this.loadAll();
@@ -70,6 +98,175 @@ export class PersonManager implements IObjectManager {
     return person;
   }
 
+  /**
+   * Merges the persons into the target person.
+   * Their names are kept as aliases, so reindexing the photos does not split them again.
+   */
+  public async mergePersons(targetName: string, names: string[]): Promise<PersonEntry> {
+    const connection = await SQLConnection.getConnection();
+    const personRepository = connection.getRepository(PersonEntry);
+    const junctionRepository = connection.getRepository(PersonJunctionTable);
+    const target = await personRepository.findOneBy({name: targetName});
+    if (!target) {
+      throw new Error('Person not found: ' + targetName);
+    }
+    const sources = (await personRepository.findBy({name: In(names)}))
+        .filter(p => p.id !== target.id);
+    if (sources.length === 0) {
+      return target;
+    }
+    const sourceIds = sources.map(p => p.id);
+
+    const faces = await junctionRepository
+        .createQueryBuilder('face')
+        .leftJoin('face.media', 'media')
+        .leftJoin('face.person', 'person')
+        .select(['face.id', 'media.id', 'person.id'])
+        .where('person.id IN (:...ids)', {ids: [target.id, ...sourceIds]})
+        .getMany();
+    const targetMedia = new Set(faces.filter(f => f.person.id === target.id).map(f => f.media.id));
+    const sourceMedia = [...new Set(faces.filter(f => f.person.id !== target.id).map(f => f.media.id))];
+    const toLink = sourceMedia.filter(id => !targetMedia.has(id));
+    for (let i = 0; i < toLink.length; i += 200) {
+      await junctionRepository.insert(toLink.slice(i, i + 200)
+          .map(id => ({person: {id: target.id}, media: {id}})));
+    }
+    await PersonManager.replaceNamesInMedia(connection, sources.map(p => p.name), target.name, sourceMedia);
+    await connection.getRepository(DetectedFaceEntity)
+        .createQueryBuilder()
+        .update()
+        .set({person: {id: target.id}})
+        .where(SQLTextMatch.column('personId') + ' IN (:...ids)', {ids: sourceIds})
+        .execute();
+    await PersonManager.saveAliases(connection, target, sources);
+    // junctions of the merged persons are deleted with them
+    await personRepository.delete(sourceIds);
+
+    await this.resetPreviews();
+    await this.updateDerivedValues();
+    return await personRepository.findOneBy({id: target.id});
+  }
+
+  /**
+   * Sets which photo of the person is used for the thumbnail.
+   * @param relativeMediaPath null to go back to the automatic choice
+   */
+  public async setCover(name: string, relativeMediaPath: string): Promise<PersonEntry> {
+    const connection = await SQLConnection.getConnection();
+    const personRepository = connection.getRepository(PersonEntry);
+    const person = await personRepository.findOneBy({name});
+    if (!person) {
+      throw new Error('Person not found: ' + name);
+    }
+    let region: PersonJunctionTable = null;
+    if (relativeMediaPath !== null) {
+      const directoryPath = GalleryManager.parseRelativeDirePath(
+          path.dirname(relativeMediaPath)
+      );
+      region = await connection.getRepository(PersonJunctionTable)
+          .createQueryBuilder('face')
+          .innerJoin('face.media', 'media')
+          .innerJoin('media.directory', 'directory')
+          .innerJoin('face.person', 'person')
+          .where('person.id = :person', {person: person.id})
+          .andWhere('directory.name = :dirName AND directory.path = :dirPath AND media.name = :name', {
+            dirName: directoryPath.name,
+            dirPath: directoryPath.parent,
+            name: path.basename(relativeMediaPath)
+          })
+          .getOne();
+      if (!region) {
+        throw new Error(name + ' is not on: ' + relativeMediaPath);
+      }
+    }
+    await personRepository.update(person.id, {coverRegion: region});
+
+    await this.resetPreviews();
+    await this.updateDerivedValues();
+    return await personRepository.findOneBy({id: person.id});
+  }
+
+  /**
+   * @return canonical person name by lower case alias, as the persons are matched case-insensitively
+   */
+  public async getAliases(): Promise<Map<string, string>> {
+    const connection = await SQLConnection.getConnection();
+    const aliases = await connection.getRepository(PersonAliasEntity)
+        .createQueryBuilder('alias')
+        .leftJoin('alias.person', 'person')
+        .select(['alias.id', 'alias.name', 'person.id', 'person.name'])
+        .getMany();
+    return new Map(aliases.map((a): [string, string] => [a.name.toLowerCase(), a.person.name]));
+  }
+
+  private async renamePerson(connection: Connection, person: PersonEntry, name: string): Promise<void> {
+    const mediaIds = (await connection.getRepository(PersonJunctionTable)
+        .createQueryBuilder('face')
+        .leftJoin('face.media', 'media')
+        .leftJoin('face.person', 'person')
+        .select(['face.id', 'media.id'])
+        .where('person.id = :person', {person: person.id})
+        .getMany()).map(f => f.media.id);
+    await PersonManager.replaceNamesInMedia(connection, [person.name], name, mediaIds);
+    const oldName = person.name;
+    person.name = name;
+    await PersonManager.saveAliases(connection, person, [{id: person.id, name: oldName}]);
+    this.isDBValid = false;
+  }
+
+  /**
+   * Keeps the former names of the persons as aliases of the target.
+   */
+  private static async saveAliases(connection: Connection,
+                                   target: PersonEntry,
+                                   formerPersons: { id: number, name: string }[]): Promise<void> {
+    const aliasRepository = connection.getRepository(PersonAliasEntity);
+    // the current name of a person can't be an alias
+    await aliasRepository.delete({name: target.name});
+    await aliasRepository
+        .createQueryBuilder()
+        .update()
+        .set({person: {id: target.id}})
+        .where(SQLTextMatch.column('personId') + ' IN (:...ids)', {ids: formerPersons.map(p => p.id)})
+        .execute();
+    const names = formerPersons.map(p => p.name).filter(n => n !== target.name);
+    if (names.length === 0) {
+      return;
+    }
+    await aliasRepository.delete({name: In(names)});
+    await aliasRepository.insert(names.map(n => ({name: n, person: {id: target.id}})));
+  }
+
+  /**
+   * Renames the faces in the metadata of the media, like they were tagged with the new name.
+   */
+  private static async replaceNamesInMedia(connection: Connection,
+                                           oldNames: string[],
+                                           name: string,
+                                           mediaIds: number[]): Promise<void> {
+    const mediaRepository = connection.getRepository(MediaEntity);
+    for (let i = 0; i < mediaIds.length; i += 200) {
+      const media = await mediaRepository
+          .createQueryBuilder('media')
+          .select(['media.id', 'media.metadata.faces', 'media.metadata.persons'])
+          .whereInIds(mediaIds.slice(i, i + 200))
+          .getMany();
+      for (const m of media) {
+        const metadata = m.metadata as PhotoMetadataEntity;
+        metadata.faces = (metadata.faces || [])
+            .map(f => oldNames.includes(f.name) ? {...f, name} : f);
+        metadata.persons = [...new Set(metadata.faces.map(f => f.name))];
+        await mediaRepository.update(m.id, {
+          metadata: {
+            faces: metadata.faces,
+            persons: metadata.persons,
+            personsLength: metadata.persons.length
+          }
+        });
+      }
+    }
+  }
+
   public async getAll(): Promise<PersonEntry[]> {
     if (this.persons === null) {
       await this.loadAll();
@@ -129,6 +326,239 @@ export class PersonManager implements IObjectManager {
     this.isDBValid = false;
   }
 
+  /**
+   * Replaces the not yet named detected faces of the photo.
+   * Faces that are already tagged on the photo are skipped.
+   */
+  public async saveDetectedFaces(photo: PhotoDTO, faces: DetectedFace[]): Promise<void> {
+    const connection = await SQLConnection.getConnection();
+    const faceRepository = connection.getRepository(DetectedFaceEntity);
+    const tagged = (photo.metadata.faces || []).filter(f => f.box);
+    const untagged = faces.filter(f => !tagged.some(t => PersonManager.isSameFace(t.box, f.box)));
+
+    await faceRepository
+        .createQueryBuilder()
+        .delete()
+        .where(SQLTextMatch.column('mediaId') + ' = :mediaId', {mediaId: photo.id})
+        .andWhere(SQLTextMatch.column('personId') + ' IS NULL')
+        .execute();
+    if (untagged.length > 0) {
+      await faceRepository.insert(untagged.map(f => ({
+        media: {id: photo.id},
+        box: f.box,
+        confidence: f.confidence,
+        // no need for full float precision
+        embedding: f.embedding.map(v => Math.round(v * 1e6) / 1e6),
+        cluster: null
+      })));
+    }
+    await connection.getRepository(PhotoEntity).update(photo.id, {facesDetected: true});
+  }
+
+  /**
+   * Groups the not yet named detected faces by similarity.
+   * @return number of clusters
+   */
+  public async clusterFaces(): Promise<number> {
+    const connection = await SQLConnection.getConnection();
+    const faceRepository = connection.getRepository(DetectedFaceEntity);
+    const faces = await faceRepository
+        .createQueryBuilder('face')
+        .select(['face.id', 'face.embedding'])
+        .where('face.person IS NULL')
+        .orderBy('face.id')
+        .getMany();
+    const clusters = PersonManager.clusterEmbeddings(
+        faces.map(f => f.embedding),
+        Config.Faces.Detection.clusterDistance,
+        Config.Faces.Detection.minClusterSize
+    );
+
+    await faceRepository
+        .createQueryBuilder()
+        .update()
+        .set({cluster: null})
+        .where(SQLTextMatch.column('personId') + ' IS NULL')
+        .execute();
+    const idsByCluster = new Map<number, number[]>();
+    clusters.forEach((c, i) => {
+      if (c === null) {
+        return;
+      }
+      if (!idsByCluster.has(c)) {
+        idsByCluster.set(c, []);
+      }
+      idsByCluster.get(c).push(faces[i].id);
+    });
+    for (const [cluster, ids] of idsByCluster) {
+      for (let i = 0; i < ids.length; i += 500) {
+        await faceRepository
+            .createQueryBuilder()
+            .update()
+            .set({cluster})
+            .whereInIds(ids.slice(i, i + 500))
+            .execute();
+      }
+    }
+    return idsByCluster.size;
+  }
+
+  /**
+   * Lists the clusters that are not named yet, the biggest first.
+   */
+  public async getFaceClusters(): Promise<FaceClusterDTO[]> {
+    const connection = await SQLConnection.getConnection();
+    const rows: { id: string, count: string, sampleFaceId: string }[] = await connection
+        .getRepository(DetectedFaceEntity)
+        .createQueryBuilder('face')
+        .select('face.cluster', 'id')
+        .addSelect('COUNT(*)', 'count')
+        .addSelect('MIN(face.id)', 'sampleFaceId')
+        .where('face.cluster IS NOT NULL')
+        .andWhere('face.person IS NULL')
+        .groupBy('face.cluster')
+        .getRawMany();
+    return rows
+        .map((r): FaceClusterDTO => ({
+          id: parseInt(r.id, 10),
+          count: parseInt(r.count, 10),
+          sampleFaceId: parseInt(r.sampleFaceId, 10)
+        }))
+        .sort((a, b) => b.count - a.count || a.id - b.id);
+  }
+
+  public async getDetectedFace(id: number): Promise<DetectedFaceEntity> {
+    const connection = await SQLConnection.getConnection();
+    return await connection.getRepository(DetectedFaceEntity).findOne({
+      where: {id},
+      relations: ['media', 'media.directory']
+    });
+  }
+
+  /**
+   * Links all faces of the cluster to the person with the given name.
+   * The person is created if it does not exist yet.
+   * The faces are also added to the face regions of the photos, like they were tagged.
+   */
+  public async nameFaceCluster(cluster: number, name: string): Promise<PersonEntry> {
+    const connection = await SQLConnection.getConnection();
+    const faceRepository = connection.getRepository(DetectedFaceEntity);
+    const personRepository = connection.getRepository(PersonEntry);
+    const faces = await faceRepository
+        .createQueryBuilder('face')
+        .leftJoin('face.media', 'media')
+        .addSelect('media.id')
+        .where('face.cluster = :cluster', {cluster})
+        .andWhere('face.person IS NULL')
+        .getMany();
+    if (faces.length === 0) {
+      throw new Error('Face cluster not found: ' + cluster);
+    }
+    // naming with a former name of a person is the same as naming with the current one
+    name = (await this.getAliases()).get(name.toLowerCase()) || name;
+
+    let person = await personRepository.findOneBy({name});
+    if (!person) {
+      person = await personRepository.save(personRepository.create({name}));
+    }
+
+    const mediaIds = [...new Set(faces.map(f => f.media.id))];
+    const photos = await connection
+        .getRepository(MediaEntity)
+        .createQueryBuilder('media')
+        .select(['media.id', 'media.metadata.faces', 'media.metadata.persons'])
+        .whereInIds(mediaIds)
+        .getMany();
+    for (const photo of photos) {
+      const metadata = photo.metadata as PhotoMetadataEntity;
+      metadata.faces = (metadata.faces || []).concat(faces
+          .filter(f => f.media.id === photo.id)
+          .map(f => ({name, box: f.box})));
+      metadata.persons = [...new Set(metadata.faces.map(f => f.name))];
+      await connection.getRepository(MediaEntity).update(photo.id, {
+        metadata: {
+          faces: metadata.faces,
+          persons: metadata.persons,
+          personsLength: metadata.persons.length
+        }
+      });
+    }
+
+    const linked = (await connection
+        .getRepository(PersonJunctionTable)
+        .createQueryBuilder('face')
+        .leftJoin('face.media', 'media')
+        .select(['face.id', 'media.id'])
+        .where('face.person = :person', {person: person.id})
+        .getMany()).map(j => j.media.id);
+    const toLink = mediaIds.filter(id => !linked.includes(id));
+    if (toLink.length > 0) {
+      await connection.getRepository(PersonJunctionTable)
+          .insert(toLink.map(id => ({person: {id: person.id}, media: {id}})));
+    }
+    await faceRepository
+        .createQueryBuilder()
+        .update()
+        .set({person: {id: person.id}})
+        .whereInIds(faces.map(f => f.id))
+        .execute();
+
+    await this.resetPreviews();
+    await this.updateDerivedValues();
+    return await personRepository.findOneBy({id: person.id});
+  }
+
+  /**
+   * Greedy clustering: every face joins the closest cluster if it is close enough to the centroid of it,
+   * otherwise it starts a new cluster.
+   * @param embeddings L2 normalized feature vectors
+   * @param maxDistance max cosine distance from the cluster centroid
+   * @param minSize smaller clusters are dropped
+   * @return cluster of the embeddings or null if it is not in any cluster. Clusters are numbered from 1 by decreasing size.
+   */
+  public static clusterEmbeddings(embeddings: number[][], maxDistance: number, minSize: number): number[] {
+    type Cluster = { sum: number[], length: number, members: number[] };
+    const clusters: Cluster[] = [];
+    embeddings.forEach((embedding, i) => {
+      let closest: Cluster = null;
+      let closestDistance = maxDistance;
+      for (const c of clusters) {
+        const distance = 1 - c.sum.reduce((dot, v, j) => dot + v * embedding[j], 0) / c.length;
+        if (distance < closestDistance) {
+          closest = c;
+          closestDistance = distance;
+        }
+      }
+      if (!closest) {
+        clusters.push({sum: embedding.slice(), length: 1, members: [i]});
+        return;
+      }
+      closest.members.push(i);
+      embedding.forEach((v, j) => closest.sum[j] += v);
+      closest.length = Math.sqrt(closest.sum.reduce((sum, v) => sum + v * v, 0));
+    });
+
+    const ret: number[] = embeddings.map((): number => null);
+    clusters
+        .filter(c => c.members.length >= minSize)
+        .sort((a, b) => b.members.length - a.members.length)
+        .forEach((c, i) => c.members.forEach(m => ret[m] = i + 1));
+    return ret;
+  }
+
+  /**
+   * The face regions of other apps can be bigger or smaller than the detected ones,
+   * so it is the same face if most of the smaller box overlaps with the other.
+   */
+  private static isSameFace(a: FaceRegionBox, b: FaceRegionBox): boolean {
+    const w = Math.min(a.left + a.width, b.left + b.width) - Math.max(a.left, b.left);
+    const h = Math.min(a.top + a.height, b.top + b.height) - Math.max(a.top, b.top);
+    if (w <= 0 || h <= 0) {
+      return false;
+    }
+    return w * h >= 0.5 * Math.min(a.width * a.height, b.width * b.height);
+  }
+
   public async onNewDataVersion(): Promise<void> {
     await this.resetPreviews();
   }
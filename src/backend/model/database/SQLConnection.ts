@@ -1,28 +1,42 @@
 import 'reflect-metadata';
-import {Connection, createConnection, DataSourceOptions, getConnection, LoggerOptions,} from 'typeorm';
+import {Connection, createConnection, DataSourceOptions, getConnection, LoggerOptions, MigrationExecutor,} from 'typeorm';
 import {UserEntity} from './enitites/UserEntity';
+import {ApiTokenEntity} from './enitites/ApiTokenEntity';
 import {UserRoles} from '../../../common/entities/UserDTO';
 import {PhotoEntity} from './enitites/PhotoEntity';
 import {DirectoryEntity} from './enitites/DirectoryEntity';
 import {Config} from '../../../common/config/private/Config';
 import {SharingEntity} from './enitites/SharingEntity';
+import {SharingAccessEntity} from './enitites/SharingAccessEntity';
 import {PasswordHelper} from '../PasswordHelper';
 import {ProjectPath} from '../../ProjectPath';
 import {VersionEntity} from './enitites/VersionEntity';
 import {Logger} from '../../Logger';
 import {MediaEntity} from './enitites/MediaEntity';
 import {VideoEntity} from './enitites/VideoEntity';
-import {DataStructureVersion} from '../../../common/DataStructureVersion';
+import {DataStructureVersion, MigratableDataStructureVersion} from '../../../common/DataStructureVersion';
 import {FileEntity} from './enitites/FileEntity';
 import {PersonEntry} from './enitites/PersonEntry';
 import {Utils} from '../../../common/Utils';
 import * as path from 'path';
+import * as fs from 'fs';
 import {DatabaseType, ServerDataBaseConfig, SQLLogLevel,} from '../../../common/config/private/PrivateConfig';
 import {AlbumBaseEntity} from './enitites/album/AlbumBaseEntity';
 import {SavedSearchEntity} from './enitites/album/SavedSearchEntity';
+import {ManualAlbumEntity} from './enitites/album/ManualAlbumEntity';
+import {AlbumMediaEntity} from './enitites/album/AlbumMediaEntity';
 import {NotificationManager} from '../NotifocationManager';
 import {PersonJunctionTable} from './enitites/PersonJunctionTable';
 import {MDFileEntity} from './enitites/MDFileEntity';
+import {CompatibleColumnTypes1792368000000} from './migrations/1792368000000-CompatibleColumnTypes';
+import {MediaAlternates1792411200000} from './migrations/1792411200000-MediaAlternates';
+import {PhotoMotion1792454400000} from './migrations/1792454400000-PhotoMotion';
+import {DetectedFaces1792497600000} from './migrations/1792497600000-DetectedFaces';
+import {PersonManagement1792540800000} from './migrations/1792540800000-PersonManagement';
+import {JobHistory1792584000000} from './migrations/1792584000000-JobHistory';
+import {DetectedFaceEntity} from './enitites/DetectedFaceEntity';
+import {PersonAliasEntity} from './enitites/PersonAliasEntity';
+import {JobHistoryEntity, JobHistoryLogEntity} from './enitites/JobHistoryEntity';
 
 const LOG_TAG = '[SQLConnection]';
 
@@ -47,18 +61,40 @@ export class SQLConnection {
   // eslint-disable-next-line @typescript-eslint/ban-types
   private static entries: Function[] = [
     UserEntity,
+    ApiTokenEntity,
     FileEntity,
     MDFileEntity,
     PersonJunctionTable,
     PersonEntry,
+    PersonAliasEntity,
+    DetectedFaceEntity,
     MediaEntity,
     PhotoEntity,
     VideoEntity,
     DirectoryEntity,
     SharingEntity,
+    SharingAccessEntity,
     AlbumBaseEntity,
     SavedSearchEntity,
+    ManualAlbumEntity,
+    AlbumMediaEntity,
     VersionEntity,
+    JobHistoryEntity,
+    JobHistoryLogEntity,
+  ];
+
+  /**
+   * Scheme changes after DataStructureVersion, in the order of their timestamps.
+   * Every migration needs to be reversible (implement down()).
+   */
+  // eslint-disable-next-line @typescript-eslint/ban-types
+  private static migrations: Function[] = [
+    CompatibleColumnTypes1792368000000,
+    MediaAlternates1792411200000,
+    PhotoMotion1792454400000,
+    DetectedFaces1792497600000,
+    PersonManagement1792540800000,
+    JobHistory1792584000000,
   ];
 
   private static connection: Connection = null;
@@ -75,7 +111,7 @@ export class SQLConnection {
         options.type
       );
       this.connection = await this.createConnection(options);
-      await SQLConnection.schemeSync(this.connection);
+      await SQLConnection.schemeSync(this.connection, Config.Database);
     }
     return this.connection;
   }
@@ -91,7 +127,7 @@ export class SQLConnection {
     const options = this.getDriver(config);
     options.name = 'test';
     const conn = await this.createConnection(options);
-    await SQLConnection.schemeSync(conn);
+    await SQLConnection.schemeSync(conn, config);
     await conn.close();
     return true;
   }
@@ -161,7 +197,8 @@ export class SQLConnection {
   }
 
   private static FIXED_SQL_TABLE = [
-    'sqlite_sequence'
+    'sqlite_sequence',
+    'migrations' // list of the applied migrations, maintained by typeorm
   ];
 
   /**
@@ -176,8 +213,10 @@ export class SQLConnection {
       currentTables = (await conn.query('SELECT name FROM sqlite_master  WHERE type=\'table\''))
         .map((r: { name: string }) => r.name);
     } else {
+      const schema = Config.Database.type === DatabaseType.postgres ?
+        Config.Database.postgres.schema : Config.Database.mysql.database;
       currentTables = (await conn.query(`SELECT table_name FROM information_schema.tables ` +
-        `WHERE table_schema = '${Config.Database.mysql.database}'`))
+        `WHERE table_schema = '${schema}' AND table_type = 'BASE TABLE'`))
         .map((r: { table_name: string }) => r.table_name);
     }
 
@@ -213,20 +252,45 @@ export class SQLConnection {
         await tmpConn.close();
         return await createConnection(options);
       }
+      // invalid_catalog_name, see: https://www.postgresql.org/docs/current/errcodes-appendix.html
+      if (options.type === 'postgres' && e.code === '3D000') {
+        Logger.debug(LOG_TAG, 'creating database: ' + options.database);
+        const tmpConn = await createConnection({...options, database: 'postgres'});
+        await tmpConn.query('CREATE DATABASE "' + options.database + '"');
+        await tmpConn.close();
+        return await createConnection(options);
+      }
       throw e;
     }
   }
 
-  private static async schemeSync(connection: Connection): Promise<void> {
+  private static async schemeSync(connection: Connection, config: ServerDataBaseConfig): Promise<void> {
     let version = null;
     try {
       version = (await connection.getRepository(VersionEntity).find())[0];
       // eslint-disable-next-line no-empty
     } catch (ex) {
     }
-    if (version && version.version === DataStructureVersion) {
+    if (version &&
+      version.version >= MigratableDataStructureVersion &&
+      version.version <= DataStructureVersion) {
+      if (!(await SQLConnection.runMigrations(connection, config))) {
+        return;
+      }
+      if (version.version !== DataStructureVersion) {
+        version.version = DataStructureVersion;
+        await connection.getRepository(VersionEntity).save(version);
+      }
       return;
     }
+    if (version) {
+      Logger.info(LOG_TAG, 'Database scheme version ' + version.version + ' can\'t be migrated, recreating it');
+      if (config.migrationDryRun) {
+        Logger.warn(LOG_TAG, 'Database migration dry run: the database would be recreated (only the users are kept), leaving it unchanged');
+        return;
+      }
+      await SQLConnection.backupDB(connection, config);
+    }
     Logger.info(LOG_TAG, 'Updating database scheme');
     if (!version) {
       version = new VersionEntity();
@@ -257,6 +321,45 @@ export class SQLConnection {
         e.toString()
       );
     }
+    // the new scheme is already up-to-date, only marking the migrations as applied
+    await connection.runMigrations({transaction: 'all', fake: true});
+  }
+
+  /**
+   * @return false if the migrations were not applied because of a dry run
+   */
+  private static async runMigrations(connection: Connection, config: ServerDataBaseConfig): Promise<boolean> {
+    const pending = await new MigrationExecutor(connection).getPendingMigrations();
+    if (pending.length === 0) {
+      return true;
+    }
+    Logger.info(LOG_TAG, 'Pending database migrations: ' + pending.map(m => m.name).join(', '));
+    if (config.migrationDryRun) {
+      Logger.warn(LOG_TAG, 'Database migration dry run: ' + pending.length + ' migration(s) are pending, not applying them');
+      return false;
+    }
+    await SQLConnection.backupDB(connection, config);
+    await connection.runMigrations({transaction: 'each'});
+    Logger.info(LOG_TAG, 'Applied ' + pending.length + ' database migration(s)');
+    return true;
+  }
+
+  /**
+   * Copies the SQLite db file next to the original before the scheme changes.
+   * MySQL and PostgreSQL databases need to be backed up manually.
+   */
+  private static async backupDB(connection: Connection, config: ServerDataBaseConfig): Promise<void> {
+    if (!config.backupBeforeMigration) {
+      return;
+    }
+    if (config.type !== DatabaseType.sqlite) {
+      Logger.warn(LOG_TAG, 'Automatic backup is only supported for SQLite, make sure that you have a backup of the database');
+      return;
+    }
+    const dbFile = connection.options.database as string;
+    const backupFile = dbFile + '.' + Date.now() + '.bak';
+    await fs.promises.copyFile(dbFile, backupFile);
+    Logger.info(LOG_TAG, 'Database backed up to: ' + backupFile);
   }
 
 
@@ -272,6 +375,16 @@ export class SQLConnection {
         database: config.mysql.database,
         charset: 'utf8mb4',
       };
+    } else if (config.type === DatabaseType.postgres) {
+      driver = {
+        type: 'postgres',
+        host: config.postgres.host,
+        port: config.postgres.port,
+        username: config.postgres.username,
+        password: config.postgres.password,
+        database: config.postgres.database,
+        schema: config.postgres.schema,
+      };
     } else if (config.type === DatabaseType.sqlite) {
       driver = {
         type: 'better-sqlite3',
@@ -282,6 +395,7 @@ export class SQLConnection {
       };
     }
     driver.entities = this.entries;
+    driver.migrations = this.migrations;
     driver.synchronize = false;
     if (Config.Server.Log.sqlLevel !== SQLLogLevel.none) {
       driver.logging = SQLLogLevel[Config.Server.Log.sqlLevel] as LoggerOptions;
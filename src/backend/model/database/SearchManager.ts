@@ -1,4 +1,5 @@
 /* eslint-disable no-case-declarations */
+import * as path from 'path';
 import {AutoCompleteItem} from '../../../common/entities/AutoCompleteItem';
 import {SearchResultDTO} from '../../../common/entities/SearchResultDTO';
 import {SQLConnection} from './SQLConnection';
@@ -22,11 +23,13 @@ import {
   MinResolutionSearch,
   OrientationSearch,
   ORSearchQuery,
+  RangeSearch,
   SearchListQuery,
   SearchQueryDTO,
   SearchQueryTypes,
   SomeOfSearchQuery,
   TextSearch,
+  MinRangeSearchQueryTypes,
   TextSearchQueryMatchTypes,
   ToDateSearch,
 } from '../../../common/entities/SearchQueryDTO';
@@ -35,10 +38,17 @@ import {ObjectManagers} from '../ObjectManagers';
 import {DatabaseType} from '../../../common/config/private/PrivateConfig';
 import {Utils} from '../../../common/Utils';
 import {FileEntity} from './enitites/FileEntity';
-import {SQL_COLLATE} from './enitites/EntityUtils';
+import {SQLTextMatch} from './enitites/EntityUtils';
+import {ProjectPath} from '../../ProjectPath';
 import {GroupSortByTypes, SortByTypes, SortingMethod} from '../../../common/entities/SortingMethods';
+import {MapClusterDTO, MapTileDTO} from '../../../common/entities/MapClusterDTO';
+import {UserDTOUtils} from '../../../common/entities/UserDTO';
 
 export class SearchManager {
+  // a map tile is split to this many rows and columns of clusters
+  private static readonly CLUSTER_GRID = 16;
+  // number of media loaded at once, when the media of the not permitted directories are filtered out
+  private static readonly PERMISSION_BATCH_SIZE = 100;
   private DIRECTORY_SELECT = [
     'directory.id',
     'directory.name',
@@ -84,7 +94,7 @@ export class SearchManager {
         await photoRepository
           .createQueryBuilder('photo')
           .select('DISTINCT(photo.metadata.keywords)')
-          .where('photo.metadata.keywords LIKE :text COLLATE ' + SQL_COLLATE, {
+          .where(`photo.metadata.keywords ${SQLTextMatch.like()} :text${SQLTextMatch.collate}`, {
             text: '%' + text + '%',
           })
           .limit(Config.Search.AutoComplete.ItemsPerCategory.keyword)
@@ -118,9 +128,10 @@ export class SearchManager {
             await personRepository
               .createQueryBuilder('person')
               .select('DISTINCT(person.name), person.count')
-              .where('person.name LIKE :text COLLATE ' + SQL_COLLATE, {
+              .where(`person.name ${SQLTextMatch.like()} :text${SQLTextMatch.collate}`, {
                 text: '%' + text + '%',
               })
+              .andWhere('person.isHidden = :isHidden', {isHidden: false})
               .limit(
                 Config.Search.AutoComplete.ItemsPerCategory.person
               )
@@ -146,18 +157,15 @@ export class SearchManager {
             'photo.metadata.positionData.state as state, photo.metadata.positionData.city as city'
           )
           .where(
-            'photo.metadata.positionData.country LIKE :text COLLATE ' +
-            SQL_COLLATE,
+            `photo.metadata.positionData.country ${SQLTextMatch.like()} :text${SQLTextMatch.collate}`,
             {text: '%' + text + '%'}
           )
           .orWhere(
-            'photo.metadata.positionData.state LIKE :text COLLATE ' +
-            SQL_COLLATE,
+            `photo.metadata.positionData.state ${SQLTextMatch.like()} :text${SQLTextMatch.collate}`,
             {text: '%' + text + '%'}
           )
           .orWhere(
-            'photo.metadata.positionData.city LIKE :text COLLATE ' +
-            SQL_COLLATE,
+            `photo.metadata.positionData.city ${SQLTextMatch.like()} :text${SQLTextMatch.collate}`,
             {text: '%' + text + '%'}
           )
           .groupBy(
@@ -197,7 +205,7 @@ export class SearchManager {
             await mediaRepository
               .createQueryBuilder('media')
               .select('DISTINCT(media.name)')
-              .where('media.name LIKE :text COLLATE ' + SQL_COLLATE, {
+              .where(`media.name ${SQLTextMatch.like()} :text${SQLTextMatch.collate}`, {
                 text: '%' + text + '%',
               })
               .limit(
@@ -221,7 +229,7 @@ export class SearchManager {
               .createQueryBuilder('media')
               .select('DISTINCT(media.metadata.caption) as caption')
               .where(
-                'media.metadata.caption LIKE :text COLLATE ' + SQL_COLLATE,
+                `media.metadata.caption ${SQLTextMatch.like()} :text${SQLTextMatch.collate}`,
                 {text: '%' + text + '%'}
               )
               .limit(
@@ -234,6 +242,59 @@ export class SearchManager {
       );
     }
 
+    if (type === SearchQueryTypes.camera) {
+      partialResult.push(
+        this.encapsulateAutoComplete(
+          (
+            await photoRepository
+              .createQueryBuilder('media')
+              .select('DISTINCT(media.metadata.cameraData.model) as model')
+              .where(
+                `media.metadata.cameraData.model ${SQLTextMatch.like()} :text${SQLTextMatch.collate}`,
+                {text: '%' + text + '%'}
+              )
+              .limit(
+                Config.Search.AutoComplete.ItemsPerCategory.camera
+              )
+              .getRawMany()
+          ).map((r) => r.model),
+          SearchQueryTypes.camera
+        )
+      );
+    }
+
+    if (type === SearchQueryTypes.lens) {
+      partialResult.push(
+        this.encapsulateAutoComplete(
+          (
+            await photoRepository
+              .createQueryBuilder('media')
+              .select('DISTINCT(media.metadata.cameraData.lens) as lens')
+              .where(
+                `media.metadata.cameraData.lens ${SQLTextMatch.like()} :text${SQLTextMatch.collate}`,
+                {text: '%' + text + '%'}
+              )
+              .limit(
+                Config.Search.AutoComplete.ItemsPerCategory.lens
+              )
+              .getRawMany()
+          ).map((r) => r.lens),
+          SearchQueryTypes.lens
+        )
+      );
+    }
+
+    if (type === SearchQueryTypes.library) {
+      partialResult.push(
+        this.encapsulateAutoComplete(
+          ProjectPath.Libraries
+            .map((l) => l.name)
+            .filter((n) => n.toLowerCase().includes(text.toLowerCase())),
+          SearchQueryTypes.library
+        )
+      );
+    }
+
     if (
       type === SearchQueryTypes.any_text ||
       type === SearchQueryTypes.directory
@@ -244,7 +305,7 @@ export class SearchManager {
             await directoryRepository
               .createQueryBuilder('dir')
               .select('DISTINCT(dir.name)')
-              .where('dir.name LIKE :text COLLATE ' + SQL_COLLATE, {
+              .where(`dir.name ${SQLTextMatch.like()} :text${SQLTextMatch.collate}`, {
                 text: '%' + text + '%',
               })
               .limit(
@@ -385,6 +446,9 @@ export class SearchManager {
         case SortByTypes.Random:
           if (Config.Database.type === DatabaseType.mysql) {
             query.groupBy('RAND(), media.id');
+          } else if (Config.Database.type === DatabaseType.postgres) {
+            // PostgreSQL does not allow grouping by an expression that is not selected
+            query.addOrderBy('RANDOM()');
           } else {
             query.groupBy('RANDOM()');
           }
@@ -395,9 +459,13 @@ export class SearchManager {
     return query;
   }
 
-  public async getNMedia(query: SearchQueryDTO, sortings: SortingMethod[], take: number, photoOnly = false) {
+  /**
+   * @param permissions directories the user can access, the media of other directories are skipped
+   */
+  public async getNMedia(query: SearchQueryDTO, sortings: SortingMethod[], take: number, photoOnly = false,
+                         permissions: string[] = null) {
     const connection = await SQLConnection.getConnection();
-    const sqlQuery: SelectQueryBuilder<PhotoEntity> = connection
+    const sqlQuery: SelectQueryBuilder<MediaEntity> = connection
       .getRepository(photoOnly ? PhotoEntity : MediaEntity)
       .createQueryBuilder('media')
       .select(['media', ...this.DIRECTORY_SELECT])
@@ -405,8 +473,28 @@ export class SearchManager {
       .where(await this.prepareAndBuildWhereQuery(query));
     SearchManager.setSorting(sqlQuery, sortings);
 
-    return sqlQuery.limit(take).getMany();
+    if (!permissions || permissions.length === 0 || permissions[0] === '/*') {
+      return sqlQuery.limit(take).getMany();
+    }
 
+    // the permissions are not part of the SQL query, so loading in batches till there are enough permitted media
+    const batchSize = Math.max(take, SearchManager.PERMISSION_BATCH_SIZE);
+    const ret: MediaEntity[] = [];
+    for (let skip = 0; ret.length < take; skip += batchSize) {
+      const batch = await sqlQuery.offset(skip).limit(batchSize).getMany();
+      for (const m of batch) {
+        // random sorting can return the same media in two batches
+        if (ret.length < take &&
+          UserDTOUtils.isDirectoryAvailable(m.directory, permissions) &&
+          !ret.some((r) => r.id === m.id)) {
+          ret.push(m);
+        }
+      }
+      if (batch.length < batchSize) {
+        break;
+      }
+    }
+    return ret;
   }
 
   public async getCount(query: SearchQueryDTO): Promise<number> {
@@ -420,6 +508,107 @@ export class SearchManager {
       .getCount();
   }
 
+  /**
+   * Aggregates the geotagged media of the query that are on the given map tile
+   * into a CLUSTER_GRID x CLUSTER_GRID grid, so the map does not need to load every media.
+   * @param query search query to cluster
+   * @param tile map tile to cluster
+   * @param permissions directories the user can access, the media of other directories are not counted
+   */
+  public async getMapClusters(
+    query: SearchQueryDTO,
+    tile: MapTileDTO,
+    permissions: string[] = null
+  ): Promise<MapClusterDTO[]> {
+    const tileCount = Math.pow(2, tile.z);
+    const tileLat = (y: number): number =>
+      Math.atan(Math.sinh(Math.PI * (1 - 2 * y / tileCount))) * 180 / Math.PI;
+    const bounds = {
+      north: tileLat(tile.y),
+      south: tileLat(tile.y + 1),
+      west: tile.x / tileCount * 360 - 180,
+      east: (tile.x + 1) / tileCount * 360 - 180,
+    };
+    // cells are in degrees, so their borders do not depend on the tile
+    const cellSize = 360 / tileCount / SearchManager.CLUSTER_GRID;
+    const cell = (column: string, offset: number): string => {
+      const value = `((${column} + ${offset}) / ${cellSize})`;
+      // the value is never negative, so truncating is the same as flooring. SQLite has no FLOOR by default
+      return Config.Database.type === DatabaseType.sqlite ? `CAST(${value} AS INTEGER)` : `FLOOR(${value})`;
+    };
+    const latCell = cell('media.metadata.positionData.GPSData.latitude', 90);
+    const lngCell = cell('media.metadata.positionData.GPSData.longitude', 180);
+
+    const connection = await SQLConnection.getConnection();
+    // grouping by directory too, to filter the not permitted directories
+    const rows: {
+      latCell: string | number,
+      lngCell: string | number,
+      dirPath: string,
+      dirName: string,
+      count: string | number,
+      latSum: string | number,
+      lngSum: string | number,
+      sampleId: string | number
+    }[] = await connection
+      .getRepository(MediaEntity)
+      .createQueryBuilder('media')
+      .select(latCell, 'latCell')
+      .addSelect(lngCell, 'lngCell')
+      .addSelect('directory.path', 'dirPath')
+      .addSelect('directory.name', 'dirName')
+      .addSelect('COUNT(media.id)', 'count')
+      .addSelect('SUM(media.metadata.positionData.GPSData.latitude)', 'latSum')
+      .addSelect('SUM(media.metadata.positionData.GPSData.longitude)', 'lngSum')
+      .addSelect('MIN(media.id)', 'sampleId')
+      .innerJoin('media.directory', 'directory')
+      .where(await this.prepareAndBuildWhereQuery(query))
+      .andWhere('media.metadata.positionData.GPSData.latitude >= :south AND media.metadata.positionData.GPSData.latitude < :north', bounds)
+      .andWhere('media.metadata.positionData.GPSData.longitude >= :west AND media.metadata.positionData.GPSData.longitude < :east', bounds)
+      .groupBy(latCell)
+      .addGroupBy(lngCell)
+      .addGroupBy('directory.id')
+      .getRawMany();
+
+    const clusters = new Map<string, MapClusterDTO & { sampleId: number }>();
+    for (const r of rows) {
+      if (permissions &&
+        !UserDTOUtils.isDirectoryAvailable({path: r.dirPath, name: r.dirName}, permissions)) {
+        continue;
+      }
+      const key = r.latCell + ':' + r.lngCell;
+      const count = parseInt(r.count as string, 10);
+      const sampleId = parseInt(r.sampleId as string, 10);
+      if (!clusters.has(key)) {
+        clusters.set(key, {lat: 0, lng: 0, count: 0, sample: null, sampleId});
+      }
+      const c = clusters.get(key);
+      // summing here, averaging at the end
+      c.lat += parseFloat(r.latSum as string);
+      c.lng += parseFloat(r.lngSum as string);
+      c.count += count;
+      c.sampleId = Math.min(c.sampleId, sampleId);
+    }
+    if (clusters.size === 0) {
+      return [];
+    }
+
+    const samples: MediaEntity[] = await connection
+      .getRepository(MediaEntity)
+      .createQueryBuilder('media')
+      .select(['media', ...this.DIRECTORY_SELECT])
+      .innerJoin('media.directory', 'directory')
+      .whereInIds([...clusters.values()].map(c => c.sampleId))
+      .getMany();
+
+    return [...clusters.values()].map((c): MapClusterDTO => ({
+      lat: c.lat / c.count,
+      lng: c.lng / c.count,
+      count: c.count,
+      sample: samples.find(s => s.id === c.sampleId)
+    }));
+  }
+
   public async prepareAndBuildWhereQuery(
     queryIN: SearchQueryDTO,
     directoryOnly = false
@@ -751,6 +940,48 @@ export class SearchManager {
           return q;
         });
 
+      case SearchQueryTypes.min_iso:
+      case SearchQueryTypes.max_iso:
+      case SearchQueryTypes.min_fstop:
+      case SearchQueryTypes.max_fstop:
+      case SearchQueryTypes.min_focal_length:
+      case SearchQueryTypes.max_focal_length:
+      case SearchQueryTypes.min_exposure:
+      case SearchQueryTypes.max_exposure:
+        if (directoryOnly) {
+          throw new Error('not supported in directoryOnly mode');
+        }
+        return new Brackets((q): unknown => {
+          if (typeof (query as RangeSearch).value === 'undefined') {
+            throw new Error(
+              'Invalid search query: Camera settings Query should contain value'
+            );
+          }
+          const field = {
+            [SearchQueryTypes.min_iso]: 'ISO',
+            [SearchQueryTypes.max_iso]: 'ISO',
+            [SearchQueryTypes.min_fstop]: 'fStop',
+            [SearchQueryTypes.max_fstop]: 'fStop',
+            [SearchQueryTypes.min_focal_length]: 'focalLength',
+            [SearchQueryTypes.max_focal_length]: 'focalLength',
+            [SearchQueryTypes.min_exposure]: 'exposure',
+            [SearchQueryTypes.max_exposure]: 'exposure',
+          }[query.type as number];
+          const isMin = MinRangeSearchQueryTypes.includes(query.type);
+          let relation = isMin ? '>=' : '<=';
+          if ((query as RangeSearch).negate) {
+            relation = isMin ? '<' : '>';
+          }
+
+          const textParam: { [key: string]: unknown } = {};
+          textParam['camera' + queryId] = (query as RangeSearch).value;
+          q.where(
+            `media.metadata.cameraData.${field} ${relation} :camera${queryId}`,
+            textParam
+          );
+          return q;
+        });
+
       case SearchQueryTypes.orientation:
         if (directoryOnly) {
           throw new Error('not supported in directoryOnly mode');
@@ -877,6 +1108,21 @@ export class SearchManager {
                       textParam);
                   }
                 }
+              } else if (Config.Database.type === DatabaseType.postgres) {
+                // strftime patterns in to_char format, see: https://www.postgresql.org/docs/current/functions-formatting.html
+                const pgDuration = ({'%m%d': 'MMDD', '%d': 'DD', '%w': 'D'} as Record<string, string>)[duration];
+                const creationDate = Config.Gallery.ignoreTimestampOffset === true
+                  ? '(media.metadataCreationDate + (media.metadataCreationDateOffset * 60000))'
+                  : 'media.metadataCreationDate';
+                const mediaValue = `CAST(to_char(to_timestamp(${creationDate} / 1000) AT TIME ZONE 'UTC', '${pgDuration}') AS INTEGER)`;
+                const nowValue = `CAST(to_char(now() AT TIME ZONE 'UTC', '${pgDuration}') AS INTEGER)`;
+                if (tq.daysLength == 0) {
+                  q.where(`${mediaValue} ${relationEql} ${nowValue}`);
+                } else {
+                  q.where(`${mediaValue} ${relationTop} ${nowValue}`)[whereFN](
+                    `${mediaValue} ${relationBottom} CAST(to_char((now() AT TIME ZONE 'UTC') - CAST(:diff${queryId} AS INTEGER) * INTERVAL '1 day', '${pgDuration}') AS INTEGER)`,
+                    textParam);
+                }
               } else {
                 if (tq.daysLength == 0) {
                   if (Config.Gallery.ignoreTimestampOffset === true) {
@@ -957,14 +1203,15 @@ export class SearchManager {
         }
         // MySQL uses C escape syntax in strings, details:
         // https://stackoverflow.com/questions/14926386/how-to-search-for-slash-in-mysql-and-why-escaping-not-required-for-wher
-        if (Config.Database.type === DatabaseType.mysql) {
+        // PostgreSQL also uses "\" as the default escape character of LIKE
+        if (Config.Database.type === DatabaseType.mysql || Config.Database.type === DatabaseType.postgres) {
           /// this reqExp replaces the "\\" to "\\\\\"
           return '%' + str.replace(new RegExp('\\\\', 'g'), '\\\\') + '%';
         }
         return `%${str}%`;
       };
 
-      const LIKE = (query as TextSearch).negate ? 'NOT LIKE' : 'LIKE';
+      const LIKE = SQLTextMatch.like((query as TextSearch).negate);
       // if the expression is negated, we use AND instead of OR as nowhere should that match
       const whereFN = (query as TextSearch).negate ? 'andWhere' : 'orWhere';
       const whereFNRev = (query as TextSearch).negate ? 'orWhere' : 'andWhere';
@@ -985,7 +1232,7 @@ export class SearchManager {
 
         textParam['fullPath' + queryId] = createMatchString(dirPathStr);
         q[whereFN](
-          `directory.path ${LIKE} :fullPath${queryId} COLLATE ` + SQL_COLLATE,
+          `directory.path ${LIKE} :fullPath${queryId}${SQLTextMatch.collate}`,
           textParam
         );
 
@@ -996,7 +1243,7 @@ export class SearchManager {
               directoryPath.name
             );
             dq[whereFNRev](
-              `directory.name ${LIKE} :dirName${queryId} COLLATE ${SQL_COLLATE}`,
+              `directory.name ${LIKE} :dirName${queryId}${SQLTextMatch.collate}`,
               textParam
             );
             if (dirPathStr.includes('/')) {
@@ -1004,7 +1251,7 @@ export class SearchManager {
                 directoryPath.parent
               );
               dq[whereFNRev](
-                `directory.path ${LIKE} :parentName${queryId} COLLATE ${SQL_COLLATE}`,
+                `directory.path ${LIKE} :parentName${queryId}${SQLTextMatch.collate}`,
                 textParam
               );
             }
@@ -1018,7 +1265,7 @@ export class SearchManager {
         query.type === SearchQueryTypes.file_name
       ) {
         q[whereFN](
-          `media.name ${LIKE} :text${queryId} COLLATE ${SQL_COLLATE}`,
+          `media.name ${LIKE} :text${queryId}${SQLTextMatch.collate}`,
           textParam
         );
       }
@@ -1028,7 +1275,7 @@ export class SearchManager {
         query.type === SearchQueryTypes.caption
       ) {
         q[whereFN](
-          `media.metadata.caption ${LIKE} :text${queryId} COLLATE ${SQL_COLLATE}`,
+          `media.metadata.caption ${LIKE} :text${queryId}${SQLTextMatch.collate}`,
           textParam
         );
       }
@@ -1038,13 +1285,13 @@ export class SearchManager {
         query.type === SearchQueryTypes.position
       ) {
         q[whereFN](
-          `media.metadata.positionData.country ${LIKE} :text${queryId} COLLATE ${SQL_COLLATE}`,
+          `media.metadata.positionData.country ${LIKE} :text${queryId}${SQLTextMatch.collate}`,
           textParam
         )[whereFN](
-          `media.metadata.positionData.state ${LIKE} :text${queryId} COLLATE ${SQL_COLLATE}`,
+          `media.metadata.positionData.state ${LIKE} :text${queryId}${SQLTextMatch.collate}`,
           textParam
         )[whereFN](
-          `media.metadata.positionData.city ${LIKE} :text${queryId} COLLATE ${SQL_COLLATE}`,
+          `media.metadata.positionData.city ${LIKE} :text${queryId}${SQLTextMatch.collate}`,
           textParam
         );
       }
@@ -1058,7 +1305,7 @@ export class SearchManager {
               TextSearchQueryMatchTypes.exact_match
             ) {
               qbr[whereFN](
-                `${fieldName} ${LIKE} :text${queryId} COLLATE ${SQL_COLLATE}`,
+                `${fieldName} ${LIKE} :text${queryId}${SQLTextMatch.collate}`,
                 textParam
               );
             } else {
@@ -1078,19 +1325,19 @@ export class SearchManager {
                   }`;
 
                   qb[whereFN](
-                    `${fieldName} ${LIKE} :CtextC${queryId} COLLATE ${SQL_COLLATE}`,
+                    `${fieldName} ${LIKE} :CtextC${queryId}${SQLTextMatch.collate}`,
                     textParam
                   );
                   qb[whereFN](
-                    `${fieldName} ${LIKE} :Ctext${queryId} COLLATE ${SQL_COLLATE}`,
+                    `${fieldName} ${LIKE} :Ctext${queryId}${SQLTextMatch.collate}`,
                     textParam
                   );
                   qb[whereFN](
-                    `${fieldName} ${LIKE} :textC${queryId} COLLATE ${SQL_COLLATE}`,
+                    `${fieldName} ${LIKE} :textC${queryId}${SQLTextMatch.collate}`,
                     textParam
                   );
                   qb[whereFN](
-                    `${fieldName} ${LIKE} :text_exact${queryId} COLLATE ${SQL_COLLATE}`,
+                    `${fieldName} ${LIKE} :text_exact${queryId}${SQLTextMatch.collate}`,
                     textParam
                   );
                 })
@@ -1107,7 +1354,16 @@ export class SearchManager {
         (query.type === SearchQueryTypes.any_text && !directoryOnly) ||
         query.type === SearchQueryTypes.person
       ) {
-        matchArrayField('media.metadata.persons');
+        // matching the persons through their table, as the hidden ones should not be found
+        const IN = (query as TextSearch).negate ? 'NOT IN' : 'IN';
+        textParam['personHidden' + queryId] = false;
+        q[whereFN](
+          `media.id ${IN} (SELECT person_junction_table.${SQLTextMatch.column('mediaId')} FROM person_junction_table ` +
+          `INNER JOIN person_entry ON person_entry.id = person_junction_table.${SQLTextMatch.column('personId')} ` +
+          `WHERE person_entry.${SQLTextMatch.column('isHidden')} = :personHidden${queryId} ` +
+          `AND person_entry.name ${SQLTextMatch.like()} :text${queryId}${SQLTextMatch.collate})`,
+          textParam
+        );
       }
 
       if (
@@ -1116,6 +1372,58 @@ export class SearchManager {
       ) {
         matchArrayField('media.metadata.keywords');
       }
+
+      if (query.type === SearchQueryTypes.camera) {
+        q[whereFN](
+          `media.metadata.cameraData.make ${LIKE} :text${queryId}${SQLTextMatch.collate}`,
+          textParam
+        )[whereFN](
+          `media.metadata.cameraData.model ${LIKE} :text${queryId}${SQLTextMatch.collate}`,
+          textParam
+        );
+      }
+
+      if (query.type === SearchQueryTypes.lens) {
+        q[whereFN](
+          `media.metadata.cameraData.lens ${LIKE} :text${queryId}${SQLTextMatch.collate}`,
+          textParam
+        );
+      }
+
+      if (query.type === SearchQueryTypes.library) {
+        // libraries are top level directories: either the library itself or its subdirectories match
+        textParam['libRoot' + queryId] = '.' + path.sep;
+        textParam['libName' + queryId] = (query as TextSearch).text;
+        textParam['libPath' + queryId] = path.join((query as TextSearch).text, path.sep) + '%';
+        if ((query as TextSearch).negate) {
+          q.andWhere(
+            `(directory.path != :libRoot${queryId} OR directory.name != :libName${queryId}) ` +
+            `AND directory.path NOT LIKE :libPath${queryId}`,
+            textParam
+          );
+        } else {
+          q.orWhere(
+            `(directory.path = :libRoot${queryId} AND directory.name = :libName${queryId}) ` +
+            `OR directory.path LIKE :libPath${queryId}`,
+            textParam
+          );
+        }
+      }
+
+      if (query.type === SearchQueryTypes.album) {
+        const IN = (query as TextSearch).negate ? 'NOT IN' : 'IN';
+        // album names can contain the LIKE wildcards (e.g.: 100% Summer), they only match literally
+        const albumName = SQLTextMatch.escapeLike((query as TextSearch).text);
+        textParam['albumName' + queryId] =
+          (query as TextSearch).matchType === TextSearchQueryMatchTypes.exact_match ? albumName : `%${albumName}%`;
+        q[whereFN](
+          `media.id ${IN} (SELECT album_media_entity.${SQLTextMatch.column('mediaId')} FROM album_media_entity ` +
+          `INNER JOIN album_base_entity ON album_base_entity.id = album_media_entity.${SQLTextMatch.column('albumId')} ` +
+          `WHERE album_media_entity.${SQLTextMatch.column('mediaId')} IS NOT NULL ` +
+          `AND album_base_entity.name ${SQLTextMatch.like()} :albumName${queryId}${SQLTextMatch.collate}${SQLTextMatch.escape})`,
+          textParam
+        );
+      }
       return q;
     });
   }
@@ -1,12 +1,32 @@
-import {SharingDTO} from '../../../common/entities/SharingDTO';
+import {SharingAccessTypes, SharingDTO, SharingStatsDTO, UserAgentClasses} from '../../../common/entities/SharingDTO';
 import {SQLConnection} from './SQLConnection';
 import {SharingEntity} from './enitites/SharingEntity';
 import {Config} from '../../../common/config/private/Config';
 import {PasswordHelper} from '../PasswordHelper';
-import {DeleteResult, SelectQueryBuilder} from 'typeorm';
-import {UserDTO} from '../../../common/entities/UserDTO';
+import {Brackets, DeleteResult, SelectQueryBuilder} from 'typeorm';
+import {UserDTO, UserDTOUtils} from '../../../common/entities/UserDTO';
+import {SearchResultDTO} from '../../../common/entities/SearchResultDTO';
+import {SearchQueryDTO, SearchQueryTypes} from '../../../common/entities/SearchQueryDTO';
+import {MediaEntity} from './enitites/MediaEntity';
+import {ObjectManagers} from '../ObjectManagers';
+import {GalleryManager} from './GalleryManager';
+import {DiskManager} from '../fileaccess/DiskManager';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import {SharingAccessEntity} from './enitites/SharingAccessEntity';
+import {LRU, Utils} from '../../../common/Utils';
+import {SQLTextMatch} from './enitites/EntityUtils';
 
 export class SharingManager {
+  // the same media is logged only once in this time window for a visitor
+  public static readonly ACCESS_LOG_WINDOW = 60 * 60 * 1000;
+  public static readonly STATS_ACCESS_COUNT = 100;
+  // guests load every photo and thumbnail in a separate request, their access checks are cached this long
+  public static readonly GUEST_CACHE_TIMEOUT = 60 * 1000;
+  private recentAccesses = new LRU<number>(1000);
+  private guestSharings = new LRU<{ sharing: SharingDTO, time: number }>(100);
+  private guestMediaChecks = new LRU<{ shared: boolean, time: number }>(1000);
+
   private static async removeExpiredLink(): Promise<DeleteResult> {
     const connection = await SQLConnection.getConnection();
     return await connection
@@ -17,12 +37,63 @@ export class SharingManager {
         .execute();
   }
 
+  /**
+   * Selection sharings share the media of a search query or a media list instead of a directory.
+   */
+  public static isSelectionSharing(sharing: SharingDTO): boolean {
+    return !!sharing.searchQuery || Array.isArray(sharing.media);
+  }
+
+  /**
+   * Limited guests can only query the shared directory or the shared search query (e.g.: to show it on the map).
+   * @param sharing the sharing of the guest, null if the guest did not open one
+   */
+  public static isGuestQueryAllowed(sharing: SharingDTO, query: SearchQueryDTO): boolean {
+    if (sharing?.searchQuery) {
+      return Utils.equalsFilter(query, sharing.searchQuery) && Utils.equalsFilter(sharing.searchQuery, query);
+    }
+    if (sharing && Array.isArray(sharing.media)) {
+      return false;
+    }
+    // the permissions of the guest limit it to the shared directory
+    return query.type === SearchQueryTypes.directory;
+  }
+
+  public static normalizeMediaPath(mediaPath: string): string {
+    return DiskManager.normalizeDirPath(mediaPath);
+  }
+
+  private static buildMediaListQuery(mediaPaths: string[]): Brackets {
+    const byDir = new Map<string, string[]>();
+    for (const p of mediaPaths) {
+      const dir = path.dirname(p);
+      if (!byDir.has(dir)) {
+        byDir.set(dir, []);
+      }
+      byDir.get(dir).push(path.basename(p));
+    }
+    return new Brackets((q): void => {
+      let i = 0;
+      for (const [dir, names] of byDir) {
+        const directoryPath = GalleryManager.parseRelativeDirePath(dir);
+        const params: { [key: string]: unknown } = {};
+        params['dirName' + i] = directoryPath.name;
+        params['dirPath' + i] = directoryPath.parent;
+        params['names' + i] = names;
+        q.orWhere(`(directory.name = :dirName${i} AND directory.path = :dirPath${i} AND media.name IN (:...names${i}))`,
+          params);
+        ++i;
+      }
+    });
+  }
+
   async deleteSharing(sharingKey: string): Promise<void> {
     const connection = await SQLConnection.getConnection();
     const sharing = await connection
         .getRepository(SharingEntity)
         .findOneBy({sharingKey});
     await connection.getRepository(SharingEntity).remove(sharing);
+    this.clearGuestCache();
   }
 
   async listAll(): Promise<SharingDTO[]> {
@@ -50,14 +121,226 @@ export class SharingManager {
     return await q.getMany();
   }
 
-  async findOne(sharingKey: string): Promise<SharingDTO> {
+  /**
+   * @param sharingKey
+   * @param includeExhausted also returns sharings that reached their max view count.
+   * Already opened sessions can still use them.
+   */
+  async findOne(sharingKey: string, includeExhausted = false): Promise<SharingDTO> {
     await SharingManager.removeExpiredLink();
     const connection = await SQLConnection.getConnection();
-    return await connection.getRepository(SharingEntity)
+    const q = connection.getRepository(SharingEntity)
         .createQueryBuilder('share')
         .leftJoinAndSelect('share.creator', 'creator')
-        .where('share.sharingKey = :sharingKey', {sharingKey})
-        .getOne();
+        .where('share.sharingKey = :sharingKey', {sharingKey});
+    if (!includeExhausted) {
+      q.andWhere('(share.maxViews IS NULL OR share.viewCount < share.maxViews)');
+    }
+    return await q.getOne();
+  }
+
+  /**
+   * Same as findOne(sharingKey, true), but cached for a short time.
+   * Used for authorising the requests of the guests that already opened the sharing.
+   */
+  async findOneForGuest(sharingKey: string): Promise<SharingDTO> {
+    const now = Date.now();
+    const cached = this.guestSharings.get(sharingKey);
+    if (cached && cached.time > now - SharingManager.GUEST_CACHE_TIMEOUT) {
+      return cached.sharing && cached.sharing.expires >= now ? cached.sharing : null;
+    }
+    const sharing = (await this.findOne(sharingKey, true)) || null;
+    this.guestSharings.set(sharingKey, {sharing, time: now});
+    return sharing;
+  }
+
+  /**
+   * Same as isMediaShared, but cached for a short time.
+   */
+  async isMediaSharedForGuest(sharing: SharingDTO, mediaPath: string): Promise<boolean> {
+    const now = Date.now();
+    const key = sharing.sharingKey + ':' + SharingManager.normalizeMediaPath(mediaPath);
+    const cached = this.guestMediaChecks.get(key);
+    if (cached && cached.time > now - SharingManager.GUEST_CACHE_TIMEOUT) {
+      return cached.shared;
+    }
+    const shared = await this.isMediaShared(sharing, mediaPath);
+    this.guestMediaChecks.set(key, {shared, time: now});
+    return shared;
+  }
+
+  public static hashIp(ip: string): string {
+    return crypto.createHash('sha256')
+        .update((Config.Server.sessionSecret || []).join() + (ip || ''))
+        .digest('hex')
+        .substring(0, 16);
+  }
+
+  public static classifyUserAgent(userAgent: string): UserAgentClasses {
+    if (!userAgent) {
+      return UserAgentClasses.Other;
+    }
+    if (/bot|crawl|spider|slurp|facebookexternalhit|whatsapp|telegram|preview/i.test(userAgent)) {
+      return UserAgentClasses.Bot;
+    }
+    if (/mobile|android|iphone|ipad|ipod/i.test(userAgent)) {
+      return UserAgentClasses.Mobile;
+    }
+    if (/windows|macintosh|linux|cros/i.test(userAgent)) {
+      return UserAgentClasses.Desktop;
+    }
+    return UserAgentClasses.Other;
+  }
+
+  /**
+   * Logs an access of a sharing. Opening a sharing also increases its view count.
+   * @param sharingKey
+   * @param type
+   * @param ip it is only stored as a salted hash
+   * @param userAgent it is only stored as a UserAgentClasses
+   * @param media relative path of the accessed media or directory
+   */
+  async registerAccess(
+      sharingKey: string,
+      type: SharingAccessTypes,
+      ip: string,
+      userAgent: string,
+      media: string = null
+  ): Promise<void> {
+    const now = Date.now();
+    const ipHash = SharingManager.hashIp(ip);
+    if (type !== SharingAccessTypes.Open) {
+      const key = [sharingKey, ipHash, type, media].join(':');
+      if (this.recentAccesses.get(key) > now - SharingManager.ACCESS_LOG_WINDOW) {
+        return;
+      }
+      this.recentAccesses.set(key, now);
+    }
+    const sharing = await this.findOne(sharingKey, true);
+    if (!sharing) {
+      return;
+    }
+    const connection = await SQLConnection.getConnection();
+    await connection.getRepository(SharingAccessEntity).insert({
+      sharing: {id: sharing.id},
+      timestamp: now,
+      ipHash,
+      userAgent: SharingManager.classifyUserAgent(userAgent),
+      type,
+      media,
+    });
+    const update: { [key: string]: unknown } = {lastAccess: now};
+    if (type === SharingAccessTypes.Open) {
+      update['viewCount'] = () => SQLTextMatch.column('viewCount') + ' + 1';
+    }
+    await connection
+        .createQueryBuilder()
+        .update(SharingEntity)
+        .set(update)
+        .where('id = :id', {id: sharing.id})
+        .execute();
+  }
+
+  async getStats(sharing: SharingDTO): Promise<SharingStatsDTO> {
+    const connection = await SQLConnection.getConnection();
+    const accessQuery = () => connection
+        .getRepository(SharingAccessEntity)
+        .createQueryBuilder('access')
+        .where('access.sharing = :id', {id: sharing.id});
+
+    const media = await accessQuery()
+        .select('access.media', 'media')
+        .addSelect(`SUM(CASE WHEN access.type = ${SharingAccessTypes.View} THEN 1 ELSE 0 END)`, 'views')
+        .addSelect(`SUM(CASE WHEN access.type = ${SharingAccessTypes.Download} THEN 1 ELSE 0 END)`, 'downloads')
+        .andWhere('access.media IS NOT NULL')
+        .groupBy('access.media')
+        .orderBy('views', 'DESC')
+        .addOrderBy('access.media', 'ASC')
+        .getRawMany();
+    const visitors = await accessQuery()
+        .select('COUNT(DISTINCT access.ipHash)', 'count')
+        .getRawOne();
+
+    return {
+      sharingKey: sharing.sharingKey,
+      viewCount: sharing.viewCount || 0,
+      maxViews: sharing.maxViews || null,
+      lastAccess: sharing.lastAccess || null,
+      visitors: parseInt(visitors?.count || 0, 10),
+      media: media.map((m) => ({
+        media: m.media,
+        views: parseInt(m.views, 10),
+        downloads: parseInt(m.downloads, 10)
+      })),
+      accesses: await accessQuery()
+          .orderBy('access.timestamp', 'DESC')
+          .limit(SharingManager.STATS_ACCESS_COUNT)
+          .getMany(),
+    };
+  }
+
+  /**
+   * Lists the media of a selection sharing.
+   */
+  async getSharedMedia(sharing: SharingDTO): Promise<SearchResultDTO> {
+    if (sharing.searchQuery) {
+      const result = await ObjectManagers.getInstance().SearchManager.search(sharing.searchQuery);
+      // the creator can't share what they can't see, even if the query would find it
+      result.media = result.media.filter((m): boolean =>
+          UserDTOUtils.isDirectoryAvailable(m.directory, sharing.creator?.permissions));
+      // only the media are shared, the guest can't open their directories
+      result.directories = [];
+      result.metaFile = [];
+      return result;
+    }
+    const result: SearchResultDTO = {
+      searchQuery: null,
+      directories: [],
+      media: [],
+      metaFile: [],
+      resultOverflow: false,
+    };
+    if (!sharing.media || sharing.media.length === 0) {
+      return result;
+    }
+    const connection = await SQLConnection.getConnection();
+    result.media = await connection
+        .getRepository(MediaEntity)
+        .createQueryBuilder('media')
+        .select(['media', 'directory.id', 'directory.name', 'directory.path'])
+        .innerJoin('media.directory', 'directory')
+        .where(SharingManager.buildMediaListQuery(sharing.media))
+        .getMany();
+    return result;
+  }
+
+  /**
+   * Checks if the media is part of a selection sharing.
+   * @param sharing
+   * @param mediaPath relative path of the media
+   */
+  async isMediaShared(sharing: SharingDTO, mediaPath: string): Promise<boolean> {
+    mediaPath = SharingManager.normalizeMediaPath(mediaPath);
+    if (!UserDTOUtils.isDirectoryPathAvailable(path.dirname(mediaPath), sharing.creator?.permissions)) {
+      return false;
+    }
+    if (!sharing.searchQuery) {
+      return (sharing.media || []).includes(mediaPath);
+    }
+    const connection = await SQLConnection.getConnection();
+    const directoryPath = GalleryManager.parseRelativeDirePath(path.dirname(mediaPath));
+    const count = await connection
+        .getRepository(MediaEntity)
+        .createQueryBuilder('media')
+        .innerJoin('media.directory', 'directory')
+        .where(await ObjectManagers.getInstance().SearchManager.prepareAndBuildWhereQuery(sharing.searchQuery))
+        .andWhere('directory.name = :sharedDirName AND directory.path = :sharedDirPath AND media.name = :sharedName', {
+          sharedDirName: directoryPath.name,
+          sharedDirPath: directoryPath.parent,
+          sharedName: path.basename(mediaPath)
+        })
+        .getCount();
+    return count > 0;
   }
 
   async createSharing(sharing: SharingDTO): Promise<SharingDTO> {
@@ -92,9 +375,17 @@ export class SharingManager {
     } else {
       sharing.password = PasswordHelper.cryptPassword(inSharing.password);
     }
-    sharing.includeSubfolders = inSharing.includeSubfolders;
+    sharing.includeSubfolders = inSharing.includeSubfolders && !SharingManager.isSelectionSharing(sharing);
     sharing.expires = inSharing.expires;
+    sharing.maxViews = inSharing.maxViews;
 
-    return connection.getRepository(SharingEntity).save(sharing);
+    const saved = await connection.getRepository(SharingEntity).save(sharing);
+    this.clearGuestCache();
+    return saved;
+  }
+
+  private clearGuestCache(): void {
+    this.guestSharings = new LRU(this.guestSharings.size);
+    this.guestMediaChecks = new LRU(this.guestMediaChecks.size);
   }
 }
@@ -3,6 +3,10 @@ import {UserEntity} from './enitites/UserEntity';
 import {SQLConnection} from './SQLConnection';
 import {PasswordHelper} from '../PasswordHelper';
 import {FindOptionsWhere} from 'typeorm';
+import {OIDCUser} from '../oidc/OIDCClient';
+import * as crypto from 'crypto';
+import {ApiTokenEntity} from './enitites/ApiTokenEntity';
+import {ApiTokenDTO, CreateApiTokenDTO} from '../../../common/entities/ApiTokenDTO';
 
 export class UserManager {
 
@@ -30,6 +34,30 @@ export class UserManager {
     return connection.getRepository(UserEntity).save(user);
   }
 
+  /**
+   * Finds the user of an SSO login or creates it on the first login.
+   * The role and permissions are always updated from the OpenID Connect provider.
+   */
+  public async upsertOIDCUser(oidcUser: OIDCUser): Promise<UserEntity> {
+    const connection = await SQLConnection.getConnection();
+    const userRepository = connection.getRepository(UserEntity);
+    let user = await userRepository.findOneBy({oidcSubject: oidcUser.subject});
+    if (!user) {
+      if (await userRepository.findOneBy({name: oidcUser.name})) {
+        throw new Error('A local user already exists with the name: ' + oidcUser.name);
+      }
+      user = userRepository.create({
+        name: oidcUser.name,
+        // SSO users can't log in with password
+        password: PasswordHelper.cryptPassword(crypto.randomBytes(32).toString('hex')),
+        oidcSubject: oidcUser.subject
+      });
+    }
+    user.role = oidcUser.role;
+    user.permissions = oidcUser.permissions;
+    return userRepository.save(user);
+  }
+
   public async deleteUser(id: number): Promise<UserEntity> {
     const connection = await SQLConnection.getConnection();
     const user = await connection.getRepository(UserEntity).findOneBy({id});
@@ -44,4 +72,87 @@ export class UserManager {
     return userRepository.save(user);
   }
 
+  public async changePermissions(id: number, newPermissions: string[]): Promise<UserEntity> {
+    const connection = await SQLConnection.getConnection();
+    const userRepository = connection.getRepository(UserEntity);
+    const user = await userRepository.findOneBy({id});
+    user.permissions = newPermissions;
+    return userRepository.save(user);
+  }
+
+  public static hashApiToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Creates a personal API token. The plain token is only returned here, only its hash is stored.
+   */
+  public async createApiToken(userId: number, newToken: CreateApiTokenDTO): Promise<ApiTokenDTO> {
+    const connection = await SQLConnection.getConnection();
+    const user = await connection.getRepository(UserEntity).findOneBy({id: userId});
+    if (!user) {
+      throw new Error('User not found: ' + userId);
+    }
+    const token = 'pg2_' + crypto.randomBytes(32).toString('base64url');
+    const entity = await connection.getRepository(ApiTokenEntity).save({
+      name: newToken.name,
+      tokenHash: UserManager.hashApiToken(token),
+      role: Math.min(newToken.role || user.role, user.role),
+      created: Date.now(),
+      expires: newToken.expires || null,
+      lastUsed: null,
+      user
+    });
+    return {...UserManager.toApiTokenDTO(entity), token};
+  }
+
+  public async listApiTokens(userId: number): Promise<ApiTokenDTO[]> {
+    const connection = await SQLConnection.getConnection();
+    const tokens = await connection.getRepository(ApiTokenEntity)
+      .find({where: {user: {id: userId}}, order: {created: 'ASC'}});
+    return tokens.map(UserManager.toApiTokenDTO);
+  }
+
+  public async deleteApiToken(userId: number, id: number): Promise<void> {
+    const connection = await SQLConnection.getConnection();
+    const res = await connection.getRepository(ApiTokenEntity)
+      .delete({id, user: {id: userId}});
+    if (!res.affected) {
+      throw new Error('Api token not found: ' + id);
+    }
+  }
+
+  /**
+   * Returns the user of a valid (existing and not expired) API token, with the role limited to the token's scope.
+   * @return null if the token is not valid
+   */
+  public async findApiTokenUser(token: string): Promise<UserDTO> {
+    const connection = await SQLConnection.getConnection();
+    const apiToken = await connection.getRepository(ApiTokenEntity)
+      .findOne({where: {tokenHash: UserManager.hashApiToken(token)}, relations: {user: true}});
+    if (!apiToken || (apiToken.expires && apiToken.expires < Date.now())) {
+      return null;
+    }
+    await connection.getRepository(ApiTokenEntity).update({id: apiToken.id}, {lastUsed: Date.now()});
+    return {
+      id: apiToken.user.id,
+      name: apiToken.user.name,
+      password: '',
+      // the owner might have been demoted since the token was created
+      role: Math.min(apiToken.role, apiToken.user.role),
+      permissions: apiToken.user.permissions
+    };
+  }
+
+  private static toApiTokenDTO(entity: ApiTokenEntity): ApiTokenDTO {
+    return {
+      id: entity.id,
+      name: entity.name,
+      role: entity.role,
+      created: entity.created,
+      expires: entity.expires,
+      lastUsed: entity.lastUsed
+    };
+  }
+
 }
@@ -0,0 +1,54 @@
+import {Column, Entity, Index, ManyToOne, PrimaryGeneratedColumn} from 'typeorm';
+import {ApiTokenDTO} from '../../../../common/entities/ApiTokenDTO';
+import {UserRoles} from '../../../../common/entities/UserDTO';
+import {UserEntity} from './UserEntity';
+
+@Entity()
+export class ApiTokenEntity implements ApiTokenDTO {
+  @PrimaryGeneratedColumn({unsigned: true})
+  id: number;
+
+  @Column()
+  name: string;
+
+  // sha256 of the token
+  @Index({unique: true})
+  @Column()
+  tokenHash: string;
+
+  @Column('smallint')
+  role: UserRoles;
+
+  @Column('bigint', {
+    unsigned: true,
+    transformer: {
+      from: (v) => parseInt(v, 10),
+      to: (v) => v,
+    },
+  })
+  created: number;
+
+  @Column('bigint', {
+    nullable: true,
+    unsigned: true,
+    transformer: {
+      from: (v) => v === null ? null : parseInt(v, 10),
+      to: (v) => v,
+    },
+  })
+  expires: number;
+
+  @Column('bigint', {
+    nullable: true,
+    unsigned: true,
+    transformer: {
+      from: (v) => v === null ? null : parseInt(v, 10),
+      to: (v) => v,
+    },
+  })
+  lastUsed: number;
+
+  @Index()
+  @ManyToOne(() => UserEntity, {onDelete: 'CASCADE', nullable: false})
+  user: UserEntity;
+}
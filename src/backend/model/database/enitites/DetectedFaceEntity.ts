@@ -0,0 +1,59 @@
+import {Column, Entity, Index, ManyToOne, PrimaryGeneratedColumn} from 'typeorm';
+import {MediaEntity} from './MediaEntity';
+import {PersonEntry} from './PersonEntry';
+import {FaceRegionBox} from '../../../../common/entities/PhotoDTO';
+
+export class FaceRegionBoxEntity implements FaceRegionBox {
+  @Column('int')
+  width: number;
+
+  @Column('int')
+  height: number;
+
+  @Column('int')
+  left: number;
+
+  @Column('int')
+  top: number;
+}
+
+/**
+ * Face found by the face detection job with its feature vector (embedding).
+ * Similar faces are grouped into clusters, a named cluster links its faces to a person.
+ */
+@Entity()
+export class DetectedFaceEntity {
+  @Index()
+  @PrimaryGeneratedColumn({unsigned: true})
+  id: number;
+
+  @Index()
+  @ManyToOne(() => MediaEntity, {
+    onDelete: 'CASCADE',
+    nullable: false,
+  })
+  media: MediaEntity;
+
+  @Column(() => FaceRegionBoxEntity)
+  box: FaceRegionBoxEntity;
+
+  @Column('float')
+  confidence: number;
+
+  @Column('simple-json')
+  embedding: number[];
+
+  /**
+   * null if the face is not similar enough to others
+   */
+  @Index()
+  @Column('int', {unsigned: true, nullable: true})
+  cluster: number;
+
+  @Index()
+  @ManyToOne(() => PersonEntry, {
+    onDelete: 'SET NULL',
+    nullable: true,
+  })
+  person: PersonEntry;
+}
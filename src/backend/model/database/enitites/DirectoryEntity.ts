@@ -49,13 +49,13 @@ export class DirectoryEntity
 
   isPartial?: boolean;
 
-  @Column('mediumint', {unsigned: true})
+  @Column('int', {unsigned: true})
   mediaCount: number;
 
-  @Column('mediumint', { unsigned: true })
+  @Column('int', { unsigned: true })
   videoCount: number;
 
-  @Column('mediumint', { unsigned: true })
+  @Column('int', { unsigned: true })
   directoryCount: number;
   
   @Column('bigint', {
@@ -4,12 +4,19 @@ import {DatabaseType} from '../../../../common/config/private/PrivateConfig';
 
 export class ColumnCharsetCS implements ColumnOptions {
   public get charset(): string {
-    return Config.Database.type === DatabaseType.mysql
-        ? 'utf8mb4'
-        : 'utf8';
+    switch (Config.Database.type) {
+      case DatabaseType.mysql:
+        return 'utf8mb4';
+      case DatabaseType.postgres:
+        // the encoding is set per database in PostgreSQL
+        return undefined;
+      default:
+        return 'utf8';
+    }
   }
 
   public get collation(): string {
+    // PostgreSQL's default collation is already case-sensitive
     return Config.Database.type === DatabaseType.mysql
         ? 'utf8mb4_bin'
         : null;
@@ -18,3 +25,43 @@ export class ColumnCharsetCS implements ColumnOptions {
 
 export const columnCharsetCS = new ColumnCharsetCS();
 export const SQL_COLLATE = 'utf8mb4_general_ci';
+
+/**
+ * Case-insensitive text matching.
+ * MySQL and SQLite use LIKE with a case-insensitive collation,
+ * PostgreSQL has no such collation for LIKE, it uses ILIKE instead.
+ */
+export class SQLTextMatch {
+  public static like(negate = false): string {
+    const like = Config.Database.type === DatabaseType.postgres ? 'ILIKE' : 'LIKE';
+    return negate ? 'NOT ' + like : like;
+  }
+
+  public static get collate(): string {
+    return Config.Database.type === DatabaseType.postgres ? '' : ' COLLATE ' + SQL_COLLATE;
+  }
+
+  /**
+   * Escapes the LIKE wildcards (% and _) and the escape character itself, so they match literally.
+   * Use it together with SQLTextMatch.escape.
+   */
+  public static escapeLike(str: string): string {
+    return str.replace(/[\\%_]/g, '\\$&');
+  }
+
+  /**
+   * ESCAPE clause of LIKE for the escapeLike-d patterns.
+   * MySQL string literals use backslash escaping, so the backslash needs to be doubled there.
+   */
+  public static get escape(): string {
+    return Config.Database.type === DatabaseType.mysql ? ' ESCAPE \'\\\\\'' : ' ESCAPE \'\\\'';
+  }
+
+  /**
+   * Quotes a column name for raw SQL queries.
+   * PostgreSQL turns unquoted names lower case, while most columns are camelCase.
+   */
+  public static column(name: string): string {
+    return Config.Database.type === DatabaseType.mysql ? '`' + name + '`' : '"' + name + '"';
+  }
+}
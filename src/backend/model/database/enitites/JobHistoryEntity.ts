@@ -0,0 +1,80 @@
+import {Column, Entity, Index, ManyToOne, PrimaryGeneratedColumn} from 'typeorm';
+import {JobProgressStates} from '../../../../common/entities/job/JobProgressDTO';
+
+/**
+ * A single run of a job. The steps and the time are flattened, 'all' and 'end' are reserved words in SQL.
+ */
+@Entity()
+export class JobHistoryEntity {
+  @PrimaryGeneratedColumn({unsigned: true})
+  id: number;
+
+  @Index()
+  @Column()
+  jobName: string;
+
+  @Column({nullable: true})
+  trigger: string;
+
+  @Column('simple-json')
+  config: Record<string, unknown>;
+
+  @Index()
+  @Column('smallint')
+  state: JobProgressStates;
+
+  @Column('int', {unsigned: true})
+  stepsAll: number;
+
+  @Column('int', {unsigned: true})
+  stepsProcessed: number;
+
+  @Column('int', {unsigned: true})
+  stepsSkipped: number;
+
+  @Index()
+  @Column('bigint', {
+    unsigned: true,
+    transformer: {
+      from: (v) => parseInt(v, 10),
+      to: (v) => v,
+    },
+  })
+  timeStart: number;
+
+  @Column('bigint', {
+    nullable: true,
+    unsigned: true,
+    transformer: {
+      from: (v) => v === null ? null : parseInt(v, 10),
+      to: (v) => v,
+    },
+  })
+  timeEnd: number;
+
+  @Column({type: 'text', nullable: true})
+  error: string;
+}
+
+/**
+ * Log line of a job run. Stored line by line, so long runs do not need to fit into a single column.
+ */
+@Entity()
+export class JobHistoryLogEntity {
+  @PrimaryGeneratedColumn({unsigned: true})
+  id: number;
+
+  @Index()
+  @ManyToOne(() => JobHistoryEntity, {onDelete: 'CASCADE', nullable: false})
+  run: JobHistoryEntity;
+
+  // id of the log line within the run
+  @Column('int', {unsigned: true})
+  logId: number;
+
+  @Column()
+  timestamp: string;
+
+  @Column('text')
+  comment: string;
+}
@@ -132,7 +132,7 @@ export class MediaMetadataEntity implements MediaMetadata {
   @Column(() => PositionMetaDataEntity)
   positionData: PositionMetaDataEntity;
 
-  @Column('tinyint', {unsigned: true})
+  @Column('smallint', {unsigned: true})
   @Index()
   rating: 0 | 1 | 2 | 3 | 4 | 5;
 
@@ -163,7 +163,7 @@ export class MediaMetadataEntity implements MediaMetadata {
    * Caches the list of persons' length. Only used for searching
    */
   @Column({
-    type: 'tinyint',
+    type: 'smallint',
     select: false,
     nullable: false,
     default: 0
@@ -171,6 +171,17 @@ export class MediaMetadataEntity implements MediaMetadata {
   personsLength: number;
 
 
+  /**
+   * Perceptual hash of the photo. Only used for finding similar photos
+   */
+  @Column({
+    type: 'varchar',
+    length: 16,
+    select: false,
+    nullable: true
+  })
+  perceptualHash: string;
+
   @Column('int', {unsigned: true})
   bitRate: number;
 
@@ -200,5 +211,13 @@ export abstract class MediaEntity implements MediaDTO {
   @Column(() => MediaMetadataEntity)
   metadata: MediaMetadataEntity;
 
+  @Column({
+    type: 'simple-json',
+    nullable: true,
+    charset: columnCharsetCS.charset,
+    collation: columnCharsetCS.collation
+  })
+  alternates: string[];
+
   missingThumbnails: number;
 }
@@ -0,0 +1,28 @@
+import {Column, Entity, Index, ManyToOne, PrimaryGeneratedColumn, Unique} from 'typeorm';
+import {PersonEntry} from './PersonEntry';
+import {columnCharsetCS} from './EntityUtils';
+
+/**
+ * Former name of a renamed or merged person.
+ * Faces with this name in the photos are indexed as the person.
+ */
+@Entity()
+@Unique(['name'])
+export class PersonAliasEntity {
+  @Index()
+  @PrimaryGeneratedColumn({unsigned: true})
+  id: number;
+
+  @Column({
+    charset: columnCharsetCS.charset,
+    collation: columnCharsetCS.collation,
+  })
+  name: string;
+
+  @Index()
+  @ManyToOne(() => PersonEntry, {
+    onDelete: 'CASCADE',
+    nullable: false,
+  })
+  person: PersonEntry;
+}
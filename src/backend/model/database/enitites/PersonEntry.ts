@@ -22,6 +22,12 @@ export class PersonEntry implements PersonDTO {
   @Column({default: false})
   isFavourite: boolean;
 
+  /**
+   * Hidden persons are not listed on the faces page and in the search suggestions
+   */
+  @Column({default: false})
+  isHidden: boolean;
+
   @OneToMany(() => PersonJunctionTable, (junctionTable) => junctionTable.person)
   public faces: PersonJunctionTable[];
 
@@ -31,6 +37,15 @@ export class PersonEntry implements PersonDTO {
   })
   sampleRegion: PersonJunctionTable;
 
+  /**
+   * Sample region picked by the user, overrides the automatic choice
+   */
+  @ManyToOne(() => PersonJunctionTable, {
+    onDelete: 'SET NULL',
+    nullable: true,
+  })
+  coverRegion: PersonJunctionTable;
+
   // does not store in the DB, temporal field
   missingThumbnail?: boolean;
 }
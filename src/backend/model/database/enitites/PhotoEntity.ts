@@ -15,7 +15,7 @@ export class PhotoMetadataEntity
     @Column(type => PositionMetaDataEntity)
     positionData: PositionMetaDataEntity;
 
-    @Column('tinyint', {default: OrientationTypes.TOP_LEFT})
+    @Column('smallint', {default: OrientationTypes.TOP_LEFT})
     orientation: OrientationTypes;
   */
 }
@@ -24,4 +24,13 @@ export class PhotoMetadataEntity
 export class PhotoEntity extends MediaEntity implements PhotoDTO {
   @Column(() => PhotoMetadataEntity)
   metadata: PhotoMetadataEntity;
+
+  @Column({type: 'boolean', nullable: true})
+  motion: boolean;
+
+  /**
+   * Set by the face detection job, not sent to the client
+   */
+  @Column({type: 'boolean', nullable: true, select: false})
+  facesDetected: boolean;
 }
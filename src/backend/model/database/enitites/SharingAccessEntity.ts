@@ -0,0 +1,34 @@
+import {Column, Entity, Index, ManyToOne, PrimaryGeneratedColumn} from 'typeorm';
+import {SharingAccessDTO, SharingAccessTypes, UserAgentClasses} from '../../../../common/entities/SharingDTO';
+import {SharingEntity} from './SharingEntity';
+
+@Entity()
+export class SharingAccessEntity implements SharingAccessDTO {
+  @PrimaryGeneratedColumn({unsigned: true})
+  id: number;
+
+  @Index()
+  @ManyToOne(() => SharingEntity, {onDelete: 'CASCADE', nullable: false})
+  sharing: SharingEntity;
+
+  @Column('bigint', {
+    unsigned: true,
+    transformer: {
+      from: (v) => parseInt(v, 10),
+      to: (v) => v,
+    },
+  })
+  timestamp: number;
+
+  @Column()
+  ipHash: string;
+
+  @Column('smallint')
+  userAgent: UserAgentClasses;
+
+  @Column('smallint')
+  type: SharingAccessTypes;
+
+  @Column({type: 'text', nullable: true})
+  media: string;
+}
@@ -2,6 +2,7 @@ import {Column, Entity, ManyToOne, PrimaryGeneratedColumn} from 'typeorm';
 import {SharingDTO} from '../../../../common/entities/SharingDTO';
 import {UserEntity} from './UserEntity';
 import {UserDTO} from '../../../../common/entities/UserDTO';
+import {SearchQueryDTO} from '../../../../common/entities/SearchQueryDTO';
 
 @Entity()
 export class SharingEntity implements SharingDTO {
@@ -38,6 +39,28 @@ export class SharingEntity implements SharingDTO {
   @Column()
   includeSubfolders: boolean;
 
+  @Column({type: 'simple-json', nullable: true})
+  searchQuery: SearchQueryDTO;
+
+  @Column({type: 'simple-json', nullable: true})
+  media: string[];
+
+  @Column('int', {nullable: true, unsigned: true})
+  maxViews: number;
+
+  @Column('int', {unsigned: true, default: 0})
+  viewCount: number;
+
+  @Column('bigint', {
+    nullable: true,
+    unsigned: true,
+    transformer: {
+      from: (v) => v === null ? null : parseInt(v, 10),
+      to: (v) => v,
+    },
+  })
+  lastAccess: number;
+
   @ManyToOne(() => UserEntity, {onDelete: 'CASCADE', nullable: false})
   creator: UserDTO;
 }
@@ -18,4 +18,8 @@ export class UserEntity implements UserDTO {
 
   @Column('simple-array', {nullable: true})
   permissions: string[];
+
+  // subject of the OpenID Connect provider, if the user was created by an SSO login
+  @Column({nullable: true})
+  oidcSubject?: string;
 }
@@ -0,0 +1,42 @@
+import {Column, Entity, Index, ManyToOne, PrimaryGeneratedColumn} from 'typeorm';
+import {MediaEntity} from '../MediaEntity';
+import {columnCharsetCS} from '../EntityUtils';
+import {ManualAlbumEntity} from './ManualAlbumEntity';
+
+/**
+ * This is a junction table between manual albums and media.
+ * The directory and the name of the media is also stored,
+ * so the media can be matched again if it got a new id during reindexing.
+ */
+@Entity()
+export class AlbumMediaEntity {
+  @Index()
+  @PrimaryGeneratedColumn({unsigned: true})
+  id: number;
+
+  @Index()
+  @ManyToOne(() => ManualAlbumEntity, (album) => album.media, {
+    onDelete: 'CASCADE',
+    nullable: false,
+  })
+  album: ManualAlbumEntity;
+
+  @Index()
+  @ManyToOne(() => MediaEntity, {
+    onDelete: 'SET NULL',
+    nullable: true,
+  })
+  media: MediaEntity;
+
+  @Column('int', {unsigned: true})
+  position: number;
+
+  @Column(columnCharsetCS)
+  directoryPath: string;
+
+  @Column(columnCharsetCS)
+  directoryName: string;
+
+  @Column(columnCharsetCS)
+  name: string;
+}
@@ -0,0 +1,16 @@
+import {ChildEntity, OneToMany} from 'typeorm';
+import {AlbumBaseEntity} from './AlbumBaseEntity';
+import {ManualAlbumDTO} from '../../../../../common/entities/album/ManualAlbumDTO';
+import {AlbumMediaEntity} from './AlbumMediaEntity';
+
+/**
+ * Album with a hand-picked, ordered list of media
+ */
+@ChildEntity()
+export class ManualAlbumEntity
+    extends AlbumBaseEntity
+    implements ManualAlbumDTO {
+
+  @OneToMany(() => AlbumMediaEntity, (am) => am.album)
+  media: AlbumMediaEntity[];
+}
@@ -0,0 +1,31 @@
+import {MigrationInterface, QueryRunner} from 'typeorm';
+
+/**
+ * Replaces the MySQL only tinyint and mediumint columns, so the same entities work with PostgreSQL.
+ * SQLite does not enforce column types, so only MySQL databases need altering.
+ */
+export class CompatibleColumnTypes1792368000000 implements MigrationInterface {
+  name = 'CompatibleColumnTypes1792368000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    if (queryRunner.connection.options.type !== 'mysql') {
+      return;
+    }
+    await queryRunner.query('ALTER TABLE `media_entity` MODIFY `metadataRating` smallint UNSIGNED NOT NULL');
+    await queryRunner.query('ALTER TABLE `media_entity` MODIFY `metadataPersonsLength` smallint NOT NULL DEFAULT 0');
+    for (const c of ['mediaCount', 'videoCount', 'directoryCount']) {
+      await queryRunner.query('ALTER TABLE `directory_entity` MODIFY `' + c + '` int UNSIGNED NOT NULL');
+    }
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (queryRunner.connection.options.type !== 'mysql') {
+      return;
+    }
+    await queryRunner.query('ALTER TABLE `media_entity` MODIFY `metadataRating` tinyint UNSIGNED NOT NULL');
+    await queryRunner.query('ALTER TABLE `media_entity` MODIFY `metadataPersonsLength` tinyint NOT NULL DEFAULT 0');
+    for (const c of ['mediaCount', 'videoCount', 'directoryCount']) {
+      await queryRunner.query('ALTER TABLE `directory_entity` MODIFY `' + c + '` mediumint UNSIGNED NOT NULL');
+    }
+  }
+}
@@ -0,0 +1,23 @@
+import {MigrationInterface, QueryRunner, TableColumn} from 'typeorm';
+import {columnCharsetCS} from '../enitites/EntityUtils';
+
+/**
+ * Adds the list of alternate files (e.g.: RAW of a JPEG) to the media.
+ */
+export class MediaAlternates1792411200000 implements MigrationInterface {
+  name = 'MediaAlternates1792411200000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn('media_entity', new TableColumn({
+      name: 'alternates',
+      type: 'text',
+      isNullable: true,
+      charset: columnCharsetCS.charset,
+      collation: columnCharsetCS.collation
+    }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('media_entity', 'alternates');
+  }
+}
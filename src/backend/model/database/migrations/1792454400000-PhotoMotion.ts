@@ -0,0 +1,20 @@
+import {MigrationInterface, QueryRunner, TableColumn} from 'typeorm';
+
+/**
+ * Marks the photos that have a video part (Live Photo or Motion Photo).
+ */
+export class PhotoMotion1792454400000 implements MigrationInterface {
+  name = 'PhotoMotion1792454400000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn('media_entity', new TableColumn({
+      name: 'motion',
+      type: 'boolean',
+      isNullable: true
+    }));
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropColumn('media_entity', 'motion');
+  }
+}
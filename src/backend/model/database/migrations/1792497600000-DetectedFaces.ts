@@ -0,0 +1,56 @@
+import {MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey, TableIndex} from 'typeorm';
+
+/**
+ * Stores the faces found by the face detection job and marks the already processed photos.
+ */
+export class DetectedFaces1792497600000 implements MigrationInterface {
+  name = 'DetectedFaces1792497600000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn('media_entity', new TableColumn({
+      name: 'facesDetected',
+      type: 'boolean',
+      isNullable: true
+    }));
+    await queryRunner.createTable(new Table({
+      name: 'detected_face_entity',
+      columns: [
+        {name: 'id', type: 'integer', unsigned: true, isPrimary: true, isGenerated: true, generationStrategy: 'increment'},
+        {name: 'boxWidth', type: 'int'},
+        {name: 'boxHeight', type: 'int'},
+        {name: 'boxLeft', type: 'int'},
+        {name: 'boxTop', type: 'int'},
+        {name: 'confidence', type: 'float'},
+        {name: 'embedding', type: 'text'},
+        {name: 'cluster', type: 'int', unsigned: true, isNullable: true},
+        {name: 'mediaId', type: 'integer', unsigned: true},
+        {name: 'personId', type: 'integer', unsigned: true, isNullable: true},
+      ],
+      indices: [
+        new TableIndex({columnNames: ['id']}),
+        new TableIndex({columnNames: ['cluster']}),
+        new TableIndex({columnNames: ['mediaId']}),
+        new TableIndex({columnNames: ['personId']}),
+      ],
+      foreignKeys: [
+        new TableForeignKey({
+          columnNames: ['mediaId'],
+          referencedTableName: 'media_entity',
+          referencedColumnNames: ['id'],
+          onDelete: 'CASCADE'
+        }),
+        new TableForeignKey({
+          columnNames: ['personId'],
+          referencedTableName: 'person_entry',
+          referencedColumnNames: ['id'],
+          onDelete: 'SET NULL'
+        }),
+      ]
+    }), true);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('detected_face_entity', true, true, true);
+    await queryRunner.dropColumn('media_entity', 'facesDetected');
+  }
+}
@@ -0,0 +1,63 @@
+import {MigrationInterface, QueryRunner, Table, TableColumn, TableForeignKey, TableIndex, TableUnique} from 'typeorm';
+import {columnCharsetCS} from '../enitites/EntityUtils';
+
+/**
+ * Hidden persons, user picked sample regions and the former names of the renamed and merged persons.
+ */
+export class PersonManagement1792540800000 implements MigrationInterface {
+  name = 'PersonManagement1792540800000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.addColumn('person_entry', new TableColumn({
+      name: 'isHidden',
+      type: 'boolean',
+      default: false
+    }));
+    await queryRunner.addColumn('person_entry', new TableColumn({
+      name: 'coverRegionId',
+      type: 'integer',
+      unsigned: true,
+      isNullable: true
+    }));
+    await queryRunner.createForeignKey('person_entry', new TableForeignKey({
+      columnNames: ['coverRegionId'],
+      referencedTableName: 'person_junction_table',
+      referencedColumnNames: ['id'],
+      onDelete: 'SET NULL'
+    }));
+    await queryRunner.createTable(new Table({
+      name: 'person_alias_entity',
+      columns: [
+        {name: 'id', type: 'integer', unsigned: true, isPrimary: true, isGenerated: true, generationStrategy: 'increment'},
+        {name: 'name', type: 'varchar', length: '255', charset: columnCharsetCS.charset, collation: columnCharsetCS.collation},
+        {name: 'personId', type: 'integer', unsigned: true},
+      ],
+      uniques: [
+        new TableUnique({columnNames: ['name']}),
+      ],
+      indices: [
+        new TableIndex({columnNames: ['id']}),
+        new TableIndex({columnNames: ['personId']}),
+      ],
+      foreignKeys: [
+        new TableForeignKey({
+          columnNames: ['personId'],
+          referencedTableName: 'person_entry',
+          referencedColumnNames: ['id'],
+          onDelete: 'CASCADE'
+        }),
+      ]
+    }), true);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('person_alias_entity', true, true, true);
+    const table = await queryRunner.getTable('person_entry');
+    const foreignKey = table.foreignKeys.find(fk => fk.columnNames.includes('coverRegionId'));
+    if (foreignKey) {
+      await queryRunner.dropForeignKey('person_entry', foreignKey);
+    }
+    await queryRunner.dropColumn('person_entry', 'coverRegionId');
+    await queryRunner.dropColumn('person_entry', 'isHidden');
+  }
+}
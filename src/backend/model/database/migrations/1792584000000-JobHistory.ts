@@ -0,0 +1,58 @@
+import {MigrationInterface, QueryRunner, Table, TableForeignKey, TableIndex} from 'typeorm';
+
+/**
+ * Stores the finished job runs with their logs for the job history.
+ */
+export class JobHistory1792584000000 implements MigrationInterface {
+  name = 'JobHistory1792584000000';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.createTable(new Table({
+      name: 'job_history_entity',
+      columns: [
+        {name: 'id', type: 'integer', unsigned: true, isPrimary: true, isGenerated: true, generationStrategy: 'increment'},
+        {name: 'jobName', type: 'varchar', length: '255'},
+        {name: 'trigger', type: 'varchar', length: '255', isNullable: true},
+        {name: 'config', type: 'text'},
+        {name: 'state', type: 'smallint'},
+        {name: 'stepsAll', type: 'int', unsigned: true},
+        {name: 'stepsProcessed', type: 'int', unsigned: true},
+        {name: 'stepsSkipped', type: 'int', unsigned: true},
+        {name: 'timeStart', type: 'bigint', unsigned: true},
+        {name: 'timeEnd', type: 'bigint', unsigned: true, isNullable: true},
+        {name: 'error', type: 'text', isNullable: true},
+      ],
+      indices: [
+        new TableIndex({columnNames: ['jobName']}),
+        new TableIndex({columnNames: ['state']}),
+        new TableIndex({columnNames: ['timeStart']}),
+      ]
+    }), true);
+    await queryRunner.createTable(new Table({
+      name: 'job_history_log_entity',
+      columns: [
+        {name: 'id', type: 'integer', unsigned: true, isPrimary: true, isGenerated: true, generationStrategy: 'increment'},
+        {name: 'logId', type: 'int', unsigned: true},
+        {name: 'timestamp', type: 'varchar', length: '255'},
+        {name: 'comment', type: 'text'},
+        {name: 'runId', type: 'integer', unsigned: true},
+      ],
+      indices: [
+        new TableIndex({columnNames: ['runId']}),
+      ],
+      foreignKeys: [
+        new TableForeignKey({
+          columnNames: ['runId'],
+          referencedTableName: 'job_history_entity',
+          referencedColumnNames: ['id'],
+          onDelete: 'CASCADE'
+        }),
+      ]
+    }), true);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.dropTable('job_history_log_entity', true, true, true);
+    await queryRunner.dropTable('job_history_entity', true, true, true);
+  }
+}
@@ -19,6 +19,7 @@ import {
 } from '../../../common/config/public/ClientConfig';
 import {
   DatabaseType,
+  MediaLibraryConfig,
   ServerAlbumCoverConfig,
   ServerDataBaseConfig,
   ServerJobConfig,
@@ -33,6 +34,7 @@ import {ConfigClassBuilder} from '../../../../node_modules/typeconfig/node';
 import {Config} from '../../../common/config/private/Config';
 import {SupportedFormats} from '../../../common/SupportedFormats';
 import {MediaRendererInput, PhotoWorker, ThumbnailSourceType} from '../fileaccess/PhotoWorker';
+import {ProjectPath} from '../../ProjectPath';
 
 const LOG_TAG = '[ConfigDiagnostics]';
 
@@ -175,6 +177,22 @@ export class ConfigDiagnostics {
     });
   }
 
+  static async testLibraries(libraries: MediaLibraryConfig[]): Promise<void> {
+    Logger.debug(LOG_TAG, 'Testing libraries');
+    const names = new Set<string>();
+    for (const library of libraries) {
+      // the name is the top level directory of the library
+      if (!library.name || library.name === '.' || library.name === '..' ||
+        library.name.includes('/') || library.name.includes('\\')) {
+        throw new Error('Invalid library name: \'' + library.name + '\'. It should be a valid folder name.');
+      }
+      if (names.has(library.name)) {
+        throw new Error('Library name is not unique: \'' + library.name + '\'');
+      }
+      names.add(library.name);
+      await ConfigDiagnostics.testImageFolder(ProjectPath.getAbsolutePath(library.folder));
+    }
+  }
 
   static async testPhotoConfig(
     photoConfig: ServerPhotoConfig
@@ -347,6 +365,7 @@ export class ConfigDiagnostics {
     await ConfigDiagnostics.testMetaFileConfig(config.MetaFile, config);
     await ConfigDiagnostics.testAlbumsConfig(config.Album, config);
     await ConfigDiagnostics.testImageFolder(config.Media.folder);
+    await ConfigDiagnostics.testLibraries(config.Media.libraries);
     await ConfigDiagnostics.testPhotoConfig(config.Media.Photo);
     await ConfigDiagnostics.testSearchConfig(config.Search, config);
     await ConfigDiagnostics.testAlbumCoverConfig(config.AlbumCover);
@@ -463,6 +482,13 @@ export class ConfigDiagnostics {
       NotificationManager.error('Images folder error', err.toString());
       Logger.error(LOG_TAG, 'Images folder error', err.toString());
     }
+    try {
+      await ConfigDiagnostics.testLibraries(Config.Media.libraries);
+    } catch (ex) {
+      const err: Error = ex;
+      NotificationManager.error('Library error', err.toString());
+      Logger.error(LOG_TAG, 'Library error', err.toString());
+    }
     try {
       await ConfigDiagnostics.testPhotoConfig(
         Config.Media.Photo
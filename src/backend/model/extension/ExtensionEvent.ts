@@ -4,6 +4,10 @@ export class ExtensionEvent<I extends unknown[], O> implements IExtensionEvent<I
   protected beforeHandlers: IExtensionBeforeEventHandler<I, O>[] = [];
   protected afterHandlers: IExtensionAfterEventHandler<I, O>[] = [];
 
+  public get HasBeforeHandlers(): boolean {
+    return this.beforeHandlers.length > 0;
+  }
+
   public before(handler: IExtensionBeforeEventHandler<I, O>): void {
     if (typeof handler !== 'function') {
       throw new Error('ExtensionEvent::before: Handler is not a function');
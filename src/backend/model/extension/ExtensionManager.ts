@@ -60,6 +60,9 @@ export class ExtensionManager implements IObjectManager {
         },
         ImageRenderer: {
           render: new ExtensionEvent()
+        },
+        FaceDetector: {
+          detect: new ExtensionEvent()
         }
       }
     };
@@ -15,7 +15,8 @@ export class ExtensionMessengerHandler implements IExtensionMessengers {
 
 
   addMessenger<C extends Record<string, unknown>>(name: string, config: DynamicConfig[], callbacks: {
-    sendMedia: (config: C, media: MediaDTOWithThPath[]) => Promise<void>
+    sendMedia: (config: C, media: MediaDTOWithThPath[]) => Promise<void>,
+    sendText?: (config: C, subject: string, text: string) => Promise<void>
   }): void {
     if (MessengerRepository.Instance.get(name)) {
       this.extLogger.silly('Messenger already exist. Overriding it:', name);
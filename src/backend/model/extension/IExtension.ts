@@ -16,6 +16,7 @@ import {SearchQueryDTO} from '../../../common/entities/SearchQueryDTO';
 import {CoverPhotoDTOWithID} from '../database/CoverManager';
 import {ParentDirectoryDTO} from '../../../common/entities/DirectoryDTO';
 import {DirectoryScanSettings} from '../fileaccess/DiskManager';
+import {DetectedFace} from '../fileaccess/FaceDetector';
 
 
 export type IExtensionBeforeEventHandler<I extends unknown[], O> = (input: I, event: { stopPropagation: boolean }) => Promise<I | O>;
@@ -81,6 +82,14 @@ export interface IExtensionEvents {
       scanDirectory: IExtensionEvent<[
         string,
         DirectoryScanSettings], ParentDirectoryDTO>
+    },
+    /**
+     * Finds the faces on a photo for the face clustering.
+     * Use it to plug in other detection and embedding models.
+     */
+    FaceDetector: {
+      // input: file path
+      detect: IExtensionEvent<[string], DetectedFace[]>
     }
   };
 }
@@ -149,10 +158,11 @@ export interface IExtensionMessengers {
    * Adds a new messenger that the user can select e.g.: for sending top pick photos
    * @param name Name of the messenger (also used as id)
    * @param config config metadata for this messenger
-   * @param callbacks messenger logic
+   * @param callbacks messenger logic. sendText is optional, it is used for the plain text and job summary messages
    */
   addMessenger<C extends Record<string, unknown> = Record<string, unknown>>(name: string, config: DynamicConfig[], callbacks: {
-    sendMedia: (config: C, media: MediaDTOWithThPath[]) => Promise<void>
+    sendMedia: (config: C, media: MediaDTOWithThPath[]) => Promise<void>,
+    sendText?: (config: C, subject: string, text: string) => Promise<void>
   }): void;
 }
 
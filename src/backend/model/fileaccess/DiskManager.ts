@@ -16,6 +16,10 @@ import {MetadataLoader} from './MetadataLoader';
 import {NotificationManager} from '../NotifocationManager';
 import {ExtensionDecorator} from '../extension/ExtensionDecorator';
 import {MediaDTOUtils} from "../../../common/entities/MediaDTO";
+import {PhotoWorker} from './PhotoWorker';
+import {ObjectManagers} from '../ObjectManagers';
+import {MotionPhotoProcessing} from './fileprocessing/MotionPhotoProcessing';
+import {IndexedDirectoryMediaDTO, IndexedMediaDTO} from '../database/IndexingManager';
 
 
 const LOG_TAG = '[DiskManager]';
@@ -93,6 +97,55 @@ export class DiskManager {
     return false;
   }
 
+  /**
+   * The expensive processing (e.g.: perceptual hashing, motion photo detection) can be skipped for the files
+   * that are already indexed, if they did not change since their directory was scanned.
+   */
+  private static async getIndexedMedia(relativeDirectoryName: string): Promise<IndexedDirectoryMediaDTO> {
+    if (!Config.Duplicates.perceptualHashing && !Config.Media.Photo.motionPhotos) {
+      return null;
+    }
+    try {
+      return await ObjectManagers.getInstance().IndexingManager.getIndexedMedia(relativeDirectoryName);
+    } catch (err) {
+      Logger.silly(LOG_TAG, 'Can\'t load the indexed media of: ' + relativeDirectoryName, err.toString());
+      return null;
+    }
+  }
+
+  private static async getUnchangedMedia(
+    indexed: IndexedDirectoryMediaDTO,
+    file: string,
+    fullFilePath: string
+  ): Promise<IndexedMediaDTO> {
+    const known = indexed?.media.get(file);
+    if (!known) {
+      return null;
+    }
+    const stat = await fsp.stat(fullFilePath);
+    if (stat.size !== known.fileSize || this.calcLastModified(stat) > indexed.lastScanned) {
+      return null;
+    }
+    return known;
+  }
+
+  /**
+   * @return the stored motion flag of the Live Photo, if neither the photo nor its video changed since the last scan
+   */
+  private static async getKnownLivePhoto(
+    indexed: IndexedDirectoryMediaDTO,
+    absoluteDirectoryName: string,
+    photo: string,
+    video: string
+  ): Promise<boolean> {
+    const known = await this.getUnchangedMedia(indexed, photo, path.join(absoluteDirectoryName, photo));
+    if (!known ||
+      this.calcLastModified(await fsp.stat(path.join(absoluteDirectoryName, video))) > indexed.lastScanned) {
+      return null;
+    }
+    return known.motion;
+  }
+
   public static async scanDirectoryNoMetadata(
     relativeDirectoryName: string,
     settings: DirectoryScanSettings = {}
@@ -113,14 +166,10 @@ export class DiskManager {
     relativeDirectoryName = this.normalizeDirPath(relativeDirectoryName);
     const directoryName = DiskManager.dirName(relativeDirectoryName);
     const directoryParent = this.pathFromRelativeDirName(relativeDirectoryName);
-    const absoluteDirectoryName = path.join(
-      ProjectPath.ImageFolder,
-      relativeDirectoryName
-    );
+    const absoluteDirectoryName = ProjectPath.getMediaPath(relativeDirectoryName);
 
     const stat = await fsp.stat(
-      path.join(ProjectPath.ImageFolder, relativeDirectoryName)
-    );
+      ProjectPath.getMediaPath(relativeDirectoryName));
     const directory: ParentDirectoryDTO = {
       id: null,
       parent: null,
@@ -150,9 +199,19 @@ export class DiskManager {
       return directory;
     }
     const list = await fsp.readdir(absoluteDirectoryName);
+    if (relativeDirectoryName === this.normalizeDirPath('/')) {
+      list.push(...(await DiskManager.getLibraryDirs()).filter(l => !list.includes(l)));
+    }
+    const indexed = settings.noMetadata === true ? null :
+      await DiskManager.getIndexedMedia(relativeDirectoryName);
+    const alternates = DiskManager.groupSameNamePhotos(list);
+    const liveVideos = settings.noPhoto === true ? new Map<string, string>() :
+      await MotionPhotoProcessing.findLivePhotoVideos(absoluteDirectoryName, list.filter(f => !alternates.hidden.has(f)),
+        (photo, video) => DiskManager.getKnownLivePhoto(indexed, absoluteDirectoryName, photo, video));
+    const companionVideos = new Set(liveVideos.values());
     for (const file of list) {
       const fullFilePath = path.normalize(
-        path.join(absoluteDirectoryName, file)
+        ProjectPath.getMediaPath(relativeDirectoryName, file)
       );
       if ((await fsp.stat(fullFilePath)).isDirectory()) {
         try {
@@ -188,7 +247,7 @@ export class DiskManager {
         }
       } else if (PhotoProcessing.isPhoto(fullFilePath)) {
         try {
-          if (settings.noPhoto === true) {
+          if (settings.noPhoto === true || alternates.hidden.has(file)) {
             continue;
           }
 
@@ -200,6 +259,31 @@ export class DiskManager {
                 ? null
                 : await MetadataLoader.loadPhotoMetadata(fullFilePath),
           } as PhotoDTO;
+          const known = await DiskManager.getUnchangedMedia(indexed, file, fullFilePath);
+          if (alternates.byPrimary.has(file)) {
+            photo.alternates = alternates.byPrimary.get(file);
+          }
+          if (liveVideos.has(file) ||
+            (Config.Media.Photo.motionPhotos && settings.noMetadata !== true &&
+              MotionPhotoProcessing.canHaveEmbeddedClip(fullFilePath) &&
+              // only detecting the clip here, it is extracted on demand, when it is first played
+              (known ? known.motion : await MotionPhotoProcessing.hasEmbeddedClip(fullFilePath)))) {
+            photo.motion = true;
+          }
+
+          if (settings.noMetadata !== true && Config.Duplicates.perceptualHashing && known?.perceptualHash) {
+            photo.metadata.perceptualHash = known.perceptualHash;
+          } else if (settings.noMetadata !== true && Config.Duplicates.perceptualHashing) {
+            try {
+              photo.metadata.perceptualHash = await PhotoWorker.calcPerceptualHash(fullFilePath);
+            } catch (err) {
+              Logger.warn(LOG_TAG, 'Can\'t calculate perceptual hash for: ' + fullFilePath, err.toString());
+            }
+          }
+
+          if (settings.noMetadata !== true && Config.Map.Geocoding.fillMissingPositionData) {
+            await ObjectManagers.getInstance().LocationManager.fillPositionData(photo.metadata.positionData);
+          }
 
           if (!directory.cover) {
             directory.cover = Utils.clone(photo);
@@ -230,7 +314,8 @@ export class DiskManager {
           if (
             Config.Media.Video.enabled === false ||
             settings.noVideo === true ||
-            settings.coverOnly === true
+            settings.coverOnly === true ||
+            companionVideos.has(file) // played with its photo
           ) {
             continue;
           }
@@ -299,6 +384,73 @@ export class DiskManager {
   }
 
 
+  /**
+   * Libraries show up as directories in the root of the gallery.
+   * Libraries with a missing folder are skipped, so they do not break the scanning of the root.
+   */
+  private static async getLibraryDirs(): Promise<string[]> {
+    const ret: string[] = [];
+    for (const library of ProjectPath.Libraries) {
+      try {
+        if ((await fsp.stat(library.folder)).isDirectory()) {
+          ret.push(library.name);
+        }
+      } catch (err) {
+        Logger.warn(LOG_TAG, 'Can\'t read library folder, skipping: ' + library.folder, err.toString());
+      }
+    }
+    return ret;
+  }
+
+  /**
+   * Groups the photos with the same name but different extension (e.g.: IMG_1.jpg and IMG_1.dng).
+   * Only the primary photo of the group is indexed (see Config.Media.Photo.groupingPriority),
+   * the rest of the group and the XMP sidecars of the group are its alternates.
+   * @param files file names in a directory
+   */
+  public static groupSameNamePhotos(files: string[]): {
+    byPrimary: Map<string, string[]>,
+    hidden: Set<string>
+  } {
+    const ret = {byPrimary: new Map<string, string[]>(), hidden: new Set<string>()};
+    if (!Config.Media.Photo.groupSameNamePhotos) {
+      return ret;
+    }
+    const groups = new Map<string, string[]>();
+    for (const file of files) {
+      if (!PhotoProcessing.isPhoto(file)) {
+        continue;
+      }
+      const name = path.parse(file).name;
+      if (!groups.has(name)) {
+        groups.set(name, []);
+      }
+      groups.get(name).push(file);
+    }
+
+    const priority = Config.Media.Photo.groupingPriority.map(e => e.toLowerCase());
+    const rank = (file: string): number => {
+      const i = priority.indexOf(path.extname(file).substring(1).toLowerCase());
+      return i === -1 ? priority.length : i;
+    };
+    const sidecars = files.filter(f => path.extname(f).toLowerCase() === '.xmp');
+
+    for (const [name, group] of groups) {
+      if (group.length < 2) {
+        continue;
+      }
+      group.sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+      // sidecars can be named both as IMG_1.xmp and IMG_1.dng.xmp
+      const groupSidecars = sidecars.filter(s => {
+        const sName = path.parse(s).name;
+        return sName === name || group.includes(sName);
+      });
+      ret.byPrimary.set(group[0], [...group.slice(1), ...groupSidecars]);
+      group.slice(1).forEach(f => ret.hidden.add(f));
+    }
+    return ret;
+  }
+
   private static isEnabledMetaFile(fullPath: string): boolean {
     const extension = path.extname(fullPath).toLowerCase();
 
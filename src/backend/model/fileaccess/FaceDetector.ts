@@ -0,0 +1,239 @@
+import * as sharp from 'sharp';
+import {Config} from '../../../common/config/private/Config';
+import {FaceRegionBox} from '../../../common/entities/PhotoDTO';
+import {ExtensionDecorator, ExtensionDecoratorObject} from '../extension/ExtensionDecorator';
+import {ExtensionEvent} from '../extension/ExtensionEvent';
+import {Logger} from '../../Logger';
+
+const LOG_TAG = '[FaceDetector]';
+
+export interface DetectedFace {
+  box: FaceRegionBox; // in pixels of the orientation corrected photo, like the face regions of the metadata
+  confidence: number; // 0-1
+  embedding: number[]; // feature vector, faces of the same person are close to each other
+}
+
+/**
+ * The parts of onnxruntime-node that the detector uses. It is an optional dependency.
+ */
+interface OrtTensor {
+  data: Float32Array;
+  dims: readonly number[];
+}
+
+interface OrtSession {
+  inputNames: readonly string[];
+  outputNames: readonly string[];
+
+  run(feeds: Record<string, OrtTensor>): Promise<Record<string, OrtTensor>>;
+}
+
+interface OrtRuntime {
+  InferenceSession: {
+    create(modelPath: string, options: { executionProviders: string[] }): Promise<OrtSession>;
+  };
+  Tensor: new (type: 'float32', data: Float32Array, dims: number[]) => OrtTensor;
+}
+
+interface RawImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * Finds the faces on a photo and calculates a feature vector (embedding) for each of them.
+ * The built-in detection runs two ONNX models with onnxruntime-node on the CPU:
+ *  - detector: UltraFace compatible, 320x240 RGB input, 'scores' [1, N, 2] and 'boxes' [1, N, 4] outputs
+ *  - embedding: ArcFace compatible, 112x112 RGB input, one feature vector output
+ * Extensions can plug in other models (e.g.: a tfjs-node one) through the FaceDetector.detect event.
+ */
+export class FaceDetector {
+  private static readonly DETECTOR_INPUT = {width: 320, height: 240};
+  private static readonly EMBEDDING_INPUT = 112;
+  // the photo is downscaled to this before cutting out the faces
+  private static readonly MAX_WORKING_SIZE = 1600;
+  private static readonly NMS_IOU_THRESHOLD = 0.3;
+  private static runtime: OrtRuntime = null;
+  private static sessions = new Map<string, Promise<OrtSession>>();
+
+  /**
+   * Loads the models of the built-in detection, so a missing or broken model fails right away,
+   * not on every photo. Nothing to check if an extension does the detection.
+   */
+  public static async checkModels(): Promise<void> {
+    const event = ExtensionDecoratorObject.events?.gallery.FaceDetector.detect as ExtensionEvent<[string], DetectedFace[]>;
+    if (event?.HasBeforeHandlers) {
+      return;
+    }
+    await this.getModelSessions();
+  }
+
+  @ExtensionDecorator(e => e.gallery.FaceDetector.detect)
+  public static async detect(photoPath: string): Promise<DetectedFace[]> {
+    const settings = Config.Faces.Detection;
+    const {detector, embedder} = await this.getModelSessions();
+
+    const image = sharp(photoPath, {failOnError: false}).rotate();
+    const metadata = await image.metadata();
+    // metadata is not orientation corrected
+    const size = (metadata.orientation || 1) > 4 ?
+      {width: metadata.height, height: metadata.width} :
+      {width: metadata.width, height: metadata.height};
+    const {data, info} = await image
+      .removeAlpha()
+      .resize(this.MAX_WORKING_SIZE, this.MAX_WORKING_SIZE, {fit: 'inside', withoutEnlargement: true})
+      .raw()
+      .toBuffer({resolveWithObject: true});
+    const working: RawImage = {data, width: info.width, height: info.height};
+
+    const faces: DetectedFace[] = [];
+    for (const d of await this.findFaces(detector, working)) {
+      // normalized box to photo pixels
+      const box: FaceRegionBox = {
+        left: Math.round(d.box[0] * size.width),
+        top: Math.round(d.box[1] * size.height),
+        width: Math.round((d.box[2] - d.box[0]) * size.width),
+        height: Math.round((d.box[3] - d.box[1]) * size.height)
+      };
+      if (Math.min(box.width, box.height) < settings.minFaceSize) {
+        continue;
+      }
+      faces.push({
+        box,
+        confidence: d.confidence,
+        embedding: await this.calcEmbedding(embedder, working, d.box)
+      });
+    }
+    Logger.silly(LOG_TAG, 'Found ' + faces.length + ' face(s) on ' + photoPath);
+    return faces;
+  }
+
+  /**
+   * @return boxes as [left, top, right, bottom] in 0-1 ratio of the image size
+   */
+  private static async findFaces(detector: OrtSession, image: RawImage): Promise<{
+    box: number[],
+    confidence: number
+  }[]> {
+    const {width, height} = this.DETECTOR_INPUT;
+    const pixels = await sharp(image.data, {raw: {width: image.width, height: image.height, channels: 3}})
+      .resize(width, height, {fit: 'fill'})
+      .raw()
+      .toBuffer();
+    const output = await detector.run({
+      [detector.inputNames[0]]: this.toTensor(pixels, width, height, 127, 128)
+    });
+    const scores = output['scores'].data;
+    const boxes = output['boxes'].data;
+
+    const candidates: { box: number[], confidence: number }[] = [];
+    for (let i = 0; i < scores.length / 2; ++i) {
+      // second column is the face probability
+      if (scores[i * 2 + 1] < Config.Faces.Detection.minConfidence) {
+        continue;
+      }
+      candidates.push({
+        box: Array.from(boxes.subarray(i * 4, i * 4 + 4)).map(v => Math.min(1, Math.max(0, v))),
+        confidence: scores[i * 2 + 1]
+      });
+    }
+    return this.nonMaximumSuppression(candidates);
+  }
+
+  /**
+   * The detector finds the same face many times with slightly different boxes, keeping the most confident ones.
+   */
+  private static nonMaximumSuppression(candidates: { box: number[], confidence: number }[]): {
+    box: number[],
+    confidence: number
+  }[] {
+    const iou = (a: number[], b: number[]): number => {
+      const w = Math.max(0, Math.min(a[2], b[2]) - Math.max(a[0], b[0]));
+      const h = Math.max(0, Math.min(a[3], b[3]) - Math.max(a[1], b[1]));
+      const area = (r: number[]): number => (r[2] - r[0]) * (r[3] - r[1]);
+      return w * h / (area(a) + area(b) - w * h);
+    };
+    const kept: { box: number[], confidence: number }[] = [];
+    for (const c of candidates.sort((a, b) => b.confidence - a.confidence)) {
+      if (kept.every(k => iou(k.box, c.box) < this.NMS_IOU_THRESHOLD)) {
+        kept.push(c);
+      }
+    }
+    return kept;
+  }
+
+  private static async calcEmbedding(embedder: OrtSession, image: RawImage, box: number[]): Promise<number[]> {
+    // square crop around the face
+    const cx = (box[0] + box[2]) / 2 * image.width;
+    const cy = (box[1] + box[3]) / 2 * image.height;
+    const side = Math.max(1, Math.min(
+      Math.max((box[2] - box[0]) * image.width, (box[3] - box[1]) * image.height),
+      image.width, image.height));
+    const left = Math.round(Math.min(image.width - side, Math.max(0, cx - side / 2)));
+    const top = Math.round(Math.min(image.height - side, Math.max(0, cy - side / 2)));
+    const size = this.EMBEDDING_INPUT;
+    const pixels = await sharp(image.data, {raw: {width: image.width, height: image.height, channels: 3}})
+      .extract({left, top, width: Math.floor(side), height: Math.floor(side)})
+      .resize(size, size, {fit: 'fill'})
+      .raw()
+      .toBuffer();
+    const output = await embedder.run({
+      [embedder.inputNames[0]]: this.toTensor(pixels, size, size, 127.5, 127.5)
+    });
+    const vector = Array.from(output[embedder.outputNames[0]].data);
+    const length = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return vector.map(v => v / length);
+  }
+
+  /**
+   * Interleaved RGB pixels to normalized NCHW float tensor
+   */
+  private static toTensor(pixels: Buffer, width: number, height: number, mean: number, scale: number): OrtTensor {
+    const plane = width * height;
+    const data = new Float32Array(3 * plane);
+    for (let i = 0; i < plane; ++i) {
+      for (let c = 0; c < 3; ++c) {
+        data[c * plane + i] = (pixels[i * 3 + c] - mean) / scale;
+      }
+    }
+    return new (this.getRuntime().Tensor)('float32', data, [1, 3, height, width]);
+  }
+
+  private static async getModelSessions(): Promise<{ detector: OrtSession, embedder: OrtSession }> {
+    const settings = Config.Faces.Detection;
+    if (!settings.detectorModel || !settings.embeddingModel) {
+      throw new Error('Face detection needs a detector and an embedding model. Set them in the faces settings.');
+    }
+    return {
+      detector: await this.getSession(settings.detectorModel),
+      embedder: await this.getSession(settings.embeddingModel)
+    };
+  }
+
+  private static getSession(modelPath: string): Promise<OrtSession> {
+    if (!this.sessions.has(modelPath)) {
+      const session = this.getRuntime().InferenceSession.create(modelPath, {executionProviders: ['cpu']})
+        .catch((e): OrtSession => {
+          throw new Error('Can\'t load the face detection model: ' + modelPath + ', ' + e.toString());
+        });
+      // not caching failures, the model file might be fixed in the meantime
+      session.catch(() => this.sessions.delete(modelPath));
+      this.sessions.set(modelPath, session);
+    }
+    return this.sessions.get(modelPath);
+  }
+
+  private static getRuntime(): OrtRuntime {
+    if (!this.runtime) {
+      try {
+        // optional dependency, it is only loaded if the built-in detection is used
+        // eslint-disable-next-line @typescript-eslint/no-var-requires
+        this.runtime = require('onnxruntime-node');
+      } catch (e) {
+        throw new Error('The built-in face detection needs onnxruntime-node. Install it or use an extension for face detection. ' + e.toString());
+      }
+    }
+    return this.runtime;
+  }
+}
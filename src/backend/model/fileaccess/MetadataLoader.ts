@@ -21,6 +21,26 @@ const LOG_TAG = '[MetadataLoader]';
 const ffmpeg = FFmpegFactory.get();
 
 export class MetadataLoader {
+  /**
+   * XMP namespace (and prefix) of the fields that pigallery2 writes to the sidecar files.
+   * See MetadataWriter.
+   */
+  public static readonly PG2_XMP_NAMESPACE = 'https://github.com/bpatrik/pigallery2/xmp/1.0/';
+  public static readonly PG2_XMP_PREFIX = 'pigallery2';
+
+  /**
+   * Returns the possible sidecar file paths of a media file in the order they are looked up.
+   * Only the first existing one is used.
+   */
+  public static getSidecarPaths(fullPath: string): string[] {
+    const fullPathWithoutExt = path.join(path.parse(fullPath).dir, path.parse(fullPath).name);
+    return [
+      fullPath + '.xmp',
+      fullPath + '.XMP',
+      fullPathWithoutExt + '.xmp',
+      fullPathWithoutExt + '.XMP',
+    ];
+  }
 
   @ExtensionDecorator(e => e.gallery.MetadataLoader.loadVideoMetadata)
   public static async loadVideoMetadata(fullPath: string): Promise<VideoMetadata> {
@@ -132,15 +152,7 @@ export class MetadataLoader {
 
       try {
         // search for sidecar and merge metadata
-        const fullPathWithoutExt = path.join(path.parse(fullPath).dir, path.parse(fullPath).name);
-        const sidecarPaths = [
-          fullPath + '.xmp',
-          fullPath + '.XMP',
-          fullPathWithoutExt + '.xmp',
-          fullPathWithoutExt + '.XMP',
-        ];
-
-        for (const sidecarPath of sidecarPaths) {
+        for (const sidecarPath of MetadataLoader.getSidecarPaths(fullPath)) {
           if (fs.existsSync(sidecarPath)) {
             const sidecarData: any = await exifr.sidecar(sidecarPath);
             if (sidecarData !== undefined) {
@@ -237,20 +249,13 @@ export class MetadataLoader {
 
         try {
           // search for sidecar and merge metadata
-          const fullPathWithoutExt = path.join(path.parse(fullPath).dir, path.parse(fullPath).name);
-          const sidecarPaths = [
-            fullPath + '.xmp',
-            fullPath + '.XMP',
-            fullPathWithoutExt + '.xmp',
-            fullPathWithoutExt + '.XMP',
-          ];
-
-          for (const sidecarPath of sidecarPaths) {
+          for (const sidecarPath of MetadataLoader.getSidecarPaths(fullPath)) {
             if (fs.existsSync(sidecarPath)) {
               const sidecarData: any = await exifr.sidecar(sidecarPath, exifrOptions);
               if (sidecarData !== undefined) {
                 //note that since side cars are loaded last, data loaded here overwrites embedded metadata (in Pigallery2, not in the actual files)
                 MetadataLoader.mapMetadata(metadata, sidecarData);
+                MetadataLoader.mapEditedMetadata(metadata, sidecarData);
                 break;
               }
             }
@@ -522,6 +527,44 @@ export class MetadataLoader {
     } 
   }
 
+  /**
+   * Sidecars edited from the app are the source of truth for the editable fields:
+   * they replace (and can clear) the embedded values instead of being merged with them.
+   */
+  private static mapEditedMetadata(metadata: PhotoMetadata, sidecar: any) {
+    if (!sidecar[MetadataLoader.PG2_XMP_PREFIX]?.Edited) {
+      return;
+    }
+    // exifr does not decode XML entities
+    const decode = (str: string): string => typeof str !== 'string' ? str :
+      str.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"')
+        .replace(/&apos;/g, '\'').replace(/&amp;/g, '&');
+
+    const subject = sidecar.dc?.subject;
+    const keywords: string[] = (Array.isArray(subject) ? subject : (subject !== undefined ? [subject] : []))
+      .map((kw: unknown) => decode('' + kw));
+    if (keywords.length > 0) {
+      metadata.keywords = keywords;
+    } else {
+      delete metadata.keywords;
+    }
+    const title = decode(sidecar.dc?.title?.value);
+    if (title) {
+      metadata.title = '' + title;
+    } else {
+      delete metadata.title;
+    }
+    const caption = decode(sidecar.dc?.description?.value);
+    if (caption) {
+      metadata.caption = '' + caption;
+    } else {
+      delete metadata.caption;
+    }
+    if (!(sidecar.xmp?.Rating > 0)) {
+      delete metadata.rating;
+    }
+  }
+
   private static mapFaces(metadata: PhotoMetadata, exif: any, orientation: number) {
     //xmp."mwg-rs" section
     if (exif["mwg-rs"] &&
@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import {promises as fsp} from 'fs';
+import * as xml2js from 'xml2js';
+import {MetadataLoader} from './MetadataLoader';
+import {PhotoMetadata} from '../../../common/entities/PhotoDTO';
+import {RatingTypes} from '../../../common/entities/MediaDTO';
+import {MediaMetadataEditDTO} from '../../../common/entities/MediaMetadataEditDTO';
+import {Logger} from '../../Logger';
+
+const LOG_TAG = '[MetadataWriter]';
+
+const XMP_NS = {
+  x: 'adobe:ns:meta/',
+  rdf: 'http://www.w3.org/1999/02/22-rdf-syntax-ns#',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  xmp: 'http://ns.adobe.com/xap/1.0/',
+};
+
+/**
+ * XML element as xml2js parses it: attributes are under $, text is under _ and child elements are arrays
+ */
+interface XmlElement {
+  $?: Record<string, string>;
+  _?: string;
+
+  [child: string]: (XmlElement | string)[] | XmlElement | Record<string, string> | string;
+}
+
+/**
+ * Writes user edited metadata (rating, keywords, title, caption) to XMP sidecar files.
+ * The original media files are never modified.
+ * The sidecar is marked, so MetadataLoader prefers its values over the embedded ones.
+ */
+export class MetadataWriter {
+
+  /**
+   * Updates the sidecar of the photo. If the photo has no sidecar yet, photo.jpg.xmp is created.
+   * Fields that are not set in the edit keep their current value.
+   * @return the metadata of the photo after the change
+   */
+  public static async writePhotoMetadata(fullPath: string, edit: MediaMetadataEditDTO): Promise<PhotoMetadata> {
+    const current = await MetadataLoader.loadPhotoMetadata(fullPath);
+    const values = {
+      rating: edit.rating !== undefined ? edit.rating : (current.rating || 0) as RatingTypes,
+      keywords: edit.keywords !== undefined ? edit.keywords : (current.keywords || []),
+      title: edit.title !== undefined ? edit.title : (current.title || ''),
+      caption: edit.caption !== undefined ? edit.caption : (current.caption || ''),
+    };
+
+    const sidecarPath = MetadataLoader.getSidecarPaths(fullPath).find(p => fs.existsSync(p)) || fullPath + '.xmp';
+    let xmp: XmlElement;
+    if (fs.existsSync(sidecarPath)) {
+      xmp = await (new xml2js.Parser()).parseStringPromise(await fsp.readFile(sidecarPath, 'utf8'));
+    } else {
+      xmp = {
+        'x:xmpmeta': {
+          $: {'xmlns:x': XMP_NS.x},
+          'rdf:RDF': [{$: {'xmlns:rdf': XMP_NS.rdf}, 'rdf:Description': [{$: {'rdf:about': ''}}]}]
+        }
+      };
+    }
+    MetadataWriter.setFields(xmp, values);
+
+    const xml = (new xml2js.Builder({headless: true, renderOpts: {pretty: true, indent: ' ', newline: '\n'}})).buildObject(xmp);
+    // writing to a temp file first, so a failed write does not corrupt the existing sidecar
+    const tmpPath = sidecarPath + '.pg2tmp';
+    await fsp.writeFile(tmpPath,
+      '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>\n' + xml + '\n<?xpacket end="w"?>\n', 'utf8');
+    await fsp.rename(tmpPath, sidecarPath);
+    Logger.debug(LOG_TAG, 'Metadata written to: ' + sidecarPath);
+
+    return await MetadataLoader.loadPhotoMetadata(fullPath);
+  }
+
+  private static setFields(xmp: XmlElement, values: Required<MediaMetadataEditDTO>): void {
+    const root = (xmp['x:xmpmeta'] as XmlElement) || xmp;
+    const rdf = (root['rdf:RDF'] as (XmlElement | string)[])?.[0];
+    if (!rdf || typeof rdf !== 'object') {
+      throw new Error('Unsupported XMP file, rdf:RDF element not found');
+    }
+    if (!Array.isArray(rdf['rdf:Description'])) {
+      rdf['rdf:Description'] = [];
+    }
+    // empty elements are parsed as strings
+    const descriptions: XmlElement[] = rdf['rdf:Description'] = (rdf['rdf:Description'] as (XmlElement | string)[])
+      .map((d): XmlElement => typeof d === 'object' ? d : {});
+    if (descriptions.length === 0) {
+      descriptions.push({$: {'rdf:about': ''}});
+    }
+
+    // the same namespace can be bound to different prefixes (e.g.: xap and xmp),
+    // reusing the existing one, otherwise MetadataLoader would only see one of them
+    const prefixesOf = (ns: string): string[] =>
+      [root, rdf, ...descriptions].flatMap((e) => Object.entries(e.$ || {})
+        .filter(([k, v]) => k.startsWith('xmlns:') && v === ns)
+        .map(([k]) => k.substring('xmlns:'.length)));
+    const xmpPrefixes = prefixesOf(XMP_NS.xmp);
+    const dcPrefixes = prefixesOf(XMP_NS.dc);
+    const xmpPrefix = xmpPrefixes[0] || 'xmp';
+
+    // removing the old values, they can be stored both as attributes and as elements
+    const toRemove = [
+      ...[...xmpPrefixes, 'xmp', 'xap'].map(p => p + ':Rating'),
+      ...[...dcPrefixes, 'dc'].flatMap(p => [p + ':title', p + ':description', p + ':subject']),
+      MetadataLoader.PG2_XMP_PREFIX + ':Edited'
+    ];
+    for (const d of descriptions) {
+      for (const key of toRemove) {
+        delete d[key];
+        if (d.$) {
+          delete d.$[key];
+        }
+      }
+    }
+
+    const desc = descriptions[0];
+    desc.$ = desc.$ || {};
+    desc.$['xmlns:' + xmpPrefix] = XMP_NS.xmp;
+    desc.$['xmlns:dc'] = XMP_NS.dc;
+    desc.$['xmlns:' + MetadataLoader.PG2_XMP_PREFIX] = MetadataLoader.PG2_XMP_NAMESPACE;
+    desc.$[MetadataLoader.PG2_XMP_PREFIX + ':Edited'] = 'True';
+
+    desc[xmpPrefix + ':Rating'] = ['' + values.rating];
+    if (values.title) {
+      desc['dc:title'] = [{'rdf:Alt': [{'rdf:li': [{_: values.title, $: {'xml:lang': 'x-default'}}]}]}];
+    }
+    if (values.caption) {
+      desc['dc:description'] = [{'rdf:Alt': [{'rdf:li': [{_: values.caption, $: {'xml:lang': 'x-default'}}]}]}];
+    }
+    if (values.keywords.length > 0) {
+      desc['dc:subject'] = [{'rdf:Bag': [{'rdf:li': values.keywords}]}];
+    }
+  }
+}
@@ -33,6 +33,31 @@ export class PhotoWorker {
     }
     return PhotoWorker.videoRenderer(input);
   }
+
+  /**
+   * Calculates a 64 bit difference hash (dHash) of the photo.
+   * Resized, re-encoded or renamed copies of a photo have the same or a very close hash.
+   * @return 16 character long hex string
+   */
+  public static async calcPerceptualHash(mediaPath: string): Promise<string> {
+    const {data, info} = await sharp(mediaPath, {failOnError: false})
+      .rotate()
+      .greyscale()
+      .removeAlpha()
+      .resize(9, 8, {fit: 'fill'})
+      .raw()
+      .toBuffer({resolveWithObject: true});
+    const pixel = (x: number, y: number): number => data[(y * info.width + x) * info.channels];
+    let hash = '';
+    for (let y = 0; y < 8; ++y) {
+      let rowBits = 0;
+      for (let x = 0; x < 8; ++x) {
+        rowBits = (rowBits << 1) | (pixel(x, y) < pixel(x + 1, y) ? 1 : 0);
+      }
+      hash += rowBits.toString(16).padStart(2, '0');
+    }
+    return hash;
+  }
 }
 
 export enum ThumbnailSourceType {
@@ -18,7 +18,11 @@ export interface VideoConverterInput {
     preset?: FFmpegPresets;
     customOptions?: string[];
     codec: videoCodecType;
-    format: videoFormatType;
+    format: videoFormatType | 'hls';
+    hls?: {
+      segmentLength: number;
+      segmentPath: string;
+    };
   };
 }
 
@@ -86,6 +90,18 @@ export class VideoConverterWorker {
       if (input.output.preset) {
         command.addOption(['-preset ' + FFmpegPresets[input.output.preset]]);
       }
+      // segmented output, every segment needs to start with a keyframe
+      // and the pixel format needs to be playable by the browsers (MSE)
+      // (the options and their values are passed separately, as the paths can contain spaces)
+      if (input.output.hls) {
+        command.outputOptions(
+          '-pix_fmt', 'yuv420p',
+          '-force_key_frames', 'expr:gte(t,n_forced*' + input.output.hls.segmentLength + ')',
+          '-hls_time', input.output.hls.segmentLength.toString(),
+          '-hls_playlist_type', 'vod',
+          '-hls_segment_filename', input.output.hls.segmentPath
+        );
+      }
       // set any additional commands
       if (input.output.customOptions) {
         command.addOption(input.output.customOptions);
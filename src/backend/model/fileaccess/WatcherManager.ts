@@ -0,0 +1,238 @@
+import * as fs from 'fs';
+import {promises as fsp} from 'fs';
+import * as path from 'path';
+import {Config} from '../../../common/config/private/Config';
+import {ProjectPath} from '../../ProjectPath';
+import {Logger} from '../../Logger';
+import {DiskManager} from './DiskManager';
+import {ObjectManagers} from '../ObjectManagers';
+import {IObjectManager} from '../database/IObjectManager';
+import {ParentDirectoryDTO} from '../../../common/entities/DirectoryDTO';
+import {FolderWatcherStatusDTO} from '../../../common/entities/settings/StatisticDTO';
+import {NotificationManager} from '../NotifocationManager';
+
+const LOG_TAG = '[WatcherManager]';
+
+/**
+ * Watches the image folder for changes and reindexes the changed directories only.
+ * Uses inotify (fs.watch) and falls back to polling (fs.watchFile)
+ * if a directory can't be watched or polling is forced by the config.
+ */
+export class WatcherManager implements IObjectManager {
+  // onNewDataVersion only need for TypeScript, otherwise the interface is not implemented.
+  readonly onNewDataVersion: (changedDir?: ParentDirectoryDTO) => Promise<void>;
+  // absolute directory path -> watcher
+  private watchers = new Map<string, fs.FSWatcher>();
+  // absolute paths of the directories that are polled instead of watched
+  private pollers = new Set<string>();
+  // relative directory paths waiting to be reindexed
+  private pendingDirs = new Set<string>();
+  private debounceTimer: NodeJS.Timeout = null;
+  private processing = false;
+
+  get Status(): FolderWatcherStatusDTO {
+    return {
+      enabled: Config.Indexing.Watcher.enabled,
+      watchedDirectories: this.watchers.size,
+      polledDirectories: this.pollers.size,
+      pendingDirectories: [...this.pendingDirs]
+    };
+  }
+
+  async init(): Promise<void> {
+    if (!Config.Indexing.Watcher.enabled) {
+      return;
+    }
+    await this.watchTree(ProjectPath.ImageFolder, false);
+    for (const library of ProjectPath.Libraries) {
+      await this.watchTree(library.folder, false);
+    }
+    const status = this.Status;
+    Logger.info(LOG_TAG, 'Watching ' + status.watchedDirectories + ' folders, polling ' + status.polledDirectories + ' folders');
+  }
+
+  async cleanUp(): Promise<void> {
+    clearTimeout(this.debounceTimer);
+    this.debounceTimer = null;
+    for (const absDir of [...this.watchers.keys(), ...this.pollers]) {
+      this.unwatchDir(absDir);
+    }
+    this.pendingDirs.clear();
+  }
+
+  private static toRelative(absDir: string): string {
+    return DiskManager.normalizeDirPath(ProjectPath.getRelativePathToImages(absDir));
+  }
+
+  private isIgnored(absDir: string): boolean {
+    // the temp folder can be inside the images folder, watching it would cause a reindexing loop
+    const tmpRel = path.relative(ProjectPath.TempFolder, absDir);
+    return !tmpRel.startsWith('..') && !path.isAbsolute(tmpRel);
+  }
+
+  /**
+   * Watches the directory and all of its not excluded subdirectories.
+   * @param absDir absolute path of the directory
+   * @param enqueueNew if true, newly found directories are also queued for reindexing
+   */
+  private async watchTree(absDir: string, enqueueNew: boolean): Promise<void> {
+    if (this.isIgnored(absDir)) {
+      return;
+    }
+    if (!this.isWatched(absDir)) {
+      this.watchDir(absDir);
+      if (enqueueNew) {
+        this.enqueue(absDir);
+      }
+    }
+    let entries: fs.Dirent[];
+    try {
+      entries = await fsp.readdir(absDir, {withFileTypes: true});
+    } catch (e) {
+      Logger.warn(LOG_TAG, 'Can\'t read directory, skipping: ' + absDir, e.toString());
+      return;
+    }
+    for (const entry of entries) {
+      if (!entry.isDirectory()) {
+        continue;
+      }
+      if (await DiskManager.excludeDir({
+        name: entry.name,
+        parentDirRelativeName: WatcherManager.toRelative(absDir),
+        parentDirAbsoluteName: absDir
+      })) {
+        continue;
+      }
+      await this.watchTree(path.join(absDir, entry.name), enqueueNew);
+    }
+  }
+
+  private watchDir(absDir: string): void {
+    if (!Config.Indexing.Watcher.usePolling) {
+      try {
+        const watcher = fs.watch(absDir, {persistent: false}, () => this.onDirChanged(absDir));
+        watcher.on('error', (err) => {
+          Logger.warn(LOG_TAG, 'Watcher error, falling back to polling: ' + absDir, err.toString());
+          watcher.close();
+          this.watchers.delete(absDir);
+          this.pollDir(absDir);
+        });
+        this.watchers.set(absDir, watcher);
+        return;
+      } catch (err) {
+        Logger.verbose(LOG_TAG, 'Can\'t watch directory, falling back to polling: ' + absDir, err.toString());
+      }
+    }
+    this.pollDir(absDir);
+  }
+
+  private pollDir(absDir: string): void {
+    // directory mtime changes if an entry is added, removed or renamed
+    fs.watchFile(absDir, {
+      persistent: false,
+      interval: Config.Indexing.Watcher.pollingInterval
+    }, (curr, prev) => {
+      if (curr.mtimeMs !== prev.mtimeMs || curr.ctimeMs !== prev.ctimeMs) {
+        this.onDirChanged(absDir);
+      }
+    });
+    this.pollers.add(absDir);
+  }
+
+  private isWatched(absDir: string): boolean {
+    return this.watchers.has(absDir) || this.pollers.has(absDir);
+  }
+
+  private unwatchDir(absDir: string): void {
+    if (this.watchers.has(absDir)) {
+      this.watchers.get(absDir).close();
+      this.watchers.delete(absDir);
+    }
+    if (this.pollers.has(absDir)) {
+      fs.unwatchFile(absDir);
+      this.pollers.delete(absDir);
+    }
+  }
+
+  /**
+   * Stops watching the directory and all of its subdirectories.
+   */
+  private unwatchTree(absDir: string): void {
+    for (const dir of [...this.watchers.keys(), ...this.pollers]) {
+      const rel = path.relative(absDir, dir);
+      if (!rel.startsWith('..') && !path.isAbsolute(rel)) {
+        this.unwatchDir(dir);
+      }
+    }
+  }
+
+  private onDirChanged(absDir: string): void {
+    Logger.silly(LOG_TAG, 'Directory changed: ' + absDir);
+    this.enqueue(absDir);
+  }
+
+  protected enqueue(absDir: string): void {
+    this.pendingDirs.add(WatcherManager.toRelative(absDir));
+    clearTimeout(this.debounceTimer);
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null;
+      this.processPending().catch((err): void => {
+        Logger.error(LOG_TAG, 'Error during processing changed directories: ' + err);
+      });
+    }, Config.Indexing.Watcher.debounceTime);
+  }
+
+  private async processPending(): Promise<void> {
+    if (this.processing) {
+      // the running loop will pick up the new directories
+      return;
+    }
+    this.processing = true;
+    try {
+      while (this.pendingDirs.size > 0) {
+        const relDir: string = this.pendingDirs.values().next().value;
+        this.pendingDirs.delete(relDir);
+        await this.reindex(relDir);
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  protected async reindex(relDir: string): Promise<void> {
+    const absDir = ProjectPath.getMediaPath(relDir);
+    try {
+      if (!(await fsp.stat(absDir)).isDirectory()) {
+        this.unwatchTree(absDir);
+        return;
+      }
+    } catch (e) {
+      // directory was removed, the parent directory's reindexing removes it from the DB
+      Logger.silly(LOG_TAG, 'Directory is gone, stop watching: ' + relDir);
+      this.unwatchTree(absDir);
+      return;
+    }
+
+    // Same check as in IndexingManager.indexDirectory:
+    // an unmounted image folder would trigger a full gallery wipe.
+    if ((await fsp.readdir(ProjectPath.getMediaRoot(relDir))).length === 0) {
+      Logger.warn(LOG_TAG, 'Root directory is empty. Skipping reindexing of: ' + relDir);
+      return;
+    }
+
+    // pick up newly created subdirectories
+    await this.watchTree(absDir, true);
+
+    try {
+      Logger.debug(LOG_TAG, 'Reindexing changed directory: ' + relDir);
+      const scannedDirectory = await DiskManager.scanDirectory(relDir);
+      await ObjectManagers.getInstance().IndexingManager.queueForSave(scannedDirectory);
+    } catch (err) {
+      NotificationManager.warning(
+        'Folder watcher: unknown indexing error for: ' + relDir,
+        err.toString()
+      );
+      Logger.error(LOG_TAG, 'Error during reindexing ' + relDir + ': ' + err);
+    }
+  }
+}
@@ -34,8 +34,7 @@ export class GPXProcessing {
   public static async isValidConvertedPath(
       convertedPath: string
   ): Promise<boolean> {
-    const origFilePath = path.join(
-        ProjectPath.ImageFolder,
+    const origFilePath = ProjectPath.getMediaPath(
         path.relative(
             ProjectPath.TranscodedFolder,
             convertedPath.substring(0, convertedPath.lastIndexOf('_'))
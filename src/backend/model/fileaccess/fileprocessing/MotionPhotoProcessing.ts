@@ -0,0 +1,277 @@
+import {constants as fsConstants, promises as fsp} from 'fs';
+import * as path from 'path';
+import * as util from 'node:util';
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore
+import * as exifr from 'exifr';
+import {FfprobeData} from 'fluent-ffmpeg';
+import {ProjectPath} from '../../../ProjectPath';
+import {Config} from '../../../../common/config/private/Config';
+import {FFmpegFactory} from '../../FFmpegFactory';
+import {Logger} from '../../../Logger';
+import {PhotoProcessing} from './PhotoProcessing';
+import {VideoProcessing} from './VideoProcessing';
+
+const LOG_TAG = '[MotionPhotoProcessing]';
+const ffmpeg = FFmpegFactory.get();
+
+/**
+ * Handles the video part of the photos:
+ *  - Apple Live Photo: the video is a separate file with the same name (e.g.: IMG_1.HEIC + IMG_1.MOV),
+ *    the two files share the same content identifier.
+ *  - Google Motion Photo: an mp4 video is embedded at the end of the jpg file,
+ *    it is extracted to the transcoded folder.
+ */
+export class MotionPhotoProcessing {
+  private static readonly CLIP_POSTFIX = 'motion.mp4';
+  // Motion Photo XMP is at the beginning of the file, no need to read the whole photo to detect it
+  private static readonly XMP_SEARCH_LENGTH = 128 * 1024;
+
+  public static generateClipPath(photoPath: string): string {
+    return path.join(
+      ProjectPath.TranscodedFolder,
+      ProjectPath.getRelativePathToImages(path.dirname(photoPath)),
+      path.basename(photoPath) + '_' + this.CLIP_POSTFIX
+    );
+  }
+
+  public static isClipPath(filePath: string): boolean {
+    return filePath.endsWith('_' + this.CLIP_POSTFIX);
+  }
+
+  public static async isValidClipPath(clipPath: string): Promise<boolean> {
+    const origFilePath = ProjectPath.getMediaPath(
+      path.relative(
+        ProjectPath.TranscodedFolder,
+        clipPath.substring(0, clipPath.length - this.CLIP_POSTFIX.length - 1)
+      )
+    );
+    try {
+      await fsp.access(origFilePath, fsConstants.R_OK);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Pairs the photos of a directory with their Live Photo videos.
+   * @param dirPath full path of the directory
+   * @param files file names in the directory
+   * @param getKnown returns the already known result for the photo and video pair or null, if it needs to be checked
+   * @return video file name by photo file name
+   */
+  public static async findLivePhotoVideos(
+    dirPath: string,
+    files: string[],
+    getKnown: (photo: string, video: string) => Promise<boolean> = async () => null
+  ): Promise<Map<string, string>> {
+    const ret = new Map<string, string>();
+    if (!Config.Media.Photo.motionPhotos) {
+      return ret;
+    }
+    const videos = new Map<string, string>();
+    for (const file of files) {
+      if (VideoProcessing.isVideo(file)) {
+        videos.set(path.parse(file).name, file);
+      }
+    }
+    for (const file of files) {
+      const video = videos.get(path.parse(file).name);
+      if (!video || !PhotoProcessing.isPhoto(file) || Array.from(ret.values()).includes(video)) {
+        continue;
+      }
+      const known = await getKnown(file, video);
+      if (known !== null ? known : await this.isLivePhoto(path.join(dirPath, file), path.join(dirPath, video))) {
+        ret.set(file, video);
+      }
+    }
+    return ret;
+  }
+
+  /**
+   * Extracts the embedded video of a Motion Photo to the transcoded folder, if it is not there yet.
+   * @return path of the extracted video or null if the photo has no embedded video
+   */
+  public static async extractClip(photoPath: string): Promise<string> {
+    const clipPath = this.generateClipPath(photoPath);
+    try {
+      await fsp.access(clipPath, fsConstants.R_OK);
+      return clipPath;
+    } catch (e) {
+      // ignoring errors
+    }
+    if (!this.canHaveEmbeddedClip(photoPath)) {
+      return null;
+    }
+    try {
+      const file = await fsp.open(photoPath, 'r');
+      try {
+        const start = await this.findEmbeddedClipStart(file, photoPath);
+        if (start === -1) {
+          return null;
+        }
+        const clip = Buffer.alloc((await file.stat()).size - start);
+        await file.read(clip, 0, clip.length, start);
+        await fsp.mkdir(path.dirname(clipPath), {recursive: true});
+        await fsp.writeFile(clipPath, clip);
+        return clipPath;
+      } finally {
+        await file.close();
+      }
+    } catch (err) {
+      Logger.warn(LOG_TAG, 'Can\'t extract the embedded video of: ' + photoPath, err.toString());
+      return null;
+    }
+  }
+
+  /**
+   * Detects the embedded video of a Motion Photo without extracting it. Used during indexing.
+   */
+  public static async hasEmbeddedClip(photoPath: string): Promise<boolean> {
+    if (!this.canHaveEmbeddedClip(photoPath)) {
+      return false;
+    }
+    try {
+      const file = await fsp.open(photoPath, 'r');
+      try {
+        return (await this.findEmbeddedClipStart(file, photoPath)) !== -1;
+      } finally {
+        await file.close();
+      }
+    } catch (err) {
+      Logger.warn(LOG_TAG, 'Can\'t check the embedded video of: ' + photoPath, err.toString());
+      return false;
+    }
+  }
+
+  /**
+   * @return full path of the playable video part of the photo or null if it has none
+   */
+  public static async getMotionVideo(photoPath: string): Promise<string> {
+    const dirPath = path.dirname(photoPath);
+    const name = path.parse(photoPath).name;
+    const video = (await fsp.readdir(dirPath))
+      .find(f => path.parse(f).name === name && VideoProcessing.isVideo(f));
+    if (video && await this.isLivePhoto(photoPath, path.join(dirPath, video))) {
+      const videoPath = path.join(dirPath, video);
+      // Live Photo videos are usually mov files, that not all browsers can play
+      if (await VideoProcessing.convertedVideoExist(videoPath)) {
+        return VideoProcessing.generateConvertedFilePath(videoPath);
+      }
+      return videoPath;
+    }
+    return await this.extractClip(photoPath);
+  }
+
+  public static canHaveEmbeddedClip(photoPath: string): boolean {
+    return ['.jpg', '.jpeg'].includes(path.extname(photoPath).toLowerCase());
+  }
+
+  /**
+   * Finds the beginning of the embedded mp4 (its 'ftyp' box) without reading the whole photo.
+   * The XMP of the photo tells how long the video is, the older format stores it as MicroVideoOffset,
+   * the newer as the Length of the MotionPhoto container item.
+   * @return -1 if the photo is not a Motion Photo or its video is not found
+   */
+  private static async findEmbeddedClipStart(file: fsp.FileHandle, photoPath: string): Promise<number> {
+    const size = (await file.stat()).size;
+    const header = Buffer.alloc(Math.min(size, this.XMP_SEARCH_LENGTH));
+    const {bytesRead} = await file.read(header, 0, header.length, 0);
+    const xmp = header.toString('latin1', 0, bytesRead);
+    if (!/GCamera:(MotionPhoto|MicroVideo)(="|>)1/.test(xmp)) {
+      return -1;
+    }
+    const length = xmp.match(/GCamera:MicroVideoOffset(?:="|>)(\d+)/) ||
+      xmp.match(/Item:Semantic="MotionPhoto"[^>]*?Item:Length="(\d+)"/) ||
+      xmp.match(/Item:Length="(\d+)"[^>]*?Item:Semantic="MotionPhoto"/);
+    if (length) {
+      const start = size - parseInt(length[1], 10);
+      const box = Buffer.alloc(8);
+      if (start > 0 && (await file.read(box, 0, box.length, start)).bytesRead === box.length &&
+        box.toString('latin1', 4, 8) === 'ftyp') {
+        return start;
+      }
+    }
+    // no usable length in the XMP, looking for the first 'ftyp' box.
+    // The chunks overlap, so a box name on the chunk boundary is found too
+    const chunk = Buffer.alloc(this.XMP_SEARCH_LENGTH);
+    for (let pos = 0; pos < size; pos += chunk.length - 3) {
+      const read = (await file.read(chunk, 0, chunk.length, pos)).bytesRead;
+      const ftyp = chunk.subarray(0, read).indexOf('ftyp', 0, 'latin1');
+      if (ftyp !== -1) {
+        return pos + ftyp >= 4 ? pos + ftyp - 4 : -1;
+      }
+      if (read < chunk.length) {
+        break;
+      }
+    }
+    Logger.warn(LOG_TAG, 'Can\'t find the embedded video of: ' + photoPath);
+    return -1;
+  }
+
+  /**
+   * The video of a Live Photo always has a content identifier.
+   * If the photo has one too (in the Apple MakerNote), they need to match.
+   */
+  private static async isLivePhoto(photoPath: string, videoPath: string): Promise<boolean> {
+    const videoId = await this.getVideoContentIdentifier(videoPath);
+    if (!videoId) {
+      return false;
+    }
+    const photoId = await this.getPhotoContentIdentifier(photoPath);
+    return !photoId || photoId === videoId;
+  }
+
+  private static async getVideoContentIdentifier(videoPath: string): Promise<string> {
+    try {
+      const data: FfprobeData = await util.promisify<FfprobeData>(
+        // wrap to arrow function otherwise 'this' is lost for ffprobe
+        (cb) => ffmpeg(videoPath).ffprobe(cb)
+      )();
+      return (data.format.tags?.['com.apple.quicktime.content.identifier'] as string) || null;
+    } catch (err) {
+      Logger.silly(LOG_TAG, 'Can\'t read content identifier of: ' + videoPath, err.toString());
+      return null;
+    }
+  }
+
+  private static async getPhotoContentIdentifier(photoPath: string): Promise<string> {
+    try {
+      const data = await exifr.parse(photoPath, {makerNote: true});
+      return this.parseAppleContentIdentifier(data?.MakerNote);
+    } catch (err) {
+      Logger.silly(LOG_TAG, 'Can\'t read content identifier of: ' + photoPath, err.toString());
+      return null;
+    }
+  }
+
+  /**
+   * Apple MakerNote: "Apple iOS\0" header, 2 bytes version, "MM" byte order
+   * and a big-endian IFD, where the offsets are relative to the start of the MakerNote.
+   * The content identifier is the 0x0011 ASCII tag.
+   */
+  private static parseAppleContentIdentifier(makerNote: Uint8Array): string {
+    if (!makerNote) {
+      return null;
+    }
+    const buffer = Buffer.from(makerNote);
+    if (buffer.length < 16 || buffer.toString('latin1', 0, 9) !== 'Apple iOS') {
+      return null;
+    }
+    const count = buffer.readUInt16BE(14);
+    for (let i = 0; i < count; ++i) {
+      const entry = 16 + i * 12;
+      if (entry + 12 > buffer.length) {
+        break;
+      }
+      if (buffer.readUInt16BE(entry) !== 0x0011) {
+        continue;
+      }
+      const length = buffer.readUInt32BE(entry + 4);
+      const offset = length <= 4 ? entry + 8 : buffer.readUInt32BE(entry + 8);
+      return buffer.toString('latin1', offset, offset + length).replace(/\0+$/, '') || null;
+    }
+    return null;
+  }
+}
@@ -36,17 +36,24 @@ export class PhotoProcessing {
 
   public static async generatePersonThumbnail(
     person: PersonEntry
+  ): Promise<string> {
+    return this.generateFaceThumbnail(
+      person.sampleRegion.media,
+      person.sampleRegion.media.metadata.faces.find(f => f.name === person.name)
+    );
+  }
+
+  public static async generateFaceThumbnail(
+    photo: PhotoDTO,
+    faceRegion: FaceRegion
   ): Promise<string> {
     // load parameters
-    const photo: PhotoDTO = person.sampleRegion.media;
-    const mediaPath = path.join(
-      ProjectPath.ImageFolder,
+    const mediaPath = ProjectPath.getMediaPath(
       photo.directory.path,
       photo.directory.name,
       photo.name
     );
     const size: number = Config.Media.Photo.personThumbnailSize;
-    const faceRegion = person.sampleRegion.media.metadata.faces.find(f => f.name === person.name);
     // generate thumbnail path
     const thPath = PhotoProcessing.generatePersonThumbnailPath(
       mediaPath,
@@ -154,8 +161,7 @@ export class PhotoProcessing {
   public static async isValidConvertedPath(
     convertedPath: string
   ): Promise<boolean> {
-    const origFilePath = path.join(
-      ProjectPath.ImageFolder,
+    const origFilePath = ProjectPath.getMediaPath(
       path.relative(
         ProjectPath.TranscodedFolder,
         convertedPath.substring(0, convertedPath.lastIndexOf('_'))
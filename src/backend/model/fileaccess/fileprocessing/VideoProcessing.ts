@@ -6,8 +6,12 @@ import {MetadataLoader} from '../MetadataLoader';
 import {Config} from '../../../../common/config/private/Config';
 import {ProjectPath} from '../../../ProjectPath';
 import {SupportedFormats} from '../../../../common/SupportedFormats';
+import {videoResolutionType} from '../../../../common/config/private/PrivateConfig';
 
 export class VideoProcessing {
+  public static readonly HLS_MASTER_PLAYLIST = 'master.m3u8';
+  // audio is not scaled with the renditions, it is only added to the advertised bandwidth
+  private static readonly HLS_AUDIO_BIT_RATE = 128 * 1024;
   private static taskQue: ITaskExecuter<VideoConverterInput, void> =
     new TaskExecuter(
       1,
@@ -25,8 +29,7 @@ export class VideoProcessing {
   public static async isValidConvertedPath(
     convertedPath: string
   ): Promise<boolean> {
-    const origFilePath = path.join(
-      ProjectPath.ImageFolder,
+    const origFilePath = ProjectPath.getMediaPath(
       path.relative(
         ProjectPath.TranscodedFolder,
         convertedPath.substring(0, convertedPath.lastIndexOf('_'))
@@ -64,6 +67,125 @@ export class VideoProcessing {
     return false;
   }
 
+  /**
+   * HLS stream of a video is a directory in the transcoded folder with the master playlist
+   * and a sub-directory for each rendition (e.g.: 720p/index.m3u8 and its segments)
+   */
+  public static generateHLSPath(videoPath: string): string {
+    return path.join(
+      ProjectPath.TranscodedFolder,
+      ProjectPath.getRelativePathToImages(path.dirname(videoPath)),
+      path.basename(videoPath) + '_' + this.getHLSPostFix()
+    );
+  }
+
+  /**
+   * Only matches the directories named after a video with an HLS postfix (see getHLSPostFix),
+   * so the similarly named directories of the gallery are not taken as streams.
+   */
+  public static isHLSPath(dirPath: string): boolean {
+    const name = path.basename(dirPath);
+    const separator = name.lastIndexOf('_');
+    return separator !== -1 &&
+      this.isVideo(name.substring(0, separator)) &&
+      /^hls\d+k[a-z0-9-]+s\d+$/.test(name.substring(separator + 1));
+  }
+
+  public static async isValidHLSPath(hlsPath: string): Promise<boolean> {
+    if (!hlsPath.endsWith('_' + this.getHLSPostFix())) {
+      return false;
+    }
+    const origFilePath = ProjectPath.getMediaPath(
+      path.relative(
+        ProjectPath.TranscodedFolder,
+        hlsPath.substring(0, hlsPath.lastIndexOf('_'))
+      )
+    );
+    try {
+      await fsp.access(origFilePath, fsConstants.R_OK);
+    } catch (e) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * The master playlist is written after all renditions are done.
+   */
+  static async hlsStreamExist(videoPath: string): Promise<boolean> {
+    try {
+      await fsp.access(path.join(this.generateHLSPath(videoPath), this.HLS_MASTER_PLAYLIST), fsConstants.R_OK);
+      return true;
+    } catch (e) {
+      // ignoring errors
+    }
+    return false;
+  }
+
+  public static async convertToHLS(videoPath: string): Promise<void> {
+    if (await this.hlsStreamExist(videoPath)) {
+      return;
+    }
+    const outDir = this.generateHLSPath(videoPath);
+    const metaData = await MetadataLoader.loadVideoMetadata(videoPath);
+    const transcoding = Config.Media.Video.transcoding;
+
+    // renditions above the original resolution are skipped
+    let resolutions = Array.from(new Set(transcoding.hlsResolutions))
+      .filter(r => r <= metaData.size.height)
+      .sort((a, b) => a - b);
+    if (resolutions.length === 0) {
+      resolutions = [metaData.size.height as videoResolutionType];
+    }
+    const maxResolution = resolutions[resolutions.length - 1];
+
+    await fsp.rm(outDir, {recursive: true, force: true});
+    const playlist = ['#EXTM3U', '#EXT-X-VERSION:3'];
+    for (const resolution of resolutions) {
+      const renditionDir = path.join(outDir, resolution + 'p');
+      await fsp.mkdir(renditionDir, {recursive: true});
+
+      // the highest rendition gets the configured bit rate, the lower ones are scaled with their pixel count
+      let bitRate = Math.round(transcoding.bitRate * Math.pow(resolution / maxResolution, 2));
+      if (metaData.bitRate && metaData.bitRate < bitRate) {
+        bitRate = metaData.bitRate;
+      }
+      const renderInput: VideoConverterInput = {
+        videoPath,
+        input: {customOptions: transcoding.customInputOptions},
+        output: {
+          path: path.join(renditionDir, 'index.m3u8'),
+          // segmented mpeg-ts only supports the h.264/h.265 codecs
+          codec: transcoding.mp4Codec,
+          format: 'hls',
+          bitRate,
+          crf: transcoding.crf,
+          preset: transcoding.preset,
+          customOptions: transcoding.customOutputOptions,
+          hls: {
+            segmentLength: transcoding.hlsSegmentLength,
+            segmentPath: path.join(renditionDir, 'segment%05d.ts'),
+          }
+        },
+      };
+      if (metaData.fps > transcoding.fps) {
+        renderInput.output.fps = transcoding.fps;
+      }
+      if (resolution < metaData.size.height) {
+        renderInput.output.resolution = resolution;
+      }
+      await VideoProcessing.taskQue.execute(renderInput);
+
+      const width = Math.round(metaData.size.width * resolution / metaData.size.height / 2) * 2;
+      playlist.push(
+        '#EXT-X-STREAM-INF:BANDWIDTH=' + (bitRate + this.HLS_AUDIO_BIT_RATE) +
+        ',RESOLUTION=' + width + 'x' + resolution,
+        resolution + 'p/index.m3u8'
+      );
+    }
+    await fsp.writeFile(path.join(outDir, this.HLS_MASTER_PLAYLIST), playlist.join('\n') + '\n');
+  }
+
   public static async convertVideo(videoPath: string): Promise<void> {
     const outPath = this.generateConvertedFilePath(videoPath);
 
@@ -117,6 +239,19 @@ export class VideoProcessing {
     return SupportedFormats.WithDots.Videos.indexOf(extension) !== -1;
   }
 
+  protected static getHLSPostFix(): string {
+    return (
+      'hls' +
+      Math.round(Config.Media.Video.transcoding.bitRate / 1024) +
+      'k' +
+      Config.Media.Video.transcoding.mp4Codec.toString().toLowerCase() +
+      Array.from(new Set(Config.Media.Video.transcoding.hlsResolutions))
+        .sort((a, b) => a - b).join('-') +
+      's' +
+      Config.Media.Video.transcoding.hlsSegmentLength
+    );
+  }
+
   protected static getConvertedFilePostFix(): string {
     return (
       Math.round(Config.Media.Video.transcoding.bitRate / 1024) +
@@ -0,0 +1,186 @@
+import * as path from 'path';
+import {constants as fsConstants, promises as fsp} from 'fs';
+import {FfmpegCommand} from 'fluent-ffmpeg';
+import {ITaskExecuter, TaskExecuter} from '../TaskExecuter';
+import {MetadataLoader} from '../MetadataLoader';
+import {FFmpegFactory} from '../../FFmpegFactory';
+import {Config} from '../../../../common/config/private/Config';
+import {ProjectPath} from '../../../ProjectPath';
+import {Logger} from '../../../Logger';
+
+interface SpriteRendererInput {
+  videoPath: string;
+  outPath: string;
+  frameCount: number;
+  columns: number;
+  frameWidth: number;
+  frameHeight: number;
+  duration: number; // in milliseconds
+  keyframesOnly: boolean;
+}
+
+/**
+ * Renders evenly spaced frames of a video to a single image (sprite sheet)
+ * and a WebVTT thumbnails track that tells which part of the sprite belongs to which time range.
+ * Used for the scrub previews.
+ */
+export class VideoSpriteProcessing {
+  private static readonly SPRITE_EXTENSION = '.jpg';
+  private static readonly VTT_EXTENSION = '.vtt';
+  private static taskQue: ITaskExecuter<SpriteRendererInput, void> =
+    new TaskExecuter(
+      1,
+      (input): Promise<void> => VideoSpriteProcessing.render(input)
+    );
+
+  public static generateSpritePath(videoPath: string): string {
+    return path.join(
+      ProjectPath.TranscodedFolder,
+      ProjectPath.getRelativePathToImages(path.dirname(videoPath)),
+      path.basename(videoPath) + '_' + this.getSpritePostFix() + this.SPRITE_EXTENSION
+    );
+  }
+
+  public static generateVTTPath(videoPath: string): string {
+    return path.join(
+      ProjectPath.TranscodedFolder,
+      ProjectPath.getRelativePathToImages(path.dirname(videoPath)),
+      path.basename(videoPath) + '_' + this.getSpritePostFix() + this.VTT_EXTENSION
+    );
+  }
+
+  public static isSpritePath(filePath: string): boolean {
+    const postfix = filePath.substring(filePath.lastIndexOf('_') + 1);
+    return postfix.startsWith('sprite') &&
+      [this.SPRITE_EXTENSION, this.VTT_EXTENSION].includes(path.extname(postfix));
+  }
+
+  public static async isValidSpritePath(spritePath: string): Promise<boolean> {
+    const postfix = spritePath.substring(spritePath.lastIndexOf('_') + 1);
+    if (postfix !== this.getSpritePostFix() + path.extname(postfix)) {
+      return false;
+    }
+    const origFilePath = ProjectPath.getMediaPath(
+      path.relative(
+        ProjectPath.TranscodedFolder,
+        spritePath.substring(0, spritePath.lastIndexOf('_'))
+      )
+    );
+    try {
+      await fsp.access(origFilePath, fsConstants.R_OK);
+    } catch (e) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * The track is written after the sprite is rendered.
+   */
+  static async spriteExist(videoPath: string): Promise<boolean> {
+    try {
+      await fsp.access(this.generateVTTPath(videoPath), fsConstants.R_OK);
+      return true;
+    } catch (e) {
+      // ignoring errors
+    }
+    return false;
+  }
+
+  public static async generateSprite(videoPath: string): Promise<void> {
+    if (await this.spriteExist(videoPath)) {
+      return;
+    }
+    const metaData = await MetadataLoader.loadVideoMetadata(videoPath);
+    if (!metaData.duration || !metaData.size.width || !metaData.size.height) {
+      throw new Error('Can\'t read the duration or the size of the video: ' + videoPath);
+    }
+    const frameCount = Config.Media.Video.sprite.frameCount;
+    const frameHeight = Config.Media.Video.sprite.frameHeight;
+    const input: SpriteRendererInput = {
+      videoPath,
+      outPath: this.generateSpritePath(videoPath),
+      frameCount,
+      columns: Math.ceil(Math.sqrt(frameCount)),
+      frameHeight,
+      // even width, as some codecs require it
+      frameWidth: Math.round(frameHeight * metaData.size.width / metaData.size.height / 2) * 2,
+      duration: metaData.duration,
+      keyframesOnly: true,
+    };
+
+    await fsp.mkdir(path.dirname(input.outPath), {recursive: true});
+    await this.taskQue.execute(input);
+    if (!(await this.fileExist(input.outPath))) {
+      // videos with too few keyframes result no frames, decoding all of them
+      Logger.silly('[FFmpeg] no keyframes found for sprite, decoding all frames: ' + videoPath);
+      await this.taskQue.execute({...input, keyframesOnly: false});
+      if (!(await this.fileExist(input.outPath))) {
+        throw new Error('Can\'t render the sprite of the video: ' + videoPath);
+      }
+    }
+    await fsp.writeFile(this.generateVTTPath(videoPath), this.generateVTT(input));
+  }
+
+  private static async fileExist(filePath: string): Promise<boolean> {
+    try {
+      await fsp.access(filePath, fsConstants.R_OK);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  private static generateVTT(input: SpriteRendererInput): string {
+    const formatTime = (ms: number): string =>
+      new Date(Math.round(ms)).toISOString().substring(11, 23);
+    // the cues are relative to the track, the sprite is served next to it
+    const lines = ['WEBVTT', ''];
+    const frameLength = input.duration / input.frameCount;
+    for (let i = 0; i < input.frameCount; ++i) {
+      const x = (i % input.columns) * input.frameWidth;
+      const y = Math.floor(i / input.columns) * input.frameHeight;
+      lines.push(
+        formatTime(i * frameLength) + ' --> ' + formatTime((i + 1) * frameLength),
+        'sprite#xywh=' + x + ',' + y + ',' + input.frameWidth + ',' + input.frameHeight,
+        ''
+      );
+    }
+    return lines.join('\n');
+  }
+
+  private static render(input: SpriteRendererInput): Promise<void> {
+    const ffmpeg = FFmpegFactory.get();
+    return new Promise((resolve, reject): void => {
+      Logger.silly('[FFmpeg] rendering sprite: ' + input.videoPath);
+      const command: FfmpegCommand = ffmpeg(input.videoPath);
+      let executedCmd = '';
+      command
+        .on('start', (cmd): void => {
+          executedCmd = cmd;
+        })
+        .on('end', (): void => {
+          resolve();
+        })
+        .on('error', (e): void => {
+          reject('[FFmpeg] ' + e.toString() + ' executed: ' + executedCmd);
+        })
+        .outputOptions([
+          '-vf fps=' + (input.frameCount * 1000 / input.duration) +
+          ',scale=' + input.frameWidth + ':' + input.frameHeight +
+          ',tile=' + input.columns + 'x' + Math.ceil(input.frameCount / input.columns),
+          '-frames:v 1',
+          '-qscale:v 4',
+        ]);
+      // decoding only the keyframes is a lot faster and precise enough for a preview
+      if (input.keyframesOnly) {
+        command.inputOptions(['-skip_frame nokey']);
+      }
+      command.save(input.outPath);
+    });
+  }
+
+  protected static getSpritePostFix(): string {
+    return 'sprite' + Config.Media.Video.sprite.frameCount + 'x' + Config.Media.Video.sprite.frameHeight;
+  }
+}
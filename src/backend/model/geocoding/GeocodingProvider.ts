@@ -0,0 +1,20 @@
+import {GPSMetadata, PositionMetaData} from '../../../common/entities/PhotoDTO';
+
+export type PlaceNames = Pick<PositionMetaData, 'city' | 'state' | 'country'>;
+
+export abstract class GeocodingProvider {
+
+  public abstract get Name(): string;
+
+  /**
+   * Looks up the coordinates of a place by its name.
+   * @return null if the place is not known
+   */
+  public abstract geocode(text: string): Promise<GPSMetadata>;
+
+  /**
+   * Looks up the city, state and country of the coordinates.
+   * @return null if there is no known place nearby
+   */
+  public abstract reverse(gps: GPSMetadata): Promise<PlaceNames>;
+}
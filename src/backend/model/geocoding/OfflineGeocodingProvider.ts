@@ -0,0 +1,286 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import {GPSMetadata} from '../../../common/entities/PhotoDTO';
+import {GeocodingProvider, PlaceNames} from './GeocodingProvider';
+import {Logger} from '../../Logger';
+
+const LOG_TAG = '[OfflineGeocodingProvider]';
+
+interface Place {
+  name: string;
+  latitude: number;
+  longitude: number;
+  state?: string;
+  country?: string;
+  population: number;
+}
+
+/**
+ * Geocoding from a local place dataset. Supported formats:
+ *  - GeoNames dump (e.g.: cities1000.txt). Country and state names are read from countryInfo.txt
+ *    and admin1CodesASCII.txt if they are next to the dump, otherwise their codes are used.
+ *  - CSV or TSV file with a header of name, latitude, longitude, state, country, population columns.
+ *  - SQLite database (.db, .sqlite, .sqlite3) with a 'places' table of the same columns.
+ * The whole dataset is loaded to the memory on the first lookup.
+ */
+export class OfflineGeocodingProvider extends GeocodingProvider {
+  // places further than this are not considered for reverse lookup
+  public static readonly MAX_REVERSE_DISTANCE = 50 * 1000; // meters
+
+  private loading: Promise<void> = null;
+  private byName = new Map<string, Place[]>();
+  // places grouped by 1x1 degree cells for the reverse lookup
+  private grid = new Map<string, Place[]>();
+
+  constructor(private readonly datasetPath: string) {
+    super();
+  }
+
+  public get Name(): string {
+    return 'Offline';
+  }
+
+  public async geocode(text: string): Promise<GPSMetadata> {
+    await this.load();
+    const parts = text.split(',')
+      .map(OfflineGeocodingProvider.normalize)
+      .filter(p => !!p);
+    if (parts.length === 0) {
+      return null;
+    }
+    // the rest of the parts narrow down the result by state or country, e.g.: "Paris, France"
+    const place = (this.byName.get(parts[0]) || []).find(c =>
+      parts.slice(1).every(p =>
+        p === OfflineGeocodingProvider.normalize(c.state) ||
+        p === OfflineGeocodingProvider.normalize(c.country)));
+    if (!place) {
+      return null;
+    }
+    return {
+      latitude: place.latitude,
+      longitude: place.longitude,
+    };
+  }
+
+  public async reverse(gps: GPSMetadata): Promise<PlaceNames> {
+    await this.load();
+    const lat = Math.floor(gps.latitude);
+    const lon = Math.floor(gps.longitude);
+    let closest: Place = null;
+    let closestDistance = OfflineGeocodingProvider.MAX_REVERSE_DISTANCE;
+    for (let i = -1; i <= 1; ++i) {
+      for (let j = -1; j <= 1; ++j) {
+        for (const p of this.grid.get(OfflineGeocodingProvider.cellKey(lat + i, lon + j)) || []) {
+          const d = OfflineGeocodingProvider.distance(gps, p);
+          if (d <= closestDistance) {
+            closest = p;
+            closestDistance = d;
+          }
+        }
+      }
+    }
+    if (!closest) {
+      return null;
+    }
+    return {
+      city: closest.name,
+      state: closest.state,
+      country: closest.country,
+    };
+  }
+
+  private static normalize(str: string): string {
+    return (str || '').trim().toLowerCase();
+  }
+
+  private static cellKey(lat: number, lon: number): string {
+    // wrapping around the antimeridian
+    return lat + ':' + ((((lon + 180) % 360) + 360) % 360 - 180);
+  }
+
+  private static distance(a: GPSMetadata, b: GPSMetadata): number {
+    const R = 6371e3; // metres
+    const φ1 = a.latitude * Math.PI / 180;
+    const φ2 = b.latitude * Math.PI / 180;
+    const Δφ = (b.latitude - a.latitude) * Math.PI / 180;
+    const Δλ = (b.longitude - a.longitude) * Math.PI / 180;
+    const h = Math.sin(Δφ / 2) * Math.sin(Δφ / 2) +
+      Math.cos(φ1) * Math.cos(φ2) *
+      Math.sin(Δλ / 2) * Math.sin(Δλ / 2);
+    return R * 2 * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+  }
+
+  private load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.loadDataset().catch((err) => {
+        this.loading = null; // retry on the next lookup
+        throw err;
+      });
+    }
+    return this.loading;
+  }
+
+  private async loadDataset(): Promise<void> {
+    if (!this.datasetPath || !fs.existsSync(this.datasetPath) || !fs.statSync(this.datasetPath).isFile()) {
+      throw new Error('Offline geocoding dataset not found: ' + this.datasetPath);
+    }
+    const ext = path.extname(this.datasetPath).toLowerCase();
+    const places = ['.db', '.sqlite', '.sqlite3'].includes(ext)
+      ? OfflineGeocodingProvider.readSQLite(this.datasetPath)
+      : await OfflineGeocodingProvider.readText(this.datasetPath);
+
+    for (const place of places) {
+      if (!place.name || isNaN(place.latitude) || isNaN(place.longitude)) {
+        continue;
+      }
+      const name = OfflineGeocodingProvider.normalize(place.name);
+      if (!this.byName.has(name)) {
+        this.byName.set(name, []);
+      }
+      this.byName.get(name).push(place);
+      const cell = OfflineGeocodingProvider.cellKey(Math.floor(place.latitude), Math.floor(place.longitude));
+      if (!this.grid.has(cell)) {
+        this.grid.set(cell, []);
+      }
+      this.grid.get(cell).push(place);
+    }
+    // the most populated place wins if the name is ambiguous
+    for (const list of this.byName.values()) {
+      list.sort((a, b) => b.population - a.population);
+    }
+    Logger.info(LOG_TAG, 'Loaded ' + places.length + ' places from: ' + this.datasetPath);
+  }
+
+  private static toPlace(row: Record<string, unknown>): Place {
+    const str = (v: unknown): string => (v === null || v === undefined || v === '') ? undefined : '' + v;
+    return {
+      name: str(row['name']),
+      latitude: parseFloat(row['latitude'] as string),
+      longitude: parseFloat(row['longitude'] as string),
+      state: str(row['state']),
+      country: str(row['country']),
+      population: parseInt(row['population'] as string, 10) || 0,
+    };
+  }
+
+  private static readSQLite(dbPath: string): Place[] {
+    // eslint-disable-next-line @typescript-eslint/no-var-requires
+    const Database = require('better-sqlite3');
+    const db = new Database(dbPath, {readonly: true, fileMustExist: true});
+    try {
+      return db.prepare('SELECT * FROM places').all().map(OfflineGeocodingProvider.toPlace);
+    } finally {
+      db.close();
+    }
+  }
+
+  private static splitLine(line: string, delimiter: string): string[] {
+    if (delimiter === '\t') {
+      return line.split('\t');
+    }
+    // minimal CSV support with quoted fields
+    const ret: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < line.length; ++i) {
+      const c = line[i];
+      if (quoted) {
+        if (c === '"' && line[i + 1] === '"') {
+          field += '"';
+          ++i;
+        } else if (c === '"') {
+          quoted = false;
+        } else {
+          field += c;
+        }
+      } else if (c === '"') {
+        quoted = true;
+      } else if (c === delimiter) {
+        ret.push(field);
+        field = '';
+      } else {
+        field += c;
+      }
+    }
+    ret.push(field);
+    return ret;
+  }
+
+  private static async readLines(filePath: string, onLine: (line: string) => void): Promise<void> {
+    const rl = readline.createInterface({
+      input: fs.createReadStream(filePath, {encoding: 'utf8'}),
+      crlfDelay: Infinity
+    });
+    for await (const line of rl) {
+      if (line.trim() !== '') {
+        onLine(line);
+      }
+    }
+  }
+
+  /**
+   * Reads a GeoNames lookup table (code -> name), if it exists.
+   */
+  private static async readGeoNamesNames(filePath: string, nameColumn: number): Promise<Map<string, string>> {
+    const ret = new Map<string, string>();
+    if (!fs.existsSync(filePath)) {
+      return ret;
+    }
+    await OfflineGeocodingProvider.readLines(filePath, (line) => {
+      if (line.startsWith('#')) {
+        return;
+      }
+      const cols = line.split('\t');
+      ret.set(cols[0], cols[nameColumn]);
+    });
+    return ret;
+  }
+
+  private static async readText(filePath: string): Promise<Place[]> {
+    const places: Place[] = [];
+    let delimiter: string = null;
+    let header: string[] = null;
+    let isGeoNames = false;
+    await OfflineGeocodingProvider.readLines(filePath, (line) => {
+      if (delimiter === null) {
+        delimiter = line.includes('\t') ? '\t' : ',';
+        const cols = OfflineGeocodingProvider.splitLine(line, delimiter).map(OfflineGeocodingProvider.normalize);
+        if (cols.includes('latitude')) {
+          header = cols;
+          return;
+        }
+        isGeoNames = true;
+      }
+      const cols = OfflineGeocodingProvider.splitLine(line, delimiter);
+      if (isGeoNames) {
+        // see: https://download.geonames.org/export/dump/readme.txt
+        places.push(OfflineGeocodingProvider.toPlace({
+          name: cols[1],
+          latitude: cols[4],
+          longitude: cols[5],
+          country: cols[8],
+          state: cols[10] ? cols[8] + '.' + cols[10] : undefined,
+          population: cols[14],
+        }));
+        return;
+      }
+      const row: Record<string, string> = {};
+      header.forEach((h, i) => row[h] = cols[i]);
+      places.push(OfflineGeocodingProvider.toPlace(row));
+    });
+
+    if (isGeoNames) {
+      const dir = path.dirname(filePath);
+      const countries = await OfflineGeocodingProvider.readGeoNamesNames(path.join(dir, 'countryInfo.txt'), 4);
+      const states = await OfflineGeocodingProvider.readGeoNamesNames(path.join(dir, 'admin1CodesASCII.txt'), 1);
+      for (const p of places) {
+        if (p.state) {
+          p.state = states.get(p.state) || p.state.split('.')[1];
+        }
+        p.country = countries.get(p.country) || p.country;
+      }
+    }
+    return places;
+  }
+}
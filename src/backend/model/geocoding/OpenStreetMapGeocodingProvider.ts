@@ -0,0 +1,39 @@
+import * as NodeGeocoder from 'node-geocoder';
+import {GPSMetadata} from '../../../common/entities/PhotoDTO';
+import {GeocodingProvider, PlaceNames} from './GeocodingProvider';
+
+export class OpenStreetMapGeocodingProvider extends GeocodingProvider {
+  readonly geocoder: NodeGeocoder.Geocoder;
+
+  constructor() {
+    super();
+    this.geocoder = NodeGeocoder({provider: 'openstreetmap'});
+  }
+
+  public get Name(): string {
+    return 'OpenStreetMap';
+  }
+
+  public async geocode(text: string): Promise<GPSMetadata> {
+    const ret = await this.geocoder.geocode(text);
+    if (ret.length < 1) {
+      return null;
+    }
+    return {
+      latitude: ret[0].latitude,
+      longitude: ret[0].longitude,
+    };
+  }
+
+  public async reverse(gps: GPSMetadata): Promise<PlaceNames> {
+    const ret = await this.geocoder.reverse({lat: gps.latitude, lon: gps.longitude});
+    if (ret.length < 1) {
+      return null;
+    }
+    return {
+      city: ret[0].city,
+      state: ret[0].state,
+      country: ret[0].country,
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import {promises as fsp} from 'fs';
+import * as path from 'path';
+import {ProjectPath} from '../../ProjectPath';
+import {JobCheckpointDTO} from '../../../common/entities/job/JobCheckpointDTO';
+import {Utils} from '../../../common/Utils';
+
+/**
+ * Keeps the last checkpoint of the running jobs on the disk, so the interrupted runs can be resumed.
+ * A job can only run once at a time, so the checkpoints are stored by job name.
+ */
+export class JobCheckpointManager {
+  private static readonly VERSION = 1;
+  private db: {
+    version: number;
+    checkpoints: { [jobName: string]: JobCheckpointDTO };
+  } = {
+    version: JobCheckpointManager.VERSION,
+    checkpoints: {},
+  };
+  private readonly dbPath: string;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor() {
+    this.dbPath = path.join(ProjectPath.DBFolder, 'job-checkpoints.db');
+  }
+
+  get Checkpoints(): JobCheckpointDTO[] {
+    return Object.values(this.db.checkpoints);
+  }
+
+  get(jobName: string): JobCheckpointDTO {
+    return this.db.checkpoints[jobName] || null;
+  }
+
+  onCheckpoint(jobName: string, checkpoint: JobCheckpointDTO): void {
+    if (!checkpoint && !this.db.checkpoints[jobName]) {
+      return;
+    }
+    if (checkpoint) {
+      // the job keeps changing its state after this
+      this.db.checkpoints[jobName] = Utils.clone(checkpoint);
+    } else {
+      delete this.db.checkpoints[jobName];
+    }
+    this.save();
+  }
+
+  async loadDB(): Promise<void> {
+    try {
+      await fsp.access(this.dbPath);
+    } catch (e) {
+      return;
+    }
+    const db = JSON.parse(await fsp.readFile(this.dbPath, 'utf8'));
+    if (db.version !== JobCheckpointManager.VERSION) {
+      return;
+    }
+    this.db = db;
+  }
+
+  private save(): void {
+    const data = JSON.stringify(this.db);
+    this.saving = this.saving
+      .then(() => fsp.writeFile(this.dbPath, data))
+      .catch(console.error);
+  }
+}
@@ -0,0 +1,253 @@
+import {Config} from '../../../common/config/private/Config';
+import {JobProgressLogDTO, JobProgressStates} from '../../../common/entities/job/JobProgressDTO';
+import {JobHistoryDTO, JobHistoryPageDTO} from '../../../common/entities/job/JobHistoryDTO';
+import {JobHistoryEntity, JobHistoryLogEntity} from '../database/enitites/JobHistoryEntity';
+import {SQLConnection} from '../database/SQLConnection';
+import {SQLTextMatch} from '../database/enitites/EntityUtils';
+import {JobProgress} from './jobs/JobProgress';
+import {Logger} from '../../Logger';
+
+const LOG_TAG = '[JobHistoryManager]';
+
+interface ActiveRun {
+  progress: JobProgress;
+  id: Promise<number>;
+  saving: Promise<void>;
+  lastLogId: number;
+  logs: JobProgressLogDTO[]; // not saved yet
+  logCount: number;
+}
+
+export interface JobHistoryFilter {
+  jobName?: string;
+  state?: JobProgressStates;
+  page: number; // 0-based
+  pageSize: number;
+}
+
+/**
+ * Saves every job run with its full log to the DB.
+ * Unlike the JobProgressManager, that only keeps the last progress of the jobs with the last few log lines.
+ */
+export class JobHistoryManager {
+  private static readonly FINAL_STATES = [
+    JobProgressStates.finished,
+    JobProgressStates.canceled,
+    JobProgressStates.failed,
+    JobProgressStates.interrupted,
+  ];
+  private static readonly LOG_INSERT_CHUNK = 100;
+  private runs: { [key: string]: ActiveRun } = {};
+  private timer: NodeJS.Timeout = null;
+
+  async init(): Promise<void> {
+    // these runs were stopped by the app restart
+    const connection = await SQLConnection.getConnection();
+    await connection.getRepository(JobHistoryEntity)
+      .createQueryBuilder()
+      .update()
+      .set({state: JobProgressStates.interrupted})
+      .where('state IN (:...states)', {
+        states: [JobProgressStates.running, JobProgressStates.paused, JobProgressStates.cancelling]
+      })
+      .execute();
+    await this.cleanUp();
+  }
+
+  onJobStart(progress: JobProgress, trigger: string, config: Record<string, unknown>): void {
+    if (!Config.Jobs.history.enabled ||
+      this.runs[progress.HashName]?.progress === progress) {
+      return;
+    }
+    const dto = progress.toDTO();
+    const run: ActiveRun = {
+      progress,
+      id: null,
+      saving: null,
+      lastLogId: -1,
+      logs: [],
+      logCount: 0
+    };
+    run.id = SQLConnection.getConnection().then(async (connection): Promise<number> => {
+      const entity = await connection.getRepository(JobHistoryEntity).save({
+        jobName: dto.jobName,
+        trigger,
+        config: config || {},
+        state: dto.state,
+        stepsAll: dto.steps.all,
+        stepsProcessed: dto.steps.processed,
+        stepsSkipped: dto.steps.skipped,
+        timeStart: dto.time.start,
+        timeEnd: dto.time.end,
+        error: null
+      });
+      return entity.id;
+    });
+    run.saving = run.id.then((): void => null).catch((err): void => {
+      Logger.error(LOG_TAG, 'Cannot save job run: ' + err);
+    });
+    this.runs[progress.HashName] = run;
+    this.collectLogs(run);
+  }
+
+  onJobProgressUpdate(progress: JobProgress): void {
+    const run = this.runs[progress.HashName];
+    if (!run || run.progress !== progress) {
+      return;
+    }
+    this.collectLogs(run);
+    if (JobHistoryManager.FINAL_STATES.includes(progress.State)) {
+      delete this.runs[progress.HashName];
+      this.save(run).then(() => this.cleanUp()).catch((err): void => {
+        Logger.error(LOG_TAG, 'Cannot clean up job history: ' + err);
+      });
+      return;
+    }
+    this.delayedSave();
+  }
+
+  async getRuns(filter: JobHistoryFilter): Promise<JobHistoryPageDTO> {
+    const connection = await SQLConnection.getConnection();
+    const query = connection.getRepository(JobHistoryEntity)
+      .createQueryBuilder('run');
+    if (filter.jobName) {
+      query.andWhere('run.jobName = :jobName', {jobName: filter.jobName});
+    }
+    if (filter.state) {
+      query.andWhere('run.state = :state', {state: filter.state});
+    }
+    const [runs, total] = await query
+      .orderBy('run.timeStart', 'DESC')
+      .addOrderBy('run.id', 'DESC')
+      .skip(filter.page * filter.pageSize)
+      .take(filter.pageSize)
+      .getManyAndCount();
+    return {
+      runs: runs.map((r) => this.toDTO(r)),
+      total
+    };
+  }
+
+  async getRun(id: number): Promise<JobHistoryDTO> {
+    const connection = await SQLConnection.getConnection();
+    const run = await connection.getRepository(JobHistoryEntity).findOne({where: {id}});
+    if (!run) {
+      return null;
+    }
+    const logs = await connection.getRepository(JobHistoryLogEntity)
+      .createQueryBuilder('log')
+      .where('log.run = :id', {id})
+      .orderBy('log.logId', 'ASC')
+      .getMany();
+    const dto = this.toDTO(run);
+    dto.logs = logs.map((l) => ({
+      id: l.logId,
+      timestamp: l.timestamp,
+      comment: l.comment
+    }));
+    return dto;
+  }
+
+  /**
+   * Deletes the runs above the retention limits
+   */
+  async cleanUp(): Promise<void> {
+    const connection = await SQLConnection.getConnection();
+    const repository = connection.getRepository(JobHistoryEntity);
+    if (Config.Jobs.history.maxAge > 0) {
+      await repository
+        .createQueryBuilder()
+        .delete()
+        .where(SQLTextMatch.column('timeStart') + ' < :date', {date: Date.now() - Config.Jobs.history.maxAge * 24 * 60 * 60 * 1000})
+        .execute();
+    }
+    if (Config.Jobs.history.maxRuns > 0) {
+      const old = await repository.find({
+        select: ['id'],
+        order: {timeStart: 'DESC', id: 'DESC'},
+        skip: Config.Jobs.history.maxRuns,
+      });
+      if (old.length > 0) {
+        await repository.delete(old.map((r) => r.id));
+      }
+    }
+  }
+
+  private collectLogs(run: ActiveRun): void {
+    for (const log of run.progress.Logs) {
+      if (log.id <= run.lastLogId) {
+        continue;
+      }
+      run.lastLogId = log.id;
+      if (run.logCount >= Config.Jobs.history.maxLogLines) {
+        continue;
+      }
+      run.logCount++;
+      run.logs.push(log);
+    }
+  }
+
+  /**
+   * Saves the changes in order, the next save starts after the previous finished
+   */
+  private save(run: ActiveRun): Promise<void> {
+    run.saving = run.saving.then(async (): Promise<void> => {
+      const id = await run.id;
+      const dto = run.progress.toDTO();
+      const logs = run.logs;
+      run.logs = [];
+      const connection = await SQLConnection.getConnection();
+      // inserting in chunks, the DBs limit the number of the query parameters
+      for (let i = 0; i < logs.length; i += JobHistoryManager.LOG_INSERT_CHUNK) {
+        await connection.getRepository(JobHistoryLogEntity).insert(
+          logs.slice(i, i + JobHistoryManager.LOG_INSERT_CHUNK).map((l) => ({
+            run: {id} as JobHistoryEntity,
+            logId: l.id,
+            timestamp: l.timestamp,
+            comment: l.comment
+          })));
+      }
+      await connection.getRepository(JobHistoryEntity).update(id, {
+        state: dto.state,
+        stepsAll: dto.steps.all,
+        stepsProcessed: dto.steps.processed,
+        stepsSkipped: dto.steps.skipped,
+        timeEnd: dto.time.end,
+        error: run.progress.Error
+      });
+    }).catch((err): void => {
+      Logger.error(LOG_TAG, 'Cannot save job run: ' + err);
+    });
+    return run.saving;
+  }
+
+  private delayedSave(): void {
+    if (this.timer !== null) {
+      return;
+    }
+    this.timer = setTimeout((): void => {
+      this.timer = null;
+      Object.values(this.runs).forEach((r) => this.save(r));
+    }, 5000);
+  }
+
+  private toDTO(run: JobHistoryEntity): JobHistoryDTO {
+    return {
+      id: run.id,
+      jobName: run.jobName,
+      trigger: run.trigger,
+      config: run.config,
+      state: run.state,
+      steps: {
+        all: run.stepsAll,
+        processed: run.stepsProcessed,
+        skipped: run.stepsSkipped,
+      },
+      time: {
+        start: run.timeStart,
+        end: run.timeEnd,
+      },
+      error: run.error,
+    };
+  }
+}
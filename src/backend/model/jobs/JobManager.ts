@@ -2,7 +2,13 @@ import {JobProgressStates, OnTimerJobProgressDTO,} from '../../../common/entitie
 import {IJob} from './jobs/IJob';
 import {JobRepository} from './JobRepository';
 import {Config} from '../../../common/config/private/Config';
-import {AfterJobTrigger, JobScheduleDTO, JobScheduleDTOUtils, JobTriggerType,} from '../../../common/entities/job/JobScheduleDTO';
+import {
+  AfterJobTrigger,
+  JobRunWindow,
+  JobScheduleDTO,
+  JobScheduleDTOUtils,
+  JobTriggerType,
+} from '../../../common/entities/job/JobScheduleDTO';
 import {Logger} from '../../Logger';
 import {NotificationManager} from '../NotifocationManager';
 import {IJobListener} from './jobs/IJobListener';
@@ -11,16 +17,33 @@ import {JobProgressManager} from './JobProgressManager';
 import {JobDTOUtils} from '../../../common/entities/job/JobDTO';
 import {Utils} from '../../../common/Utils';
 import {IObjectManager} from '../database/IObjectManager';
+import {JobHistoryFilter, JobHistoryManager} from './JobHistoryManager';
+import {JobHistoryDTO, JobHistoryPageDTO} from '../../../common/entities/job/JobHistoryDTO';
+import {JobCheckpointManager} from './JobCheckpointManager';
+import {JobCheckpointDTO} from '../../../common/entities/job/JobCheckpointDTO';
+import {MessengerRepository} from '../messenger/MessengerRepository';
+import {JobSummaryMessage} from '../messenger/Messenger';
 
 const LOG_TAG = '[JobManager]';
+const MAX_TIMER_DELAY = 2147483647;
 
 export class JobManager implements IJobListener, IObjectManager {
   protected timers: { schedule: JobScheduleDTO; timer: NodeJS.Timeout }[] = [];
   protected progressManager: JobProgressManager = null;
+  protected historyManager: JobHistoryManager = null;
+  protected checkpointManager: JobCheckpointManager = null;
 
   async init(){
     this.progressManager = new JobProgressManager();
+    await this.progressManager.init();
+    this.historyManager = new JobHistoryManager();
+    await this.historyManager.init().catch((err): void => {
+      Logger.error(LOG_TAG, 'Cannot init job history: ' + err);
+    });
+    this.checkpointManager = new JobCheckpointManager();
+    await this.checkpointManager.loadDB().catch(console.error);
     this.runSchedules();
+    await this.resumeInterrupted();
   }
 
   protected get JobRunning(): boolean {
@@ -47,29 +70,45 @@ export class JobManager implements IJobListener, IObjectManager {
       }
       (prg[JobDTOUtils.getHashName(t.schedule.jobName, t.schedule.config)] as OnTimerJobProgressDTO).onTimer = true;
     });
+    this.checkpointManager.Checkpoints.forEach(c => {
+      if (prg[c.HashName]?.state !== JobProgressStates.interrupted) {
+        return;
+      }
+      (prg[c.HashName] as OnTimerJobProgressDTO).resumable = true;
+    });
     return prg;
   }
 
+  public getHistory(filter: JobHistoryFilter): Promise<JobHistoryPageDTO> {
+    return this.historyManager.getRuns(filter);
+  }
+
+  public getHistoryRun(id: number): Promise<JobHistoryDTO> {
+    return this.historyManager.getRun(id);
+  }
+
   public async run<T extends Record<string, unknown>>(
     jobName: string,
     config: T,
     soloRun: boolean,
-    allowParallelRun: boolean
+    allowParallelRun: boolean,
+    runWindow: JobRunWindow = null,
+    trigger: string = null
   ): Promise<void> {
-    if (
-      (allowParallelRun === false && this.JobRunning === true) ||
-      this.JobNoParallelRunning === true
-    ) {
-      throw new Error('Can\'t start this job while another is running');
-    }
+    await this.startJob(jobName, allowParallelRun, trigger, config,
+      (t) => t.start(config, soloRun, allowParallelRun, runWindow));
+  }
 
-    const t = this.findJob(jobName);
-    if (t) {
-      t.JobListener = this;
-      await t.start(config, soloRun, allowParallelRun);
-    } else {
-      Logger.warn(LOG_TAG, 'cannot find job to start:' + jobName);
+  /**
+   * Continues the interrupted run of the job from its last checkpoint
+   */
+  public async resume(jobName: string, trigger: string = null): Promise<void> {
+    const checkpoint = this.checkpointManager.get(jobName);
+    if (!checkpoint) {
+      throw new Error('There is no interrupted run to resume for: ' + jobName);
     }
+    await this.startJob(jobName, checkpoint.allowParallelRun, trigger, checkpoint.config,
+      (t) => t.resume(Utils.clone(checkpoint)));
   }
 
   public stop(jobName: string): void {
@@ -83,6 +122,12 @@ export class JobManager implements IJobListener, IObjectManager {
 
   public onProgressUpdate = (progress: JobProgress): void => {
     this.progressManager.onJobProgressUpdate(progress.toDTO());
+    this.historyManager.onJobProgressUpdate(progress);
+    this.sendNotification(progress);
+  };
+
+  public onJobCheckpoint = (job: IJob, checkpoint: JobCheckpointDTO): void => {
+    this.checkpointManager.onCheckpoint(job.Name, checkpoint);
   };
 
   onJobFinished = async (
@@ -109,7 +154,9 @@ export class JobManager implements IJobListener, IObjectManager {
             item.jobName,
             item.config,
             false,
-            item.allowParallelRun
+            item.allowParallelRun,
+            item.runWindow,
+            item.name
           );
         } catch (e) {
           NotificationManager.warning(
@@ -148,6 +195,100 @@ export class JobManager implements IJobListener, IObjectManager {
     return this.getAvailableJobs().find((t): boolean => t.Name === jobName);
   }
 
+  private async startJob(
+    jobName: string,
+    allowParallelRun: boolean,
+    trigger: string,
+    config: Record<string, unknown>,
+    start: (job: IJob) => Promise<void>
+  ): Promise<void> {
+    if (
+      (allowParallelRun === false && this.JobRunning === true) ||
+      this.JobNoParallelRunning === true
+    ) {
+      throw new Error('Can\'t start this job while another is running');
+    }
+
+    const t = this.findJob(jobName);
+    if (t) {
+      t.JobListener = this;
+      const started = start(t);
+      // the job sets up its progress right when it starts
+      if (t.Progress) {
+        this.historyManager.onJobStart(t.Progress, trigger, config);
+      }
+      await started;
+    } else {
+      Logger.warn(LOG_TAG, 'cannot find job to start:' + jobName);
+    }
+  }
+
+  /**
+   * Resumes the interrupted runs of the schedules that allow it
+   */
+  private async resumeInterrupted(): Promise<void> {
+    for (const checkpoint of this.checkpointManager.Checkpoints) {
+      const schedule = Config.Jobs.scheduled.find(
+        (s): boolean => s.resumeInterrupted && this.getHashName(s) === checkpoint.HashName
+      );
+      if (!schedule) {
+        continue;
+      }
+      Logger.info(LOG_TAG, 'Resuming interrupted job: ' + schedule.name);
+      try {
+        await this.resume(checkpoint.jobName, schedule.name);
+      } catch (e) {
+        NotificationManager.warning(
+          'Job resuming error:' + schedule.name,
+          e.toString()
+        );
+      }
+    }
+  }
+
+  /**
+   * Sends the result of the run with the messenger of its schedule
+   */
+  private sendNotification(progress: JobProgress): void {
+    if (progress.State !== JobProgressStates.finished &&
+      progress.State !== JobProgressStates.failed) {
+      return;
+    }
+    const schedule = Config.Jobs.scheduled.find(
+      (s): boolean => !!s.notification?.messenger &&
+        (progress.State === JobProgressStates.finished ? s.notification.onFinished : s.notification.onFailed) &&
+        this.getHashName(s) === progress.HashName
+    );
+    if (!schedule) {
+      return;
+    }
+    const msgr = MessengerRepository.Instance.get(schedule.notification.messenger);
+    if (!msgr) {
+      Logger.warn(LOG_TAG, 'cannot find messenger to notify with:' + schedule.notification.messenger);
+      return;
+    }
+    const config: Record<string, unknown> = {};
+    msgr.ConfigTemplate.forEach(ct => config[ct.id] = ct.defaultValue);
+    Object.assign(config, schedule.notification.config);
+    const summary: JobSummaryMessage = {...progress.toDTO(), error: progress.Error};
+    msgr.send(config, summary).catch((err): void => {
+      Logger.error(LOG_TAG, 'Cannot send the notification of ' + schedule.name + ': ' + err);
+      NotificationManager.warning(
+        'Job notification error:' + schedule.name,
+        err.toString()
+      );
+    });
+  }
+
+  /**
+   * Jobs fill the missing config values with their defaults before calculating the hash
+   */
+  private getHashName(schedule: JobScheduleDTO): string {
+    const config: Record<string, unknown> = {};
+    this.findJob(schedule.jobName)?.ConfigTemplate?.forEach(ct => config[ct.id] = ct.defaultValue);
+    return JobDTOUtils.getHashName(schedule.jobName, Object.assign(config, schedule.config));
+  }
+
   /**
    * Schedules a single job to run
    */
@@ -165,14 +306,33 @@ export class JobManager implements IJobListener, IObjectManager {
         nextDate.toLocaleString(undefined, {hour12: false})
       );
 
+      // timers overflow after ~24 days, checking again before that
+      if (nextDate.getTime() - Date.now() > MAX_TIMER_DELAY) {
+        const waitTimer: NodeJS.Timeout = setTimeout((): void => {
+          this.timers = this.timers.filter((t): boolean => t.timer !== waitTimer);
+          this.runSchedule(schedule);
+        }, MAX_TIMER_DELAY);
+        this.timers.push({schedule, timer: waitTimer});
+        return;
+      }
+
       const timer: NodeJS.Timeout = setTimeout(async (): Promise<void> => {
         this.timers = this.timers.filter((t): boolean => t.timer !== timer);
-        await this.run(
-          schedule.jobName,
-          schedule.config,
-          false,
-          schedule.allowParallelRun
-        );
+        try {
+          await this.run(
+            schedule.jobName,
+            schedule.config,
+            false,
+            schedule.allowParallelRun,
+            schedule.runWindow,
+            schedule.name
+          );
+        } catch (e) {
+          NotificationManager.warning(
+            'Job running error:' + schedule.name,
+            e.toString()
+          );
+        }
         this.runSchedule(schedule);
       }, nextDate.getTime() - Date.now());
       this.timers.push({schedule, timer});
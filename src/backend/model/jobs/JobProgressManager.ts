@@ -20,7 +20,10 @@ export class JobProgressManager {
 
   constructor() {
     this.dbPath = path.join(ProjectPath.DBFolder, 'jobs.db');
-    this.loadDB().catch(console.error);
+  }
+
+  async init(): Promise<void> {
+    await this.loadDB().catch(console.error);
   }
 
   get Progresses(): { [key: string]: JobProgressDTO } {
@@ -73,6 +76,7 @@ export class JobProgressManager {
     for (const key of Object.keys(this.db.progresses)) {
       if (
           this.db.progresses[key].progress.state === JobProgressStates.running ||
+          this.db.progresses[key].progress.state === JobProgressStates.paused ||
           this.db.progresses[key].progress.state === JobProgressStates.cancelling
       ) {
         this.db.progresses[key].progress.state = JobProgressStates.interrupted;
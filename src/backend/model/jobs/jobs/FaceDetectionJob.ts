@@ -0,0 +1,103 @@
+import {Job} from './Job';
+import {DefaultsJobs} from '../../../../common/entities/job/JobDTO';
+import {DynamicConfig} from '../../../../common/entities/DynamicConfig';
+import {Config} from '../../../../common/config/private/Config';
+import {SQLConnection} from '../../database/SQLConnection';
+import {PhotoEntity} from '../../database/enitites/PhotoEntity';
+import {ObjectManagers} from '../../ObjectManagers';
+import {ProjectPath} from '../../../ProjectPath';
+import {FaceDetector} from '../../fileaccess/FaceDetector';
+import {Logger} from '../../../Logger';
+import {SelectQueryBuilder} from 'typeorm';
+
+const LOG_TAG = '[FaceDetectionJob]';
+
+/**
+ * Detects the faces on the photos that were not processed yet, then clusters the untagged faces.
+ */
+export class FaceDetectionJob extends Job {
+  public readonly Name = DefaultsJobs[DefaultsJobs['Face Detection']];
+  public readonly ConfigTemplate: DynamicConfig[] = null;
+  private status: 'Counting' | 'Detecting' | 'Clustering' = 'Counting';
+  private queue: PhotoEntity[] = [];
+  private lastId = 0;
+
+  public get Supported(): boolean {
+    return Config.Faces.enabled;
+  }
+
+  protected async init(): Promise<void> {
+    this.status = 'Counting';
+    this.queue = [];
+    this.lastId = 0;
+  }
+
+  protected async step(): Promise<boolean> {
+    switch (this.status) {
+      case 'Counting':
+        // fails the job, instead of failing on every photo
+        await FaceDetector.checkModels();
+        this.Progress.Left = await (await this.photosToProcessQuery()).getCount();
+        this.Progress.log('Photos to process: ' + this.Progress.Left);
+        this.status = 'Detecting';
+        return true;
+      case 'Detecting':
+        if (this.queue.length === 0) {
+          await this.loadPhotos();
+          if (this.queue.length === 0) {
+            this.status = 'Clustering';
+          }
+          return true;
+        }
+        await this.detectFaces(this.queue.shift());
+        return true;
+      case 'Clustering': {
+        this.Progress.log('Clustering faces');
+        const clusters = await ObjectManagers.getInstance().PersonManager.clusterFaces();
+        this.Progress.log('Face clusters found: ' + clusters);
+        return false;
+      }
+    }
+    return false;
+  }
+
+  private async detectFaces(photo: PhotoEntity): Promise<void> {
+    const photoPath = ProjectPath.getMediaPath(
+      photo.directory.path,
+      photo.directory.name,
+      photo.name
+    );
+    this.Progress.Left = Math.max(0, this.Progress.Left - 1);
+    try {
+      this.Progress.log('detecting faces: ' + photoPath);
+      const faces = await FaceDetector.detect(photoPath);
+      await ObjectManagers.getInstance().PersonManager.saveDetectedFaces(photo, faces);
+      this.Progress.Processed++;
+    } catch (e) {
+      Logger.error(LOG_TAG, 'Error during detecting faces on: ' + photoPath + ', ' + e.toString());
+      this.Progress.log('Error during detecting faces on: ' + photoPath + ', ' + e.toString());
+      this.Progress.Skipped++;
+    }
+  }
+
+  private async loadPhotos(): Promise<void> {
+    this.queue = await (await this.photosToProcessQuery())
+      .leftJoin('media.directory', 'directory')
+      .select(['media.id', 'media.name', 'media.metadata.faces', 'directory.name', 'directory.path'])
+      .andWhere('media.id > :lastId', {lastId: this.lastId})
+      .orderBy('media.id')
+      .limit(Config.Jobs.mediaProcessingBatchSize)
+      .getMany();
+    if (this.queue.length > 0) {
+      this.lastId = this.queue[this.queue.length - 1].id;
+    }
+  }
+
+  private async photosToProcessQuery(): Promise<SelectQueryBuilder<PhotoEntity>> {
+    const connection = await SQLConnection.getConnection();
+    return connection
+      .getRepository(PhotoEntity)
+      .createQueryBuilder('media')
+      .where('media.facesDetected IS NULL');
+  }
+}
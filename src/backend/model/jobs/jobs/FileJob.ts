@@ -54,6 +54,20 @@ export abstract class FileJob<S extends { indexedOnly?: boolean } = { indexedOnl
     this.directoryQueue.push('/');
   }
 
+  protected getCheckpoint(): Record<string, unknown> {
+    return {
+      directoryQueue: this.directoryQueue,
+      fileQueue: this.fileQueue,
+      DBProcessing: this.DBProcessing
+    };
+  }
+
+  protected async restore(state: Record<string, unknown>): Promise<void> {
+    this.directoryQueue = state.directoryQueue as string[];
+    this.fileQueue = state.fileQueue as string[];
+    this.DBProcessing = state.DBProcessing as FileJob['DBProcessing'];
+  }
+
   protected async filterMediaFiles(files: FileDTO[]): Promise<FileDTO[]> {
     return files;
   }
@@ -143,8 +157,7 @@ export abstract class FileJob<S extends { indexedOnly?: boolean } = { indexedOnl
       }
       for (const item of scannedAndFiltered) {
         this.fileQueue.push(
-          path.join(
-            ProjectPath.ImageFolder,
+          ProjectPath.getMediaPath(
             item.directory.path,
             item.directory.name,
             item.name
@@ -161,8 +174,7 @@ export abstract class FileJob<S extends { indexedOnly?: boolean } = { indexedOnl
       }
       for (const item of scannedAndFiltered) {
         this.fileQueue.push(
-          path.join(
-            ProjectPath.ImageFolder,
+          ProjectPath.getMediaPath(
             item.directory.path,
             item.directory.name,
             item.name
@@ -218,8 +230,7 @@ export abstract class FileJob<S extends { indexedOnly?: boolean } = { indexedOnl
       }
       for (const item of scannedAndFiltered) {
         this.fileQueue.push(
-          path.join(
-            ProjectPath.ImageFolder,
+          ProjectPath.getMediaPath(
             item.directory.path,
             item.directory.name,
             item.name
@@ -249,8 +260,7 @@ export abstract class FileJob<S extends { indexedOnly?: boolean } = { indexedOnl
       }
       for (const item of scannedAndFiltered) {
         this.fileQueue.push(
-          path.join(
-            ProjectPath.ImageFolder,
+          ProjectPath.getMediaPath(
             item.directory.path,
             item.directory.name,
             item.name
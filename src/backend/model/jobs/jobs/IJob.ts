@@ -1,6 +1,8 @@
 import {JobDTO} from '../../../../common/entities/job/JobDTO';
 import {JobProgress} from './JobProgress';
 import {IJobListener} from './IJobListener';
+import {JobRunWindow} from '../../../../common/entities/job/JobScheduleDTO';
+import {JobCheckpointDTO} from '../../../../common/entities/job/JobCheckpointDTO';
 
 export interface IJob<T extends Record<string, unknown> = Record<string, unknown>> extends JobDTO {
   Name: string;
@@ -10,7 +12,9 @@ export interface IJob<T extends Record<string, unknown> = Record<string, unknown
   InProgress: boolean;
   allowParallelRun: boolean;
 
-  start(config: T, soloRun: boolean, allowParallelRun: boolean): Promise<void>;
+  start(config: T, soloRun: boolean, allowParallelRun: boolean, runWindow?: JobRunWindow): Promise<void>;
+
+  resume(checkpoint: JobCheckpointDTO): Promise<void>;
 
   cancel(): void;
 
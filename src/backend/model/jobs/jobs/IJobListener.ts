@@ -1,6 +1,7 @@
 import {JobProgress} from './JobProgress';
 import {IJob} from './IJob';
 import {JobProgressStates} from '../../../../common/entities/job/JobProgressDTO';
+import {JobCheckpointDTO} from '../../../../common/entities/job/JobCheckpointDTO';
 
 export interface IJobListener {
   onJobFinished(
@@ -10,4 +11,7 @@ export interface IJobListener {
   ): void;
 
   onProgressUpdate(progress: JobProgress): void;
+
+  // null checkpoint means the job has nothing to resume
+  onJobCheckpoint(job: IJob, checkpoint: JobCheckpointDTO): void;
 }
@@ -15,7 +15,7 @@ import {DynamicConfig} from '../../../../common/entities/DynamicConfig';
 const LOG_TAG = '[IndexingJob]';
 
 export class IndexingJob<
-    S extends { indexChangesOnly: boolean } = { indexChangesOnly: boolean }
+    S extends { indexChangesOnly: boolean, library?: string } = { indexChangesOnly: boolean, library?: string }
 > extends Job<S> {
   public readonly Name = DefaultsJobs[DefaultsJobs.Indexing];
   directoriesToIndex: string[] = [];
@@ -27,6 +27,13 @@ export class IndexingJob<
       description: backendTexts.indexChangesOnly.description,
       defaultValue: true,
     },
+    {
+      id: 'library',
+      type: 'string',
+      name: backendTexts.library.name,
+      description: backendTexts.library.description,
+      defaultValue: '',
+    },
   ];
 
   public get Supported(): boolean {
@@ -34,7 +41,25 @@ export class IndexingJob<
   }
 
   protected async init(): Promise<void> {
-    this.directoriesToIndex.push('/');
+    if (!this.config.library) {
+      this.directoriesToIndex.push('/');
+      return;
+    }
+    // libraries are top level directories, so they can be indexed on their own
+    const library = ProjectPath.Libraries.find(l => l.name === this.config.library);
+    if (!library) {
+      this.Progress.log('Unknown library: ' + this.config.library);
+      return;
+    }
+    this.directoriesToIndex.push(path.join('/', library.name));
+  }
+
+  protected getCheckpoint(): Record<string, unknown> {
+    return {directoriesToIndex: this.directoriesToIndex};
+  }
+
+  protected async restore(state: Record<string, unknown>): Promise<void> {
+    this.directoriesToIndex = state.directoriesToIndex as string[];
   }
 
   protected async step(): Promise<boolean> {
@@ -53,7 +78,7 @@ export class IndexingJob<
 
     try {
 
-      const absDirPath = path.join(ProjectPath.ImageFolder, directory);
+      const absDirPath = ProjectPath.getMediaPath(directory);
       if (!fs.existsSync(absDirPath)) {
         this.Progress.log('Skipping. Directory does not exist: ' + directory);
         this.Progress.Skipped++;
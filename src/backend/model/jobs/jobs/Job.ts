@@ -5,11 +5,16 @@ import {JobProgress} from './JobProgress';
 import {IJobListener} from './IJobListener';
 import {JobProgressStates} from '../../../../common/entities/job/JobProgressDTO';
 import {DynamicConfig} from '../../../../common/entities/DynamicConfig';
+import {JobRunWindow, JobScheduleDTOUtils} from '../../../../common/entities/job/JobScheduleDTO';
+import {JobCheckpointDTO} from '../../../../common/entities/job/JobCheckpointDTO';
+import {Config} from '../../../../common/config/private/Config';
 
 declare const process: { nextTick: (_: unknown) => void };
 declare const global: { gc: () => void };
 
 const LOG_TAG = '[JOB]';
+// a paused job checks this often if it can continue
+const PAUSE_CHECK_INTERVAL = 60 * 1000;
 
 export abstract class Job<T extends Record<string, unknown> = Record<string, unknown>> implements IJob<T> {
   public allowParallelRun: boolean = null;
@@ -19,6 +24,8 @@ export abstract class Job<T extends Record<string, unknown> = Record<string, unk
   protected IsInstant = false;
   private jobListener: IJobListener;
   private soloRun: boolean;
+  private runWindow: JobRunWindow;
+  private lastCheckpoint = 0;
 
   public set JobListener(value: IJobListener) {
     this.jobListener = value;
@@ -38,6 +45,7 @@ export abstract class Job<T extends Record<string, unknown> = Record<string, unk
     return (
       this.Progress !== null &&
       (this.Progress.State === JobProgressStates.running ||
+        this.Progress.State === JobProgressStates.paused ||
         this.Progress.State === JobProgressStates.cancelling)
     );
   }
@@ -45,15 +53,40 @@ export abstract class Job<T extends Record<string, unknown> = Record<string, unk
   public start(
     config: T,
     soloRun = false,
-    allowParallelRun = false
+    allowParallelRun = false,
+    runWindow: JobRunWindow = null
+  ): Promise<void> {
+    return this.startRun(config, soloRun, allowParallelRun, runWindow, null);
+  }
+
+  /**
+   * Continues an interrupted run from its last checkpoint
+   */
+  public resume(checkpoint: JobCheckpointDTO): Promise<void> {
+    return this.startRun(
+      checkpoint.config as T,
+      checkpoint.soloRun,
+      checkpoint.allowParallelRun,
+      checkpoint.runWindow,
+      checkpoint
+    );
+  }
+
+  private startRun(
+    config: T,
+    soloRun: boolean,
+    allowParallelRun: boolean,
+    runWindow: JobRunWindow,
+    checkpoint: JobCheckpointDTO
   ): Promise<void> {
     if (this.InProgress === false && this.Supported === true) {
       Logger.info(
         LOG_TAG,
-        'Running job ' + (soloRun === true ? 'solo' : '') + ': ' + this.Name
+        (checkpoint ? 'Resuming job ' : 'Running job ') + (soloRun === true ? 'solo' : '') + ': ' + this.Name
       );
       this.soloRun = soloRun;
       this.allowParallelRun = allowParallelRun;
+      this.runWindow = runWindow;
       this.config = {} as T;
       if (this.ConfigTemplate) {
         this.ConfigTemplate.forEach(ct => (this.config as Record<string, unknown>)[ct.id] = ct.defaultValue);
@@ -67,11 +100,25 @@ export abstract class Job<T extends Record<string, unknown> = Record<string, unk
         this.Name,
         JobDTOUtils.getHashName(this.Name, this.config)
       );
+      if (checkpoint) {
+        this.progress.All = checkpoint.steps.all;
+        this.progress.Processed = checkpoint.steps.processed;
+        this.progress.Skipped = checkpoint.steps.skipped;
+        this.progress.log('Resuming from the checkpoint of ' +
+          new Date(checkpoint.timestamp).toLocaleString(undefined, {hour12: false}));
+      }
       this.progress.OnChange = this.jobListener.onProgressUpdate;
+      this.lastCheckpoint = Date.now();
       const pr = new Promise<void>((resolve): void => {
         this.prResolve = resolve;
       });
-      this.init().catch(console.error);
+      if (checkpoint) {
+        this.restore(checkpoint.state).catch(console.error);
+      } else {
+        // a new run, the checkpoint of the previous is not needed anymore
+        this.jobListener.onJobCheckpoint(this, null);
+        this.init().catch(console.error);
+      }
       this.run();
       if (!this.IsInstant) {
         // if instant, wait for execution, otherwise, return right away
@@ -112,6 +159,45 @@ export abstract class Job<T extends Record<string, unknown> = Record<string, unk
 
   protected abstract init(): Promise<void>;
 
+  /**
+   * Returns with the state that is enough to continue the run later or null if the job cannot be resumed.
+   * It is saved between two steps.
+   */
+  protected getCheckpoint(): Record<string, unknown> {
+    return null;
+  }
+
+  /**
+   * Sets up the job from a checkpoint, instead of init()
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected async restore(state: Record<string, unknown>): Promise<void> {
+    await this.init();
+  }
+
+  private saveCheckpoint(): void {
+    this.lastCheckpoint = Date.now();
+    const state = this.getCheckpoint();
+    if (state === null) {
+      return;
+    }
+    this.jobListener.onJobCheckpoint(this, {
+      jobName: this.Name,
+      HashName: this.Progress.HashName,
+      config: this.config,
+      soloRun: this.soloRun,
+      allowParallelRun: this.allowParallelRun,
+      runWindow: this.runWindow,
+      steps: {
+        all: this.Progress.All,
+        processed: this.Progress.Processed,
+        skipped: this.Progress.Skipped,
+      },
+      timestamp: this.lastCheckpoint,
+      state
+    });
+  }
+
   private onFinish(): void {
     if (this.InProgress === false) {
       return;
@@ -123,6 +209,7 @@ export abstract class Job<T extends Record<string, unknown> = Record<string, unk
     }
 
     const finishState = this.Progress.State;
+    this.jobListener.onJobCheckpoint(this, null);
     this.progress = null;
     if (global.gc) {
       global.gc();
@@ -140,16 +227,35 @@ export abstract class Job<T extends Record<string, unknown> = Record<string, unk
       try {
         if (
           this.Progress == null ||
-          this.Progress.State !== JobProgressStates.running
+          (this.Progress.State !== JobProgressStates.running &&
+            this.Progress.State !== JobProgressStates.paused)
         ) {
           this.onFinish();
           return;
         }
+        const now = new Date();
+        if (!JobScheduleDTOUtils.isInRunWindow(now, this.runWindow)) {
+          const resumeAt = JobScheduleDTOUtils.getRunWindowStart(now, this.runWindow);
+          if (this.Progress.State !== JobProgressStates.paused) {
+            this.Progress.log('Paused until ' + resumeAt.toLocaleString(undefined, {hour12: false}));
+            this.Progress.State = JobProgressStates.paused;
+          }
+          setTimeout(() => this.run(), Math.min(PAUSE_CHECK_INTERVAL, resumeAt.getTime() - now.getTime()));
+          return;
+        }
+        if (this.Progress.State === JobProgressStates.paused) {
+          this.Progress.log('Resumed');
+          this.Progress.State = JobProgressStates.running;
+        }
         if ((await this.step()) === false) {
           // finished
           this.onFinish();
           return;
         }
+        if (Config.Jobs.checkpointInterval > 0 &&
+          Date.now() - this.lastCheckpoint >= Config.Jobs.checkpointInterval) {
+          this.saveCheckpoint();
+        }
         // giving back the control to the main event loop (Macrotask queue)
         // https://blog.insiderattack.net/promises-next-ticks-and-immediates-nodejs-event-loop-part-3-9226cbe7a6aa
         await new Promise(setImmediate);
@@ -158,7 +264,9 @@ export abstract class Job<T extends Record<string, unknown> = Record<string, unk
         Logger.error(LOG_TAG, 'Job failed with:');
         Logger.error(LOG_TAG, e);
         this.Progress.log('Failed with: ' + (typeof e.toString === 'function') ? e.toString() : JSON.stringify(e));
+        this.Progress.Error = e?.stack || e?.toString();
         this.Progress.State = JobProgressStates.failed;
+        this.jobListener.onJobCheckpoint(this, null);
       }
     });
   }
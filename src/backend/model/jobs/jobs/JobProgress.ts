@@ -14,6 +14,7 @@ export class JobProgress {
   };
   private logCounter = 0;
   private logs: { id: number; timestamp: string; comment: string }[] = [];
+  private error: string = null;
 
   constructor(
       public readonly jobName: string,
@@ -79,6 +80,14 @@ export class JobProgress {
     return this.logs;
   }
 
+  get Error(): string {
+    return this.error;
+  }
+
+  set Error(value: string) {
+    this.error = value;
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   onChange = (_: JobProgress): void => {
     // abstract function
@@ -6,6 +6,7 @@ import {ThumbnailSourceType} from '../../fileaccess/PhotoWorker';
 import {MediaDTOUtils} from '../../../../common/entities/MediaDTO';
 import {FileDTO} from '../../../../common/entities/FileDTO';
 import {backendTexts} from '../../../../common/BackendTexts';
+import {JobRunWindow} from '../../../../common/entities/job/JobScheduleDTO';
 
 export class PhotoConvertingJob extends FileJob<{
   sizes?: number[];
@@ -38,7 +39,8 @@ export class PhotoConvertingJob extends FileJob<{
   start(
     config: { sizes?: number[]; indexedOnly?: boolean },
     soloRun = false,
-    allowParallelRun = false
+    allowParallelRun = false,
+    runWindow: JobRunWindow = null
   ): Promise<void> {
     if (!config || !config.sizes || !Array.isArray(config.sizes) || config.sizes.length === 0) {
       config = config || {};
@@ -54,7 +56,7 @@ export class PhotoConvertingJob extends FileJob<{
       }
     }
 
-    return super.start(config, soloRun, allowParallelRun);
+    return super.start(config, soloRun, allowParallelRun, runWindow);
   }
 
   protected async filterMediaFiles(files: FileDTO[]): Promise<FileDTO[]> {
@@ -6,6 +6,8 @@ import {ProjectPath} from '../../../ProjectPath';
 import {GPXProcessing} from '../../fileaccess/fileprocessing/GPXProcessing';
 import {PhotoProcessing} from '../../fileaccess/fileprocessing/PhotoProcessing';
 import {VideoProcessing} from '../../fileaccess/fileprocessing/VideoProcessing';
+import {MotionPhotoProcessing} from '../../fileaccess/fileprocessing/MotionPhotoProcessing';
+import {VideoSpriteProcessing} from '../../fileaccess/fileprocessing/VideoSpriteProcessing';
 import { DynamicConfig } from '../../../../common/entities/DynamicConfig';
 
 export class TempFolderCleaningJob extends Job {
@@ -22,6 +24,14 @@ export class TempFolderCleaningJob extends Job {
   }
 
   protected async isValidFile(filePath: string): Promise<boolean> {
+    if (MotionPhotoProcessing.isClipPath(filePath)) {
+      return MotionPhotoProcessing.isValidClipPath(filePath);
+    }
+
+    if (VideoSpriteProcessing.isSpritePath(filePath)) {
+      return VideoSpriteProcessing.isValidSpritePath(filePath);
+    }
+
     if (PhotoProcessing.isPhoto(filePath)) {
       return PhotoProcessing.isValidConvertedPath(filePath);
     }
@@ -38,8 +48,11 @@ export class TempFolderCleaningJob extends Job {
   }
 
   protected async isValidDirectory(filePath: string): Promise<boolean> {
-    const originalPath = path.join(
-      ProjectPath.ImageFolder,
+    if (VideoProcessing.isHLSPath(filePath)) {
+      return VideoProcessing.isValidHLSPath(filePath);
+    }
+
+    const originalPath = ProjectPath.getMediaPath(
       path.relative(ProjectPath.TranscodedFolder, filePath)
     );
     try {
@@ -91,9 +104,12 @@ export class TempFolderCleaningJob extends Job {
       } else {
         this.Progress.log('skipping: ' + filePath);
         this.Progress.Skipped++;
-        this.directoryQueue = this.directoryQueue.concat(
-          await this.readDir(filePath)
-        );
+        // HLS streams are validated as a whole
+        if (!VideoProcessing.isHLSPath(filePath)) {
+          this.directoryQueue = this.directoryQueue.concat(
+            await this.readDir(filePath)
+          );
+        }
       }
     } else {
       if ((await this.isValidFile(filePath)) === false) {
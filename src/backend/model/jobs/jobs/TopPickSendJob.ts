@@ -4,7 +4,7 @@ import {backendTexts} from '../../../../common/BackendTexts';
 import {SortByTypes} from '../../../../common/entities/SortingMethods';
 import {DatePatternFrequency, DatePatternSearch, SearchQueryTypes} from '../../../../common/entities/SearchQueryDTO';
 import {ObjectManagers} from '../../ObjectManagers';
-import {PhotoEntity} from '../../database/enitites/PhotoEntity';
+import {MediaEntity} from '../../database/enitites/MediaEntity';
 import {MediaPickDTO} from '../../../../common/entities/MediaPickDTO';
 import {MediaDTOUtils} from '../../../../common/entities/MediaDTO';
 import {DynamicConfig} from '../../../../common/entities/DynamicConfig';
@@ -23,7 +23,7 @@ export class TopPickSendJob extends Job<{
   public readonly Supported: boolean = true;
   public readonly ConfigTemplate: DynamicConfig[];
   private status: 'Listing' | 'Sending' = 'Listing';
-  private mediaList: PhotoEntity[] = [];
+  private mediaList: MediaEntity[] = [];
 
   constructor() {
     super();
@@ -2,6 +2,7 @@ import {Config} from '../../../../common/config/private/Config';
 import {DefaultsJobs} from '../../../../common/entities/job/JobDTO';
 import {FileJob} from './FileJob';
 import {VideoProcessing} from '../../fileaccess/fileprocessing/VideoProcessing';
+import {VideoSpriteProcessing} from '../../fileaccess/fileprocessing/VideoSpriteProcessing';
 
 declare const global: any;
 
@@ -17,11 +18,19 @@ export class VideoConvertingJob extends FileJob {
   }
 
   protected async shouldProcess(mPath: string): Promise<boolean> {
-    return !(await VideoProcessing.convertedVideoExist(mPath));
+    return !(await VideoProcessing.convertedVideoExist(mPath)) ||
+      (Config.Media.Video.hlsStreaming && !(await VideoProcessing.hlsStreamExist(mPath))) ||
+      (Config.Media.Video.scrubPreview && !(await VideoSpriteProcessing.spriteExist(mPath)));
   }
 
   protected async processFile(mPath: string): Promise<void> {
     await VideoProcessing.convertVideo(mPath);
+    if (Config.Media.Video.hlsStreaming) {
+      await VideoProcessing.convertToHLS(mPath);
+    }
+    if (Config.Media.Video.scrubPreview) {
+      await VideoSpriteProcessing.generateSprite(mPath);
+    }
     if (global.gc) {
       global.gc();
     }
@@ -97,4 +97,17 @@ export class EmailMessenger extends Messenger<{
       attachments: attachments
     });
   }
+
+  protected async sendText(mailSettings: {
+    emailTo: string,
+    emailSubject: string,
+    emailText: string
+  }, subject: string, text: string) {
+    return await this.transporter.sendMail({
+      from: Config.Messaging.Email.emailFrom,
+      to: mailSettings.emailTo,
+      subject: subject || mailSettings.emailSubject,
+      text: text
+    });
+  }
 }
@@ -5,11 +5,21 @@ export class ExtensionMessenger<C extends Record<string, unknown> = Record<strin
 
   constructor(public readonly Name: string,
               public readonly ConfigTemplate: DynamicConfig[],
-              private readonly callbacks: { sendMedia: (config: C, media: MediaDTOWithThPath[]) => Promise<void> }) {
+              private readonly callbacks: {
+                sendMedia: (config: C, media: MediaDTOWithThPath[]) => Promise<void>,
+                sendText?: (config: C, subject: string, text: string) => Promise<void>
+              }) {
     super();
   }
 
   protected sendMedia(config: C, media: MediaDTOWithThPath[]): Promise<void> {
     return this.callbacks.sendMedia(config, media);
   }
+
+  protected sendText(config: C, subject: string, text: string): Promise<void> {
+    if (!this.callbacks.sendText) {
+      return super.sendText(config, subject, text);
+    }
+    return this.callbacks.sendText(config, subject, text);
+  }
 }
@@ -7,12 +7,21 @@ import * as path from 'path';
 import {Utils} from '../../../common/Utils';
 import {QueryParams} from '../../../common/QueryParams';
 import {DynamicConfig} from '../../../common/entities/DynamicConfig';
+import {JobProgressDTO, JobProgressStates} from '../../../common/entities/job/JobProgressDTO';
+import {MessengerDTO} from '../../../common/entities/job/JobDTO';
 
 export interface MediaDTOWithThPath extends MediaDTO {
   thumbnailPath: string;
   thumbnailUrl: string;
 }
 
+/**
+ * Result of a job run, e.g.: indexing finished or conversion failed
+ */
+export interface JobSummaryMessage extends JobProgressDTO {
+  error?: string;
+}
+
 export abstract class Messenger<C extends Record<string, unknown> = Record<string, unknown>> {
 
   public abstract get Name(): string;
@@ -21,15 +30,48 @@ export abstract class Messenger<C extends Record<string, unknown> = Record<strin
 
   private async getThumbnail(m: MediaDTO) {
     return await PhotoProcessing.generateThumbnail(
-      path.join(ProjectPath.ImageFolder, m.directory.path, m.directory.name, m.name),
+      ProjectPath.getMediaPath(
+      m.directory.path, m.directory.name, m.name),
       Config.Media.Photo.thumbnailSizes[0],
       MediaDTOUtils.isPhoto(m) ? ThumbnailSourceType.Photo : ThumbnailSourceType.Video,
       false
     );
   }
 
+  public static isJobSummary(input: unknown): input is JobSummaryMessage {
+    return !!input && typeof input === 'object'
+      && typeof (input as JobSummaryMessage).jobName === 'string'
+      && typeof (input as JobSummaryMessage).state === 'number'
+      && !!(input as JobSummaryMessage).steps;
+  }
+
+  public static getJobSummarySubject(summary: JobSummaryMessage): string {
+    return Config.Server.applicationTitle + ': ' + summary.jobName + ' ' + JobProgressStates[summary.state];
+  }
+
+  public static getJobSummaryText(summary: JobSummaryMessage): string {
+    const lines = [
+      'Job: ' + summary.jobName,
+      'State: ' + JobProgressStates[summary.state],
+      'Processed: ' + summary.steps.processed + ', skipped: ' + summary.steps.skipped + ', all: ' + summary.steps.all,
+    ];
+    if (summary.time?.start) {
+      lines.push('Started: ' + new Date(summary.time.start).toLocaleString(undefined, {hour12: false}));
+    }
+    if (summary.time?.end) {
+      lines.push('Ended: ' + new Date(summary.time.end).toLocaleString(undefined, {hour12: false}));
+    }
+    if (summary.error) {
+      lines.push('Error: ' + summary.error);
+    }
+    return lines.join('\n');
+  }
 
-  public async send(config: C, input: string | MediaDTO[] | unknown) {
+
+  /**
+   * Sends a list of photos and videos, a job summary or a plain text
+   */
+  public async send(config: C, input: string | MediaDTO[] | JobSummaryMessage | unknown) {
     if (Array.isArray(input) && input.length > 0
       && (input as MediaDTO[])[0]?.name
       && (input as MediaDTO[])[0]?.directory
@@ -42,9 +84,33 @@ export abstract class Messenger<C extends Record<string, unknown> = Record<strin
       }
       return await this.sendMedia(config, media);
     }
-    // TODO: implement other branches
-    throw new Error('Not yet implemented');
+    if (Messenger.isJobSummary(input)) {
+      return await this.sendJobSummary(config, input);
+    }
+    if (typeof input === 'string') {
+      return await this.sendText(config, null, input);
+    }
+    throw new Error('Unsupported message for ' + this.Name + ' messenger: ' + JSON.stringify(input));
+  }
+
+  public toJSON(): MessengerDTO {
+    return {
+      Name: this.Name,
+      ConfigTemplate: this.ConfigTemplate,
+    };
   }
 
   protected abstract sendMedia(config: C, media: MediaDTOWithThPath[]): Promise<void> ;
+
+  /**
+   * @param subject is null if the message does not have one. Messengers may fall back to their own config then.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  protected async sendText(config: C, subject: string, text: string): Promise<void> {
+    throw new Error(this.Name + ' messenger does not support text messages');
+  }
+
+  protected sendJobSummary(config: C, summary: JobSummaryMessage): Promise<void> {
+    return this.sendText(config, Messenger.getJobSummarySubject(summary), Messenger.getJobSummaryText(summary));
+  }
 }
@@ -1,6 +1,7 @@
 import {Messenger} from './Messenger';
 import {EmailMessenger} from './EmailMessenger';
 import {StdoutMessenger} from './StdoutMessenger';
+import {WebhookMessenger} from './WebhookMessenger';
 
 export class MessengerRepository {
 
@@ -39,3 +40,4 @@ export class MessengerRepository {
 
 MessengerRepository.Instance.register(new EmailMessenger());
 MessengerRepository.Instance.register(new StdoutMessenger());
+MessengerRepository.Instance.register(new WebhookMessenger());
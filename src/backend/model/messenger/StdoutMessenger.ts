@@ -14,4 +14,8 @@ export class StdoutMessenger extends Messenger {
   protected async sendMedia(config: never, media: MediaDTOWithThPath[]) {
     console.log(media.map(m => m.thumbnailPath));
   }
+
+  protected async sendText(config: never, subject: string, text: string) {
+    console.log(subject ? subject + '\n' + text : text);
+  }
 }
@@ -0,0 +1,252 @@
+import * as crypto from 'crypto';
+import {promises as fsp} from 'fs';
+import * as path from 'path';
+import {Config} from '../../../common/config/private/Config';
+import {PhotoMetadata} from '../../../common/entities/PhotoDTO';
+import {JobSummaryMessage, MediaDTOWithThPath, Messenger} from './Messenger';
+import {backendTexts} from '../../../common/BackendTexts';
+import {DynamicConfig} from '../../../common/entities/DynamicConfig';
+import {DefaultMessengers} from '../../../common/entities/job/JobDTO';
+import {JobProgressStates} from '../../../common/entities/job/JobProgressDTO';
+import {Utils} from '../../../common/Utils';
+
+interface WebhookMedia {
+  name: string;
+  url: string; // link to the photo in the gallery
+  thumbnail: string; // URL or base64 data URL
+  date: number;
+  location: string;
+}
+
+interface WebhookJob {
+  name: string;
+  state: string;
+  steps: { all: number, processed: number, skipped: number };
+  time: { start: number, end: number };
+  error: string;
+}
+
+/**
+ * Values of the placeholders in the template
+ */
+interface WebhookValues {
+  title: string;
+  subject: string;
+  text: string;
+  media: WebhookMedia[];
+  job: WebhookJob;
+  timestamp: string;
+}
+
+/**
+ * POSTs the messages as JSON to an HTTP endpoint.
+ * The body is built from a JSON template with {{placeholder}} values.
+ */
+export class WebhookMessenger extends Messenger<{
+  webhookUrl: string,
+  webhookText: string,
+  webhookTemplate: string,
+  webhookEmbedThumbnails: boolean,
+}> {
+  public static readonly SIGNATURE_HEADER = 'X-Pigallery2-Signature';
+  public static readonly DEFAULT_TEMPLATE = JSON.stringify({
+    title: '{{title}}',
+    subject: '{{subject}}',
+    text: '{{text}}',
+    media: '{{media}}',
+    job: '{{job}}',
+    timestamp: '{{timestamp}}'
+  });
+  public readonly Name = DefaultMessengers[DefaultMessengers.Webhook];
+  public readonly ConfigTemplate: DynamicConfig[] = [{
+    id: 'webhookUrl',
+    type: 'string',
+    name: backendTexts.webhookUrl.name,
+    description: backendTexts.webhookUrl.description,
+    defaultValue: '',
+  }, {
+    id: 'webhookText',
+    type: 'string',
+    name: backendTexts.webhookText.name,
+    description: backendTexts.webhookText.description,
+    defaultValue: 'I hand picked these photos just for you:',
+  }, {
+    id: 'webhookTemplate',
+    type: 'string',
+    name: backendTexts.webhookTemplate.name,
+    description: backendTexts.webhookTemplate.description,
+    defaultValue: WebhookMessenger.DEFAULT_TEMPLATE,
+  }, {
+    id: 'webhookEmbedThumbnails',
+    type: 'boolean',
+    name: backendTexts.webhookEmbedThumbnails.name,
+    description: backendTexts.webhookEmbedThumbnails.description,
+    defaultValue: false,
+  }];
+
+  /**
+   * Replaces the {{placeholders}} in the string values of the template.
+   * If a value is only a placeholder, it is replaced with the raw value, so it can be an object or array too.
+   */
+  public static render(template: unknown, values: WebhookValues): unknown {
+    if (typeof template === 'string') {
+      const single = template.match(/^\{\{\s*([\w.]+)\s*}}$/);
+      if (single) {
+        const value = this.getValue(values, single[1]);
+        return typeof value === 'undefined' ? null : value;
+      }
+      return template.replace(/\{\{\s*([\w.]+)\s*}}/g, (_, key: string) => {
+        const value = this.getValue(values, key);
+        if (value === null || typeof value === 'undefined') {
+          return '';
+        }
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+      });
+    }
+    if (Array.isArray(template)) {
+      return template.map(t => this.render(t, values));
+    }
+    if (template !== null && typeof template === 'object') {
+      const ret: Record<string, unknown> = {};
+      for (const key of Object.keys(template)) {
+        ret[key] = this.render((template as Record<string, unknown>)[key], values);
+      }
+      return ret;
+    }
+    return template;
+  }
+
+  public static sign(body: string, secret: string): string {
+    return 'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex');
+  }
+
+  private static getValue(values: WebhookValues, key: string): unknown {
+    let value: unknown = values;
+    for (const k of key.split('.')) {
+      if (value === null || typeof value !== 'object') {
+        return undefined;
+      }
+      value = (value as Record<string, unknown>)[k];
+    }
+    return value;
+  }
+
+  /**
+   * The thumbnail URLs need a login, so the receiver could not load them when authentication is required.
+   */
+  private static async getThumbnail(media: MediaDTOWithThPath, embed: boolean): Promise<string> {
+    if (embed || Config.Users.authenticationRequired) {
+      return 'data:image/' + path.extname(media.thumbnailPath).substring(1) + ';base64,' +
+        (await fsp.readFile(media.thumbnailPath)).toString('base64');
+    }
+    return Utils.concatUrls(
+      Config.Server.publicUrl,
+      Config.Server.apiPath,
+      '/gallery/content/',
+      encodeURIComponent(path.join(media.directory.path, media.directory.name, media.name)),
+      '' + Config.Media.Photo.thumbnailSizes[0]
+    );
+  }
+
+  protected async sendMedia(config: {
+    webhookUrl: string,
+    webhookText: string,
+    webhookTemplate: string,
+    webhookEmbedThumbnails: boolean
+  }, media: MediaDTOWithThPath[]): Promise<void> {
+    const list: WebhookMedia[] = [];
+    for (const m of media) {
+      const positionData = (m.metadata as PhotoMetadata).positionData;
+      list.push({
+        name: m.name,
+        url: m.thumbnailUrl,
+        thumbnail: await WebhookMessenger.getThumbnail(m, config.webhookEmbedThumbnails),
+        date: Utils.getTimeMS(m.metadata.creationDate, m.metadata.creationDateOffset, Config.Gallery.ignoreTimestampOffset),
+        location: positionData?.country || positionData?.city || ''
+      });
+    }
+    await this.post(config, {
+      title: Config.Server.applicationTitle,
+      subject: null,
+      text: config.webhookText,
+      media: list,
+      job: null,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  protected async sendText(config: {
+    webhookUrl: string,
+    webhookText: string,
+    webhookTemplate: string,
+    webhookEmbedThumbnails: boolean
+  }, subject: string, text: string): Promise<void> {
+    await this.post(config, {
+      title: Config.Server.applicationTitle,
+      subject,
+      text,
+      media: [],
+      job: null,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  protected async sendJobSummary(config: {
+    webhookUrl: string,
+    webhookText: string,
+    webhookTemplate: string,
+    webhookEmbedThumbnails: boolean
+  }, summary: JobSummaryMessage): Promise<void> {
+    await this.post(config, {
+      title: Config.Server.applicationTitle,
+      subject: Messenger.getJobSummarySubject(summary),
+      text: Messenger.getJobSummaryText(summary),
+      media: [],
+      job: {
+        name: summary.jobName,
+        state: JobProgressStates[summary.state],
+        steps: summary.steps,
+        time: summary.time,
+        error: summary.error || null
+      },
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  private async post(config: {
+    webhookUrl: string,
+    webhookTemplate: string
+  }, values: WebhookValues): Promise<void> {
+    if (!config.webhookUrl) {
+      throw new Error('Webhook URL is not set');
+    }
+    let template: unknown;
+    try {
+      template = JSON.parse(config.webhookTemplate || WebhookMessenger.DEFAULT_TEMPLATE);
+    } catch (err) {
+      throw new Error('Webhook template is not a valid JSON: ' + err.message);
+    }
+    const body = JSON.stringify(WebhookMessenger.render(template, values));
+    const headers: Record<string, string> = {'Content-Type': 'application/json'};
+    if (Config.Messaging.Webhook.secret) {
+      headers[WebhookMessenger.SIGNATURE_HEADER] = WebhookMessenger.sign(body, Config.Messaging.Webhook.secret);
+    }
+    const controller = new AbortController();
+    const timer = Config.Messaging.Webhook.timeout > 0 ?
+      setTimeout(() => controller.abort(), Config.Messaging.Webhook.timeout) : null;
+    let res: Response;
+    try {
+      res = await fetch(config.webhookUrl, {
+        method: 'POST',
+        headers,
+        body,
+        signal: controller.signal
+      });
+    } finally {
+      clearTimeout(timer);
+    }
+    if (!res.ok) {
+      throw new Error('Webhook request to ' + config.webhookUrl + ' failed, status: ' + res.status);
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import * as crypto from 'crypto';
+import {Config} from '../../../common/config/private/Config';
+import {UserRoles} from '../../../common/entities/UserDTO';
+import {Utils} from '../../../common/Utils';
+
+export interface OIDCProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+}
+
+/**
+ * Stored in the session between the login redirect and the callback.
+ */
+export interface OIDCLoginState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+export interface OIDCCallbackParams {
+  code?: string;
+  state?: string;
+  error?: string;
+  error_description?: string;
+}
+
+export interface OIDCUser {
+  subject: string;
+  name: string;
+  role: UserRoles;
+  permissions: string[];
+}
+
+export type OIDCClaims = { [key: string]: unknown };
+
+/**
+ * Minimal OpenID Connect relying party that implements the authorization code flow with PKCE.
+ * The ID token is received directly from the token endpoint, so its issuer is validated by TLS
+ * instead of the token signature (see: OpenID Connect Core 1.0, 3.1.3.7).
+ */
+export class OIDCClient {
+  private static metadata: Promise<OIDCProviderMetadata> = null;
+  private static metadataIssuer: string = null;
+
+  private static get Issuer(): string {
+    return Config.Users.OIDC.issuer.replace(/\/+$/, '');
+  }
+
+  private static randomString(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  public static getMetadata(): Promise<OIDCProviderMetadata> {
+    if (!this.metadata || this.metadataIssuer !== this.Issuer) {
+      this.metadataIssuer = this.Issuer;
+      this.metadata = this.discover().catch((err) => {
+        this.metadata = null; // retry on the next login
+        throw err;
+      });
+    }
+    return this.metadata;
+  }
+
+  private static async discover(): Promise<OIDCProviderMetadata> {
+    const url = this.Issuer + '/.well-known/openid-configuration';
+    const res = await fetch(url, {headers: {Accept: 'application/json'}});
+    if (!res.ok) {
+      throw new Error('Can\'t load OpenID configuration from ' + url + ', status: ' + res.status);
+    }
+    const metadata = (await res.json()) as OIDCProviderMetadata;
+    if (!metadata.authorization_endpoint || !metadata.token_endpoint) {
+      throw new Error('Invalid OpenID configuration at ' + url);
+    }
+    return metadata;
+  }
+
+  /**
+   * Creates the url of the provider's login page.
+   * The returned state needs to be kept until the callback.
+   */
+  public static async createLoginRequest(redirectUri: string): Promise<{ url: string, state: OIDCLoginState }> {
+    const metadata = await this.getMetadata();
+    const state: OIDCLoginState = {
+      state: this.randomString(),
+      nonce: this.randomString(),
+      codeVerifier: this.randomString(),
+      redirectUri
+    };
+    const url = new URL(metadata.authorization_endpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', Config.Users.OIDC.clientId);
+    url.searchParams.set('redirect_uri', redirectUri);
+    url.searchParams.set('scope', Config.Users.OIDC.scope);
+    url.searchParams.set('state', state.state);
+    url.searchParams.set('nonce', state.nonce);
+    url.searchParams.set('code_challenge',
+      crypto.createHash('sha256').update(state.codeVerifier).digest('base64url'));
+    url.searchParams.set('code_challenge_method', 'S256');
+    return {url: url.toString(), state};
+  }
+
+  /**
+   * Exchanges the authorization code to tokens and returns the validated claims of the user.
+   */
+  public static async handleCallback(params: OIDCCallbackParams, loginState: OIDCLoginState): Promise<OIDCClaims> {
+    if (params.error) {
+      throw new Error('Login failed at the provider: ' + params.error +
+        (params.error_description ? ', ' + params.error_description : ''));
+    }
+    if (!loginState || !params.state || params.state !== loginState.state) {
+      throw new Error('Invalid login state');
+    }
+    if (!params.code) {
+      throw new Error('Authorization code is missing');
+    }
+    const metadata = await this.getMetadata();
+    const res = await fetch(metadata.token_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json'
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: params.code,
+        redirect_uri: loginState.redirectUri,
+        client_id: Config.Users.OIDC.clientId,
+        client_secret: Config.Users.OIDC.clientSecret,
+        code_verifier: loginState.codeVerifier,
+      }).toString()
+    });
+    if (!res.ok) {
+      throw new Error('Token request failed, status: ' + res.status + ', ' + await res.text());
+    }
+    const tokens = await res.json() as { id_token?: string, access_token?: string };
+    if (!tokens.id_token) {
+      throw new Error('No id_token in the token response');
+    }
+    let claims = this.decodeIdToken(tokens.id_token);
+    this.validateClaims(claims, metadata, loginState);
+
+    // some providers only put the groups to the userinfo
+    if (metadata.userinfo_endpoint && tokens.access_token) {
+      const infoRes = await fetch(metadata.userinfo_endpoint, {
+        headers: {Authorization: 'Bearer ' + tokens.access_token, Accept: 'application/json'}
+      });
+      if (infoRes.ok) {
+        const info = await infoRes.json() as OIDCClaims;
+        if (info.sub === claims.sub) {
+          claims = {...info, ...claims};
+        }
+      }
+    }
+    return claims;
+  }
+
+  private static decodeIdToken(idToken: string): OIDCClaims {
+    const parts = idToken.split('.');
+    if (parts.length !== 3) {
+      throw new Error('Malformed id_token');
+    }
+    return JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+  }
+
+  private static validateClaims(claims: OIDCClaims, metadata: OIDCProviderMetadata, loginState: OIDCLoginState): void {
+    if (claims.iss !== metadata.issuer) {
+      throw new Error('Invalid id_token issuer: ' + claims.iss);
+    }
+    const aud = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!aud.includes(Config.Users.OIDC.clientId)) {
+      throw new Error('Invalid id_token audience: ' + claims.aud);
+    }
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 < Date.now()) {
+      throw new Error('id_token expired');
+    }
+    if (claims.nonce !== loginState.nonce) {
+      throw new Error('Invalid id_token nonce');
+    }
+    if (!claims.sub) {
+      throw new Error('id_token has no subject');
+    }
+  }
+
+  /**
+   * Returns a claim. Nested claims can be selected with dots, e.g.: realm_access.roles
+   */
+  public static getClaim(claims: OIDCClaims, name: string): unknown {
+    if (!name) {
+      return undefined;
+    }
+    if (name in claims) {
+      return claims[name];
+    }
+    return name.split('.').reduce((c: unknown, key: string): unknown =>
+      (c && typeof c === 'object') ? (c as OIDCClaims)[key] : undefined, claims);
+  }
+
+  private static getClaimValues(claims: OIDCClaims, name: string): string[] {
+    const value = this.getClaim(claims, name);
+    if (value === undefined || value === null) {
+      return [];
+    }
+    return (Array.isArray(value) ? value : [value]).map((v) => '' + v);
+  }
+
+  /**
+   * Maps the claims to a user, based on the role and permission mappings.
+   */
+  public static mapUser(claims: OIDCClaims): OIDCUser {
+    const config = Config.Users.OIDC;
+    const name = '' + (this.getClaim(claims, config.usernameClaim) || claims.email || claims.sub);
+
+    const roleValues = this.getClaimValues(claims, config.roleClaim);
+    const roles = config.roleMapping
+      .filter((m) => roleValues.includes(m.claimValue))
+      .map((m) => m.role);
+    if (roles.length === 0 && !config.allowUnmappedUsers) {
+      throw new Error('User does not match any role mapping: ' + name);
+    }
+
+    const permissionValues = this.getClaimValues(claims, config.permissionClaim);
+    const permissions = Utils.getUnique(config.permissionMapping
+      .filter((m) => permissionValues.includes(m.claimValue))
+      .map((m) => m.permissions)
+      .reduce((acc, p) => acc.concat(p), []));
+
+    return {
+      subject: '' + claims.sub,
+      name,
+      role: roles.length > 0 ? Math.max(...roles) : config.defaultRole,
+      permissions: permissions.length > 0 ? permissions : null
+    };
+  }
+}
@@ -12,6 +12,11 @@ export class AlbumRouter {
     this.addListAlbums(app);
     this.addAddSavedSearch(app);
     this.addDeleteAlbum(app);
+    this.addAddManualAlbum(app);
+    this.addListAlbumMedia(app);
+    this.addAddAlbumMedia(app);
+    this.addRemoveAlbumMedia(app);
+    this.addReorderAlbumMedia(app);
   }
 
   private static addListAlbums(app: Express): void {
@@ -58,4 +63,79 @@ export class AlbumRouter {
         RenderingMWs.renderResult
     );
   }
+
+  private static addAddManualAlbum(app: Express): void {
+    app.put(
+        [Config.Server.apiPath + '/albums/manual'],
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(UserRoles.Admin),
+        VersionMWs.injectGalleryVersion,
+
+        // specific part
+        AlbumMWs.createManualAlbum,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderResult
+    );
+  }
+
+  private static addListAlbumMedia(app: Express): void {
+    app.get(
+        [Config.Server.apiPath + '/albums/:id/media'],
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(UserRoles.User),
+        VersionMWs.injectGalleryVersion,
+
+        // specific part
+        AlbumMWs.listAlbumMedia,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderResult
+    );
+  }
+
+  private static addAddAlbumMedia(app: Express): void {
+    app.put(
+        [Config.Server.apiPath + '/albums/:id/media'],
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(UserRoles.Admin),
+        VersionMWs.injectGalleryVersion,
+
+        // specific part
+        AlbumMWs.addMediaToAlbum,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderResult
+    );
+  }
+
+  private static addRemoveAlbumMedia(app: Express): void {
+    app.delete(
+        [Config.Server.apiPath + '/albums/:id/media/:mediaId'],
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(UserRoles.Admin),
+        VersionMWs.injectGalleryVersion,
+
+        // specific part
+        AlbumMWs.removeMediaFromAlbum,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderResult
+    );
+  }
+
+  private static addReorderAlbumMedia(app: Express): void {
+    app.post(
+        [Config.Server.apiPath + '/albums/:id/media/order'],
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(UserRoles.Admin),
+        VersionMWs.injectGalleryVersion,
+
+        // specific part
+        AlbumMWs.reorderAlbumMedia,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderResult
+    );
+  }
 }
@@ -10,23 +10,32 @@ import {SupportedFormats} from '../../common/SupportedFormats';
 import {ServerTimingMWs} from '../middlewares/ServerTimingMWs';
 import {MetaFileMWs} from '../middlewares/MetaFileMWs';
 import {Config} from '../../common/config/private/Config';
+import {SharingMWs} from '../middlewares/SharingMWs';
+import {SharingAccessTypes} from '../../common/entities/SharingDTO';
 
 export class GalleryRouter {
   public static route(app: Express): void {
     this.addGetImageIcon(app);
     this.addGetVideoIcon(app);
+    this.addGetVideoSprite(app);
+    this.addGetMotionVideo(app);
     this.addGetResizedPhoto(app);
     this.addGetBestFitVideo(app);
+    this.addGetHLSStream(app);
     this.addGetVideoThumbnail(app);
     this.addGetImage(app);
     this.addGetVideo(app);
+    this.addGetSidecar(app);
     this.addGetMetaFile(app);
     this.addGetBestFitMetaFile(app);
+    this.addUpdateMetadata(app);
     this.addRandom(app);
     this.addDirectoryList(app);
     this.addDirectoryZip(app);
 
     this.addSearch(app);
+    this.addMapClusters(app);
+    this.addMemories(app);
     this.addAutoComplete(app);
   }
 
@@ -57,6 +66,7 @@ export class GalleryRouter {
         AuthenticationMWs.authorisePath('directory', true),
 
         // specific part
+        SharingMWs.logAccess(SharingAccessTypes.Download),
         ServerTimingMWs.addServerTiming,
         GalleryMWs.zipDirectory
     );
@@ -75,6 +85,52 @@ export class GalleryRouter {
         AuthenticationMWs.authorisePath('mediaPath', false),
 
         // specific part
+        SharingMWs.logPhotoAccess,
+        GalleryMWs.loadFile,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderFile
+    );
+  }
+
+  /**
+   * Video part of a Live Photo or a Motion Photo
+   */
+  protected static addGetMotionVideo(app: Express): void {
+    app.get(
+        [
+          Config.Server.apiPath + '/gallery/content/:mediaPath(*.(' +
+          SupportedFormats.Photos.join('|') +
+          '))/motion',
+        ],
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.normalizePathParam('mediaPath'),
+        AuthenticationMWs.authorisePath('mediaPath', false),
+
+        // specific part
+        SharingMWs.logAccess(SharingAccessTypes.View),
+        GalleryMWs.loadFile,
+        GalleryMWs.loadMotionVideo,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderFile
+    );
+  }
+
+  /**
+   * Used for downloading the XMP sidecars that are listed as alternates of a photo
+   */
+  protected static addGetSidecar(app: Express): void {
+    app.get(
+        [
+          Config.Server.apiPath + '/gallery/content/:mediaPath(*.xmp)',
+        ],
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.normalizePathParam('mediaPath'),
+        AuthenticationMWs.authorisePath('mediaPath', false),
+
+        // specific part
+        SharingMWs.logAccess(SharingAccessTypes.Download),
         GalleryMWs.loadFile,
         ServerTimingMWs.addServerTiming,
         RenderingMWs.renderFile
@@ -93,8 +149,51 @@ export class GalleryRouter {
         AuthenticationMWs.normalizePathParam('mediaPath'),
         AuthenticationMWs.authorisePath('mediaPath', false),
 
+        // specific part
+        SharingMWs.logAccess(SharingAccessTypes.View),
+        GalleryMWs.loadFile,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderFile
+    );
+  }
+
+  /**
+   * Master playlist, rendition playlists and segments of the HLS stream of a video.
+   * Only the master playlist is logged as an access, not every segment.
+   */
+  protected static addGetHLSStream(app: Express): void {
+    app.get(
+        [
+          Config.Server.apiPath + '/gallery/content/:mediaPath(*.(' +
+          SupportedFormats.Videos.join('|') +
+          '))/hls/:hlsFile(master.m3u8)',
+        ],
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.normalizePathParam('mediaPath'),
+        AuthenticationMWs.authorisePath('mediaPath', false),
+
+        // specific part
+        SharingMWs.logAccess(SharingAccessTypes.View),
+        GalleryMWs.loadFile,
+        GalleryMWs.loadHLSFile,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderFile
+    );
+    app.get(
+        [
+          Config.Server.apiPath + '/gallery/content/:mediaPath(*.(' +
+          SupportedFormats.Videos.join('|') +
+          '))/hls/:hlsFile(*)',
+        ],
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.normalizePathParam('mediaPath'),
+        AuthenticationMWs.authorisePath('mediaPath', false),
+
         // specific part
         GalleryMWs.loadFile,
+        GalleryMWs.loadHLSFile,
         ServerTimingMWs.addServerTiming,
         RenderingMWs.renderFile
     );
@@ -113,6 +212,7 @@ export class GalleryRouter {
         AuthenticationMWs.authorisePath('mediaPath', false),
 
         // specific part
+        SharingMWs.logAccess(SharingAccessTypes.View),
         GalleryMWs.loadFile,
         GalleryMWs.loadBestFitVideo,
         ServerTimingMWs.addServerTiming,
@@ -120,6 +220,27 @@ export class GalleryRouter {
     );
   }
 
+  protected static addUpdateMetadata(app: Express): void {
+    app.put(
+        [
+          Config.Server.apiPath + '/gallery/content/:mediaPath(*.(' +
+          SupportedFormats.Photos.join('|') +
+          '))/metadata',
+        ],
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(Config.Media.Photo.MetadataEditing.writeAccessMinRole),
+        AuthenticationMWs.normalizePathParam('mediaPath'),
+        AuthenticationMWs.authorisePath('mediaPath', false),
+
+        // specific part
+        GalleryMWs.loadFile,
+        GalleryMWs.updateMetadata,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderResult
+    );
+  }
+
   protected static addGetMetaFile(app: Express): void {
     app.get(
         [
@@ -176,7 +297,8 @@ export class GalleryRouter {
   }
 
   /**
-   * Used for serving photo thumbnails and previews
+   * Used for serving photo thumbnails and previews.
+   * The grid loads them for every media the guest scrolls past, so they are not logged as a sharing access.
    * @param app
    * @protected
    */
@@ -216,6 +338,27 @@ export class GalleryRouter {
     );
   }
 
+  /**
+   * Sprite sheet of evenly spaced frames and its WebVTT thumbnails track for scrub previews
+   */
+  protected static addGetVideoSprite(app: Express): void {
+    app.get(
+        Config.Server.apiPath + '/gallery/content/:mediaPath(*.(' +
+        SupportedFormats.Videos.join('|') +
+        '))/:spriteFile(sprite|sprite.vtt)',
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.normalizePathParam('mediaPath'),
+        AuthenticationMWs.authorisePath('mediaPath', false),
+
+        // specific part
+        GalleryMWs.loadFile,
+        GalleryMWs.loadVideoSprite,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderFile
+    );
+  }
+
   protected static addGetVideoIcon(app: Express): void {
     app.get(
         Config.Server.apiPath + '/gallery/content/:mediaPath(*.(' +
@@ -269,6 +412,38 @@ export class GalleryRouter {
     );
   }
 
+  protected static addMapClusters(app: Express): void {
+    app.get(
+        Config.Server.apiPath + '/gallery/map/:z/:x/:y/:searchQueryDTO(*)',
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(UserRoles.LimitedGuest),
+        VersionMWs.injectGalleryVersion,
+
+        // specific part
+        GalleryMWs.getMapClusters,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderResult
+    );
+  }
+
+  protected static addMemories(app: Express): void {
+    app.get(
+        Config.Server.apiPath + '/gallery/memories',
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(UserRoles.Guest),
+        VersionMWs.injectGalleryVersion,
+
+        // specific part
+        GalleryMWs.getMemories,
+        ThumbnailGeneratorMWs.addThumbnailInformation,
+        GalleryMWs.cleanUpGalleryResults,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderResult
+    );
+  }
+
   protected static addAutoComplete(app: Express): void {
     app.get(
         Config.Server.apiPath + '/autocomplete/:text(*)',
@@ -11,8 +11,13 @@ import {ServerTimingMWs} from '../middlewares/ServerTimingMWs';
 export class PersonRouter {
   public static route(app: Express): void {
     this.updatePerson(app);
+    this.mergePersons(app);
+    this.setPersonCover(app);
     this.addGetPersons(app);
     this.getPersonThumbnail(app);
+    this.addGetFaceClusters(app);
+    this.nameFaceCluster(app);
+    this.getDetectedFaceThumbnail(app);
   }
 
   protected static updatePerson(app: Express): void {
@@ -30,6 +35,36 @@ export class PersonRouter {
     );
   }
 
+  protected static mergePersons(app: Express): void {
+    app.post(
+        [Config.Server.apiPath + '/person/:name/merge'],
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(Config.Faces.writeAccessMinRole),
+        VersionMWs.injectGalleryVersion,
+
+        // specific part
+        PersonMWs.mergePersons,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderResult
+    );
+  }
+
+  protected static setPersonCover(app: Express): void {
+    app.post(
+        [Config.Server.apiPath + '/person/:name/cover'],
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(Config.Faces.writeAccessMinRole),
+        VersionMWs.injectGalleryVersion,
+
+        // specific part
+        PersonMWs.setPersonCover,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderResult
+    );
+  }
+
   protected static addGetPersons(app: Express): void {
     app.get(
         [Config.Server.apiPath + '/person'],
@@ -63,4 +98,48 @@ export class PersonRouter {
         RenderingMWs.renderFile
     );
   }
+
+  protected static addGetFaceClusters(app: Express): void {
+    app.get(
+        [Config.Server.apiPath + '/faces/cluster'],
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(UserRoles.Admin),
+
+        // specific part
+        PersonMWs.listFaceClusters,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderResult
+    );
+  }
+
+  protected static nameFaceCluster(app: Express): void {
+    app.post(
+        [Config.Server.apiPath + '/faces/cluster/:id([0-9]+)'],
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(UserRoles.Admin),
+        VersionMWs.injectGalleryVersion,
+
+        // specific part
+        PersonMWs.nameFaceCluster,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderResult
+    );
+  }
+
+  protected static getDetectedFaceThumbnail(app: Express): void {
+    app.get(
+        [Config.Server.apiPath + '/faces/detected/:id([0-9]+)/thumbnail'],
+        // common part
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(UserRoles.Admin),
+
+        // specific part
+        PersonMWs.getDetectedFace,
+        ThumbnailGeneratorMWs.generateDetectedFaceThumbnail,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderFile
+    );
+  }
 }
@@ -6,12 +6,17 @@ import * as express from 'express';
 import {QueryParams} from '../../common/QueryParams';
 import {ServerTimingMWs} from '../middlewares/ServerTimingMWs';
 import {Config} from '../../common/config/private/Config';
+import {VersionMWs} from '../middlewares/VersionMWs';
+import {ThumbnailGeneratorMWs} from '../middlewares/thumbnail/ThumbnailGeneratorMWs';
+import {GalleryMWs} from '../middlewares/GalleryMWs';
 
 export class SharingRouter {
   public static route(app: express.Express): void {
     this.addShareLogin(app);
     this.addGetSharing(app);
     this.addGetSharingKey(app);
+    this.addGetSharedContent(app);
+    this.addGetSharingStats(app);
     this.addCreateSharing(app);
     this.addUpdateSharing(app);
     this.addListSharing(app);
@@ -55,6 +60,36 @@ export class SharingRouter {
     );
   }
 
+  /**
+   * Lists the media of a search query or media list based sharing
+   * @param app
+   * @private
+   */
+  private static addGetSharedContent(app: express.Express): void {
+    app.get(
+      Config.Server.apiPath + '/share/:' + QueryParams.gallery.sharingKey_params + '/content',
+      AuthenticationMWs.authenticate,
+      AuthenticationMWs.authorise(UserRoles.LimitedGuest),
+      VersionMWs.injectGalleryVersion,
+      SharingMWs.getSharedContent,
+      ThumbnailGeneratorMWs.addThumbnailInformation,
+      GalleryMWs.cleanUpGalleryResults,
+      ServerTimingMWs.addServerTiming,
+      RenderingMWs.renderResult
+    );
+  }
+
+  private static addGetSharingStats(app: express.Express): void {
+    app.get(
+      Config.Server.apiPath + '/share/:' + QueryParams.gallery.sharingKey_params + '/stats',
+      AuthenticationMWs.authenticate,
+      AuthenticationMWs.authorise(UserRoles.User),
+      SharingMWs.getSharingStats,
+      ServerTimingMWs.addServerTiming,
+      RenderingMWs.renderResult
+    );
+  }
+
   private static addCreateSharing(app: express.Express): void {
     app.post(
       [Config.Server.apiPath + '/share/:directory(*)', Config.Server.apiPath + '/share/', Config.Server.apiPath + '/share//'],
@@ -6,17 +6,25 @@ import {UserRequestConstrainsMWs} from '../middlewares/user/UserRequestConstrain
 import {RenderingMWs} from '../middlewares/RenderingMWs';
 import {ServerTimingMWs} from '../middlewares/ServerTimingMWs';
 import {Config} from '../../common/config/private/Config';
+import {OIDCMWs} from '../middlewares/user/OIDCMWs';
 
 export class UserRouter {
   public static route(app: Express): void {
     this.addLogin(app);
     this.addLogout(app);
+    this.addOIDCLogin(app);
+    this.addOIDCCallback(app);
     this.addGetSessionUser(app);
 
     this.addCreateUser(app);
     this.addDeleteUser(app);
     this.addListUsers(app);
     this.addChangeRole(app);
+    this.addChangePermissions(app);
+
+    this.addListApiTokens(app);
+    this.addCreateApiToken(app);
+    this.addDeleteApiToken(app);
   }
 
   private static addLogin(app: Express): void {
@@ -29,6 +37,22 @@ export class UserRouter {
     );
   }
 
+  private static addOIDCLogin(app: Express): void {
+    app.get(
+        Config.Server.apiPath + '/user/oidc/login',
+        AuthenticationMWs.inverseAuthenticate,
+        OIDCMWs.login
+    );
+  }
+
+  private static addOIDCCallback(app: Express): void {
+    app.get(
+        Config.Server.apiPath + '/user/oidc/callback',
+        AuthenticationMWs.inverseAuthenticate,
+        OIDCMWs.callback
+    );
+  }
+
   private static addLogout(app: Express): void {
     app.post(
         Config.Server.apiPath + '/user/logout',
@@ -92,4 +116,49 @@ export class UserRouter {
         RenderingMWs.renderOK
     );
   }
+
+  private static addChangePermissions(app: Express): void {
+    app.post(
+        Config.Server.apiPath + '/user/:id/permissions',
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(UserRoles.Admin),
+        UserRequestConstrainsMWs.notSelfRequestOr2Admins,
+        UserMWs.changePermissions,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderOK
+    );
+  }
+
+  private static addListApiTokens(app: Express): void {
+    app.get(
+        Config.Server.apiPath + '/user/token/list',
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(UserRoles.Guest),
+        UserMWs.listApiTokens,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderResult
+    );
+  }
+
+  private static addCreateApiToken(app: Express): void {
+    app.put(
+        Config.Server.apiPath + '/user/token',
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(UserRoles.Guest),
+        UserMWs.createApiToken,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderResult
+    );
+  }
+
+  private static addDeleteApiToken(app: Express): void {
+    app.delete(
+        Config.Server.apiPath + '/user/token/:id',
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(UserRoles.Guest),
+        UserMWs.deleteApiToken,
+        ServerTimingMWs.addServerTiming,
+        RenderingMWs.renderOK
+    );
+  }
 }
@@ -64,6 +64,13 @@ export class AdminRouter {
         AdminMWs.startJob,
         RenderingMWs.renderResult
     );
+    app.post(
+        Config.Server.apiPath + '/admin/jobs/scheduled/:id/resume',
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(UserRoles.Admin),
+        AdminMWs.resumeJob,
+        RenderingMWs.renderResult
+    );
     app.post(
         Config.Server.apiPath + '/admin/jobs/scheduled/:id/stop',
         AuthenticationMWs.authenticate,
@@ -71,5 +78,19 @@ export class AdminRouter {
         AdminMWs.stopJob,
         RenderingMWs.renderResult
     );
+    app.get(
+        Config.Server.apiPath + '/admin/jobs/history',
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(UserRoles.Admin),
+        AdminMWs.getJobHistory,
+        RenderingMWs.renderResult
+    );
+    app.get(
+        Config.Server.apiPath + '/admin/jobs/history/:id',
+        AuthenticationMWs.authenticate,
+        AuthenticationMWs.authorise(UserRoles.Admin),
+        AdminMWs.getJobHistoryRun,
+        RenderingMWs.renderResult
+    );
   }
 }
@@ -22,6 +22,7 @@ import {ConfigClassBuilder} from 'typeconfig/node';
 import {ConfigClassOptions} from 'typeconfig/src/decorators/class/IConfigClass';
 import {ServerConfig} from '../common/config/private/PrivateConfig';
 import {unless} from 'express-unless';
+import {AuthenticationMWs} from './middlewares/user/AuthenticationMWs';
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const session = require('cookie-session');
@@ -106,6 +107,8 @@ export class Server {
       csuf.unless((req: Request) => {
         return (
           Config.Users.authenticationRequired === false ||
+          // API token requests do not use the session cookie
+          !!AuthenticationMWs.getBearerToken(req) ||
           [Config.Server.apiPath + '/user/login', Config.Server.apiPath + '/user/logout', Config.Server.apiPath + '/share/login'].indexOf(
             req.originalUrl
           ) !== -1 ||
@@ -120,9 +123,12 @@ export class Server {
       [Config.Server.apiPath + '/user/login', Config.Server.apiPath + '/share/login'],
       _csrf({ignoreMethods: ['POST']})
     );
+    const csufGenerate: any = _csrf({ignoreMethods: ['GET']});
+    csufGenerate.unless = unless;
     this.app.get(
       [Config.Server.apiPath + '/user/me', Config.Server.apiPath + '/share/:' + QueryParams.gallery.sharingKey_params],
-      _csrf({ignoreMethods: ['GET']})
+      // the secret would be stored in the session cookie
+      csufGenerate.unless((req: Request) => !!AuthenticationMWs.getBearerToken(req))
     );
 
     PhotoProcessing.init();
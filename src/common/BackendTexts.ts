@@ -9,6 +9,11 @@ export const backendTexts = {
   emailTo: {name: 70, description: 72},
   emailSubject: {name: 90, description: 92},
   emailText: {name: 100, description: 102},
-  messenger: {name: 110, description: 112}
+  messenger: {name: 110, description: 112},
+  library: {name: 120, description: 122},
+  webhookUrl: {name: 130, description: 132},
+  webhookText: {name: 140, description: 142},
+  webhookTemplate: {name: 150, description: 152},
+  webhookEmbedThumbnails: {name: 160, description: 162}
 
 };
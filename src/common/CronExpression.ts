@@ -0,0 +1,168 @@
+/**
+ * Parses and evaluates 5-field cron expressions: "minute hour day-of-month month day-of-week".
+ * Supports '*', lists (1,15), ranges (1-5), steps (*\/15, 0-30/10), month and weekday names (JAN, MON),
+ * the "nth weekday of the month" extension (SUN#1) and the @hourly, @daily, @weekly, @monthly, @yearly macros.
+ * Like in the classic cron, if both day-of-month and day-of-week are restricted, either of them matches.
+ * The expression is evaluated in UTC, like the periodic job triggers.
+ */
+export class CronExpression {
+  private static readonly MACROS: { [key: string]: string } = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *',
+  };
+  private static readonly MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+  private static readonly WEEKDAYS = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+  // looking for the next date at most this far, e.g. for Feb 30
+  private static readonly MAX_YEARS = 5;
+
+  private constructor(private readonly minutes: Set<number>,
+                      private readonly hours: Set<number>,
+                      private readonly daysOfMonth: Set<number>,
+                      private readonly months: Set<number>,
+                      private readonly daysOfWeek: Set<number>,
+                      private readonly nthDaysOfWeek: { day: number, nth: number }[],
+                      private readonly dayOfMonthRestricted: boolean,
+                      private readonly dayOfWeekRestricted: boolean) {
+  }
+
+  /**
+   * @throws Error if the expression is not valid
+   */
+  public static parse(expression: string): CronExpression {
+    const text = (expression || '').trim();
+    const fields = (this.MACROS[text.toLowerCase()] || text).split(/\s+/);
+    if (fields.length !== 5) {
+      throw new Error('Cron expression needs 5 fields (minute hour day-of-month month day-of-week), got: "' + expression + '"');
+    }
+    const nthDaysOfWeek: { day: number, nth: number }[] = [];
+    const daysOfWeek = new Set<number>();
+    for (const part of fields[4].split(',')) {
+      if (part.includes('#')) {
+        const [day, nth] = part.split('#');
+        const n = parseInt(nth, 10);
+        if (!/^\d$/.test(nth) || n < 1 || n > 5) {
+          throw new Error('Invalid nth weekday in cron expression: "' + part + '"');
+        }
+        nthDaysOfWeek.push({day: this.parseValue(day, 0, 7, this.WEEKDAYS) % 7, nth: n});
+        continue;
+      }
+      // 7 is Sunday too
+      this.parseField(part, 0, 7, this.WEEKDAYS).forEach(d => daysOfWeek.add(d % 7));
+    }
+    return new CronExpression(
+      this.parseField(fields[0], 0, 59),
+      this.parseField(fields[1], 0, 23),
+      this.parseField(fields[2], 1, 31),
+      this.parseField(fields[3], 1, 12, this.MONTHS, 1),
+      daysOfWeek,
+      nthDaysOfWeek,
+      !fields[2].startsWith('*'),
+      !fields[4].startsWith('*')
+    );
+  }
+
+  public static isValid(expression: string): boolean {
+    try {
+      this.parse(expression);
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  private static parseField(field: string, min: number, max: number, names: string[] = [], nameOffset = 0): Set<number> {
+    const values = new Set<number>();
+    for (const part of field.split(',')) {
+      const [range, stepStr] = part.split('/');
+      const step = stepStr === undefined ? 1 : parseInt(stepStr, 10);
+      if (stepStr !== undefined && (!/^\d+$/.test(stepStr) || step < 1)) {
+        throw new Error('Invalid step in cron expression: "' + part + '"');
+      }
+      let from = min;
+      let to = max;
+      if (range !== '*') {
+        const bounds = range.split('-');
+        if (bounds.length > 2) {
+          throw new Error('Invalid range in cron expression: "' + part + '"');
+        }
+        from = this.parseValue(bounds[0], min, max, names, nameOffset);
+        // "5/15" means from 5 to the end
+        to = bounds.length === 2 ? this.parseValue(bounds[1], min, max, names, nameOffset) :
+          (stepStr !== undefined ? max : from);
+        if (from > to) {
+          throw new Error('Invalid range in cron expression: "' + part + '"');
+        }
+      }
+      for (let v = from; v <= to; v += step) {
+        values.add(v);
+      }
+    }
+    return values;
+  }
+
+  private static parseValue(value: string, min: number, max: number, names: string[], nameOffset = 0): number {
+    const nameIndex = names.indexOf(value.toUpperCase());
+    if (nameIndex !== -1) {
+      return nameIndex + nameOffset;
+    }
+    const v = parseInt(value, 10);
+    if (!/^\d+$/.test(value) || v < min || v > max) {
+      throw new Error('Invalid value in cron expression: "' + value + '", it should be between ' + min + ' and ' + max);
+    }
+    return v;
+  }
+
+  /**
+   * @return the first matching minute strictly after the given date or null if there is none in the next years
+   */
+  public next(after: Date): Date {
+    const date = new Date(after.getTime());
+    date.setUTCSeconds(0, 0);
+    date.setUTCMinutes(date.getUTCMinutes() + 1);
+    const limit = after.getUTCFullYear() + CronExpression.MAX_YEARS;
+    while (date.getUTCFullYear() <= limit) {
+      if (!this.months.has(date.getUTCMonth() + 1)) {
+        date.setUTCMonth(date.getUTCMonth() + 1, 1);
+        date.setUTCHours(0, 0);
+        continue;
+      }
+      if (!this.matchesDay(date)) {
+        date.setUTCDate(date.getUTCDate() + 1);
+        date.setUTCHours(0, 0);
+        continue;
+      }
+      if (!this.hours.has(date.getUTCHours())) {
+        date.setUTCHours(date.getUTCHours() + 1, 0);
+        continue;
+      }
+      if (!this.minutes.has(date.getUTCMinutes())) {
+        date.setUTCMinutes(date.getUTCMinutes() + 1);
+        continue;
+      }
+      return date;
+    }
+    return null;
+  }
+
+  private matchesDay(date: Date): boolean {
+    const dayOfMonth = this.daysOfMonth.has(date.getUTCDate());
+    const dayOfWeek = this.daysOfWeek.has(date.getUTCDay()) ||
+      this.nthDaysOfWeek.some(d => d.day === date.getUTCDay() &&
+        Math.ceil(date.getUTCDate() / 7) === d.nth);
+    if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+      return dayOfMonth || dayOfWeek;
+    }
+    if (this.dayOfMonthRestricted) {
+      return dayOfMonth;
+    }
+    if (this.dayOfWeekRestricted) {
+      return dayOfWeek;
+    }
+    return true;
+  }
+}
@@ -1,4 +1,10 @@
 /**
- * This version indicates that the sql/entities/*Entity.ts files got changed and the db needs to be recreated
+ * This version indicates that the sql/entities/*Entity.ts files got changed and the db needs to be recreated.
+ * Databases older than MigratableDataStructureVersion are recreated (only the users are kept),
+ * newer scheme changes are applied with the migrations in backend/model/database/migrations
  */
-export const DataStructureVersion = 36;
+export const DataStructureVersion = 44;
+/**
+ * The oldest scheme version that the migrations can bring up-to-date.
+ */
+export const MigratableDataStructureVersion = 42;
@@ -21,4 +21,15 @@ export const QueryParams = {
     knownLastModified: 'klm',
     knownLastScanned: 'kls',
   },
+  login: {
+    oidcError: 'ssoError',
+  },
+  admin: {
+    jobHistory: {
+      jobName: 'job',
+      state: 'state',
+      page: 'page',
+      pageSize: 'pageSize',
+    },
+  },
 };
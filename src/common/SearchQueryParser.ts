@@ -39,6 +39,14 @@ export interface QueryKeywords {
   minRating: string;
   maxPersonCount: string;
   minPersonCount: string;
+  maxISO: string;
+  minISO: string;
+  maxFStop: string;
+  minFStop: string;
+  maxFocalLength: string;
+  minFocalLength: string;
+  maxExposure: string;
+  minExposure: string;
   NSomeOf: string;
   someOf: string;
   or: string;
@@ -52,6 +60,10 @@ export interface QueryKeywords {
   keyword: string;
   person: string;
   position: string;
+  album: string;
+  camera: string;
+  lens: string;
+  library: string;
 }
 
 export const defaultQueryKeywords: QueryKeywords = {
@@ -68,6 +80,14 @@ export const defaultQueryKeywords: QueryKeywords = {
   minPersonCount: 'min-persons',
   maxResolution: 'max-resolution',
   minResolution: 'min-resolution',
+  maxISO: 'max-iso',
+  minISO: 'min-iso',
+  maxFStop: 'max-fstop',
+  minFStop: 'min-fstop',
+  maxFocalLength: 'max-focal-length',
+  minFocalLength: 'min-focal-length',
+  maxExposure: 'max-exposure',
+  minExposure: 'min-exposure',
 
   kmFrom: 'km-from',
   orientation: 'orientation',
@@ -92,6 +112,10 @@ export const defaultQueryKeywords: QueryKeywords = {
   file_name: 'file-name',
   person: 'person',
   position: 'position',
+  album: 'album',
+  camera: 'camera',
+  lens: 'lens',
+  library: 'library',
   someOf: 'some-of',
 };
 
@@ -161,6 +185,24 @@ export class SearchQueryParser {
     return timestamp;
   }
 
+  /**
+   * Exposure time is written as a fraction if it is shorter than a second, e.g.: 1/250
+   */
+  public static stringifyExposure(value: number): string {
+    if (value > 0 && value < 1) {
+      return '1/' + Math.round(1 / value);
+    }
+    return '' + value;
+  }
+
+  private static parseExposure(text: string): number {
+    if (text.indexOf('/') !== -1) {
+      const [num, den] = text.split('/').map((t) => parseFloat(t));
+      return num / den;
+    }
+    return parseFloat(text);
+  }
+
   public static humanToRegexpStr(str: string) {
     return str.replace(/%d/g, '\\d*');
   }
@@ -307,11 +349,12 @@ export class SearchQueryParser {
       } as ToDateSearch;
     }
 
-    const addValueRangeParser = (matcher: string, type: SearchQueryTypes): RangeSearch | undefined => {
+    const addValueRangeParser = (matcher: string, type: SearchQueryTypes,
+                                 parseValue = (v: string): number => parseInt(v, 10)): RangeSearch | undefined => {
       if (kwStartsWith(str, matcher)) {
         return {
           type: type,
-          value: parseInt(str.substring(str.indexOf(':') + 1), 10),
+          value: parseValue(str.substring(str.indexOf(':') + 1)),
           ...(str.startsWith(matcher + '!:') && {negate: true}), // only add if the value is true
         } as RangeSearch;
       }
@@ -322,7 +365,15 @@ export class SearchQueryParser {
         addValueRangeParser(this.keywords.minResolution, SearchQueryTypes.min_resolution) ||
         addValueRangeParser(this.keywords.maxResolution, SearchQueryTypes.max_resolution) ||
         addValueRangeParser(this.keywords.minPersonCount, SearchQueryTypes.min_person_count) ||
-        addValueRangeParser(this.keywords.maxPersonCount, SearchQueryTypes.max_person_count);
+        addValueRangeParser(this.keywords.maxPersonCount, SearchQueryTypes.max_person_count) ||
+        addValueRangeParser(this.keywords.minISO, SearchQueryTypes.min_iso) ||
+        addValueRangeParser(this.keywords.maxISO, SearchQueryTypes.max_iso) ||
+        addValueRangeParser(this.keywords.minFStop, SearchQueryTypes.min_fstop, parseFloat) ||
+        addValueRangeParser(this.keywords.maxFStop, SearchQueryTypes.max_fstop, parseFloat) ||
+        addValueRangeParser(this.keywords.minFocalLength, SearchQueryTypes.min_focal_length, parseFloat) ||
+        addValueRangeParser(this.keywords.maxFocalLength, SearchQueryTypes.max_focal_length, parseFloat) ||
+        addValueRangeParser(this.keywords.minExposure, SearchQueryTypes.min_exposure, SearchQueryParser.parseExposure) ||
+        addValueRangeParser(this.keywords.maxExposure, SearchQueryTypes.max_exposure, SearchQueryParser.parseExposure);
 
     if (range) {
       return range;
@@ -556,6 +607,70 @@ export class SearchQueryParser {
                 ? ''
                 : (query as RangeSearch).value)
         );
+      case SearchQueryTypes.min_iso:
+        return (
+            this.keywords.minISO +
+            colon +
+            (isNaN((query as RangeSearch).value)
+                ? ''
+                : (query as RangeSearch).value)
+        );
+      case SearchQueryTypes.max_iso:
+        return (
+            this.keywords.maxISO +
+            colon +
+            (isNaN((query as RangeSearch).value)
+                ? ''
+                : (query as RangeSearch).value)
+        );
+      case SearchQueryTypes.min_fstop:
+        return (
+            this.keywords.minFStop +
+            colon +
+            (isNaN((query as RangeSearch).value)
+                ? ''
+                : (query as RangeSearch).value)
+        );
+      case SearchQueryTypes.max_fstop:
+        return (
+            this.keywords.maxFStop +
+            colon +
+            (isNaN((query as RangeSearch).value)
+                ? ''
+                : (query as RangeSearch).value)
+        );
+      case SearchQueryTypes.min_focal_length:
+        return (
+            this.keywords.minFocalLength +
+            colon +
+            (isNaN((query as RangeSearch).value)
+                ? ''
+                : (query as RangeSearch).value)
+        );
+      case SearchQueryTypes.max_focal_length:
+        return (
+            this.keywords.maxFocalLength +
+            colon +
+            (isNaN((query as RangeSearch).value)
+                ? ''
+                : (query as RangeSearch).value)
+        );
+      case SearchQueryTypes.min_exposure:
+        return (
+            this.keywords.minExposure +
+            colon +
+            (isNaN((query as RangeSearch).value)
+                ? ''
+                : SearchQueryParser.stringifyExposure((query as RangeSearch).value))
+        );
+      case SearchQueryTypes.max_exposure:
+        return (
+            this.keywords.maxExposure +
+            colon +
+            (isNaN((query as RangeSearch).value)
+                ? ''
+                : SearchQueryParser.stringifyExposure((query as RangeSearch).value))
+        );
       case SearchQueryTypes.distance:
         if ((query as DistanceSearch).from.text.indexOf(' ') !== -1) {
           return (
@@ -644,6 +759,10 @@ export class SearchQueryParser {
       case SearchQueryTypes.caption:
       case SearchQueryTypes.file_name:
       case SearchQueryTypes.directory:
+      case SearchQueryTypes.album:
+      case SearchQueryTypes.camera:
+      case SearchQueryTypes.lens:
+      case SearchQueryTypes.library:
         if (!(query as TextSearch).text) {
           return '';
         }
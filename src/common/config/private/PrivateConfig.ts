@@ -2,6 +2,9 @@
 import 'reflect-metadata';
 import {
   AfterJobTrigger,
+  CronJobTrigger,
+  JobNotification,
+  JobRunWindow,
   JobScheduleDTO,
   JobTrigger,
   JobTriggerType,
@@ -11,9 +14,12 @@ import {
 } from '../../entities/job/JobScheduleDTO';
 import {
   ClientConfig,
+  ClientFacesConfig,
   ClientGPXCompressingConfig,
+  ClientMapConfig,
   ClientMediaConfig,
   ClientMetaFileConfig,
+  ClientOIDCConfig,
   ClientPhotoConfig,
   ClientServiceConfig,
   ClientSharingConfig,
@@ -44,6 +50,7 @@ if (typeof $localize === 'undefined') {
 export enum DatabaseType {
   mysql = 2,
   sqlite = 3,
+  postgres = 4,
 }
 
 export enum LogLevel {
@@ -83,6 +90,11 @@ export enum FFmpegPresets {
   placebo = 10,
 }
 
+export enum GeocodingProviders {
+  openstreetmap = 1,
+  offline = 2,
+}
+
 export type videoCodecType = 'libvpx-vp9' | 'libx264' | 'libvpx' | 'libx265';
 export type videoResolutionType =
   | 240
@@ -149,6 +161,70 @@ export class MySQLConfig {
   password: string = '';
 }
 
+@SubConfigClass({softReadonly: true})
+export class PostgresConfig {
+  @ConfigProperty({
+    envAlias: 'POSTGRES_HOST',
+    tags:
+      {
+        name: $localize`Host`,
+        uiResetNeeded: {server: true},
+        priority: ConfigPriority.advanced
+      },
+  })
+  host: string = 'localhost';
+  @ConfigProperty({
+    envAlias: 'POSTGRES_PORT', min: 0, max: 65535,
+    tags:
+      {
+        name: $localize`Port`,
+        uiResetNeeded: {server: true},
+        priority: ConfigPriority.advanced
+      },
+  })
+  port: number = 5432;
+  @ConfigProperty({
+    envAlias: 'POSTGRES_DATABASE',
+    tags:
+      {
+        name: $localize`Database`,
+        uiResetNeeded: {server: true},
+        priority: ConfigPriority.advanced
+      },
+  })
+  database: string = 'pigallery2';
+  @ConfigProperty({
+    envAlias: 'POSTGRES_SCHEMA',
+    tags:
+      {
+        name: $localize`Schema`,
+        uiResetNeeded: {server: true},
+        priority: ConfigPriority.underTheHood
+      },
+  })
+  schema: string = 'public';
+  @ConfigProperty({
+    envAlias: 'POSTGRES_USERNAME',
+    tags:
+      {
+        name: $localize`Username`,
+        uiResetNeeded: {server: true},
+        priority: ConfigPriority.advanced
+      },
+  })
+  username: string = '';
+  @ConfigProperty({
+    envAlias: 'POSTGRES_PASSWORD', type: 'password',
+    tags:
+      {
+        name: $localize`Password`,
+        uiResetNeeded: {server: true},
+        priority: ConfigPriority.advanced
+      }
+  })
+  password: string = '';
+}
+
 @SubConfigClass({softReadonly: true})
 export class SQLiteConfig {
   @ConfigProperty({
@@ -274,10 +350,215 @@ export class ServerDataBaseConfig {
   })
   mysql?: MySQLConfig = new MySQLConfig();
 
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`PostgreSQL`,
+        uiResetNeeded: {db: true},
+        relevant: (c: any) => c.type === DatabaseType.postgres,
+      }
+  })
+  postgres?: PostgresConfig = new PostgresConfig();
+
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Backup before migration`,
+        uiResetNeeded: {server: true},
+        priority: ConfigPriority.advanced
+      },
+    description: $localize`Copies the SQLite database file next to the original before its scheme is changed. MySQL and PostgreSQL databases need to be backed up manually.`,
+  })
+  backupBeforeMigration: boolean = true;
+
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Migration dry run`,
+        uiResetNeeded: {server: true},
+        priority: ConfigPriority.underTheHood
+      },
+    description: $localize`Only logs the pending database migrations on startup without applying them. The app keeps using the old scheme, so some features might not work until the migrations are applied.`,
+  })
+  migrationDryRun: boolean = false;
 
 }
 
 
+@SubConfigClass({softReadonly: true})
+export class OIDCRoleMappingConfig {
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Claim value`,
+        priority: ConfigPriority.advanced
+      },
+    description: $localize`Value of the role claim, e.g.: a group name.`
+  })
+  claimValue: string = '';
+
+  @ConfigProperty({
+    type: UserRoles,
+    tags:
+      {
+        name: $localize`Role`,
+        priority: ConfigPriority.advanced
+      },
+  })
+  role: UserRoles = UserRoles.User;
+}
+
+@SubConfigClass({softReadonly: true})
+export class OIDCPermissionMappingConfig {
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Claim value`,
+        priority: ConfigPriority.advanced
+      },
+    description: $localize`Value of the permission claim, e.g.: a group name.`
+  })
+  claimValue: string = '';
+
+  @ConfigProperty({
+    arrayType: 'string',
+    tags:
+      {
+        name: $localize`Permissions`,
+        priority: ConfigPriority.advanced
+      },
+    description: $localize`Folders that the user can see. Ending with * makes it recursive, e.g.: /family*`
+  })
+  permissions: string[] = [];
+}
+
+@SubConfigClass({softReadonly: true})
+export class ServerOIDCConfig extends ClientOIDCConfig {
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Issuer`,
+        priority: ConfigPriority.advanced,
+        uiDisabled: (sb: ServerOIDCConfig) => !sb.enabled
+      } as TAGS,
+    description: $localize`Url of the OpenID Connect provider. Its configuration is read from <issuer>/.well-known/openid-configuration.`
+  })
+  issuer: string = '';
+
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Client id`,
+        priority: ConfigPriority.advanced,
+        uiDisabled: (sb: ServerOIDCConfig) => !sb.enabled
+      } as TAGS,
+  })
+  clientId: string = '';
+
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Client secret`,
+        priority: ConfigPriority.advanced,
+        secret: true,
+        uiDisabled: (sb: ServerOIDCConfig) => !sb.enabled
+      } as TAGS,
+  })
+  clientSecret: string = '';
+
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Scope`,
+        priority: ConfigPriority.advanced,
+        uiDisabled: (sb: ServerOIDCConfig) => !sb.enabled
+      } as TAGS,
+  })
+  scope: string = 'openid profile email';
+
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Username claim`,
+        priority: ConfigPriority.underTheHood,
+        uiDisabled: (sb: ServerOIDCConfig) => !sb.enabled
+      } as TAGS,
+    description: $localize`This claim is used as the name of the user. Falls back to 'email' and 'sub'.`
+  })
+  usernameClaim: string = 'preferred_username';
+
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Role claim`,
+        priority: ConfigPriority.advanced,
+        uiDisabled: (sb: ServerOIDCConfig) => !sb.enabled
+      } as TAGS,
+    description: $localize`Claim that is matched with the role mapping. Nested claims can be selected with dots, e.g.: realm_access.roles`
+  })
+  roleClaim: string = 'groups';
+
+  @ConfigProperty({
+    arrayType: OIDCRoleMappingConfig,
+    tags:
+      {
+        name: $localize`Role mapping`,
+        priority: ConfigPriority.advanced,
+        uiOptional: true,
+        uiDisabled: (sb: ServerOIDCConfig) => !sb.enabled
+      } as TAGS,
+    description: $localize`If more mappings match, the highest role is used.`
+  })
+  roleMapping: OIDCRoleMappingConfig[] = [];
+
+  @ConfigProperty({
+    type: UserRoles,
+    tags:
+      {
+        name: $localize`Default role`,
+        priority: ConfigPriority.advanced,
+        uiDisabled: (sb: ServerOIDCConfig) => !sb.enabled
+      } as TAGS,
+    description: $localize`Role of the users that do not match any role mapping.`
+  })
+  defaultRole: UserRoles = UserRoles.User;
+
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Allow unmapped users`,
+        priority: ConfigPriority.advanced,
+        uiDisabled: (sb: ServerOIDCConfig) => !sb.enabled
+      } as TAGS,
+    description: $localize`If disabled, only users that match a role mapping can log in.`
+  })
+  allowUnmappedUsers: boolean = true;
+
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Permission claim`,
+        priority: ConfigPriority.advanced,
+        uiDisabled: (sb: ServerOIDCConfig) => !sb.enabled
+      } as TAGS,
+    description: $localize`Claim that is matched with the permission mapping.`
+  })
+  permissionClaim: string = 'groups';
+
+  @ConfigProperty({
+    arrayType: OIDCPermissionMappingConfig,
+    tags:
+      {
+        name: $localize`Permission mapping`,
+        priority: ConfigPriority.advanced,
+        uiOptional: true,
+        uiDisabled: (sb: ServerOIDCConfig) => !sb.enabled
+      } as TAGS,
+    description: $localize`The user gets the permissions of all matching mappings. Users without matching mapping can see every folder.`
+  })
+  permissionMapping: OIDCPermissionMappingConfig[] = [];
+}
+
 @SubConfigClass({softReadonly: true})
 export class ServerUserConfig extends ClientUserConfig {
   @ConfigProperty({
@@ -293,6 +574,17 @@ export class ServerUserConfig extends ClientUserConfig {
     description: $localize`Creates these users in the DB during startup if they do not exist. If a user with this name exist, it won't be overwritten, even if the role is different.`,
   })
   enforcedUsers: UserConfig[] = [];
+
+  @ConfigProperty({
+    type: ServerOIDCConfig,
+    tags:
+      {
+        name: $localize`OpenID Connect`,
+        priority: ConfigPriority.advanced,
+        relevant: (c: ServerUserConfig) => c.authenticationRequired === true
+      } as TAGS,
+  })
+  OIDC: ServerOIDCConfig = new ServerOIDCConfig();
 }
 
 
@@ -435,6 +727,56 @@ export class ServerSharingConfig extends ClientSharingConfig {
   updateTimeout: number = 1000 * 60 * 5;
 }
 
+@SubConfigClass({softReadonly: true})
+export class ServerFolderWatcherConfig {
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Enabled`,
+        priority: ConfigPriority.advanced,
+        uiResetNeeded: {server: true}
+      },
+    description: $localize`Watches the images folder for changes and reindexes only the changed folders. New files show up in search and albums without running the Indexing job.`
+  })
+  enabled: boolean = false;
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Use polling`,
+        priority: ConfigPriority.underTheHood,
+        uiResetNeeded: {server: true},
+        uiDisabled: (sc: ServerFolderWatcherConfig) => !sc.enabled
+      },
+    description: $localize`Polls the folders for changes instead of using file system events (inotify). Use it for network shares where events are not available. The app falls back to polling automatically if a folder can't be watched.`
+  })
+  usePolling: boolean = false;
+  @ConfigProperty({
+    type: 'unsignedInt',
+    tags:
+      {
+        name: $localize`Polling interval`,
+        priority: ConfigPriority.underTheHood,
+        uiResetNeeded: {server: true},
+        uiDisabled: (sc: ServerFolderWatcherConfig) => !sc.enabled,
+        unit: 'ms'
+      } as TAGS,
+    description: $localize`Folders are checked for changes this often when polling is used.`
+  })
+  pollingInterval: number = 60 * 1000;
+  @ConfigProperty({
+    type: 'unsignedInt',
+    tags:
+      {
+        name: $localize`Debounce time`,
+        priority: ConfigPriority.underTheHood,
+        uiDisabled: (sc: ServerFolderWatcherConfig) => !sc.enabled,
+        unit: 'ms'
+      } as TAGS,
+    description: $localize`Changed folders are reindexed if there was no other change for this long. Prevents reindexing a folder for every single file of an upload.`
+  })
+  debounceTime: number = 5000;
+}
+
 @SubConfigClass({softReadonly: true})
 export class ServerIndexingConfig {
   @ConfigProperty({
@@ -484,6 +826,14 @@ export class ServerIndexingConfig {
     description: $localize`Files that mark a folder to be excluded from indexing. Any folder that contains a file with this name will be excluded from indexing.`,
   })
   excludeFileList: string[] = [];
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Folder watcher`,
+        priority: ConfigPriority.advanced
+      } as TAGS,
+  })
+  Watcher: ServerFolderWatcherConfig = new ServerFolderWatcherConfig();
 }
 
 @SubConfigClass({softReadonly: true})
@@ -498,6 +848,157 @@ export class ServerDuplicatesConfig {
     description: $localize`Maximum number of duplicates to list.`
   })
   listingLimit: number = 1000;
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Find similar photos`,
+        priority: ConfigPriority.advanced,
+        uiResetNeeded: {db: true}
+      },
+    description: $localize`Calculates a perceptual hash for every photo during indexing, so resized, re-encoded or renamed copies are also listed as duplicates. Makes indexing slower. Needs reindexing.`
+  })
+  perceptualHashing: boolean = false;
+  @ConfigProperty({
+    type: 'unsignedInt', max: 16,
+    tags:
+      {
+        name: $localize`Similarity sensitivity`,
+        priority: ConfigPriority.advanced,
+        uiDisabled: (sc: ServerDuplicatesConfig) => !sc.perceptualHashing
+      },
+    description: $localize`Two photos are similar if their 64 bit perceptual hashes differ in at most this many bits (Hamming distance). Higher number lists more, but less similar photos. 0 only lists photos that look the same. At most 16.`
+  })
+  similarityThreshold: number = 6;
+}
+
+@SubConfigClass({softReadonly: true})
+export class ServerGeocodingConfig {
+  @ConfigProperty({
+    type: GeocodingProviders,
+    tags:
+      {
+        name: $localize`Geocoding provider`,
+        priority: ConfigPriority.advanced
+      } as TAGS,
+    description: $localize`Used for looking up places by name for the position and distance search and for filling missing city, state and country of photos. OpenStreetMap needs internet access, offline uses a local dataset.`
+  })
+  provider: GeocodingProviders = GeocodingProviders.openstreetmap;
+
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Offline dataset`,
+        priority: ConfigPriority.advanced,
+        uiDisabled: (sc: ServerGeocodingConfig) => sc.provider !== GeocodingProviders.offline,
+        hint: 'geonames/cities1000.txt'
+      } as TAGS,
+    description: $localize`Place dataset for the offline provider. Either a GeoNames dump (e.g.: cities1000.txt from download.geonames.org, countryInfo.txt and admin1CodesASCII.txt next to it are used for country and state names), a CSV file with name, latitude, longitude, state, country and population header or an SQLite database with a 'places' table with the same columns.`
+  })
+  offlineDataset: string = '';
+
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Fill missing location`,
+        priority: ConfigPriority.advanced,
+        uiResetNeeded: {db: true}
+      } as TAGS,
+    description: $localize`If a photo has GPS coordinates but no city, state or country, they are looked up during indexing, so photos can be searched by place name. Makes indexing slower, use it with the offline provider. Needs reindexing.`
+  })
+  fillMissingPositionData: boolean = false;
+}
+
+@SubConfigClass<TAGS>({softReadonly: true})
+export class ServerMapConfig extends ClientMapConfig {
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Geocoding`,
+        priority: ConfigPriority.advanced
+      } as TAGS
+  })
+  Geocoding: ServerGeocodingConfig = new ServerGeocodingConfig();
+}
+
+@SubConfigClass({softReadonly: true})
+export class FaceDetectionConfig {
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Detector model`,
+        priority: ConfigPriority.advanced,
+        hint: 'models/version-RFB-320.onnx',
+        uiOptional: true
+      } as TAGS,
+    description: $localize`ONNX face detector model file, compatible with UltraFace (320x240 RGB input, 'scores' and 'boxes' outputs). It runs on the CPU with onnxruntime-node. Not needed if an extension provides the face detection.`
+  })
+  detectorModel: string = '';
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Embedding model`,
+        priority: ConfigPriority.advanced,
+        hint: 'models/arcface.onnx',
+        uiOptional: true
+      } as TAGS,
+    description: $localize`ONNX face recognition model file, compatible with ArcFace (112x112 RGB input, one feature vector output). The feature vectors of the same person are close to each other.`
+  })
+  embeddingModel: string = '';
+  @ConfigProperty({
+    type: 'float', min: 0, max: 1,
+    tags:
+      {
+        name: $localize`Min confidence`,
+        priority: ConfigPriority.underTheHood
+      },
+    description: $localize`Detections below this confidence are not considered faces.`
+  })
+  minConfidence: number = 0.7;
+  @ConfigProperty({
+    type: 'unsignedInt',
+    tags:
+      {
+        name: $localize`Min face size`,
+        priority: ConfigPriority.underTheHood,
+        unit: 'px'
+      } as TAGS,
+    description: $localize`Smaller faces are skipped, they are not detailed enough to recognize the person.`
+  })
+  minFaceSize: number = 40;
+  @ConfigProperty({
+    type: 'float', min: 0, max: 2,
+    tags:
+      {
+        name: $localize`Cluster distance`,
+        priority: ConfigPriority.advanced
+      },
+    description: $localize`Two faces belong to the same cluster if the cosine distance of their feature vectors is below this. Lower number makes more, but more accurate clusters.`
+  })
+  clusterDistance: number = 0.5;
+  @ConfigProperty({
+    type: 'unsignedInt', min: 1,
+    tags:
+      {
+        name: $localize`Min cluster size`,
+        priority: ConfigPriority.advanced
+      },
+    description: $localize`Clusters with fewer faces are not listed for naming.`
+  })
+  minClusterSize: number = 3;
+}
+
+@SubConfigClass<TAGS>({softReadonly: true})
+export class ServerFacesConfig extends ClientFacesConfig {
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Face detection`,
+        priority: ConfigPriority.advanced,
+        uiDisabled: (sc: ClientFacesConfig) => !sc.enabled
+      } as TAGS,
+    description: $localize`Finds the untagged faces on the photos and groups the faces of the same person together, so they can be named on the faces page.`
+  })
+  Detection: FaceDetectionConfig = new FaceDetectionConfig();
 }
 
 @SubConfigClass({softReadonly: true})
@@ -567,6 +1068,36 @@ export class AfterJobTriggerConfig implements AfterJobTrigger {
   }
 }
 
+@SubConfigClass({softReadonly: true})
+export class CronJobTriggerConfig implements CronJobTrigger {
+  @ConfigProperty({type: JobTriggerType})
+  readonly type = JobTriggerType.cron;
+  @ConfigProperty()
+  cron: string = '0 0 * * *'; // evaluated in UTC
+}
+
+@SubConfigClass({softReadonly: true})
+export class JobRunWindowConfig implements JobRunWindow {
+  @ConfigProperty()
+  enabled: boolean = false;
+  @ConfigProperty({type: 'unsignedInt', max: 23 * 60 + 59})
+  start: number = 60; // day time
+  @ConfigProperty({type: 'unsignedInt', max: 23 * 60 + 59})
+  end: number = 6 * 60; // day time
+}
+
+@SubConfigClass({softReadonly: true})
+export class JobNotificationConfig implements JobNotification {
+  @ConfigProperty()
+  messenger: string = '';
+  @ConfigProperty()
+  onFinished: boolean = false;
+  @ConfigProperty()
+  onFailed: boolean = true;
+  @ConfigProperty()
+  config: Record<string, string | number | boolean | string[]> = {};
+}
+
 @SubConfigClass({softReadonly: true})
 export class JobScheduleConfig implements JobScheduleDTO {
   @ConfigProperty()
@@ -577,6 +1108,12 @@ export class JobScheduleConfig implements JobScheduleDTO {
   config: Record<string, string | number | string[] | number[] | MediaPickDTO[]> = {};
   @ConfigProperty()
   allowParallelRun: boolean = false;
+  @ConfigProperty({type: JobRunWindowConfig})
+  runWindow: JobRunWindowConfig = new JobRunWindowConfig();
+  @ConfigProperty()
+  resumeInterrupted: boolean = false;
+  @ConfigProperty({type: JobNotificationConfig})
+  notification: JobNotificationConfig = new JobNotificationConfig();
   @ConfigProperty({
     type: NeverJobTriggerConfig,
     typeBuilder: (v: JobTrigger) => {
@@ -590,6 +1127,8 @@ export class JobScheduleConfig implements JobScheduleDTO {
           return ScheduledJobTriggerConfig;
         case JobTriggerType.periodic:
           return PeriodicJobTriggerConfig;
+        case JobTriggerType.cron:
+          return CronJobTriggerConfig;
       }
       return null;
     },
@@ -598,7 +1137,8 @@ export class JobScheduleConfig implements JobScheduleDTO {
     | AfterJobTriggerConfig
     | NeverJobTriggerConfig
     | PeriodicJobTriggerConfig
-    | ScheduledJobTriggerConfig;
+    | ScheduledJobTriggerConfig
+    | CronJobTriggerConfig;
 
   constructor(
     name: string,
@@ -607,7 +1147,8 @@ export class JobScheduleConfig implements JobScheduleDTO {
       | AfterJobTriggerConfig
       | NeverJobTriggerConfig
       | PeriodicJobTriggerConfig
-      | ScheduledJobTriggerConfig,
+      | ScheduledJobTriggerConfig
+      | CronJobTriggerConfig,
     config: any = {},
     allowParallelRun: boolean = false
   ) {
@@ -619,6 +1160,53 @@ export class JobScheduleConfig implements JobScheduleDTO {
   }
 }
 
+@SubConfigClass({softReadonly: true})
+export class JobHistoryConfig {
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Enabled`,
+        priority: ConfigPriority.advanced
+      },
+    description: $localize`Saves every job run with its logs to the database.`
+  })
+  enabled: boolean = true;
+  @ConfigProperty({
+    type: 'unsignedInt',
+    tags:
+      {
+        name: $localize`Max runs`,
+        priority: ConfigPriority.advanced,
+        uiDisabled: (sb: JobHistoryConfig) => !sb.enabled
+      } as TAGS,
+    description: $localize`Older runs are deleted above this number. 0 means no limit.`
+  })
+  maxRuns: number = 500;
+  @ConfigProperty({
+    type: 'unsignedInt',
+    tags:
+      {
+        name: $localize`Max age`,
+        priority: ConfigPriority.advanced,
+        unit: 'days',
+        uiDisabled: (sb: JobHistoryConfig) => !sb.enabled
+      } as TAGS,
+    description: $localize`Runs older than this are deleted. 0 means no limit.`
+  })
+  maxAge: number = 90;
+  @ConfigProperty({
+    type: 'unsignedInt',
+    tags:
+      {
+        name: $localize`Max log lines`,
+        priority: ConfigPriority.underTheHood,
+        uiDisabled: (sb: JobHistoryConfig) => !sb.enabled
+      } as TAGS,
+    description: $localize`Saves at most this many log lines per run.`
+  })
+  maxLogLines: number = 10000;
+}
+
 @SubConfigClass({softReadonly: true})
 export class ServerJobConfig {
   @ConfigProperty({
@@ -628,7 +1216,7 @@ export class ServerJobConfig {
         name: $localize`Max saved progress`,
         priority: ConfigPriority.underTheHood
       },
-    description: $localize`Job history size.`
+    description: $localize`Number of the last job progresses and log lines that are shown on the UI.`
   })
   maxSavedProgress: number = 20;
   @ConfigProperty({
@@ -641,6 +1229,26 @@ export class ServerJobConfig {
     description: $localize`Jobs load this many photos or videos from the DB for processing at once.`
   })
   mediaProcessingBatchSize: number = 1000;
+  @ConfigProperty({
+    type: 'unsignedInt',
+    tags:
+      {
+        name: $localize`Checkpoint interval`,
+        priority: ConfigPriority.underTheHood,
+        unit: 'ms'
+      },
+    description: $localize`Running jobs save their state this often, so they can be resumed after a restart. 0 disables it.`
+  })
+  checkpointInterval: number = 60 * 1000;
+  @ConfigProperty({
+    type: JobHistoryConfig,
+    tags:
+      {
+        name: $localize`History`,
+        priority: ConfigPriority.advanced
+      },
+  })
+  history: JobHistoryConfig = new JobHistoryConfig();
   @ConfigProperty({
     arrayType: JobScheduleConfig,
     tags: {
@@ -775,6 +1383,31 @@ export class VideoTranscodingConfig {
   })
   preset: FFmpegPresets = FFmpegPresets.medium;
 
+  @ConfigProperty({
+    arrayType: 'unsignedInt',
+    tags:
+      {
+        name: $localize`HLS resolutions`,
+        priority: ConfigPriority.advanced,
+        unit: 'px'
+      },
+    description: $localize`The heights of the HLS stream renditions. The highest one gets the bit rate above, the lower ones get proportionally less. Renditions above the resolution of the original video are skipped. Only used if adaptive streaming is enabled.`
+  })
+  hlsResolutions: videoResolutionType[] = [360, 720, 1080];
+
+  @ConfigProperty({
+    type: 'unsignedInt',
+    min: 1,
+    tags:
+      {
+        name: $localize`HLS segment length`,
+        priority: ConfigPriority.underTheHood,
+        unit: 's'
+      },
+    description: $localize`Length of the HLS stream segments. Shorter segments let the player switch resolution faster, but result more files.`
+  })
+  hlsSegmentLength: number = 6;
+
   @ConfigProperty({
     arrayType: 'string',
     tags: {
@@ -802,6 +1435,33 @@ export class VideoTranscodingConfig {
 
 }
 
+@SubConfigClass({softReadonly: true})
+export class VideoSpriteConfig {
+  @ConfigProperty({
+    type: 'unsignedInt',
+    min: 2,
+    max: 400,
+    tags:
+      {
+        name: $localize`Frames`,
+        priority: ConfigPriority.advanced,
+      },
+    description: $localize`Number of evenly spaced frames in the sprite sheet.`
+  })
+  frameCount: number = 50;
+  @ConfigProperty({
+    type: 'unsignedInt',
+    min: 16,
+    tags:
+      {
+        name: $localize`Frame height`,
+        priority: ConfigPriority.underTheHood,
+        unit: 'px'
+      },
+  })
+  frameHeight: number = 120;
+}
+
 @SubConfigClass({softReadonly: true})
 export class ServerVideoConfig extends ClientVideoConfig {
   @ConfigProperty({
@@ -813,6 +1473,14 @@ export class ServerVideoConfig extends ClientVideoConfig {
     description: $localize`To ensure smooth video playback, video transcoding is recommended to a lower bit rate than the server's upload rate.   The transcoded videos will be saved to the thumbnail folder.  You can trigger the transcoding manually, but you can also create an automatic encoding job in advanced settings mode.`
   })
   transcoding: VideoTranscodingConfig = new VideoTranscodingConfig();
+  @ConfigProperty({
+    tags: {
+      name: $localize`Scrub preview sprite`,
+      priority: ConfigPriority.advanced,
+      uiDisabled: (sb: ClientVideoConfig) => !sb.enabled || !sb.scrubPreview
+    },
+  })
+  sprite: VideoSpriteConfig = new VideoSpriteConfig();
 }
 
 
@@ -848,6 +1516,30 @@ export class ServerAlbumCoverConfig {
   ];
 }
 
+@SubConfigClass({softReadonly: true})
+export class MediaLibraryConfig {
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Name`,
+        priority: ConfigPriority.basic
+      },
+    description: $localize`The library shows up as a top level directory with this name.`
+  })
+  name: string = '';
+
+  @ConfigProperty({
+    tags:
+      {
+        name: $localize`Folder`,
+        priority: ConfigPriority.basic,
+        dockerSensitive: true
+      } as TAGS,
+    description: $localize`Media of the library is loaded from this folder (read permission required).`
+  })
+  folder: string = '';
+}
+
 @SubConfigClass({softReadonly: true})
 export class ServerMediaConfig extends ClientMediaConfig {
   @ConfigProperty({
@@ -873,6 +1565,18 @@ export class ServerMediaConfig extends ClientMediaConfig {
   })
   tempFolder: string = 'demo/tmp';
 
+  @ConfigProperty({
+    arrayType: MediaLibraryConfig,
+    tags: {
+      name: $localize`Libraries`,
+      priority: ConfigPriority.advanced,
+      uiResetNeeded: {db: true, server: true},
+      uiOptional: true,
+    } as TAGS,
+    description: $localize`Additional media folders. Each library shows up as a top level directory next to the content of the images folder. Access to a library can be limited with the user permissions, e.g.: /family*`,
+  })
+  libraries: MediaLibraryConfig[] = [];
+
   @ConfigProperty({
     type: 'unsignedInt',
     tags: {
@@ -1076,6 +1780,26 @@ export class ServerConfig extends ClientConfig {
   })
   Duplicates: ServerDuplicatesConfig = new ServerDuplicatesConfig();
 
+  @ConfigProperty({
+    tags: {
+      name: $localize`Map`,
+      uiIcon: 'ionLocationOutline'
+    } as TAGS,
+  })
+  Map: ServerMapConfig = new ServerMapConfig();
+
+  @ConfigProperty({
+    tags: {
+      name: $localize`Faces`,
+      uiIcon: 'ionPeopleOutline',
+      uiJob: [
+        {
+          job: DefaultsJobs[DefaultsJobs['Face Detection']],
+        }]
+    } as TAGS,
+  })
+  Faces: ServerFacesConfig = new ServerFacesConfig();
+
   @ConfigProperty({
     tags: {
       name: $localize`Messaging`,
@@ -96,6 +96,32 @@ export class EmailMessagingConfig {
 
 }
 
+@SubConfigClass<TAGS>({softReadonly: true})
+export class WebhookMessagingConfig {
+
+  @ConfigProperty({
+    tags: {
+      name: $localize`Secret`,
+      priority: ConfigPriority.advanced,
+    },
+    type: 'password',
+    description: $localize`If set, the requests are signed with HMAC-SHA256 using this secret. The signature is sent in the X-Pigallery2-Signature header as "sha256=<hex digest of the body>".`
+  })
+  secret: string = '';
+
+  @ConfigProperty({
+    type: 'unsignedInt',
+    tags: {
+      name: $localize`Timeout`,
+      priority: ConfigPriority.underTheHood,
+      unit: 'ms'
+    } as TAGS,
+    description: $localize`The request fails if the server does not answer within this time.`
+  })
+  timeout: number = 30 * 1000;
+
+}
+
 @SubConfigClass<TAGS>({softReadonly: true})
 export class MessagingConfig {
   @ConfigProperty({
@@ -106,4 +132,13 @@ export class MessagingConfig {
     description: $localize`The app uses Nodemailer in the background for sending e-mails. Refer to https://nodemailer.com/usage/ if some options are not clear.`
   })
   Email: EmailMessagingConfig = new EmailMessagingConfig();
+
+  @ConfigProperty({
+    tags:
+        {
+          name: $localize`Webhook`,
+        },
+    description: $localize`Sends the messages as JSON to an HTTP endpoint. The address and the body template are set where the messenger is used.`
+  })
+  Webhook: WebhookMessagingConfig = new WebhookMessagingConfig();
 }
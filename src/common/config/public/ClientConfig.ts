@@ -3,7 +3,8 @@ import 'reflect-metadata';
 import {GroupByTypes, GroupingMethod, SortByTypes, SortingMethod} from '../../entities/SortingMethods';
 import {UserRoles} from '../../entities/UserDTO';
 import {ConfigProperty, SubConfigClass} from 'typeconfig/common';
-import {SearchQueryDTO} from '../../entities/SearchQueryDTO';
+import {DatePatternFrequency, DatePatternSearch, SearchQueryDTO, SearchQueryTypes} from '../../entities/SearchQueryDTO';
+import {MediaPickDTO} from '../../entities/MediaPickDTO';
 import {DefaultsJobs} from '../../entities/job/JobDTO';
 import {GridSizes} from '../../entities/GridSizes';
 
@@ -166,6 +167,28 @@ export class AutoCompleteItemsPerCategoryConfig {
     description: $localize`Maximum number autocomplete items shown per keyword category.`
   })
   keyword: number = 5;
+
+  @ConfigProperty({
+    type: 'unsignedInt',
+    tags:
+      {
+        name: $localize`Max camera items`,
+        priority: ConfigPriority.underTheHood
+      },
+    description: $localize`Maximum number autocomplete items shown per camera category.`
+  })
+  camera: number = 5;
+
+  @ConfigProperty({
+    type: 'unsignedInt',
+    tags:
+      {
+        name: $localize`Max lens items`,
+        priority: ConfigPriority.underTheHood
+      },
+    description: $localize`Maximum number autocomplete items shown per lens category.`
+  })
+  lens: number = 5;
 }
 
 @SubConfigClass<TAGS>({tags: {client: true}, softReadonly: true})
@@ -540,6 +563,25 @@ export class ClientMapConfig {
   })
   maxPreviewMarkers: number = 50;
 
+  @ConfigProperty({
+    type: 'unsignedInt',
+    tags: {
+      name: $localize`Server side clustering`,
+      priority: ConfigPriority.underTheHood
+    } as TAGS,
+    description: $localize`If a folder or a search result has more geotagged photos than this, the map loads the markers from the server as clusters, tile by tile, instead of clustering all of them in the browser. Set it to 0 to always cluster on the server.`,
+  })
+  serverSideClusteringThreshold: number = 2000;
+
+  @ConfigProperty({
+    tags: {
+      name: $localize`Heatmap layer`,
+      priority: ConfigPriority.advanced
+    } as TAGS,
+    description: $localize`Adds a heatmap overlay to the map that shows where the photos were taken.`,
+  })
+  heatmapLayer: boolean = true;
+
 
   @ConfigProperty({
     arrayType: MapPathGroupConfig,
@@ -1054,6 +1096,75 @@ export class ThemesConfig {
 }
 
 
+@SubConfigClass<TAGS>({tags: {client: true}, softReadonly: true})
+export class MemoriesMediaPickConfig implements MediaPickDTO {
+  @ConfigProperty({
+    type: 'object',
+    tags: {
+      name: $localize`Search query`,
+      uiType: 'SearchQuery'
+    } as TAGS,
+    description: $localize`Search query to list photos and videos.`
+  })
+  searchQuery: SearchQueryDTO;
+
+  @ConfigProperty({
+    arrayType: ClientSortingConfig,
+    tags: {
+      name: $localize`Sort by`,
+    },
+    description: $localize`Sorts the photos and videos by this.`
+  })
+  sortBy: ClientSortingConfig[];
+
+  @ConfigProperty({
+    type: 'unsignedInt',
+    tags: {
+      name: $localize`Pick`,
+    },
+    description: $localize`Number of photos and videos to pick.`
+  })
+  pick: number = 5;
+
+  constructor(searchQuery?: SearchQueryDTO, sortBy: ClientSortingConfig[] = [], pick = 5) {
+    this.searchQuery = searchQuery;
+    this.sortBy = sortBy;
+    this.pick = pick;
+  }
+}
+
+@SubConfigClass<TAGS>({tags: {client: true}, softReadonly: true})
+export class ClientMemoriesConfig {
+  @ConfigProperty({
+    tags: {
+      name: $localize`Enabled`,
+      priority: ConfigPriority.advanced,
+    },
+    description: $localize`Shows the photos and videos of the same day from the earlier years on the top of the gallery.`
+  })
+  enabled: boolean = true;
+
+  @ConfigProperty({
+    arrayType: MemoriesMediaPickConfig,
+    tags: {
+      name: $localize`Media selectors`,
+      priority: ConfigPriority.advanced,
+      uiDisabled: (sb: ClientMemoriesConfig) => !sb.enabled
+    } as TAGS,
+    description: $localize`These search queries pick the memories. Only the photos and videos of the earlier years are shown, grouped by how many years ago they were taken.`
+  })
+  mediaPick: MemoriesMediaPickConfig[] = [
+    new MemoriesMediaPickConfig({
+        type: SearchQueryTypes.date_pattern,
+        daysLength: 0,
+        frequency: DatePatternFrequency.every_year
+      } as DatePatternSearch,
+      [new ClientSortingConfig(SortByTypes.Rating, false),
+        new ClientSortingConfig(SortByTypes.PersonCount, false)],
+      20)
+  ];
+}
+
 @SubConfigClass<TAGS>({tags: {client: true}, softReadonly: true})
 export class ClientGalleryConfig {
   @ConfigProperty({
@@ -1158,6 +1269,16 @@ export class ClientGalleryConfig {
     description: $localize`Makes top blog (*.md files content) auto-open.`
   })
   TopBlogStartsOpen: boolean = false;
+
+  @ConfigProperty({
+    tags: {
+      name: $localize`Memories`,
+      uiIcon: 'ionCalendarOutline',
+      priority: ConfigPriority.advanced,
+    } as TAGS,
+    description: $localize`"On this day" memories on the top of the gallery.`
+  })
+  Memories: ClientMemoriesConfig = new ClientMemoriesConfig();
 }
 
 @SubConfigClass({tags: {client: true}, softReadonly: true})
@@ -1195,6 +1316,49 @@ export class ClientVideoConfig {
   })
   supportedFormats: string[] = ['mp4', 'webm', 'ogv', 'ogg'];
 
+  @ConfigProperty({
+    tags: {
+      name: $localize`Adaptive streaming (HLS)`,
+      priority: ConfigPriority.advanced,
+      uiDisabled: (sb: ClientVideoConfig) => !sb.enabled,
+    },
+    description: $localize`Video transcoding also creates an HLS stream with multiple resolutions. The lightbox switches between them based on the connection speed and falls back to the transcoded video if the stream is not available.`
+  })
+  hlsStreaming: boolean = false;
+
+  @ConfigProperty({
+    tags: {
+      name: $localize`Scrub previews`,
+      priority: ConfigPriority.advanced,
+      uiDisabled: (sb: ClientVideoConfig) => !sb.enabled,
+    },
+    description: $localize`Shows frames of the video while hovering over it in the grid or over the seek bar of the lightbox. The frames are rendered to a sprite sheet on the first request or by the video converting job.`
+  })
+  scrubPreview: boolean = true;
+
+}
+
+@SubConfigClass({tags: {client: true}, softReadonly: true})
+export class ClientMetadataEditingConfig {
+  @ConfigProperty({
+    tags: {
+      name: $localize`Enable metadata editing`,
+      priority: ConfigPriority.advanced
+    } as TAGS,
+    description: $localize`Enables editing the rating, keywords, title and caption of photos in the lightbox. Changes are written to XMP sidecar files (e.g.: photo.jpg.xmp) next to the photo, the original files are never modified. The image folder needs to be writable.`
+  })
+  enabled: boolean = false;
+
+  @ConfigProperty({
+    type: UserRoles, tags: {
+      name: $localize`Metadata editing right`,
+      priority: ConfigPriority.advanced,
+      uiResetNeeded: {server: true},
+      uiDisabled: (sc: ClientMetadataEditingConfig) => !sc.enabled
+    } as TAGS,
+    description: $localize`Required minimum right to edit the metadata of a photo.`
+  })
+  writeAccessMinRole: UserRoles = UserRoles.User;
 }
 
 @SubConfigClass({tags: {client: true}, softReadonly: true})
@@ -1267,6 +1431,46 @@ export class ClientPhotoConfig {
     description: $localize`Photo formats that are supported. Browser needs to support these formats natively. Also sharp (libvips) package should be able to convert these formats.`,
   })
   supportedFormats: string[] = ['gif', 'jpeg', 'jpg', 'jpe', 'png', 'webp', 'svg', 'avif', 'heic', 'dng', 'arw'];
+
+  @ConfigProperty({
+    tags: {
+      name: $localize`Group same name photos`,
+      priority: ConfigPriority.advanced,
+      uiResetNeeded: {db: true}
+    } as TAGS,
+    description: $localize`Photos with the same name but different extension (e.g.: RAW + JPEG) are shown as one photo. The other files (and their XMP sidecars) are listed in the info panel of the lightbox.`,
+  })
+  groupSameNamePhotos: boolean = true;
+
+  @ConfigProperty({
+    arrayType: 'string',
+    tags: {
+      name: $localize`Grouping priority`,
+      priority: ConfigPriority.underTheHood,
+      uiDisabled: (sb: ClientPhotoConfig) => !sb.groupSameNamePhotos,
+      uiResetNeeded: {db: true}
+    } as TAGS,
+    description: $localize`The photo with the format that comes first in this list is shown from the same name photos. Not listed formats come last.`,
+  })
+  groupingPriority: string[] = ['jpg', 'jpeg', 'jpe', 'heic', 'avif', 'webp', 'png', 'gif', 'svg', 'dng', 'arw'];
+
+  @ConfigProperty({
+    tags: {
+      name: $localize`Live and Motion Photos`,
+      priority: ConfigPriority.advanced,
+      uiResetNeeded: {db: true}
+    } as TAGS,
+    description: $localize`Plays the video part of Apple Live Photos and Google Motion Photos in the lightbox. The video of a Live Photo is not listed separately. The embedded video of a Motion Photo is extracted to the transcoded folder.`,
+  })
+  motionPhotos: boolean = true;
+
+  @ConfigProperty({
+    tags: {
+      name: $localize`Metadata editing`,
+      priority: ConfigPriority.advanced
+    } as TAGS
+  })
+  MetadataEditing: ClientMetadataEditingConfig = new ClientMetadataEditingConfig();
 }
 
 @SubConfigClass({tags: {client: true}, softReadonly: true})
@@ -1463,6 +1667,28 @@ export class ClientServiceConfig {
   svgIcon: SVGIconConfig = new SVGIconConfig(`0 0 512 512`, '<path d="m185.92 0.042372c-3.1045 0.19567-6.2676 1.0899-9.1546 3.163-16.085-8.0588-25.565 1.6894-23.504 14.76-5.3047 4.0078-10.768 7.8463-6.3153 20.688-4.8283 4.5113-5.2702 11.17-1.2227 20.894-4.5731 7.1343-3.0927 13.944 1.4676 20.445-5.0506 10.26 3.7514 20.507 6.2389 23.943-0.99909 6.6761-0.49742 13.458 11.016 21.392-1.2207 10.005 5.7492 14.415 12.419 19.045 12.567 8.1824 17.213 7.2406 27.088 10.328l-0.13366-1.1862c-15.833 3e-3 -31.017 6.2997-42.211 17.506l-24.715 24.736c-11.194 11.206-26.378 17.503-42.211 17.506h-34.984c-32.972 3.6e-4 -59.702 26.751-59.701 59.749v179.24c3.6312e-4 32.997 26.729 59.746 59.701 59.747h358.21c32.972-3.6e-4 59.7-26.75 59.701-59.747v-179.24c-0.0162-23.02-13.245-43.983-34.008-53.889 3.0728-1.7781 5.0617-4.3071 6.7327-7.0379 4.1124-1.032 17.438-3.2179 20.159-14.327 7.7661-2.0112 13.273-6.2767 14.255-14.719 9.3465-4.8456 13.285-10.23 12.484-16.792 11.694-7.0704 9.9759-13.526 8.4511-19.912 9.9742-8.687 8.874-22.288-8.6236-26.461-3.1292-12.25-18.501-15.32-20.733-16.133-1.3931-4.0275-3.7026-7.9496-14.353-10.399-4.4451-8.3291-12.211-9.9464-20.904-9.9225-6.4476-10.379-14.548-6.8393-22.216-7.2124-9.6958-7.4917-13.951-3.6525-20.032-3.5572-11.02-6.8739-16.687-2.7782-24.497 0.86675l-6.6602-2.5355c-21.868 3.9146-38.57 22.031-45.765 31.84 0.78895-12.143-0.36806-36.764-14.606-53.831l-6.7327-2.3414c-3.6422-7.8167-5.3526-14.6-18.209-16.423-4.7287-3.9225-5.388-9.6636-17.627-10.162-3.9701-2.9861-7.0841-7.4205-11.972-9.091-2.5588-0.82206-5.6927-0.97346-9.6817 0.32356-6.6078-5.7069-13.63-9.3648-22.385-5.8437-9.7319-4.9749-14.082-3.5883-17.674-1.2668-1.3952-0.50821-7.2885-3.6439-14.018-4.1239-1.0094-0.071996-2.0376-0.084841-3.0724-0.019609zm1.017 13.578c10.104 0.93027 18.591 7.2129 24.705 11.86 3.989-1.297 1.8817-5.4748-0.67601-9.9264 7.4731 3.9321 13.922 8.2611 19.542 13.058 4.4921-1.7738-6e-3 -6.9333-1.6283-10.934 11.32 6.6532 15.299 11.732 19.277 16.811 4.96-2.1534 2.5609-6.4373 1.1326-10.368 7.9224 6.6257 11.087 12.731 14.482 18.808 2.4625-1.6331 5.6853-2.3301 4.5577-8.9008 5.1605 6.0597 8.5191 12.233 10.344 18.398 4.8979-1.076 4.6167-5.1376 5.7471-8.2459 4.8158 7.9142 7.0028 15.201 10.195 22.743 1.3502-0.38818 3.143-2.596 5.5002-6.3575 10.495 21.313 19.172 68.475-19.542 71.864-19.845-33.079-47.35-62.019-80.099-88.028 39.018 41.712 59.701 71.578 68.828 93.932-5.6123 8.2892-13.186 12.888-21.423 15.182h-31.496c-9.0855-1.8937-17.047-4.8048-21.968-6.9301 3.5034-0.26396 6.761-1.0578 8.553-3.265-2.8932-4.1339-16.942-6.6095-24.423-15.054 3.8384 0.62815 5.771 0.45179 8.3395-1.4727-7.7461-5.9015-16.277-11.759-20.149-18.339 3.0088 1.096 5.5764 2.7998 10.448 1.4943-6.3427-7.0404-13.489-13.382-17.696-22.065 4.1118 1.3877 8.4445 3.0751 10.271 1.9806-5.5926-6.9871-9.844-14.035-12.948-21.216 5.3821 2.7304 8.0206 3.0315 9.7326 2.5551-3.457-7.4192-8.6517-14.592-9.4172-22.461 3.6436 2.9772 7.3478 4.8776 10.904 3.8631-0.36036-4.7513-7.3377-10.044-8.4022-21.322 4.3234 2.0148 8.7693 4.2946 10.093 3.6768 0.9645-8.9987-0.93024-14.97-2.5963-20.967 9.547 3.3675 23.877 8.6978 23.48 7.6733zm202.89 68.954c-1.1657 3.2054-4.0535 6.0044-0.89552 10.015 5.3574-3.5486 11.898-6.1175 19.744-7.4399-5.0841 4.3081-3.1624 6.8795-2.228 9.7499 6.5043-2.4708 12.815-5.0123 23.175-5.0887-3.6187 2.0919-8.2066 3.8292-5.7902 8.6694 6.3098-1.3316 12.62-2.6636 25.565-0.47848-3.8128 2.0212-10.67 3.0443-8.2709 7.3281 7.289-0.095 15.142 0.67658 23.357 2.5689-4.9157 1.7295-9.1161 3.6077-6.8934 7.1673 7.6683 0.37321 18.204 1.0216 26.541 6.8085l-7.9768 3.8043c-0.96209 0.52956 13.473 5.5674 22.914 9.2263-5.2605 3.5839-10.415 6.8757-15.456 14.39 0.61731 1.3249 5.4871 2.4391 10.093 3.6768-8.059 7.9545-16.768 7.4235-20.131 10.928 2.0376 3.1622 6.0354 3.9567 10.836 4.0553-5.7375 5.5002-14.227 7.6885-21.64 11.148 1.0057 1.4663 3.2192 2.9338 9.0958 4.3043-6.9901 3.5039-14.773 6.1675-23.545 7.9223 0.73194 1.9166 5.0978 3.5087 9.1389 5.0907-8.7991 3.945-18.346 4.207-27.726 5.5201 2.9287 4.0367 5.9538 4.4791 8.9626 5.575-7.1926 2.5501-17.455 1.4514-27.215 1.0864 0.46776 2.1663 1.3155 3.4454 2.7961 4.6612h-13.75c-5.1274-1.4192-9.4503-2.9189-11.788-2.2747-0.0214 0.78201 0.12538 1.5366 0.37044 2.2747h-6.1841c-2.2143-0.16717-4.4175-0.45785-6.5995-0.87068-17.23-8.2945-37.615-23.515-35.198-47.897 21.35-11.254 56.342-20.728 113.06-27.679-41.792-1.1427-81.452 3.3317-117.9 15.905-27.674-27.57 9.2662-58.115 30.995-67.691-0.70716 4.3624-0.65582 7.2407 0.12836 8.4067 7.2901-3.7246 13.646-7.8991 22.418-10.864zm-186.04 100.82h69.97c7.9167 2e-3 15.508 3.1505 21.105 8.7538l24.717 24.736c16.798 16.816 39.584 26.262 63.343 26.259h34.984c16.486 1.9e-4 29.85 13.375 29.85 29.873v179.24c-1.9e-4 16.499-13.365 29.873-29.85 29.873h-358.21c-16.486-1.8e-4 -29.85-13.375-29.85-29.873v-179.24c1.88e-4 -16.499 13.365-29.873 29.85-29.873h34.984c23.739-0.0128 46.501-9.4579 63.285-26.259l24.775-24.736c5.582-5.5884 13.149-8.736 21.045-8.7538zm35.016 59.749c-57.625 0.10848-104.28 46.889-104.28 104.56 0 57.669 46.656 104.45 104.28 104.56 57.625-0.10848 104.28-46.889 104.28-104.56 0-57.669-46.656-104.45-104.28-104.56zm-164.18 29.873c-8.2429 9e-5 -14.925 6.6874-14.925 14.937 0.03875 8.2218 6.7096 14.866 14.925 14.866s14.886-6.6446 14.925-14.866c-9.1e-5 -8.2493-6.6823-14.937-14.925-14.937zm164.18 0c41.206 0.0135 74.603 33.447 74.603 74.684 0 41.238-33.397 74.671-74.603 74.684-41.206-0.0135-74.603-33.447-74.603-74.684 0-41.238 33.397-74.671 74.603-74.684z"/>');
 }
 
+@SubConfigClass({tags: {client: true}, softReadonly: true})
+export class ClientOIDCConfig {
+  @ConfigProperty({
+    tags: {
+      name: $localize`Enabled`,
+      priority: ConfigPriority.advanced,
+      uiResetNeeded: {server: true},
+    },
+    description: $localize`Enables login with an OpenID Connect provider (SSO). Local users can still log in with their password.`,
+  })
+  enabled: boolean = false;
+
+  @ConfigProperty({
+    tags: {
+      name: $localize`Login button text`,
+      priority: ConfigPriority.advanced,
+      uiDisabled: (sb: ClientOIDCConfig) => !sb.enabled
+    } as TAGS,
+  })
+  buttonText: string = 'Login with SSO';
+}
+
 @SubConfigClass({tags: {client: true}, softReadonly: true})
 export class ClientUserConfig {
 
@@ -1490,6 +1716,16 @@ export class ClientUserConfig {
     description: $localize`Default user right when password protection is disabled.`,
   })
   unAuthenticatedUserRole: UserRoles = UserRoles.Admin;
+
+  @ConfigProperty({
+    type: ClientOIDCConfig,
+    tags: {
+      name: $localize`OpenID Connect`,
+      priority: ConfigPriority.advanced,
+      relevant: (c: any) => c.authenticationRequired === true
+    } as TAGS,
+  })
+  OIDC: ClientOIDCConfig = new ClientOIDCConfig();
 }
 
 @SubConfigClass({tags: {client: true}, softReadonly: true})
@@ -0,0 +1,17 @@
+import {UserRoles} from './UserDTO';
+
+export interface ApiTokenDTO {
+  id: number;
+  name: string;
+  role: UserRoles; // requests with the token are authenticated with this role, it can't be higher than the owner's
+  created: number;
+  expires?: number;
+  lastUsed?: number;
+  token?: string; // only returned on creation, the db only stores its hash
+}
+
+export interface CreateApiTokenDTO {
+  name: string;
+  role?: UserRoles;
+  expires?: number;
+}
@@ -2,4 +2,11 @@ import {MediaDTO} from './MediaDTO';
 
 export interface DuplicatesDTO {
   media: MediaDTO[];
+  similarities?: MediaSimilarityDTO[]; // only set if the media were found by their perceptual hash
+}
+
+export interface MediaSimilarityDTO {
+  a: number; // media id
+  b: number; // media id
+  score: number; // 0-1, 1 means the perceptual hashes are equal
 }
@@ -15,6 +15,7 @@ export enum ErrorCodes {
   PERSON_ERROR = 34,
   METAFILE_ERROR = 35,
   SERVER_ERROR = 36,
+  METADATA_WRITE_ERROR = 37,
 
   USER_MANAGEMENT_DISABLED = 40,
 
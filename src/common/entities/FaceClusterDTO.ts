@@ -0,0 +1,8 @@
+/**
+ * Group of similar untagged faces, found by the face detection job
+ */
+export interface FaceClusterDTO {
+  id: number;
+  count: number; // number of faces in the cluster
+  sampleFaceId: number; // used for the thumbnail
+}
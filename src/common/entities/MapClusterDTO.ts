@@ -0,0 +1,20 @@
+import {MediaDTO} from './MediaDTO';
+
+/**
+ * Map tile in the slippy map numbering (the one the map layers use)
+ */
+export interface MapTileDTO {
+  z: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Geotagged media that are close to each other on the map, aggregated by the server
+ */
+export interface MapClusterDTO {
+  lat: number; // average position of the media in the cluster
+  lng: number;
+  count: number; // number of media in the cluster
+  sample: MediaDTO; // used for the thumbnail
+}
@@ -9,6 +9,7 @@ export interface MediaDTO extends FileDTO {
   directory: DirectoryPathDTO;
   metadata: MediaMetadata;
   missingThumbnails?: number;
+  alternates?: string[]; // other files of the same shot in the same directory (e.g.: RAW of a JPEG, XMP sidecar)
 }
 
 export type RatingTypes = 0 | 1 | 2 | 3 | 4 | 5;
@@ -22,6 +23,7 @@ export interface MediaMetadata {
   rating?: RatingTypes;
   title?: string;
   caption?: string;
+  perceptualHash?: string; // 64 bit dHash as hex string, used for finding similar photos
 }
 
 export interface MediaDimension {
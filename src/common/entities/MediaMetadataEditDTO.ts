@@ -0,0 +1,11 @@
+import {RatingTypes} from './MediaDTO';
+
+/**
+ * User editable metadata of a photo. Fields that are not set are left unchanged.
+ */
+export interface MediaMetadataEditDTO {
+  rating?: RatingTypes;
+  keywords?: string[];
+  title?: string;
+  caption?: string;
+}
@@ -4,6 +4,7 @@ export interface PersonDTO {
   count: number;
   missingThumbnail?: boolean;
   isFavourite: boolean;
+  isHidden?: boolean;
 }
 
 
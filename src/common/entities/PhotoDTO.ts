@@ -12,6 +12,7 @@ export interface PhotoDTO extends CoverPhotoDTO, MediaDTO {
   directory: DirectoryPathDTO;
   metadata: PhotoMetadata;
   missingThumbnails?: number;
+  motion?: boolean; // has a video part: Apple Live Photo or Google Motion Photo
 }
 
 export interface FaceRegionBox {
@@ -16,6 +16,14 @@ export enum SearchQueryTypes {
   max_resolution,
   min_person_count,
   max_person_count,
+  min_iso,
+  max_iso,
+  min_fstop,
+  max_fstop,
+  min_focal_length,
+  max_focal_length,
+  min_exposure,
+  max_exposure,
 
   distance = 50,
   orientation,
@@ -31,6 +39,10 @@ export enum SearchQueryTypes {
   keyword,
   person,
   position,
+  album,
+  camera,
+  lens,
+  library,
 
 
 }
@@ -48,16 +60,28 @@ export const TextSearchQueryTypes = [
   SearchQueryTypes.keyword,
   SearchQueryTypes.person,
   SearchQueryTypes.position,
+  SearchQueryTypes.album,
+  SearchQueryTypes.camera,
+  SearchQueryTypes.lens,
+  SearchQueryTypes.library,
 ];
 export const MinRangeSearchQueryTypes = [
   SearchQueryTypes.from_date,
   SearchQueryTypes.min_rating,
   SearchQueryTypes.min_resolution,
+  SearchQueryTypes.min_iso,
+  SearchQueryTypes.min_fstop,
+  SearchQueryTypes.min_focal_length,
+  SearchQueryTypes.min_exposure,
 ];
 export const MaxRangeSearchQueryTypes = [
   SearchQueryTypes.to_date,
   SearchQueryTypes.max_rating,
   SearchQueryTypes.max_resolution,
+  SearchQueryTypes.max_iso,
+  SearchQueryTypes.max_fstop,
+  SearchQueryTypes.max_focal_length,
+  SearchQueryTypes.max_exposure,
 ];
 
 export const RangeSearchQueryTypes = MinRangeSearchQueryTypes.concat(
@@ -76,6 +100,12 @@ rangedTypePairs[SearchQueryTypes.from_date] = SearchQueryTypes.to_date;
 rangedTypePairs[SearchQueryTypes.min_rating] = SearchQueryTypes.max_rating;
 rangedTypePairs[SearchQueryTypes.min_resolution] =
     SearchQueryTypes.max_resolution;
+rangedTypePairs[SearchQueryTypes.min_iso] = SearchQueryTypes.max_iso;
+rangedTypePairs[SearchQueryTypes.min_fstop] = SearchQueryTypes.max_fstop;
+rangedTypePairs[SearchQueryTypes.min_focal_length] =
+    SearchQueryTypes.max_focal_length;
+rangedTypePairs[SearchQueryTypes.min_exposure] =
+    SearchQueryTypes.max_exposure;
 // add the other direction too
 for (const key of Object.keys(rangedTypePairs)) {
   rangedTypePairs[rangedTypePairs[key]] = key;
@@ -119,6 +149,14 @@ export const SearchQueryDTOUtils = {
       case SearchQueryTypes.max_rating:
       case SearchQueryTypes.min_resolution:
       case SearchQueryTypes.max_resolution:
+      case SearchQueryTypes.min_iso:
+      case SearchQueryTypes.max_iso:
+      case SearchQueryTypes.min_fstop:
+      case SearchQueryTypes.max_fstop:
+      case SearchQueryTypes.min_focal_length:
+      case SearchQueryTypes.max_focal_length:
+      case SearchQueryTypes.min_exposure:
+      case SearchQueryTypes.max_exposure:
       case SearchQueryTypes.distance:
       case SearchQueryTypes.any_text:
       case SearchQueryTypes.person:
@@ -127,6 +165,10 @@ export const SearchQueryDTOUtils = {
       case SearchQueryTypes.caption:
       case SearchQueryTypes.file_name:
       case SearchQueryTypes.directory:
+      case SearchQueryTypes.album:
+      case SearchQueryTypes.camera:
+      case SearchQueryTypes.lens:
+      case SearchQueryTypes.library:
         (query as NegatableSearchQuery).negate = !(
             query as NegatableSearchQuery
         ).negate;
@@ -177,7 +219,11 @@ export interface TextSearch extends NegatableSearchQuery {
       | SearchQueryTypes.position
       | SearchQueryTypes.caption
       | SearchQueryTypes.file_name
-      | SearchQueryTypes.directory;
+      | SearchQueryTypes.directory
+      | SearchQueryTypes.album
+      | SearchQueryTypes.camera // matches the make or the model of the camera
+      | SearchQueryTypes.lens
+      | SearchQueryTypes.library; // matches the name of the library exactly
   matchType?: TextSearchQueryMatchTypes;
   text: string;
 }
@@ -236,6 +282,46 @@ export interface MaxResolutionSearch extends RangeSearch {
   value: number; // in megapixels
 }
 
+export interface MinISOSearch extends RangeSearch {
+  type: SearchQueryTypes.min_iso;
+  value: number;
+}
+
+export interface MaxISOSearch extends RangeSearch {
+  type: SearchQueryTypes.max_iso;
+  value: number;
+}
+
+export interface MinFStopSearch extends RangeSearch {
+  type: SearchQueryTypes.min_fstop;
+  value: number; // aperture, e.g.: 2.8
+}
+
+export interface MaxFStopSearch extends RangeSearch {
+  type: SearchQueryTypes.max_fstop;
+  value: number; // aperture, e.g.: 2.8
+}
+
+export interface MinFocalLengthSearch extends RangeSearch {
+  type: SearchQueryTypes.min_focal_length;
+  value: number; // in mm
+}
+
+export interface MaxFocalLengthSearch extends RangeSearch {
+  type: SearchQueryTypes.max_focal_length;
+  value: number; // in mm
+}
+
+export interface MinExposureSearch extends RangeSearch {
+  type: SearchQueryTypes.min_exposure;
+  value: number; // in seconds
+}
+
+export interface MaxExposureSearch extends RangeSearch {
+  type: SearchQueryTypes.max_exposure;
+  value: number; // in seconds
+}
+
 export interface OrientationSearch {
   type: SearchQueryTypes.orientation;
   landscape: boolean;
@@ -1,4 +1,5 @@
 import {UserDTO} from './UserDTO';
+import {SearchQueryDTO} from './SearchQueryDTO';
 
 export interface SharingDTOKey {
   sharingKey: string;
@@ -12,6 +13,14 @@ export interface SharingDTO extends SharingDTOKey {
   expires: number;
   timeStamp: number;
   includeSubfolders: boolean;
+  // if set, only the matching media are shared instead of the whole directory
+  searchQuery?: SearchQueryDTO;
+  // if set, only these media are shared (paths relative to the images folder)
+  media?: string[];
+  // the sharing is treated as expired after this many opens
+  maxViews?: number;
+  viewCount?: number;
+  lastAccess?: number;
   creator: UserDTO;
 }
 
@@ -20,4 +29,33 @@ export interface CreateSharingDTO {
   password: string;
   valid: number;
   includeSubfolders: boolean;
+  searchQuery?: SearchQueryDTO;
+  media?: string[];
+  maxViews?: number;
+}
+
+export enum SharingAccessTypes {
+  Open = 1, View = 2, Download = 3
+}
+
+export enum UserAgentClasses {
+  Other = 1, Desktop = 2, Mobile = 3, Bot = 4
+}
+
+export interface SharingAccessDTO {
+  timestamp: number;
+  ipHash: string;
+  userAgent: UserAgentClasses;
+  type: SharingAccessTypes;
+  media: string;
+}
+
+export interface SharingStatsDTO {
+  sharingKey: string;
+  viewCount: number;
+  maxViews: number;
+  lastAccess: number;
+  visitors: number; // distinct ip hashes
+  media: { media: string, views: number, downloads: number }[];
+  accesses: SharingAccessDTO[]; // the latest ones
 }
@@ -0,0 +1,10 @@
+import {AlbumBaseDTO} from './AlbumBaseDTO';
+import {CoverPhotoDTO} from '../PhotoDTO';
+
+export interface ManualAlbumDTO extends AlbumBaseDTO {
+  id: number;
+  name: string;
+  cover?: CoverPhotoDTO;
+  count: number;
+  locked: boolean;
+}
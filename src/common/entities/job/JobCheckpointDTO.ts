@@ -0,0 +1,20 @@
+import {JobRunWindow} from './JobScheduleDTO';
+
+/**
+ * Saved state of a running job, so it can continue from here after a server restart.
+ */
+export interface JobCheckpointDTO {
+  jobName: string;
+  HashName: string;
+  config: Record<string, unknown>;
+  soloRun: boolean;
+  allowParallelRun: boolean;
+  runWindow: JobRunWindow;
+  steps: {
+    all: number;
+    processed: number;
+    skipped: number;
+  };
+  timestamp: number; // when the checkpoint was saved
+  state: Record<string, unknown>; // job specific, e.g.: the queue of the files to process
+}
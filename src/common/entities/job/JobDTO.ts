@@ -11,13 +11,15 @@ export enum DefaultsJobs {
   'GPX Compression' = 9,
   'Album Reset' = 10,
   'Delete Compressed GPX' = 11,
-  'Top Pick Sending' = 12
+  'Top Pick Sending' = 12,
+  'Face Detection' = 13
 }
 
 
 export enum DefaultMessengers {
   Email = 1,
-  Stdout = 2
+  Stdout = 2,
+  Webhook = 3
 }
 
 
@@ -27,6 +29,12 @@ export interface JobDTO {
 }
 
 
+export interface MessengerDTO {
+  Name: string;
+  ConfigTemplate: DynamicConfig[];
+}
+
+
 export interface JobStartDTO {
   soloRun: boolean;
   config?: Record<string, unknown>;
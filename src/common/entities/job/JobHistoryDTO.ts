@@ -0,0 +1,28 @@
+import {JobProgressLogDTO, JobProgressStates} from './JobProgressDTO';
+
+/**
+ * A run of a job, kept in the DB after the job finished.
+ */
+export interface JobHistoryDTO {
+  id: number;
+  jobName: string;
+  trigger: string; // name of the schedule that started the run, null if it was started manually
+  config: Record<string, unknown>;
+  state: JobProgressStates;
+  steps: {
+    all: number;
+    processed: number;
+    skipped: number;
+  };
+  time: {
+    start: number;
+    end: number;
+  };
+  error: string; // stack of the error, if the job failed
+  logs?: JobProgressLogDTO[]; // only sent when a single run is requested
+}
+
+export interface JobHistoryPageDTO {
+  runs: JobHistoryDTO[];
+  total: number; // number of the runs matching the filter
+}
@@ -5,6 +5,7 @@ export enum JobProgressStates {
   canceled = 4,
   finished = 5,
   failed = 6,
+  paused = 7, // outside of the run window of the schedule
 }
 
 export interface JobProgressLogDTO {
@@ -32,4 +33,5 @@ export interface JobProgressDTO {
 
 export interface OnTimerJobProgressDTO extends JobProgressDTO {
   onTimer?: boolean; // indicates if there is an active timer set for the job
+  resumable?: boolean; // the run got interrupted and it can continue from a checkpoint
 }
@@ -1,11 +1,13 @@
 /* eslint-disable no-case-declarations */
 import {MediaPickDTO} from '../MediaPickDTO';
+import {CronExpression} from '../../CronExpression';
 
 export enum JobTriggerType {
   never = 1,
   scheduled = 2,
   periodic = 3,
   after = 4,
+  cron = 5,
 }
 
 export interface JobTrigger {
@@ -32,16 +34,44 @@ export interface AfterJobTrigger extends JobTrigger {
   afterScheduleName: string; // runs after schedule
 }
 
+export interface CronJobTrigger extends JobTrigger {
+  type: JobTriggerType.cron;
+  cron: string; // 5-field cron expression, evaluated in UTC
+}
+
+/**
+ * Scheduled jobs only progress within this time of the day, they pause outside of it.
+ */
+export interface JobRunWindow {
+  enabled: boolean;
+  start: number; // day time min value: 0, max: 23*60+59
+  end: number; // day time, the window is over midnight if it is smaller than the start
+}
+
+/**
+ * Sends the result of the job runs with a messenger.
+ */
+export interface JobNotification {
+  messenger: string; // empty if there is no notification
+  onFinished: boolean;
+  onFailed: boolean;
+  config: Record<string, string | number | boolean | string[]>; // config of the messenger
+}
+
 export interface JobScheduleDTO {
   name: string;
   jobName: string;
   config: Record<string, string | number | string[] | number[] | MediaPickDTO[]>;
   allowParallelRun: boolean;
+  runWindow: JobRunWindow;
+  resumeInterrupted: boolean; // continues the run from its checkpoint after a server restart
+  notification: JobNotification;
   trigger:
       | NeverJobTrigger
       | ScheduledJobTrigger
       | PeriodicJobTrigger
-      | AfterJobTrigger;
+      | AfterJobTrigger
+      | CronJobTrigger;
 }
 
 export const JobScheduleDTOUtils = {
@@ -104,7 +134,54 @@ export const JobScheduleDTOUtils = {
             minute,
             24 * 60 * 60 * 1000
         );
+
+      case JobTriggerType.cron:
+        if (!CronExpression.isValid(schedule.trigger.cron)) {
+          return null;
+        }
+        return CronExpression.parse(schedule.trigger.cron).next(refDate);
     }
     return null;
   },
+
+  /**
+   * Lists the upcoming runs of the schedule, e.g. for previewing a trigger
+   */
+  getNextRunningDates: (refDate: Date, schedule: JobScheduleDTO, count: number): Date[] => {
+    const dates: Date[] = [];
+    let date = JobScheduleDTOUtils.getNextRunningDate(refDate, schedule);
+    while (date && dates.length < count) {
+      dates.push(date);
+      // one time triggers do not repeat
+      if (schedule.trigger.type === JobTriggerType.scheduled) {
+        break;
+      }
+      date = JobScheduleDTOUtils.getNextRunningDate(date, schedule);
+    }
+    return dates;
+  },
+
+  isInRunWindow: (date: Date, window: JobRunWindow): boolean => {
+    if (!window || !window.enabled || window.start === window.end) {
+      return true;
+    }
+    const time = date.getUTCHours() * 60 + date.getUTCMinutes();
+    if (window.start < window.end) {
+      return window.start <= time && time < window.end;
+    }
+    // over midnight
+    return window.start <= time || time < window.end;
+  },
+
+  /**
+   * @return the next time the run window opens after the given date
+   */
+  getRunWindowStart: (date: Date, window: JobRunWindow): Date => {
+    return JobScheduleDTOUtils.nextValidDate(
+        new Date(date),
+        Math.floor(window.start / 60),
+        window.start % 60,
+        24 * 60 * 60 * 1000
+    );
+  },
 };
@@ -4,4 +4,12 @@ export interface StatisticDTO {
   videos: number;
   diskUsage: number;
   persons: number;
+  watcher?: FolderWatcherStatusDTO;
+}
+
+export interface FolderWatcherStatusDTO {
+  enabled: boolean;
+  watchedDirectories: number;
+  polledDirectories: number;
+  pendingDirectories: string[];
 }
@@ -60,9 +60,15 @@ import {DuplicatesPhotoComponent} from './ui/duplicates/photo/photo.duplicates.c
 import {SeededRandomService} from './model/seededRandom.service';
 import {FacesComponent} from './ui/faces/faces.component';
 import {FacesService} from './ui/faces/faces.service';
+import {MetadataEditService} from './ui/gallery/metadata-edit.service';
+import {VideoSpriteService} from './ui/gallery/video-sprite.service';
+import {MediaSelectionService} from './ui/gallery/grid/selection.service';
 import {FaceComponent} from './ui/faces/face/face.component';
+import {FaceClusterComponent} from './ui/faces/face-cluster/face-cluster.component';
 import {VersionService} from './model/version.service';
 import {DirectoriesComponent} from './ui/gallery/directories/directories.component';
+import {GalleryMemoriesComponent} from './ui/gallery/memories/memories.gallery.component';
+import {MemoriesService} from './ui/gallery/memories/memories.service';
 import {ControlsLightboxComponent} from './ui/gallery/lightbox/controls/controls.lightbox.gallery.component';
 import {TimepickerModule} from 'ngx-bootstrap/timepicker';
 import {TimeStampDatePickerComponent} from './ui/utils/timestamp-datepicker/datepicker.component';
@@ -81,6 +87,7 @@ import {CookieService} from 'ngx-cookie-service';
 import {LeafletMarkerClusterModule} from '@asymmetrik/ngx-leaflet-markercluster';
 import {Marker} from 'leaflet';
 import {AlbumsComponent} from './ui/albums/albums.component';
+import {AccountComponent} from './ui/account/account.component';
 import {AlbumComponent} from './ui/albums/album/album.component';
 import {AlbumsService} from './ui/albums/albums.service';
 import {GallerySearchQueryBuilderComponent} from './ui/gallery/search/query-builder/query-bulder.gallery.component';
@@ -129,9 +136,11 @@ import {
   ionCloudOutline,
   ionContractOutline,
   ionCopyOutline,
+  ionCreateOutline,
   ionDocumentOutline,
   ionDocumentTextOutline,
   ionDownloadOutline,
+  ionEyeOffOutline,
   ionExpandOutline,
   ionFileTrayFullOutline,
   ionFlagOutline,
@@ -145,6 +154,7 @@ import {
   ionImagesOutline,
   ionInformationCircleOutline,
   ionInformationOutline,
+  ionKeyOutline,
   ionLinkOutline,
   ionLocationOutline,
   ionLockClosedOutline,
@@ -155,6 +165,7 @@ import {
   ionPeopleOutline,
   ionPersonOutline,
   ionPieChartOutline,
+  ionPlayForwardOutline,
   ionPlayOutline,
   ionPricetagOutline,
   ionPulseOutline,
@@ -250,13 +261,14 @@ Marker.prototype.options.icon = MarkerFactory.defIcon;
       ionInformationCircleOutline,
       ionInformationOutline, ionContractOutline, ionExpandOutline, ionCloseOutline,
       ionTimerOutline,
-      ionPlayOutline, ionPauseOutline, ionVolumeMediumOutline, ionVolumeMuteOutline,
+      ionPlayOutline, ionPlayForwardOutline, ionPauseOutline, ionVolumeMediumOutline, ionVolumeMuteOutline,
       ionCameraOutline, ionWarningOutline, ionLockClosedOutline, ionChevronUpOutline,
       ionFlagOutline, ionGlobeOutline, ionPieChartOutline, ionStopOutline,
       ionTimeOutline, ionCheckmarkOutline, ionPulseOutline, ionResizeOutline,
       ionCloudOutline, ionChatboxOutline, ionServerOutline, ionFileTrayFullOutline, ionBrushOutline,
+      ionKeyOutline,
       ionBrowsersOutline, ionUnlinkOutline, ionSquareOutline, ionGridOutline,
-      ionAppsOutline
+      ionAppsOutline, ionCreateOutline, ionEyeOffOutline
     }),
     ClipboardModule,
     TooltipModule.forRoot(),
@@ -279,6 +291,7 @@ Marker.prototype.options.icon = MarkerFactory.defIcon;
     ShareLoginComponent,
     GalleryComponent,
     FacesComponent,
+    AccountComponent,
     // misc
     FrameComponent,
     LanguageComponent,
@@ -312,8 +325,10 @@ Marker.prototype.options.icon = MarkerFactory.defIcon;
     ControlsLightboxComponent,
     RandomQueryBuilderGalleryComponent,
     DirectoriesComponent,
+    GalleryMemoriesComponent,
     // Face
     FaceComponent,
+    FaceClusterComponent,
     // Duplicates
     DuplicateComponent,
     DuplicatesPhotoComponent,
@@ -370,6 +385,7 @@ Marker.prototype.options.icon = MarkerFactory.defIcon;
     AuthenticationService,
     ThumbnailLoaderService,
     ThumbnailManagerService,
+    MemoriesService,
     NotificationService,
     FullScreenService,
     NavigationService,
@@ -380,6 +396,9 @@ Marker.prototype.options.icon = MarkerFactory.defIcon;
     ThemeService,
     DuplicateService,
     FacesService,
+    MetadataEditService,
+    VideoSpriteService,
+    MediaSelectionService,
     VersionService,
     ScheduledJobsService,
     BackendtextService,
@@ -14,6 +14,7 @@ import { DuplicateComponent } from './ui/duplicates/duplicates.component';
 import { FacesComponent } from './ui/faces/faces.component';
 import { AuthGuard } from './model/network/helper/auth.guard';
 import { AlbumsComponent } from './ui/albums/albums.component';
+import { AccountComponent } from './ui/account/account.component';
 
 export function galleryMatcherFunction(
   segments: UrlSegment[]
@@ -78,6 +79,11 @@ const routes: Routes = [
     component: AlbumsComponent,
     canActivate: [AuthGuard],
   },
+  {
+    path: 'account',
+    component: AccountComponent,
+    canActivate: [AuthGuard],
+  },
   {
     path: 'faces',
     component: FacesComponent,
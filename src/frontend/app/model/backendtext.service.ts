@@ -46,6 +46,26 @@ export class BackendtextService {
         return $localize`Messenger`;
       case backendTexts.messenger.description:
         return $localize`Messenger to send this message with.`;
+      case backendTexts.library.name:
+        return $localize`Library`;
+      case backendTexts.library.description:
+        return $localize`Only indexes this library. Leave it empty to index the whole gallery.`;
+      case backendTexts.webhookUrl.name:
+        return $localize`Webhook URL`;
+      case backendTexts.webhookUrl.description:
+        return $localize`The message is POST-ed to this address.`;
+      case backendTexts.webhookText.name:
+        return $localize`Message`;
+      case backendTexts.webhookText.description:
+        return $localize`Text of the photo messages. It is the {{text}} in the template.`;
+      case backendTexts.webhookTemplate.name:
+        return $localize`Template`;
+      case backendTexts.webhookTemplate.description:
+        return $localize`JSON body of the request. Placeholders: {{title}}, {{subject}}, {{text}}, {{media}}, {{job}}, {{timestamp}}. A value that is only a placeholder is replaced with the raw value (like the list of photos), fields can be accessed with a dot, like {{job.state}}.`;
+      case backendTexts.webhookEmbedThumbnails.name:
+        return $localize`Embed thumbnails`;
+      case backendTexts.webhookEmbedThumbnails.description:
+        return $localize`Sends the thumbnails base64 encoded instead of their URL. The thumbnail URLs need a login, so the thumbnails are always embedded when authentication is required.`;
       default:
         return null;
     }
@@ -78,6 +98,8 @@ export class BackendtextService {
         return $localize`Delete Compressed GPX`;
       case DefaultsJobs['Top Pick Sending']:
         return $localize`Top Pick Sending`;
+      case DefaultsJobs['Face Detection']:
+        return $localize`Face detection`;
       default:
         return null;
     }
@@ -110,6 +132,8 @@ export class BackendtextService {
         return $localize`Deletes all compressed GPX files`;
       case DefaultsJobs['Top Pick Sending']:
         return $localize`Gets the top photos of the selected search queries and sends them over email. You need to set up the SMTP server connection to send e-mails.`;
+      case DefaultsJobs['Face Detection']:
+        return $localize`Detects the faces on the photos that were not processed yet, then groups the untagged faces into clusters that can be named on the faces page.`;
       default:
         return null;
     }
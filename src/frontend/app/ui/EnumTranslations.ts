@@ -82,6 +82,14 @@ EnumTranslations[SearchQueryTypes[SearchQueryTypes.min_person_count]] = $localiz
 EnumTranslations[SearchQueryTypes[SearchQueryTypes.max_person_count]] = $localize`Max faces`;
 EnumTranslations[SearchQueryTypes[SearchQueryTypes.min_resolution]] = $localize`Min resolution`;
 EnumTranslations[SearchQueryTypes[SearchQueryTypes.max_resolution]] = $localize`Max resolution`;
+EnumTranslations[SearchQueryTypes[SearchQueryTypes.min_iso]] = $localize`Min ISO`;
+EnumTranslations[SearchQueryTypes[SearchQueryTypes.max_iso]] = $localize`Max ISO`;
+EnumTranslations[SearchQueryTypes[SearchQueryTypes.min_fstop]] = $localize`Min aperture`;
+EnumTranslations[SearchQueryTypes[SearchQueryTypes.max_fstop]] = $localize`Max aperture`;
+EnumTranslations[SearchQueryTypes[SearchQueryTypes.min_focal_length]] = $localize`Min focal length`;
+EnumTranslations[SearchQueryTypes[SearchQueryTypes.max_focal_length]] = $localize`Max focal length`;
+EnumTranslations[SearchQueryTypes[SearchQueryTypes.min_exposure]] = $localize`Min exposure`;
+EnumTranslations[SearchQueryTypes[SearchQueryTypes.max_exposure]] = $localize`Max exposure`;
 EnumTranslations[SearchQueryTypes[SearchQueryTypes.directory]] = $localize`Directory`;
 EnumTranslations[SearchQueryTypes[SearchQueryTypes.file_name]] = $localize`File name`;
 EnumTranslations[SearchQueryTypes[SearchQueryTypes.caption]] = $localize`Caption`;
@@ -90,4 +98,8 @@ EnumTranslations[SearchQueryTypes[SearchQueryTypes.date_pattern]] = $localize`Da
 EnumTranslations[SearchQueryTypes[SearchQueryTypes.position]] = $localize`Position`;
 EnumTranslations[SearchQueryTypes[SearchQueryTypes.person]] = $localize`Person`;
 EnumTranslations[SearchQueryTypes[SearchQueryTypes.keyword]] = $localize`Keyword`;
+EnumTranslations[SearchQueryTypes[SearchQueryTypes.album]] = $localize`Album`;
+EnumTranslations[SearchQueryTypes[SearchQueryTypes.camera]] = $localize`Camera`;
+EnumTranslations[SearchQueryTypes[SearchQueryTypes.lens]] = $localize`Lens`;
+EnumTranslations[SearchQueryTypes[SearchQueryTypes.library]] = $localize`Library`;
 
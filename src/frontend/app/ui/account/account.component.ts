@@ -0,0 +1,99 @@
+import {Component, OnInit} from '@angular/core';
+import {UserRoles} from '../../../../common/entities/UserDTO';
+import {AuthenticationService} from '../../model/network/authentication.service';
+import {NavigationService} from '../../model/navigation.service';
+import {NotificationService} from '../../model/notification.service';
+import {Utils} from '../../../../common/Utils';
+import {ErrorDTO} from '../../../../common/entities/Error';
+import {ApiTokenDTO} from '../../../../common/entities/ApiTokenDTO';
+import {AccountService} from './account.service';
+import {PiTitleService} from '../../model/pi-title.service';
+
+@Component({
+  selector: 'app-account',
+  templateUrl: './account.component.html',
+  styleUrls: ['./account.component.css'],
+})
+export class AccountComponent implements OnInit {
+  public tokens: ApiTokenDTO[] = [];
+  public userRoles: { key: number; value: string }[] = [];
+  public newToken = {
+    name: '',
+    role: UserRoles.User,
+    expires: null as string // yyyy-mm-dd from the date input
+  };
+  // the plain token is only available right after creation
+  public createdToken: ApiTokenDTO = null;
+  public inProgress = false;
+
+  constructor(
+      private authService: AuthenticationService,
+      private navigation: NavigationService,
+      private accountService: AccountService,
+      private notification: NotificationService,
+      private piTitleService: PiTitleService
+  ) {
+  }
+
+  ngOnInit(): void {
+    if (
+        !this.authService.isAuthenticated() ||
+        this.authService.user.value.role <= UserRoles.LimitedGuest
+    ) {
+      this.navigation.toLogin();
+      return;
+    }
+    this.piTitleService.setTitle($localize`Account`);
+    this.userRoles = Utils.enumToArray(UserRoles)
+        .filter((r) => r.key !== UserRoles.LimitedGuest)
+        .filter((r) => r.key <= this.authService.user.value.role)
+        .sort((a, b) => a.key - b.key);
+    this.newToken.role = this.authService.user.value.role;
+    this.getTokens().catch(console.error);
+  }
+
+  get UserName(): string {
+    return this.authService.user.value?.name;
+  }
+
+  async createToken(): Promise<void> {
+    this.inProgress = true;
+    try {
+      this.createdToken = await this.accountService.createApiToken({
+        name: this.newToken.name,
+        role: parseInt('' + this.newToken.role, 10),
+        // valid until the end of the selected day
+        expires: this.newToken.expires ?
+            new Date(this.newToken.expires + 'T23:59:59').getTime() : undefined
+      });
+      this.newToken.name = '';
+      this.newToken.expires = null;
+      await this.getTokens();
+    } catch (e) {
+      const err: ErrorDTO = e;
+      this.notification.error(err.message, $localize`Can't create API token`);
+    }
+    this.inProgress = false;
+  }
+
+  async deleteToken(token: ApiTokenDTO): Promise<void> {
+    await this.accountService.deleteApiToken(token);
+    if (this.createdToken?.id === token.id) {
+      this.createdToken = null;
+    }
+    await this.getTokens();
+  }
+
+  isExpired(token: ApiTokenDTO): boolean {
+    return !!token.expires && token.expires < Date.now();
+  }
+
+  private async getTokens(): Promise<void> {
+    try {
+      this.tokens = await this.accountService.getApiTokens();
+    } catch (err) {
+      this.tokens = [];
+      throw err;
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import {Injectable} from '@angular/core';
+import {NetworkService} from '../../model/network/network.service';
+import {ApiTokenDTO, CreateApiTokenDTO} from '../../../../common/entities/ApiTokenDTO';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class AccountService {
+
+  constructor(private networkService: NetworkService) {
+  }
+
+  public getApiTokens(): Promise<ApiTokenDTO[]> {
+    return this.networkService.getJson('/user/token/list');
+  }
+
+  public createApiToken(newToken: CreateApiTokenDTO): Promise<ApiTokenDTO> {
+    return this.networkService.putJson('/user/token', {newToken});
+  }
+
+  public deleteApiToken(token: ApiTokenDTO): Promise<void> {
+    return this.networkService.deleteJson('/user/token/' + token.id);
+  }
+}
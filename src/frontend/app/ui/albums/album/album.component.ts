@@ -9,6 +9,7 @@ import {Media} from '../../gallery/Media';
 import {SavedSearchDTO} from '../../../../../common/entities/album/SavedSearchDTO';
 import {UserRoles} from '../../../../../common/entities/UserDTO';
 import {Config} from '../../../../../common/config/public/Config';
+import {SearchQueryTypes, TextSearch, TextSearchQueryMatchTypes} from '../../../../../common/entities/SearchQueryDTO';
 
 @Component({
   selector: 'app-album',
@@ -47,8 +48,11 @@ export class AlbumComponent implements OnInit, OnDestroy {
     if (this.IsSavedSearch) {
       return ['/search', JSON.stringify(this.AsSavedSearch.searchQuery)];
     }
-    // TODO: add "normal" albums here once they are ready, see: https://github.com/bpatrik/pigallery2/issues/301
-    return null;
+    return ['/search', JSON.stringify({
+      type: SearchQueryTypes.album,
+      text: this.album.name,
+      matchType: TextSearchQueryMatchTypes.exact_match
+    } as TextSearch)];
   }
 
   ngOnInit(): void {
@@ -3,6 +3,8 @@ import {NetworkService} from '../../model/network/network.service';
 import {BehaviorSubject} from 'rxjs';
 import {AlbumBaseDTO} from '../../../../common/entities/album/AlbumBaseDTO';
 import {SearchQueryDTO} from '../../../../common/entities/SearchQueryDTO';
+import {ManualAlbumDTO} from '../../../../common/entities/album/ManualAlbumDTO';
+import {MediaDTO} from '../../../../common/entities/MediaDTO';
 
 @Injectable()
 export class AlbumsService {
@@ -35,4 +37,26 @@ export class AlbumsService {
     });
     await this.getAlbums();
   }
+
+  async addManualAlbum(
+      name: string,
+      media: MediaDTO[] = []
+  ): Promise<ManualAlbumDTO> {
+    const album = await this.networkService.putJson<ManualAlbumDTO>('/albums/manual', {
+      name,
+      mediaIds: media.map((m) => m.id),
+    });
+    await this.getAlbums();
+    return album;
+  }
+
+  async addMediaToAlbum(
+      album: ManualAlbumDTO,
+      media: MediaDTO[]
+  ): Promise<void> {
+    await this.networkService.putJson('/albums/' + album.id + '/media', {
+      mediaIds: media.map((m) => m.id),
+    });
+    await this.getAlbums();
+  }
 }
@@ -130,6 +130,11 @@ export class DuplicateComponent implements OnDestroy, OnInit {
     return Utils.concatUrls(directory.path, directory.name);
   }
 
+  getMediaName(duplicate: DuplicatesDTO, mediaId: number): string {
+    const media = duplicate.media.find((m): boolean => m.id === mediaId);
+    return media ? Utils.concatUrls(this.getDirectoryPath(media.directory), media.name) : '';
+  }
+
   renderMore = (): void => {
     if (this.renderTimer !== null) {
       clearTimeout(this.renderTimer);
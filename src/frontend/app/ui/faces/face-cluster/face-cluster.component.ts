@@ -0,0 +1,49 @@
+import {Component, Input} from '@angular/core';
+import {FaceClusterDTO} from '../../../../../common/entities/FaceClusterDTO';
+import {FacesService} from '../faces.service';
+import {Config} from '../../../../../common/config/public/Config';
+import {Utils} from '../../../../../common/Utils';
+import {NotificationService} from '../../../model/notification.service';
+
+@Component({
+  selector: 'app-face-cluster',
+  templateUrl: './face-cluster.component.html',
+  styleUrls: ['./face-cluster.component.css'],
+})
+export class FaceClusterComponent {
+  @Input() cluster: FaceClusterDTO;
+  @Input() size: number;
+
+  public name = '';
+  public saving = false;
+
+  constructor(
+      private faceService: FacesService,
+      private notification: NotificationService
+  ) {
+  }
+
+  get ThumbnailUrl(): string {
+    return Utils.concatUrls(
+        Config.Server.urlBase,
+        Config.Server.apiPath + '/faces/detected/',
+        this.cluster.sampleFaceId.toString(),
+        '/thumbnail'
+    );
+  }
+
+  async save(): Promise<void> {
+    if (this.name.trim() === '') {
+      return;
+    }
+    this.saving = true;
+    try {
+      await this.faceService.nameCluster(this.cluster, this.name.trim());
+    } catch (err) {
+      console.error(err);
+      this.notification.error(err.message, $localize`Could not name the faces`);
+    } finally {
+      this.saving = false;
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import {Component, Input, OnDestroy, OnInit} from '@angular/core';
+import {Component, EventEmitter, Input, OnDestroy, OnInit, Output} from '@angular/core';
 import {RouterLink} from '@angular/router';
 import {PersonDTO} from '../../../../../common/entities/PersonDTO';
 import {DomSanitizer, SafeStyle} from '@angular/platform-browser';
@@ -17,6 +17,7 @@ import {SearchQueryTypes, TextSearch, TextSearchQueryMatchTypes,} from '../../..
 export class FaceComponent implements OnInit, OnDestroy {
   @Input() person: PersonDTO;
   @Input() size: number;
+  @Output() edit = new EventEmitter<PersonDTO>();
 
   public thumbnail: PersonThumbnail = null;
   public searchQueryDTOstr: string;
@@ -68,5 +69,11 @@ export class FaceComponent implements OnInit, OnDestroy {
         .setFavourite(this.person, !this.person.isFavourite)
         .catch(console.error);
   }
+
+  onEdit($event: MouseEvent): void {
+    $event.preventDefault();
+    $event.stopPropagation();
+    this.edit.emit(this.person);
+  }
 }
 
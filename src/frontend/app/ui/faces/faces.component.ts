@@ -1,10 +1,15 @@
-import {Component, ElementRef, OnInit, ViewChild} from '@angular/core';
+import {Component, ElementRef, OnInit, TemplateRef, ViewChild} from '@angular/core';
 import {FacesService} from './faces.service';
 import {QueryService} from '../../model/query.service';
 import {map} from 'rxjs/operators';
 import {PersonDTO} from '../../../../common/entities/PersonDTO';
 import {Observable} from 'rxjs';
 import {PiTitleService} from '../../model/pi-title.service';
+import {AuthenticationService} from '../../model/network/authentication.service';
+import {UserRoles} from '../../../../common/entities/UserDTO';
+import {BsModalService} from 'ngx-bootstrap/modal';
+import {BsModalRef} from 'ngx-bootstrap/modal/bs-modal-ref.service';
+import {NotificationService} from '../../model/notification.service';
 
 @Component({
   selector: 'app-faces',
@@ -16,22 +21,43 @@ export class FacesComponent implements OnInit {
   public size: number;
   favourites: Observable<PersonDTO[]>;
   nonFavourites: Observable<PersonDTO[]>;
+  hidden: Observable<PersonDTO[]>;
+  modalRef: BsModalRef;
+  editing: {
+    person: PersonDTO,
+    name: string,
+    isHidden: boolean,
+    merge: PersonDTO[]
+  } = null;
 
   constructor(
       public facesService: FacesService,
       public queryService: QueryService,
-      private piTitleService: PiTitleService
+      private piTitleService: PiTitleService,
+      private authService: AuthenticationService,
+      private modalService: BsModalService,
+      private notification: NotificationService
   ) {
     this.facesService.getPersons().catch(console.error);
+    if (this.CanNameFaces) {
+      this.facesService.getClusters().catch(console.error);
+    }
     const personCmp = (p1: PersonDTO, p2: PersonDTO) => {
       return p1.name.localeCompare(p2.name);
     };
     this.favourites = this.facesService.persons.pipe(
-        map((value) => value.filter((p) => p.isFavourite).sort(personCmp))
+        map((value) => value.filter((p) => p.isFavourite && !p.isHidden).sort(personCmp))
     );
     this.nonFavourites = this.facesService.persons.pipe(
-        map((value) => value.filter((p) => !p.isFavourite).sort(personCmp))
+        map((value) => value.filter((p) => !p.isFavourite && !p.isHidden).sort(personCmp))
     );
+    this.hidden = this.facesService.persons.pipe(
+        map((value) => value.filter((p) => p.isHidden).sort(personCmp))
+    );
+  }
+
+  get CanNameFaces(): boolean {
+    return this.authService.isAuthorized(UserRoles.Admin);
   }
 
   ngOnInit(): void {
@@ -39,6 +65,38 @@ export class FacesComponent implements OnInit {
     this.updateSize();
   }
 
+  get OtherPersons(): PersonDTO[] {
+    return this.facesService.persons.getValue()
+        .filter((p) => p.id !== this.editing?.person.id);
+  }
+
+  public openEditModal(template: TemplateRef<unknown>, person: PersonDTO): void {
+    this.editing = {person, name: person.name, isHidden: !!person.isHidden, merge: []};
+    this.modalRef = this.modalService.show(template);
+  }
+
+  public hideModal(): void {
+    this.modalRef.hide();
+    this.modalRef = null;
+    this.editing = null;
+  }
+
+  public async saveEditing(): Promise<void> {
+    const {person, name, isHidden, merge} = this.editing;
+    try {
+      if (merge.length > 0) {
+        await this.facesService.mergePersons(person, merge);
+      }
+      if (name.trim() !== person.name || isHidden !== !!person.isHidden) {
+        await this.facesService.updatePerson(person, {name: name.trim(), isHidden});
+      }
+      this.hideModal();
+    } catch (err) {
+      console.error(err);
+      this.notification.error(err.message, $localize`Could not update the person`);
+    }
+  }
+
   private updateSize(): void {
     const size = 220 + 5;
     // body - container margin
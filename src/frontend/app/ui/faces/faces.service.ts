@@ -2,13 +2,16 @@ import {Injectable} from '@angular/core';
 import {NetworkService} from '../../model/network/network.service';
 import {BehaviorSubject} from 'rxjs';
 import {PersonDTO} from '../../../../common/entities/PersonDTO';
+import {FaceClusterDTO} from '../../../../common/entities/FaceClusterDTO';
 
 @Injectable()
 export class FacesService {
   public persons: BehaviorSubject<PersonDTO[]>;
+  public clusters: BehaviorSubject<FaceClusterDTO[]>;
 
   constructor(private networkService: NetworkService) {
     this.persons = new BehaviorSubject<PersonDTO[]>([]);
+    this.clusters = new BehaviorSubject<FaceClusterDTO[]>([]);
   }
 
   public async setFavourite(
@@ -29,6 +32,42 @@ export class FacesService {
     }
   }
 
+  /**
+   * Renames or hides the person. Renaming to the name of another person merges them.
+   */
+  public async updatePerson(
+      person: PersonDTO,
+      update: Partial<PersonDTO>
+  ): Promise<void> {
+    await this.networkService.postJson<PersonDTO>(
+        '/person/' + encodeURIComponent(person.name),
+        update
+    );
+    await this.getPersons();
+  }
+
+  public async mergePersons(
+      target: PersonDTO,
+      persons: PersonDTO[]
+  ): Promise<void> {
+    await this.networkService.postJson<PersonDTO>(
+        '/person/' + encodeURIComponent(target.name) + '/merge',
+        {persons: persons.map((p) => p.name)}
+    );
+    await this.getPersons();
+  }
+
+  /**
+   * @param mediaPath relative path of the photo to use for the thumbnail of the person,
+   * null for the automatic choice
+   */
+  public async setCover(name: string, mediaPath: string): Promise<void> {
+    await this.networkService.postJson<PersonDTO>(
+        '/person/' + encodeURIComponent(name) + '/cover',
+        {mediaPath}
+    );
+  }
+
   public async getPersons(): Promise<void> {
     this.persons.next(
         (await this.networkService.getJson<PersonDTO[]>('/person')).sort(
@@ -36,4 +75,22 @@ export class FacesService {
         )
     );
   }
+
+  /**
+   * Groups of detected, but not yet named faces
+   */
+  public async getClusters(): Promise<void> {
+    this.clusters.next(
+        await this.networkService.getJson<FaceClusterDTO[]>('/faces/cluster')
+    );
+  }
+
+  public async nameCluster(cluster: FaceClusterDTO, name: string): Promise<void> {
+    await this.networkService.postJson<PersonDTO>(
+        '/faces/cluster/' + cluster.id,
+        {name}
+    );
+    this.clusters.next(this.clusters.getValue().filter((c) => c.id !== cluster.id));
+    await this.getPersons();
+  }
 }
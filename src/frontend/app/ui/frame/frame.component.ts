@@ -68,6 +68,12 @@ export class FrameComponent {
     return this.user.value && this.user.value.role >= UserRoles.Admin;
   }
 
+  canManageAccount(): boolean {
+    // sharing users do not have an account
+    return this.authenticationRequired &&
+        this.user.value && this.user.value.role > UserRoles.LimitedGuest;
+  }
+
   isFacesAvailable(): boolean {
     return (
         Config.Faces.enabled &&
@@ -110,6 +110,27 @@ export class MediaIcon {
     return Utils.concatUrls(this.getOriginalMediaPath(), '/bestFit');
   }
 
+  /**
+   * WebVTT thumbnails track of the video, it references the sprite sheet
+   */
+  getSpriteTrackPath(): string {
+    return Utils.concatUrls(this.getOriginalMediaPath(), '/sprite.vtt');
+  }
+
+  /**
+   * Master playlist of the adaptive (HLS) stream
+   */
+  getHLSPlaylistPath(): string {
+    return Utils.concatUrls(this.getOriginalMediaPath(), '/hls/master.m3u8');
+  }
+
+  /**
+   * Video part of a Live Photo or a Motion Photo
+   */
+  getMotionVideoPath(): string {
+    return Utils.concatUrls(this.getOriginalMediaPath(), '/motion');
+  }
+
   equals(other: MediaDTO | MediaIcon): boolean {
     // is gridphoto
     if (other instanceof MediaIcon) {
@@ -131,6 +131,28 @@ export class ContentLoaderService {
     this.setContent(cw);
   }
 
+  /**
+   * Loads the media of a search query or media list based sharing.
+   */
+  public async loadSharedContent(sharingKey: string): Promise<void> {
+    this.setContent(new ContentWrapperWithError());
+    let cw: ContentWrapperWithError;
+    try {
+      cw = await this.networkService.getJson<ContentWrapperWithError>(
+          '/share/' + sharingKey + '/content'
+      );
+    } catch (e) {
+      console.error(e);
+      cw = {
+        directory: null,
+        searchResult: null,
+        error: $localize`Unknown server error` + ': ' + e.message
+      };
+    }
+    ContentWrapper.unpack(cw);
+    this.setContent(cw);
+  }
+
   isSearchResult(): boolean {
     return !!this.content.value.searchResult;
   }
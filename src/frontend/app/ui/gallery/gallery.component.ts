@@ -31,6 +31,8 @@ export class GalleryComponent implements OnInit, OnDestroy {
   public showSearchBar = false;
   public showShare = false;
   public showRandomPhotoBuilder = false;
+  public showMemories = false;
+  public isRoot = false;
   public blogOpen = Config.Gallery.TopBlogStartsOpen;
 
   config = Config;
@@ -128,6 +130,10 @@ export class GalleryComponent implements OnInit, OnDestroy {
     this.showRandomPhotoBuilder =
       Config.RandomPhoto.enabled &&
       this.authService.isAuthorized(UserRoles.User);
+    this.showMemories =
+      Config.Gallery.Memories.enabled &&
+      !this.shareService.isSharing() &&
+      this.authService.isAuthorized(UserRoles.Guest);
     this.subscription.content = this.galleryService.sortedFilteredContent
       .subscribe((dc: GroupedDirectoryContent) => {
         this.onContentChange(dc);
@@ -143,6 +149,7 @@ export class GalleryComponent implements OnInit, OnDestroy {
   }
 
   private onRoute = async (params: Params): Promise<void> => {
+    this.isRoot = false;
     const searchQuery = params[QueryParams.gallery.search.query];
     if (searchQuery) {
       this.contentLoader.search(searchQuery).catch(console.error);
@@ -157,6 +164,10 @@ export class GalleryComponent implements OnInit, OnDestroy {
       const sharing = await this.shareService.currentSharing
         .pipe(take(1))
         .toPromise();
+      if (sharing.searchQuery || sharing.media) {
+        this.contentLoader.loadSharedContent(sharing.sharingKey).catch(console.error);
+        return;
+      }
       const qParams: { [key: string]: any } = {};
       qParams[QueryParams.gallery.sharingKey_query] =
         this.shareService.getSharingKey();
@@ -168,6 +179,7 @@ export class GalleryComponent implements OnInit, OnDestroy {
 
     let directoryName = params[QueryParams.gallery.directory];
     directoryName = directoryName || '';
+    this.isRoot = directoryName === '';
 
     this.piTitleService.setDirectoryTitle(directoryName);
     this.contentLoader.loadDirectory(directoryName);
@@ -29,6 +29,10 @@ export class GridMedia extends Media {
     return MediaDTOUtils.isVideo(this.media);
   }
 
+  isMotionPhoto(): boolean {
+    return this.isPhoto() && this.Photo.motion === true;
+  }
+
   public isVideoTranscodingNeeded(): boolean {
     return MediaDTOUtils.isVideoTranscodingNeeded(this.media);
   }
@@ -13,6 +13,7 @@ import {PhotoDTO} from '../../../../../common/entities/PhotoDTO';
 import {GridMedia} from './GridMedia';
 import {GalleryNavigatorService} from '../navigator/navigator.service';
 import {GridSizes} from '../../../../../common/entities/GridSizes';
+import {MediaSelectionService} from './selection.service';
 
 class MockQueryService {
 }
@@ -30,6 +31,10 @@ class MockGalleryNavigatorService {
   girdSize = new BehaviorSubject(GridSizes.medium);
 }
 
+class MockMediaSelectionService {
+  selecting = new BehaviorSubject(false);
+}
+
 describe('GalleryGridComponent', () => {
   let component: GalleryGridComponent;
   let fixture: ComponentFixture<GalleryGridComponent>;
@@ -45,6 +50,7 @@ describe('GalleryGridComponent', () => {
         {provide: OverlayService, useClass: MockOverlayService},
         {provide: GallerySortingService, useClass: MockGallerySortingService},
         {provide: GalleryNavigatorService, useClass: MockGalleryNavigatorService},
+        {provide: MediaSelectionService, useClass: MockMediaSelectionService},
         {provide: OverlayService, useClass: MockOverlayService},
         {
           provide: ActivatedRoute,
@@ -28,6 +28,7 @@ import {GallerySortingService, MediaGroup} from '../navigator/sorting.service';
 import {GroupByTypes} from '../../../../../common/entities/SortingMethods';
 import {GalleryNavigatorService} from '../navigator/navigator.service';
 import {GridSizes} from '../../../../../common/entities/GridSizes';
+import {MediaSelectionService} from './selection.service';
 
 @Component({
   selector: 'app-gallery-grid',
@@ -71,6 +72,7 @@ export class GalleryGridComponent
     private router: Router,
     public sortingService: GallerySortingService,
     public navigatorService: GalleryNavigatorService,
+    public selectionService: MediaSelectionService,
     private route: ActivatedRoute
   ) {
   }
@@ -191,6 +193,10 @@ export class GalleryGridComponent
   }
 
   photoClicked(media: MediaDTO): void {
+    if (this.selectionService.selecting.value) {
+      this.selectionService.toggle(media);
+      return;
+    }
     this.router.navigate([], {
       queryParams: this.queryService.getParams({media}),
     });
@@ -8,6 +8,7 @@ import {PageHelper} from '../../../../model/page.helper';
 import {PhotoDTO, PhotoMetadata,} from '../../../../../../common/entities/PhotoDTO';
 import {SearchQueryTypes, TextSearch, TextSearchQueryMatchTypes,} from '../../../../../../common/entities/SearchQueryDTO';
 import {AuthenticationService} from '../../../../model/network/authentication.service';
+import {VideoSprite, VideoSpriteService} from '../../video-sprite.service';
 
 @Component({
   selector: 'app-gallery-grid-photo',
@@ -17,6 +18,8 @@ import {AuthenticationService} from '../../../../model/network/authentication.se
 })
 export class GalleryPhotoComponent implements IRenderable, OnInit, OnDestroy {
   @Input() gridMedia: GridMedia;
+  @Input() selectable = false;
+  @Input() selected = false;
   @ViewChild('img', {static: false}) imageRef: ElementRef;
   @ViewChild('photoContainer', {static: true}) container: ElementRef;
 
@@ -31,9 +34,16 @@ export class GalleryPhotoComponent implements IRenderable, OnInit, OnDestroy {
   wasInView: boolean = null;
   loaded = false;
 
+  // frame of the video under the mouse
+  scrubPreview: { style: Record<string, string>; progress: number } = null;
+  private scrubPosition: number = null; // 0-1
+  private sprite: VideoSprite = null;
+  private spriteRequested = false;
+
   constructor(
       private thumbnailService: ThumbnailManagerService,
-      private authService: AuthenticationService
+      private authService: AuthenticationService,
+      private videoSpriteService: VideoSpriteService
   ) {
     this.searchEnabled = this.authService.canSearch();
   }
@@ -162,6 +172,50 @@ export class GalleryPhotoComponent implements IRenderable, OnInit, OnDestroy {
     }, 500);
   }
 
+  scrub(event: MouseEvent): void {
+    if (!this.videoSpriteService.isAvailable(this.gridMedia.media)) {
+      return;
+    }
+    const rect = this.container.nativeElement.getBoundingClientRect();
+    this.scrubPosition = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    if (!this.sprite) {
+      if (!this.spriteRequested) {
+        this.spriteRequested = true;
+        this.videoSpriteService.getSprite(this.gridMedia.media)
+            .then((sprite): void => {
+              this.sprite = sprite;
+              this.updateScrubPreview();
+            })
+            .catch(console.error);
+      }
+      return;
+    }
+    this.updateScrubPreview();
+  }
+
+  stopScrub(): void {
+    this.scrubPosition = null;
+    this.scrubPreview = null;
+  }
+
+  private updateScrubPreview(): void {
+    if (this.scrubPosition === null || !this.sprite) {
+      return;
+    }
+    const frame = VideoSpriteService.getFrame(
+        this.sprite,
+        this.scrubPosition * this.gridMedia.Video.metadata.duration / 1000
+    );
+    if (!frame) {
+      return;
+    }
+    const container = this.container.nativeElement;
+    this.scrubPreview = {
+      style: VideoSpriteService.getFrameStyle(this.sprite, frame, container.clientWidth, container.clientHeight),
+      progress: this.scrubPosition * 100
+    };
+  }
+
   public getDimension(): Dimension {
     if (!this.imageRef) {
       return {
@@ -0,0 +1,44 @@
+import {Injectable} from '@angular/core';
+import {BehaviorSubject} from 'rxjs';
+import {MediaDTO} from '../../../../../common/entities/MediaDTO';
+import {ContentLoaderService} from '../contentLoader.service';
+
+/**
+ * Keeps track of the media selected in the grid (e.g.: for adding them to an album).
+ * While selecting, clicking on a photo selects it instead of opening the lightbox.
+ */
+@Injectable()
+export class MediaSelectionService {
+  public selecting = new BehaviorSubject<boolean>(false);
+  public selected = new BehaviorSubject<MediaDTO[]>([]);
+
+  constructor(private contentLoaderService: ContentLoaderService) {
+    // selection does not survive navigation
+    this.contentLoaderService.content.subscribe(() => this.stopSelecting());
+  }
+
+  public startSelecting(): void {
+    this.selected.next([]);
+    this.selecting.next(true);
+  }
+
+  public stopSelecting(): void {
+    if (!this.selecting.value && this.selected.value.length === 0) {
+      return;
+    }
+    this.selected.next([]);
+    this.selecting.next(false);
+  }
+
+  public isSelected(media: MediaDTO): boolean {
+    return this.selected.value.indexOf(media) !== -1;
+  }
+
+  public toggle(media: MediaDTO): void {
+    if (this.isSelected(media)) {
+      this.selected.next(this.selected.value.filter((m) => m !== media));
+    } else {
+      this.selected.next([...this.selected.value, media]);
+    }
+  }
+}
@@ -15,6 +15,10 @@ import {Utils} from '../../../../../../common/Utils';
 import {FileSizePipe} from '../../../../pipes/FileSizePipe';
 import {DatePipe} from '@angular/common';
 import {LightBoxTitleTexts} from '../../../../../../common/config/public/ClientConfig';
+import {VideoSprite, VideoSpriteService} from '../../video-sprite.service';
+import {VideoDTO} from '../../../../../../common/entities/VideoDTO';
+import {FacesService} from '../../../faces/faces.service';
+import {NotificationService} from '../../../../model/notification.service';
 
 
 @Component({
@@ -43,6 +47,7 @@ export class ControlsLightboxComponent implements OnDestroy, OnInit, OnChanges {
   @Input() slideShowRunning: boolean;
 
   public readonly facesEnabled = Config.Faces.enabled;
+  public readonly canSetPersonCover: boolean;
 
   public zoom = 1;
   public playBackDurations = [1, 2, 5, 10, 15, 20, 30, 60];
@@ -54,7 +59,15 @@ export class ControlsLightboxComponent implements OnDestroy, OnInit, OnChanges {
   public SearchQueryTypes = SearchQueryTypes;
   public faceContainerDim = {width: 0, height: 0};
   public searchEnabled: boolean;
-
+  public seekPreview: {
+    style: Record<string, string>;
+    width: number;
+    height: number;
+    left: number;
+    time: number; // in milliseconds
+  } = null;
+
+  private seekPreviewVisible = false;
   private visibilityTimer: number = null;
   private timerSub: Subscription;
   private prevDrag = {x: 0, y: 0};
@@ -66,9 +79,13 @@ export class ControlsLightboxComponent implements OnDestroy, OnInit, OnChanges {
     private authService: AuthenticationService,
     private cacheService: GalleryCacheService,
     private fileSizePipe: FileSizePipe,
-    private datePipe: DatePipe
+    private datePipe: DatePipe,
+    private videoSpriteService: VideoSpriteService,
+    private facesService: FacesService,
+    private notification: NotificationService
   ) {
     this.searchEnabled = this.authService.canSearch();
+    this.canSetPersonCover = this.authService.isAuthorized(Config.Faces.writeAccessMinRole);
   }
 
 
@@ -122,11 +139,51 @@ export class ControlsLightboxComponent implements OnDestroy, OnInit, OnChanges {
 
   ngOnChanges(): void {
     this.updateFaceContainerDim();
+    this.hideSeekPreview();
     if (this.slideShowRunning) {
       this.runSlideShow();
     }
   }
 
+  async showSeekPreview(event: MouseEvent): Promise<void> {
+    const media = this.activePhoto?.gridMedia.media;
+    if (!this.videoSpriteService.isAvailable(media)) {
+      return;
+    }
+    this.seekPreviewVisible = true;
+    const range = event.target as HTMLElement;
+    let sprite: VideoSprite;
+    try {
+      sprite = await this.videoSpriteService.getSprite(media);
+    } catch (e) {
+      return;
+    }
+    // the mouse left or the media changed while loading
+    if (!this.seekPreviewVisible || media !== this.activePhoto?.gridMedia.media) {
+      return;
+    }
+    const rect = range.getBoundingClientRect();
+    const position = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    const time = position * (media as VideoDTO).metadata.duration / 1000;
+    const frame = VideoSpriteService.getFrame(sprite, time);
+    if (!frame) {
+      return;
+    }
+    const parentRect = range.parentElement.getBoundingClientRect();
+    this.seekPreview = {
+      style: VideoSpriteService.getFrameStyle(sprite, frame, frame.width, frame.height),
+      width: frame.width,
+      height: frame.height,
+      left: Math.min(parentRect.width - frame.width, Math.max(0, event.clientX - parentRect.left - frame.width / 2)),
+      time: time * 1000
+    };
+  }
+
+  hideSeekPreview(): void {
+    this.seekPreviewVisible = false;
+    this.seekPreview = null;
+  }
+
   pan($event: { deltaY: number; deltaX: number; isFinal: boolean }): void {
     if (!this.activePhoto || this.activePhoto.gridMedia.isVideo()) {
       return;
@@ -384,6 +441,18 @@ export class ControlsLightboxComponent implements OnDestroy, OnInit, OnChanges {
     this.closed.emit();
   }
 
+  async setPersonCover(event: MouseEvent, name: string): Promise<void> {
+    event.preventDefault();
+    event.stopPropagation();
+    try {
+      await this.facesService.setCover(name, this.activePhoto.gridMedia.getReadableRelativePath());
+      this.notification.success($localize`This photo is the thumbnail of` + ' ' + name);
+    } catch (err) {
+      console.error(err);
+      this.notification.error(err.message, $localize`Could not set the thumbnail of` + ' ' + name);
+    }
+  }
+
   getPersonSearchQuery(name: string): string {
     return JSON.stringify({
       type: SearchQueryTypes.person,
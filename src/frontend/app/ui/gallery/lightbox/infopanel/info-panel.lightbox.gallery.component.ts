@@ -1,7 +1,7 @@
 import {Component, EventEmitter, Input, OnChanges, OnInit, Output,} from '@angular/core';
 import {CameraMetadata, PhotoDTO, PhotoMetadata, PositionMetaData,} from '../../../../../../common/entities/PhotoDTO';
 import {Config} from '../../../../../../common/config/public/Config';
-import {MediaDTO, MediaDTOUtils,} from '../../../../../../common/entities/MediaDTO';
+import {MediaDTO, MediaDTOUtils, RatingTypes,} from '../../../../../../common/entities/MediaDTO';
 import {VideoDTO, VideoMetadata,} from '../../../../../../common/entities/VideoDTO';
 import {Utils} from '../../../../../../common/Utils';
 import {QueryService} from '../../../../model/query.service';
@@ -11,6 +11,11 @@ import {AuthenticationService} from '../../../../model/network/authentication.se
 import {LatLngLiteral, marker, Marker, TileLayer, tileLayer} from 'leaflet';
 import {ThemeService} from '../../../../model/theme.service';
 import {ContentLoaderService} from '../../contentLoader.service';
+import {MetadataEditService} from '../../metadata-edit.service';
+import {NotificationService} from '../../../../model/notification.service';
+import {ErrorDTO} from '../../../../../../common/entities/Error';
+import {MediaMetadataEditDTO} from '../../../../../../common/entities/MediaMetadataEditDTO';
+import {MediaIcon} from '../../MediaIcon';
 
 @Component({
   selector: 'app-info-panel',
@@ -29,12 +34,18 @@ export class InfoPanelLightboxComponent implements OnInit, OnChanges {
   public baseLayer: TileLayer;
   public markerLayer: Marker[] = [];
 
+  public editing = false;
+  public saving = false;
+  public editModel = {title: '', caption: '', keywords: ''};
+
   constructor(
       public queryService: QueryService,
       public contentLoaderService: ContentLoaderService,
       public mapService: MapService,
       private authService: AuthenticationService,
-      private themeService: ThemeService
+      private themeService: ThemeService,
+      private metadataEditService: MetadataEditService,
+      private notification: NotificationService
   ) {
     this.mapEnabled = Config.Map.enabled;
     this.searchEnabled = this.authService.canSearch();
@@ -86,6 +97,10 @@ export class InfoPanelLightboxComponent implements OnInit, OnChanges {
     return (this.media as PhotoDTO).metadata.rating;
   }
 
+  get CanEdit(): boolean {
+    return this.metadataEditService.canEdit(this.media);
+  }
+
   get PositionData(): PositionMetaData {
     return (this.media as PhotoDTO).metadata.positionData;
   }
@@ -94,7 +109,12 @@ export class InfoPanelLightboxComponent implements OnInit, OnChanges {
     return (this.media as PhotoDTO).metadata.cameraData;
   }
 
+  getAlternatePath(name: string): string {
+    return new MediaIcon({...this.media, name}).getOriginalMediaPath();
+  }
+
   ngOnChanges(): void {
+    this.editing = false;
     if (this.hasGPS()) {
       this.markerLayer = [
         marker({
@@ -106,7 +126,12 @@ export class InfoPanelLightboxComponent implements OnInit, OnChanges {
   }
 
   ngOnInit(): void {
+    this.updateKeywords();
+  }
+
+  private updateKeywords(): void {
     const metadata = this.media.metadata as PhotoMetadata;
+    this.keywords = null;
     if (
         (metadata.keywords && metadata.keywords.length > 0) ||
         (metadata.faces && metadata.faces.length > 0)
@@ -194,6 +219,53 @@ export class InfoPanelLightboxComponent implements OnInit, OnChanges {
     this.closed.emit();
   }
 
+  startEditing(): void {
+    this.editModel = {
+      title: this.media.metadata.title || '',
+      caption: this.media.metadata.caption || '',
+      keywords: (this.media.metadata.keywords || []).join(', ')
+    };
+    this.editing = true;
+  }
+
+  cancelEditing(): void {
+    this.editing = false;
+  }
+
+  async saveEdit(): Promise<void> {
+    const saved = await this.updateMetadata({
+      title: this.editModel.title,
+      caption: this.editModel.caption,
+      keywords: this.editModel.keywords.split(',').map(k => k.trim()).filter(k => !!k)
+    });
+    if (saved) {
+      this.editing = false;
+    }
+  }
+
+  async setRating(rating: number): Promise<void> {
+    // clicking on the current rating removes it
+    await this.updateMetadata({rating: (rating === this.Rating ? 0 : rating) as RatingTypes});
+  }
+
+  private async updateMetadata(edit: MediaMetadataEditDTO): Promise<boolean> {
+    this.saving = true;
+    try {
+      await this.metadataEditService.updateMetadata(this.media, edit);
+      this.updateKeywords();
+      return true;
+    } catch (e) {
+      const err: ErrorDTO = e;
+      this.notification.error(
+          err.message + ', ' + err.details,
+          $localize`Metadata saving error!`
+      );
+      return false;
+    } finally {
+      this.saving = false;
+    }
+  }
+
   getTextSearchQuery(name: string, type: SearchQueryTypes): string {
     return JSON.stringify({
       type,
@@ -1,4 +1,5 @@
-import {Component, ElementRef, EventEmitter, Input, OnChanges, Output, ViewChild,} from '@angular/core';
+import {Component, ElementRef, EventEmitter, Input, OnChanges, OnDestroy, Output, ViewChild,} from '@angular/core';
+import Hls from 'hls.js';
 import {GridMedia} from '../../grid/GridMedia';
 import {MediaDTOUtils} from '../../../../../../common/entities/MediaDTO';
 import {DomSanitizer, SafeStyle} from '@angular/platform-browser';
@@ -11,7 +12,7 @@ import {LightboxService} from '../lightbox.service';
   styleUrls: ['./media.lightbox.gallery.component.css'],
   templateUrl: './media.lightbox.gallery.component.html',
 })
-export class GalleryLightboxMediaComponent implements OnChanges {
+export class GalleryLightboxMediaComponent implements OnChanges, OnDestroy {
   @Input() gridMedia: GridMedia;
   @Input() nextGridMedia: GridMedia;
   @Input() loadMedia = false; // prevents loading media
@@ -20,7 +21,9 @@ export class GalleryLightboxMediaComponent implements OnChanges {
   @Input() drag = {x: 0, y: 0};
   @Output() videoSourceError = new EventEmitter();
 
-  @ViewChild('video', {static: false}) video: ElementRef<HTMLVideoElement>;
+  private videoRef: ElementRef<HTMLVideoElement>;
+  // adaptive stream player, null if the progressive (transcoded) video is played
+  private hls: Hls = null;
 
   prevGirdPhoto: GridMedia = null;
 
@@ -37,6 +40,9 @@ export class GalleryLightboxMediaComponent implements OnChanges {
     isBestFit: null as boolean,
   };
   public transcodeNeedVideos = SupportedFormats.TranscodeNeed.Videos;
+  public readonly hlsStreaming = Config.Media.Video.hlsStreaming;
+  // video part of a Live Photo or a Motion Photo is shown over the photo
+  public motionPlaying = false;
   // if media not loaded, show thumbnail
   private mediaLoaded = false;
   private videoProgress = 0;
@@ -46,6 +52,19 @@ export class GalleryLightboxMediaComponent implements OnChanges {
               private sanitizer: DomSanitizer) {
   }
 
+  get video(): ElementRef<HTMLVideoElement> {
+    return this.videoRef;
+  }
+
+  @ViewChild('video', {static: false})
+  set video(video: ElementRef<HTMLVideoElement>) {
+    if (this.videoRef?.nativeElement !== video?.nativeElement) {
+      this.destroyHLS();
+    }
+    this.videoRef = video;
+    this.attachHLS();
+  }
+
   get ImageTransform(): SafeStyle {
     return this.sanitizer.bypassSecurityTrustStyle(
       'scale(' +
@@ -127,6 +146,9 @@ export class GalleryLightboxMediaComponent implements OnChanges {
       this.nextImage.onload = null;
       this.nextImage.onerror = null;
       this.mediaLoaded = false;
+      this.motionPlaying = false;
+      this.destroyHLS();
+      this.attachHLS();
       this.imageLoadFinished = {
         this: false,
         next: false
@@ -144,6 +166,10 @@ export class GalleryLightboxMediaComponent implements OnChanges {
     this.loadPhoto();
   }
 
+  ngOnDestroy(): void {
+    this.destroyHLS();
+  }
+
   public mute(): void {
     if (!this.video) {
       return;
@@ -163,6 +189,17 @@ export class GalleryLightboxMediaComponent implements OnChanges {
     }
   }
 
+  public playMotion(): void {
+    if (!this.gridMedia || !this.gridMedia.isMotionPhoto()) {
+      return;
+    }
+    this.motionPlaying = true;
+  }
+
+  public stopMotion(): void {
+    this.motionPlaying = false;
+  }
+
   onImageError(): void {
     // TODO:handle error
     this.imageLoadFinished.this = true;
@@ -241,6 +278,39 @@ export class GalleryLightboxMediaComponent implements OnChanges {
     }
   }
 
+  /**
+   * Plays the HLS stream with hls.js (MSE) if it is enabled.
+   * The <source> elements of the video cover the rest:
+   * browsers with native HLS support (Safari) and the fallback to the transcoded video.
+   */
+  private attachHLS(): void {
+    if (this.hls || !this.video || !this.gridMedia || !this.gridMedia.isVideo() ||
+      !Config.Media.Video.hlsStreaming || !Hls.isSupported()) {
+      return;
+    }
+    const hls = new Hls();
+    hls.on(Hls.Events.ERROR, (event, data) => {
+      if (!data.fatal || this.hls !== hls) {
+        return;
+      }
+      console.warn('Cannot play HLS stream, falling back to the transcoded video: ' + data.details);
+      this.destroyHLS();
+      // picks the first playable <source>
+      this.video?.nativeElement.load();
+    });
+    hls.loadSource(this.gridMedia.getHLSPlaylistPath());
+    hls.attachMedia(this.video.nativeElement);
+    this.hls = hls;
+  }
+
+  private destroyHLS(): void {
+    if (!this.hls) {
+      return;
+    }
+    this.hls.destroy();
+    this.hls = null;
+  }
+
   public onVideoProgress(): void {
     this.videoProgress =
       (100 / this.video.nativeElement.duration) *
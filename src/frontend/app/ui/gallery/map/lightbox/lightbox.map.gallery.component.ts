@@ -11,6 +11,7 @@ import {Utils} from '../../../../../../common/Utils';
 import {Config} from '../../../../../../common/config/public/Config';
 import {MapService} from '../map.service';
 import {
+  circleMarker,
   control,
   Control,
   DivIcon,
@@ -20,11 +21,13 @@ import {
   icon,
   latLng,
   LatLngBounds,
+  latLngBounds,
   LatLngLiteral,
   Map,
   MapOptions,
   Marker,
   marker,
+  MarkerOptions,
   markerClusterGroup,
   MarkerClusterGroup,
   Point,
@@ -37,6 +40,10 @@ import {ThemeService} from '../../../../model/theme.service';
 import {Subscription} from 'rxjs';
 import {MarkerFactory} from '../MarkerFactory';
 import {ionImageOutline, ionWarningOutline} from '@ng-icons/ionicons';
+import {MediaDTO} from '../../../../../../common/entities/MediaDTO';
+import {MapClusterDTO} from '../../../../../../common/entities/MapClusterDTO';
+import {SearchQueryDTO, SearchQueryTypes, TextSearch, TextSearchQueryMatchTypes} from '../../../../../../common/entities/SearchQueryDTO';
+import {ContentLoaderService} from '../../contentLoader.service';
 
 
 @Component({
@@ -83,6 +90,7 @@ export class GalleryMapLightboxComponent implements OnChanges, OnDestroy {
   private mapLayersControlOption: LeafletControlLayersConfig & {
     overlays: {
       Photos: MarkerClusterGroup;
+      Heatmap?: FeatureGroup;
       [name: string]: FeatureGroup;
     };
   } = {
@@ -90,30 +98,21 @@ export class GalleryMapLightboxComponent implements OnChanges, OnDestroy {
     overlays: {
       Photos: markerClusterGroup({
         maxClusterRadius: 20,
-        iconCreateFunction: (cluster) => {
-          const childCount = cluster.getChildCount();
-          let size: number;
-          let c = ' marker-cluster-';
-          if (childCount < 10) {
-            c += 'small';
-            size = 30;
-          } else if (childCount < 100) {
-            c += 'medium';
-            size = 40;
-          } else {
-            c += 'large';
-            size = 50;
-          }
-
-          return divIcon({
-            html: '<div><span>' + childCount + '</span></div>',
-            className: 'marker-cluster' + c,
-            iconSize: new Point(size, size),
-          });
-        },
+        // markers of server side clusters stand for more photos
+        iconCreateFunction: (cluster) => GalleryMapLightboxComponent.getClusterIcon(
+          cluster.getAllChildMarkers()
+            .reduce((sum, m) => sum + ((m.options as ClusterMarkerOptions).count || 1), 0)
+        ),
       }),
     },
   };
+  // search query of the shown photos, if they are clustered on the server
+  private clusterQuery: SearchQueryDTO = null;
+  private clusterBounds: LatLngBounds = null;
+  private clusterZoom: number = null;
+  private shownClusterTiles = new Set<string>(); // z/x/y of the tiles on the map
+  private clusterLayerVersion = 0; // changes when the clusters are removed from the map
+  private clusterTiles: { [key: string]: Promise<MapClusterDTO[]> } = {}; // loaded tiles by z/x/y
   // ordered list
   private pathLayersConfigOrdered: {
     name: string,
@@ -135,8 +134,12 @@ export class GalleryMapLightboxComponent implements OnChanges, OnDestroy {
     public fullScreenService: FullScreenService,
     private thumbnailService: ThumbnailManagerService,
     public mapService: MapService,
-    private themeService: ThemeService
+    private themeService: ThemeService,
+    private contentLoader: ContentLoaderService
   ) {
+    if (Config.Map.heatmapLayer) {
+      this.mapLayersControlOption.overlays.Heatmap = featureGroup([]);
+    }
     this.setUpPathLayers();
     this.mapOptions.layers = [this.mapLayersControlOption.overlays.Photos];
     this.pathLayersConfigOrdered.forEach(pl => this.mapOptions.layers.push(pl.layer));
@@ -326,7 +329,7 @@ export class GalleryMapLightboxComponent implements OnChanges, OnDestroy {
       this.leafletMap.addLayer(this.mapLayersControlOption.overlays.Photos);
     }
     this.thumbnailsOnLoad = [];
-    this.photos
+    const photos = this.photos
       .filter((p): number => {
         return (
           p.metadata &&
@@ -335,96 +338,237 @@ export class GalleryMapLightboxComponent implements OnChanges, OnDestroy {
           p.metadata.positionData.GPSData.latitude &&
           p.metadata.positionData.GPSData.longitude
         );
-      })
-      .forEach((p): void => {
-        const mkr = marker({
+      });
+    const clusterQuery = this.getClusterQuery();
+    if (clusterQuery && photos.length > Config.Map.serverSideClusteringThreshold) {
+      // too many markers to cluster in the browser, loading the clusters of the visible tiles instead
+      this.clusterQuery = clusterQuery;
+      this.clusterBounds = latLngBounds(photos.map((p): [number, number] =>
+        [p.metadata.positionData.GPSData.latitude, p.metadata.positionData.GPSData.longitude]));
+      this.loadClusters();
+    } else {
+      photos.forEach((p): void => {
+        const position = {
           lat: p.metadata.positionData.GPSData.latitude,
           lng: p.metadata.positionData.GPSData.longitude,
-        });
-        this.mapLayersControlOption.overlays.Photos.addLayer(mkr);
-        let width = 500;
-        let height = 500;
-        const size = p.metadata.size;
-        if (size.width > size.height) {
-          height = width * (size.height / size.width);
-        } else {
-          width = height * (size.width / size.height);
-        }
-        const photoTh = this.thumbnailService.getLazyThumbnail(
-          new Media(p, width, height)
-        );
-        this.thumbnailsOnLoad.push(photoTh);
-
-        // Setting popup photo
-        const setPopUpPhoto = () => {
-          const photoPopup =
-            `<img style="width: ${width}px; height: ${height}px" ` +
-            `src="${photoTh.Src}" alt="preview">`;
-          if (!mkr.getPopup()) {
-            mkr.bindPopup(photoPopup, {minWidth: width});
-          } else {
-            mkr.setPopupContent(photoPopup);
-          }
         };
+        this.addMarker(p, position);
+        this.addHeat(position, 1);
+      });
+    }
+    if (this.gpxFiles) {
+      this.loadGPXFiles().catch(console.error);
+    }
+  }
 
-        if (photoTh.Available) {
-          setPopUpPhoto();
-        } else {
-          const noPhotoPopup = `<div class="lightbox-map-gallery-component-preview-loading"
-                                 style="width: ${width}px; height: ${height}px">
-                  ${photoTh.Error ? ionWarningOutline : ionImageOutline}
-                  </div>`;
-
-          mkr.bindPopup(noPhotoPopup, {minWidth: width});
-          mkr.on('popupopen', () => {
-            photoTh.load();
-            photoTh.CurrentlyWaiting = true;
-          });
-          photoTh.OnLoad = setPopUpPhoto;
+  /**
+   * The server can only cluster the photos of a folder or a search result.
+   */
+  private getClusterQuery(): SearchQueryDTO {
+    const content = this.contentLoader.content.value;
+    if (content.searchResult) {
+      return content.searchResult.searchQuery;
+    }
+    if (content.directory) {
+      return {
+        type: SearchQueryTypes.directory,
+        matchType: TextSearchQueryMatchTypes.exact_match,
+        text: content.directory.path + content.directory.name,
+      } as TextSearch;
+    }
+    return null;
+  }
+
+  /**
+   * Loads the clusters of the visible tiles that are not on the map yet.
+   */
+  private loadClusters(): void {
+    if (!this.leafletMap || !this.clusterQuery) {
+      return;
+    }
+    // a cluster tile covers 4x4 map tiles, so the map needs only a few of them
+    const zoom = Math.max(0, Math.round(this.leafletMap.getZoom()) - 2);
+    if (this.clusterZoom !== zoom) {
+      this.clearClusters();
+      this.clusterZoom = zoom;
+    }
+    const tileSize = 256;
+    const bounds = this.leafletMap.getBounds();
+    const nw = this.leafletMap.project(bounds.getNorthWest(), zoom).divideBy(tileSize).floor();
+    const se = this.leafletMap.project(bounds.getSouthEast(), zoom).divideBy(tileSize).floor();
+    const maxTile = Math.pow(2, zoom) - 1;
+    for (let x = Math.max(0, nw.x); x <= Math.min(maxTile, se.x); ++x) {
+      for (let y = Math.max(0, nw.y); y <= Math.min(maxTile, se.y); ++y) {
+        const key = zoom + '/' + x + '/' + y;
+        if (this.shownClusterTiles.has(key)) {
+          continue;
+        }
+        this.shownClusterTiles.add(key);
+        if (!this.clusterTiles[key]) {
+          const tile = this.mapService.getClusters(this.clusterQuery, {z: zoom, x, y});
+          // not caching failures, so the tile is retried on the next move
+          tile.catch(() => delete this.clusterTiles[key]);
+          this.clusterTiles[key] = tile;
         }
+        const version = this.clusterLayerVersion;
+        this.clusterTiles[key].then((clusters) => {
+          // the map moved on to an other zoom level or content in the meantime
+          if (version !== this.clusterLayerVersion) {
+            return;
+          }
+          clusters.forEach((c) => {
+            this.addMarker(c.sample, {lat: c.lat, lng: c.lng}, c.count);
+            this.addHeat({lat: c.lat, lng: c.lng}, c.count);
+          });
+        }).catch((e) => {
+          if (version === this.clusterLayerVersion) {
+            this.shownClusterTiles.delete(key);
+          }
+          console.error(e);
+        });
+      }
+    }
+  }
+
+  private clearClusters(): void {
+    this.clusterLayerVersion++;
+    this.shownClusterTiles.clear();
+    this.mapLayersControlOption.overlays.Photos.clearLayers();
+    this.mapLayersControlOption.overlays.Heatmap?.clearLayers();
+  }
+
+  private static getClusterIcon(count: number): DivIcon {
+    let size: number;
+    let c = ' marker-cluster-';
+    if (count < 10) {
+      c += 'small';
+      size = 30;
+    } else if (count < 100) {
+      c += 'medium';
+      size = 40;
+    } else {
+      c += 'large';
+      size = 50;
+    }
+
+    return divIcon({
+      html: '<div><span>' + count + '</span></div>',
+      className: 'marker-cluster' + c,
+      iconSize: new Point(size, size),
+    });
+  }
+
+  /**
+   * @param media shown on the marker and on its popup
+   * @param position of the marker
+   * @param count number of photos the marker stands for
+   */
+  private addMarker(media: MediaDTO, position: LatLngLiteral, count = 1): void {
+    const mkr = marker(position, {count} as ClusterMarkerOptions);
+    this.mapLayersControlOption.overlays.Photos.addLayer(mkr);
+    let width = 500;
+    let height = 500;
+    const size = media.metadata.size;
+    if (size.width > size.height) {
+      height = width * (size.height / size.width);
+    } else {
+      width = height * (size.width / size.height);
+    }
+    const photoTh = this.thumbnailService.getLazyThumbnail(
+      new Media(media, width, height)
+    );
+    this.thumbnailsOnLoad.push(photoTh);
+    const countText = count > 1 ? `<div>${count} ` + $localize`photos` + '</div>' : '';
+
+    // Setting popup photo
+    const setPopUpPhoto = () => {
+      const photoPopup =
+        `<img style="width: ${width}px; height: ${height}px" ` +
+        `src="${photoTh.Src}" alt="preview">` + countText;
+      if (!mkr.getPopup()) {
+        mkr.bindPopup(photoPopup, {minWidth: width});
+      } else {
+        mkr.setPopupContent(photoPopup);
+      }
+    };
+
+    if (photoTh.Available) {
+      setPopUpPhoto();
+    } else {
+      const noPhotoPopup = `<div class="lightbox-map-gallery-component-preview-loading"
+                             style="width: ${width}px; height: ${height}px">
+              ${photoTh.Error ? ionWarningOutline : ionImageOutline}
+              </div>` + countText;
+
+      mkr.bindPopup(noPhotoPopup, {minWidth: width});
+      mkr.on('popupopen', () => {
+        photoTh.load();
+        photoTh.CurrentlyWaiting = true;
+      });
+      photoTh.OnLoad = setPopUpPhoto;
+    }
 
-        mkr.setIcon(MarkerFactory.defIcon);
-        // Setting photo icon
-        if (Config.Map.useImageMarkers === true) {
-          mkr.on('add', () => {
-            mkr.off('add');
-            const iconTh = this.thumbnailService.getIcon(new MediaIcon(p));
-            this.thumbnailsOnLoad.push(iconTh);
-            iconTh.Visible = true;
-            const setIcon = () => {
-              mkr.setIcon(
-                icon({
-                  iconUrl: iconTh.Src,
-                  iconSize: this.usedIconSize, // size of the icon
-                  className: 'photo-icon',
-                })
-              );
-              mkr.options.alt = p.name;
-              mkr.on('mouseover', () => {
-                mkr.getIcon().options.iconSize = [
-                  this.usedIconSize.x * 1.5,
-                  this.usedIconSize.y * 1.5,
-                ];
-                mkr.setIcon(mkr.getIcon());
-              });
-              mkr.on('mouseout', () => {
-                mkr.getIcon().options.iconSize = this.usedIconSize;
-                mkr.setIcon(mkr.getIcon());
-              });
-            };
-            if (iconTh.Available === true) {
-              setIcon();
-            } else {
-              iconTh.OnLoad = setIcon;
-            }
+    mkr.setIcon(count > 1 ? GalleryMapLightboxComponent.getClusterIcon(count) : MarkerFactory.defIcon);
+    // Setting photo icon
+    if (Config.Map.useImageMarkers === true) {
+      mkr.on('add', () => {
+        mkr.off('add');
+        const iconTh = this.thumbnailService.getIcon(new MediaIcon(media));
+        this.thumbnailsOnLoad.push(iconTh);
+        iconTh.Visible = true;
+        const setIcon = () => {
+          mkr.setIcon(count > 1 ?
+            divIcon({
+              html: `<img src="${iconTh.Src}" alt="${media.name}"><span class="badge rounded-pill bg-primary">${count}</span>`,
+              iconSize: this.usedIconSize,
+              className: 'photo-icon photo-cluster-icon',
+            }) :
+            icon({
+              iconUrl: iconTh.Src,
+              iconSize: this.usedIconSize, // size of the icon
+              className: 'photo-icon',
+            })
+          );
+          mkr.options.alt = media.name;
+          mkr.on('mouseover', () => {
+            mkr.getIcon().options.iconSize = [
+              this.usedIconSize.x * 1.5,
+              this.usedIconSize.y * 1.5,
+            ];
+            mkr.setIcon(mkr.getIcon());
           });
+          mkr.on('mouseout', () => {
+            mkr.getIcon().options.iconSize = this.usedIconSize;
+            mkr.setIcon(mkr.getIcon());
+          });
+        };
+        if (iconTh.Available === true) {
+          setIcon();
+        } else {
+          iconTh.OnLoad = setIcon;
         }
       });
-    if (this.gpxFiles) {
-      this.loadGPXFiles().catch(console.error);
     }
   }
 
+  /**
+   * @param count the more photos are at the position the hotter it is
+   */
+  private addHeat(position: LatLngLiteral, count: number): void {
+    if (!this.mapLayersControlOption.overlays.Heatmap) {
+      return;
+    }
+    this.mapLayersControlOption.overlays.Heatmap.addLayer(
+      circleMarker(position, {
+        radius: 10 + Math.min(20, Math.log2(count) * 2),
+        stroke: false,
+        fillColor: 'var(--bs-danger)',
+        fillOpacity: Math.min(0.8, 0.2 + Math.log10(count) * 0.15),
+        interactive: false
+      })
+    );
+  }
+
   public loadPreview(mp: MapPhoto): void {
     mp.preview.thumbnail.load();
     mp.preview.thumbnail.CurrentlyWaiting = true;
@@ -441,7 +585,11 @@ export class GalleryMapLightboxComponent implements OnChanges, OnDestroy {
     });
     this.thumbnailsOnLoad = [];
 
-    this.mapLayersControlOption.overlays.Photos.clearLayers();
+    this.clusterQuery = null;
+    this.clusterBounds = null;
+    this.clusterZoom = null;
+    this.clusterTiles = {};
+    this.clearClusters();
   }
 
   clearPath(): void {
@@ -480,6 +628,7 @@ export class GalleryMapLightboxComponent implements OnChanges, OnDestroy {
     this.leafletMap.setMaxZoom(undefined);
     this.leafletMap.zoomControl.setPosition('bottomright');
     this.mapLayerControl.addTo(this.leafletMap);
+    this.leafletMap.on('moveend', () => this.loadClusters());
   }
 
   onLeafletZoom(): void {
@@ -509,7 +658,8 @@ export class GalleryMapLightboxComponent implements OnChanges, OnDestroy {
   }
 
   private centerMap(): void {
-    let bounds: LatLngBounds = null;
+    // server side clusters are loaded after the map is centered
+    let bounds: LatLngBounds = this.clusterBounds ? latLngBounds(this.clusterBounds.getSouthWest(), this.clusterBounds.getNorthEast()) : null;
     for (const k of Object.keys(this.mapLayersControlOption.overlays)) {
       const b = this.mapLayersControlOption?.overlays?.[k]?.getBounds();
       if (!b) {
@@ -699,6 +849,10 @@ export class GalleryMapLightboxComponent implements OnChanges, OnDestroy {
   }
 }
 
+interface ClusterMarkerOptions extends MarkerOptions {
+  count?: number;
+}
+
 export interface MapPhoto {
   name: string;
   lat: number;
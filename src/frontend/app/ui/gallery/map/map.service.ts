@@ -5,6 +5,8 @@ import {Utils} from '../../../../../common/Utils';
 import {Config} from '../../../../../common/config/public/Config';
 import {MapLayers, MapProviders,} from '../../../../../common/config/public/ClientConfig';
 import {LatLngLiteral} from 'leaflet';
+import {SearchQueryDTO} from '../../../../../common/entities/SearchQueryDTO';
+import {MapClusterDTO, MapTileDTO} from '../../../../../common/entities/MapClusterDTO';
 
 @Injectable()
 export class MapService {
@@ -137,5 +139,14 @@ export class MapService {
       markers: getCoordinates(gpx, 'wpt'),
     };
   }
-}
 
+  /**
+   * Loads the clusters of the photos of the query on the given map tile.
+   */
+  public getClusters(query: SearchQueryDTO, tile: MapTileDTO): Promise<MapClusterDTO[]> {
+    return this.networkService.getJson<MapClusterDTO[]>(
+        '/gallery/map/' + tile.z + '/' + tile.x + '/' + tile.y + '/' +
+        encodeURIComponent(JSON.stringify(query))
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import {Component, OnDestroy, OnInit} from '@angular/core';
+import {DomSanitizer, SafeStyle} from '@angular/platform-browser';
+import {Subscription} from 'rxjs';
+import {MediaDTO} from '../../../../../common/entities/MediaDTO';
+import {Utils} from '../../../../../common/Utils';
+import {Media} from '../Media';
+import {Thumbnail, ThumbnailManagerService} from '../thumbnailManager.service';
+import {QueryService} from '../../../model/query.service';
+import {MemoriesService, MemoryGroup} from './memories.service';
+
+interface MemoryThumbnail {
+  media: MediaDTO;
+  thumbnail: Thumbnail;
+}
+
+@Component({
+  selector: 'app-gallery-memories',
+  templateUrl: './memories.gallery.component.html',
+  styleUrls: ['./memories.gallery.component.css'],
+})
+export class GalleryMemoriesComponent implements OnInit, OnDestroy {
+  readonly size = 120;
+  groups: { yearsAgo: number; media: MemoryThumbnail[] }[] = [];
+  private subscription: Subscription = null;
+
+  constructor(
+      private memoriesService: MemoriesService,
+      private thumbnailService: ThumbnailManagerService,
+      private sanitizer: DomSanitizer,
+      public queryService: QueryService
+  ) {
+  }
+
+  ngOnInit(): void {
+    this.subscription = this.memoriesService.memories.subscribe(this.onMemoriesChange);
+    this.memoriesService.load().catch(console.error);
+  }
+
+  ngOnDestroy(): void {
+    if (this.subscription !== null) {
+      this.subscription.unsubscribe();
+    }
+    this.destroyThumbnails();
+  }
+
+  getDirectoryPath(media: MediaDTO): string {
+    return Utils.concatUrls(media.directory.path, media.directory.name);
+  }
+
+  getSanitizedThUrl(thumbnail: Thumbnail): SafeStyle {
+    return this.sanitizer.bypassSecurityTrustStyle(
+        'url(' +
+        thumbnail.Src.replace(/\(/g, '%28')
+            .replace(/'/g, '%27')
+            .replace(/\)/g, '%29') +
+        ')'
+    );
+  }
+
+  private onMemoriesChange = (groups: MemoryGroup[]): void => {
+    this.destroyThumbnails();
+    this.groups = groups.map(g => ({
+      yearsAgo: g.yearsAgo,
+      media: g.media.map(m => ({
+        media: m,
+        thumbnail: this.thumbnailService.getThumbnail(new Media(m, this.size, this.size))
+      }))
+    }));
+  };
+
+  private destroyThumbnails(): void {
+    this.groups.forEach(g => g.media.forEach(m => m.thumbnail.destroy()));
+  }
+}
@@ -0,0 +1,57 @@
+import {Injectable} from '@angular/core';
+import {BehaviorSubject} from 'rxjs';
+import {NetworkService} from '../../../model/network/network.service';
+import {AuthenticationService} from '../../../model/network/authentication.service';
+import {ContentWrapper} from '../../../../../common/entities/ConentWrapper';
+import {MediaDTO} from '../../../../../common/entities/MediaDTO';
+
+export interface MemoryGroup {
+  yearsAgo: number;
+  media: MediaDTO[];
+}
+
+@Injectable()
+export class MemoriesService {
+  public memories = new BehaviorSubject<MemoryGroup[]>([]);
+  // memories only change by day, no need to load them on every navigation
+  private loadedFor: string = null;
+
+  constructor(
+      private networkService: NetworkService,
+      private authService: AuthenticationService
+  ) {
+  }
+
+  public async load(): Promise<void> {
+    const key = this.authService.user.value?.name + ':' + new Date().toDateString();
+    if (this.loadedFor === key) {
+      return;
+    }
+    this.loadedFor = key;
+    try {
+      const cw = await this.networkService.getJson<ContentWrapper>('/gallery/memories');
+      ContentWrapper.unpack(cw);
+      this.memories.next(MemoriesService.groupByYears(cw?.searchResult?.media || []));
+    } catch (e) {
+      this.loadedFor = null;
+      throw e;
+    }
+  }
+
+  /**
+   * Groups the media by how many years ago they were taken, the most recent group first
+   */
+  public static groupByYears(media: MediaDTO[]): MemoryGroup[] {
+    const thisYear = new Date().getFullYear();
+    const groups: { [key: number]: MemoryGroup } = {};
+    for (const m of media) {
+      const yearsAgo = thisYear - new Date(m.metadata.creationDate).getFullYear();
+      if (yearsAgo < 1) {
+        continue;
+      }
+      groups[yearsAgo] = groups[yearsAgo] || {yearsAgo, media: []};
+      groups[yearsAgo].media.push(m);
+    }
+    return Object.values(groups).sort((a, b) => a.yearsAgo - b.yearsAgo);
+  }
+}
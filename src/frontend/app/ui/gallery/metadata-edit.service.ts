@@ -0,0 +1,35 @@
+import {Injectable} from '@angular/core';
+import {NetworkService} from '../../model/network/network.service';
+import {AuthenticationService} from '../../model/network/authentication.service';
+import {Config} from '../../../../common/config/public/Config';
+import {MediaDTO, MediaDTOUtils} from '../../../../common/entities/MediaDTO';
+import {MediaMetadataEditDTO} from '../../../../common/entities/MediaMetadataEditDTO';
+import {MediaIcon} from './MediaIcon';
+
+@Injectable()
+export class MetadataEditService {
+
+  constructor(private networkService: NetworkService,
+              private authService: AuthenticationService) {
+  }
+
+  public canEdit(media: MediaDTO): boolean {
+    return Config.Media.Photo.MetadataEditing.enabled &&
+      !!media && MediaDTOUtils.isPhoto(media) &&
+      this.authService.isAuthorized(Config.Media.Photo.MetadataEditing.writeAccessMinRole);
+  }
+
+  /**
+   * Saves the changes to the sidecar of the photo and updates the metadata of the given media object.
+   */
+  public async updateMetadata(media: MediaDTO, edit: MediaMetadataEditDTO): Promise<void> {
+    const updated = await this.networkService.putJson<MediaMetadataEditDTO>(
+      '/gallery/content/' + new MediaIcon(media).getRelativePath() + '/metadata',
+      edit
+    );
+    media.metadata.rating = updated.rating;
+    media.metadata.keywords = updated.keywords;
+    media.metadata.title = updated.title;
+    media.metadata.caption = updated.caption;
+  }
+}
@@ -1,7 +1,7 @@
 import {Component, ElementRef, HostListener, ViewChild} from '@angular/core';
 import {Router, RouterLink} from '@angular/router';
 import {DomSanitizer} from '@angular/platform-browser';
-import {UserDTOUtils} from '../../../../../common/entities/UserDTO';
+import {UserDTOUtils, UserRoles} from '../../../../../common/entities/UserDTO';
 import {AuthenticationService} from '../../../model/network/authentication.service';
 import {QueryService} from '../../../model/query.service';
 import {Utils} from '../../../../../common/Utils';
@@ -17,6 +17,11 @@ import {FilterService} from '../filter/filter.service';
 import {ContentLoaderService, ContentWrapperWithError, DirectoryContent} from '../contentLoader.service';
 import {GalleryNavigatorService} from './navigator.service';
 import {GridSizes} from '../../../../../common/entities/GridSizes';
+import {MediaSelectionService} from '../grid/selection.service';
+import {AlbumsService} from '../../albums/albums.service';
+import {NotificationService} from '../../../model/notification.service';
+import {ManualAlbumDTO} from '../../../../../common/entities/album/ManualAlbumDTO';
+import {SavedSearchDTO} from '../../../../../common/entities/album/SavedSearchDTO';
 
 @Component({
   selector: 'app-gallery-navbar',
@@ -35,6 +40,7 @@ export class GalleryNavigatorComponent {
   public directoryContent: Observable<DirectoryContent>;
   public routes: Observable<NavigatorPath[]>;
   public showFilters = false;
+  public newAlbumName = '';
   private readonly RootFolderName: string;
   private parentPath: string = null;
 
@@ -54,6 +60,9 @@ export class GalleryNavigatorComponent {
       public filterService: FilterService,
       public sortingService: GallerySortingService,
       public navigatorService: GalleryNavigatorService,
+      public selectionService: MediaSelectionService,
+      private albumsService: AlbumsService,
+      private notification: NotificationService,
       private router: Router,
       public sanitizer: DomSanitizer
   ) {
@@ -145,6 +154,52 @@ export class GalleryNavigatorComponent {
             : 0;
   }
 
+  get CanAddToAlbum(): boolean {
+    return this.config.Album.enabled && this.authService.isAuthorized(UserRoles.Admin);
+  }
+
+  get CanSelect(): boolean {
+    return this.CanAddToAlbum ||
+        (this.config.Sharing.enabled && this.authService.isAuthorized(UserRoles.User));
+  }
+
+  get ManualAlbums(): ManualAlbumDTO[] {
+    return (this.albumsService.albums.value || [])
+        .filter((a) => !(a as SavedSearchDTO).searchQuery);
+  }
+
+  startSelecting(): void {
+    this.selectionService.startSelecting();
+    if (this.CanAddToAlbum) {
+      this.albumsService.getAlbums().catch(console.error);
+    }
+  }
+
+  async addSelectedToAlbum(album: ManualAlbumDTO): Promise<void> {
+    const media = this.selectionService.selected.value;
+    try {
+      await this.albumsService.addMediaToAlbum(album, media);
+      this.notification.success(media.length + ' ' + $localize`items added to album` + ': ' + album.name);
+      this.selectionService.stopSelecting();
+    } catch (err) {
+      console.error(err);
+      this.notification.error($localize`Could not add items to album` + ': ' + album.name);
+    }
+  }
+
+  async addSelectedToNewAlbum(): Promise<void> {
+    const media = this.selectionService.selected.value;
+    try {
+      const album = await this.albumsService.addManualAlbum(this.newAlbumName.trim(), media);
+      this.notification.success(media.length + ' ' + $localize`items added to album` + ': ' + album.name);
+      this.newAlbumName = '';
+      this.selectionService.stopSelecting();
+    } catch (err) {
+      console.error(err);
+      this.notification.error($localize`Could not create album` + ': ' + this.newAlbumName);
+    }
+  }
+
   isDefaultSortingAndGrouping(): boolean {
     return this.sortingService.isDefaultSortingAndGrouping(
         this.contentLoaderService.content.value
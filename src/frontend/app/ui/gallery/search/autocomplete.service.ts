@@ -102,6 +102,23 @@ export class AutoCompleteService {
         = SearchQueryTypes.min_resolution;
     this.noACKeywordsMap[this.searchQueryParserService.keywords.maxResolution]
         = SearchQueryTypes.max_resolution;
+
+    this.noACKeywordsMap[this.searchQueryParserService.keywords.minISO]
+        = SearchQueryTypes.min_iso;
+    this.noACKeywordsMap[this.searchQueryParserService.keywords.maxISO]
+        = SearchQueryTypes.max_iso;
+    this.noACKeywordsMap[this.searchQueryParserService.keywords.minFStop]
+        = SearchQueryTypes.min_fstop;
+    this.noACKeywordsMap[this.searchQueryParserService.keywords.maxFStop]
+        = SearchQueryTypes.max_fstop;
+    this.noACKeywordsMap[this.searchQueryParserService.keywords.minFocalLength]
+        = SearchQueryTypes.min_focal_length;
+    this.noACKeywordsMap[this.searchQueryParserService.keywords.maxFocalLength]
+        = SearchQueryTypes.max_focal_length;
+    this.noACKeywordsMap[this.searchQueryParserService.keywords.minExposure]
+        = SearchQueryTypes.min_exposure;
+    this.noACKeywordsMap[this.searchQueryParserService.keywords.maxExposure]
+        = SearchQueryTypes.max_exposure;
   }
 
   public autoComplete(text: {
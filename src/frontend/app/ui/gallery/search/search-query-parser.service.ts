@@ -18,6 +18,14 @@ export class SearchQueryParserService {
     maxPersonCount: 'max-faces',
     maxResolution: 'max-resolution',
     minResolution: 'min-resolution',
+    maxISO: 'max-iso',
+    minISO: 'min-iso',
+    maxFStop: 'max-fstop',
+    minFStop: 'min-fstop',
+    maxFocalLength: 'max-focal-length',
+    minFocalLength: 'min-focal-length',
+    maxExposure: 'max-exposure',
+    minExposure: 'min-exposure',
     orientation: 'orientation',
 
     years_ago: '%d-years-ago',
@@ -38,6 +46,10 @@ export class SearchQueryParserService {
     person: 'person',
     portrait: 'portrait',
     position: 'position',
+    album: 'album',
+    camera: 'camera',
+    lens: 'lens',
+    library: 'library',
     someOf: 'some-of',
     kmFrom: 'km-from',
   };
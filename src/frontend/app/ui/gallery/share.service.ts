@@ -1,6 +1,6 @@
 import {Injectable} from '@angular/core';
 import {NetworkService} from '../../model/network/network.service';
-import {CreateSharingDTO, SharingDTO, SharingDTOKey,} from '../../../../common/entities/SharingDTO';
+import {CreateSharingDTO, SharingDTO, SharingDTOKey, SharingStatsDTO,} from '../../../../common/entities/SharingDTO';
 import {Router, RoutesRecognized} from '@angular/router';
 import {BehaviorSubject} from 'rxjs';
 import {distinctUntilChanged, filter} from 'rxjs/operators';
@@ -8,6 +8,7 @@ import {QueryParams} from '../../../../common/QueryParams';
 import {UserDTO, UserRoles} from '../../../../common/entities/UserDTO';
 import {Utils} from '../../../../common/Utils';
 import {Config} from '../../../../common/config/public/Config';
+import {SearchQueryDTO} from '../../../../common/entities/SearchQueryDTO';
 
 
 @Injectable()
@@ -104,12 +105,16 @@ export class ShareService {
     dir: string,
     includeSubFolders: boolean,
     password: string,
-    valid: number
+    valid: number,
+    maxViews: number = null,
+    selection: { searchQuery?: SearchQueryDTO, media?: string[] } = {}
   ): Promise<SharingDTO> {
     return this.networkService.postJson('/share/' + dir, {
       createSharing: {
         includeSubfolders: includeSubFolders,
         valid,
+        maxViews,
+        ...selection,
         ...(!!password && {password: password}) // only add password if present
       } as CreateSharingDTO,
     });
@@ -120,13 +125,15 @@ export class ShareService {
     sharingId: number,
     includeSubFolders: boolean,
     password: string,
-    valid: number
+    valid: number,
+    maxViews: number = null
   ): Promise<SharingDTO> {
     return this.networkService.putJson('/share/' + dir, {
       updateSharing: {
         id: sharingId,
         includeSubfolders: includeSubFolders,
         valid,
+        maxViews,
         password,
       } as CreateSharingDTO,
     });
@@ -180,6 +187,10 @@ export class ShareService {
     return this.networkService.getJson('/share/listAll');
   }
 
+  public getSharingStats(sharing: SharingDTO): Promise<SharingStatsDTO> {
+    return this.networkService.getJson('/share/' + sharing.sharingKey + '/stats');
+  }
+
   public deleteSharing(sharing: SharingDTO): Promise<void> {
     return this.networkService.deleteJson('/share/' + sharing.sharingKey);
   }
@@ -12,6 +12,9 @@ import {UserRoles} from '../../../../../common/entities/UserDTO';
 import {AuthenticationService} from '../../../model/network/authentication.service';
 import {ClipboardService} from 'ngx-clipboard';
 import {ContentLoaderService} from '../contentLoader.service';
+import {MediaSelectionService} from '../grid/selection.service';
+import {SearchQueryDTO} from '../../../../../common/entities/SearchQueryDTO';
+import {MediaIcon} from '../MediaIcon';
 
 @Component({
   selector: 'app-gallery-share',
@@ -26,18 +29,22 @@ export class GalleryShareComponent implements OnInit, OnDestroy {
   showSharingList = false;
 
   input = {
+    type: ShareTypes.Directory as ShareTypes,
     includeSubfolders: true,
     valid: {
       amount: 30,
       type: ValidityTypes.Days as ValidityTypes,
     },
     password: null as string,
+    maxViews: null as number,
   };
   currentDir = '';
+  currentSearchQuery: SearchQueryDTO = null;
   sharing: SharingDTO = null;
   contentSubscription: Subscription = null;
   readonly passwordRequired = Config.Sharing.passwordRequired;
   readonly ValidityTypes = ValidityTypes;
+  readonly ShareTypes = ShareTypes;
 
   modalRef: BsModalRef;
   invalidSettings = $localize`Invalid settings`;
@@ -55,7 +62,8 @@ export class GalleryShareComponent implements OnInit, OnDestroy {
       private notification: NotificationService,
       private modalService: BsModalService,
       public authService: AuthenticationService,
-      private clipboardService: ClipboardService
+      private clipboardService: ClipboardService,
+      public selectionService: MediaSelectionService
   ) {
     this.text.Yes = $localize`Yes`;
     this.text.No = $localize`No`;
@@ -69,8 +77,10 @@ export class GalleryShareComponent implements OnInit, OnDestroy {
     this.contentSubscription = this.galleryService.content.subscribe(
         async (content: ContentWrapper) => {
           this.activeShares = [];
-          this.enabled = !!content.directory;
-          if (!this.enabled) {
+          this.currentSearchQuery = content.searchResult?.searchQuery || null;
+          this.enabled = !!content.directory || !!this.currentSearchQuery;
+          if (!content.directory) {
+            this.currentDir = '';
             return;
           }
           this.currentDir = Utils.concatUrls(
@@ -130,7 +140,8 @@ export class GalleryShareComponent implements OnInit, OnDestroy {
         this.sharing.id,
         this.input.includeSubfolders,
         this.input.password,
-        this.calcValidity()
+        this.calcValidity(),
+        this.input.maxViews
     );
     this.urlValid = true;
     this.url = this.sharingService.getUrl(this.sharing);
@@ -148,18 +159,39 @@ export class GalleryShareComponent implements OnInit, OnDestroy {
         this.currentDir,
         this.input.includeSubfolders,
         this.input.password,
-        this.calcValidity()
+        this.calcValidity(),
+        this.input.maxViews,
+        this.getSelection()
     );
     this.url = this.sharingService.getUrl(this.sharing);
     this.urlValid = true;
     await this.updateActiveSharesList();
   }
 
+  private getSelection(): { searchQuery?: SearchQueryDTO, media?: string[] } {
+    switch (this.input.type) {
+      case ShareTypes.SearchResult:
+        return {searchQuery: this.currentSearchQuery};
+      case ShareTypes.Selection:
+        return {
+          media: this.selectionService.selected.value
+              .map((m) => new MediaIcon(m).getReadableRelativePath())
+        };
+    }
+    return {};
+  }
+
   async openModal(template: TemplateRef<unknown>): Promise<void> {
     this.url = $localize`Click share to get a link.`;
     this.urlValid = false;
     this.sharing = null;
     this.input.password = '';
+    this.input.maxViews = null;
+    this.input.type = this.selectionService.selected.value.length > 0
+        ? ShareTypes.Selection
+        : this.currentSearchQuery
+            ? ShareTypes.SearchResult
+            : ShareTypes.Directory;
     if (this.modalRef) {
       this.modalRef.hide();
     }
@@ -188,6 +220,10 @@ export class GalleryShareComponent implements OnInit, OnDestroy {
 }
 
 
+export enum ShareTypes {
+  Directory = 1, SearchResult = 2, Selection = 3
+}
+
 export enum ValidityTypes {
   Minutes = 1, Hours = 2, Days = 3, Months = 4, Forever = 99
 }
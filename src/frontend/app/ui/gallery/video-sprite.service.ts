@@ -0,0 +1,106 @@
+import {Injectable} from '@angular/core';
+import {NetworkService} from '../../model/network/network.service';
+import {Config} from '../../../../common/config/public/Config';
+import {MediaDTO, MediaDTOUtils} from '../../../../common/entities/MediaDTO';
+import {MediaIcon} from './MediaIcon';
+
+export interface VideoSpriteFrame {
+  start: number; // in seconds
+  end: number; // in seconds
+  url: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface VideoSprite {
+  frames: VideoSpriteFrame[];
+  // size of the whole sprite sheet
+  width: number;
+  height: number;
+}
+
+/**
+ * Loads the sprite sheets (WebVTT thumbnails tracks) of the videos for the scrub previews.
+ */
+@Injectable()
+export class VideoSpriteService {
+  private cache = new Map<string, Promise<VideoSprite>>();
+
+  constructor(private networkService: NetworkService) {
+  }
+
+  public isAvailable(media: MediaDTO): boolean {
+    return Config.Media.Video.enabled && Config.Media.Video.scrubPreview &&
+      !!media && MediaDTOUtils.isVideo(media);
+  }
+
+  public getSprite(media: MediaDTO): Promise<VideoSprite> {
+    const icon = new MediaIcon(media);
+    const trackPath = '/gallery/content/' + icon.getRelativePath() + '/sprite.vtt';
+    if (!this.cache.has(trackPath)) {
+      const trackUrl = new URL(icon.getSpriteTrackPath(), window.location.href).href;
+      // failed requests are cached too, not to retry them on every hover
+      this.cache.set(trackPath, this.networkService.getText(trackPath)
+        .then((vtt) => VideoSpriteService.parseVTT(vtt, trackUrl)));
+    }
+    return this.cache.get(trackPath);
+  }
+
+  /**
+   * @param time in seconds
+   */
+  public static getFrame(sprite: VideoSprite, time: number): VideoSpriteFrame {
+    if (!sprite || sprite.frames.length === 0) {
+      return null;
+    }
+    return sprite.frames.find(f => f.start <= time && time < f.end) ||
+      sprite.frames[time < sprite.frames[0].start ? 0 : sprite.frames.length - 1];
+  }
+
+  /**
+   * Scales the frame to fill the given box
+   */
+  public static getFrameStyle(sprite: VideoSprite, frame: VideoSpriteFrame,
+                              width: number, height: number): Record<string, string> {
+    const scaleX = width / frame.width;
+    const scaleY = height / frame.height;
+    return {
+      'background-image': 'url("' + frame.url + '")',
+      'background-size': sprite.width * scaleX + 'px ' + sprite.height * scaleY + 'px',
+      'background-position': -frame.x * scaleX + 'px ' + -frame.y * scaleY + 'px',
+    };
+  }
+
+  public static parseVTT(vtt: string, trackUrl: string): VideoSprite {
+    const parseTime = (str: string): number => {
+      const parts = str.trim().split(':').map(p => parseFloat(p));
+      return parts.reduce((sum, p) => sum * 60 + p, 0);
+    };
+    const sprite: VideoSprite = {frames: [], width: 0, height: 0};
+    const cues = vtt.replace(/\r\n/g, '\n').split(/\n\n+/);
+    for (const cue of cues) {
+      const lines = cue.split('\n').filter(l => l.trim() !== '');
+      const timeIndex = lines.findIndex(l => l.includes('-->'));
+      if (timeIndex === -1 || !lines[timeIndex + 1]) {
+        continue;
+      }
+      const times = lines[timeIndex].split('-->');
+      const [url, hash] = lines[timeIndex + 1].trim().split('#xywh=');
+      if (!hash) {
+        continue;
+      }
+      const [x, y, width, height] = hash.split(',').map(v => parseInt(v, 10));
+      sprite.frames.push({
+        start: parseTime(times[0]),
+        end: parseTime(times[1].trim().split(' ')[0]),
+        url: new URL(url, trackUrl).href,
+        x, y, width, height
+      });
+      sprite.width = Math.max(sprite.width, x + width);
+      sprite.height = Math.max(sprite.height, y + height);
+    }
+    return sprite;
+  }
+}
@@ -4,6 +4,9 @@ import {AuthenticationService} from '../../model/network/authentication.service'
 import {ErrorCodes} from '../../../../common/entities/Error';
 import {Config} from '../../../../common/config/public/Config';
 import {NavigationService} from '../../model/navigation.service';
+import {ActivatedRoute} from '@angular/router';
+import {QueryParams} from '../../../../common/QueryParams';
+import {Utils} from '../../../../common/Utils';
 
 @Component({
   selector: 'app-login',
@@ -13,12 +16,17 @@ import {NavigationService} from '../../model/navigation.service';
 export class LoginComponent implements OnInit {
   loginCredential: LoginCredential;
   loginError = false;
+  oidcError = false;
   title: string;
   inProgress = false;
+  readonly oidcEnabled = Config.Users.OIDC.enabled;
+  readonly oidcButtonText = Config.Users.OIDC.buttonText;
+  readonly oidcLoginUrl = Utils.concatUrls(Config.Server.urlBase, Config.Server.apiPath, '/user/oidc/login');
 
   constructor(
       private authService: AuthenticationService,
-      private navigation: NavigationService
+      private navigation: NavigationService,
+      private route: ActivatedRoute
   ) {
     this.loginCredential = new LoginCredential();
     this.title = Config.Server.applicationTitle;
@@ -28,6 +36,7 @@ export class LoginComponent implements OnInit {
     if (this.authService.isAuthenticated()) {
       this.navigation.toDefault();
     }
+    this.oidcError = !!this.route.snapshot.queryParamMap.get(QueryParams.login.oidcError);
   }
 
   async onLogin(): Promise<void> {
@@ -3,10 +3,12 @@ import {BehaviorSubject} from 'rxjs';
 import {JobProgressDTO, JobProgressStates, OnTimerJobProgressDTO,} from '../../../../common/entities/job/JobProgressDTO';
 import {NetworkService} from '../../model/network/network.service';
 import {JobScheduleDTO} from '../../../../common/entities/job/JobScheduleDTO';
-import {JobDTO, JobDTOUtils, JobStartDTO} from '../../../../common/entities/job/JobDTO';
+import {JobDTO, JobDTOUtils, JobStartDTO, MessengerDTO} from '../../../../common/entities/job/JobDTO';
 import {BackendtextService} from '../../model/backendtext.service';
 import {NotificationService} from '../../model/notification.service';
 import {DynamicConfig} from '../../../../common/entities/DynamicConfig';
+import {JobHistoryDTO, JobHistoryPageDTO} from '../../../../common/entities/job/JobHistoryDTO';
+import {QueryParams} from '../../../../common/QueryParams';
 
 @Injectable()
 export class ScheduledJobsService {
@@ -14,7 +16,7 @@ export class ScheduledJobsService {
   public onJobFinish: EventEmitter<string> = new EventEmitter<string>();
   timer: number = null;
   public availableJobs: BehaviorSubject<JobDTO[]>;
-  public availableMessengers: BehaviorSubject<string[]>;
+  public availableMessengers: BehaviorSubject<MessengerDTO[]>;
   public jobStartingStopping: { [key: string]: boolean } = {};
   private subscribers = 0;
 
@@ -40,7 +42,7 @@ export class ScheduledJobsService {
 
   public async getAvailableMessengers(): Promise<void> {
     this.availableMessengers.next(
-      await this.networkService.getJson<string[]>('/admin/messengers/available')
+      await this.networkService.getJson<MessengerDTO[]>('/admin/messengers/available')
     );
   }
 
@@ -54,6 +56,16 @@ export class ScheduledJobsService {
     return null;
   }
 
+  public getMessengerConfigTemplate(name: string): DynamicConfig[] {
+    const msgr = this.availableMessengers.value.find(
+      (m) => m.Name === name
+    );
+    if (msgr && msgr.ConfigTemplate && msgr.ConfigTemplate.length > 0) {
+      return msgr.ConfigTemplate;
+    }
+    return null;
+  }
+
   public getDefaultConfig(jobName: string): Record<string, unknown> {
 
     const ct = this.getConfigTemplate(jobName);
@@ -107,6 +119,18 @@ export class ScheduledJobsService {
     }
   }
 
+  public async resume(jobName: string): Promise<void> {
+    try {
+      this.jobStartingStopping[jobName] = true;
+      await this.networkService.postJson(
+        '/admin/jobs/scheduled/' + jobName + '/resume'
+      );
+    } finally {
+      delete this.jobStartingStopping[jobName];
+      this.forceUpdate();
+    }
+  }
+
   public async stop(jobName: string): Promise<void> {
     this.jobStartingStopping[jobName] = true;
     await this.networkService.postJson(
@@ -116,6 +140,25 @@ export class ScheduledJobsService {
     this.forceUpdate();
   }
 
+  public getHistory(jobName: string, state: JobProgressStates, page: number, pageSize: number): Promise<JobHistoryPageDTO> {
+    const params = QueryParams.admin.jobHistory;
+    const query: { [key: string]: unknown } = {
+      [params.page]: page,
+      [params.pageSize]: pageSize
+    };
+    if (jobName) {
+      query[params.jobName] = encodeURIComponent(jobName);
+    }
+    if (state) {
+      query[params.state] = state;
+    }
+    return this.networkService.getJson<JobHistoryPageDTO>('/admin/jobs/history', query);
+  }
+
+  public getHistoryRun(id: number): Promise<JobHistoryDTO> {
+    return this.networkService.getJson<JobHistoryDTO>('/admin/jobs/history/' + id);
+  }
+
   protected async loadProgress(): Promise<void> {
     const prevPrg = this.progress.value;
     this.progress.next(
@@ -129,9 +172,11 @@ export class ScheduledJobsService {
         !(this.progress.value).hasOwnProperty(prg) ||
         // state changed from running to finished
         ((prevPrg[prg].state === JobProgressStates.running ||
+            prevPrg[prg].state === JobProgressStates.paused ||
             prevPrg[prg].state === JobProgressStates.cancelling) &&
           !(
             this.progress.value[prg].state === JobProgressStates.running ||
+            this.progress.value[prg].state === JobProgressStates.paused ||
             this.progress.value[prg].state === JobProgressStates.cancelling
           ))
       ) {
@@ -156,6 +201,7 @@ export class ScheduledJobsService {
   protected isAnyJobRunning(): boolean {
     return Object.values(this.progress.value)
       .findIndex(p => p.state === JobProgressStates.running ||
+        p.state === JobProgressStates.paused ||
         p.state === JobProgressStates.cancelling) !== -1;
   }
 
@@ -1,5 +1,5 @@
 import {Component, OnInit} from '@angular/core';
-import {SharingDTO} from '../../../../../common/entities/SharingDTO';
+import {SharingAccessTypes, SharingDTO, SharingStatsDTO, UserAgentClasses} from '../../../../../common/entities/SharingDTO';
 import {SettingsService} from '../settings.service';
 import {ShareService} from '../../gallery/share.service';
 
@@ -11,6 +11,9 @@ import {ShareService} from '../../gallery/share.service';
 export class SharingsListComponent implements OnInit {
 
   public shares: SharingDTO[] = [];
+  public stats: SharingStatsDTO = null;
+  readonly SharingAccessTypes = SharingAccessTypes;
+  readonly UserAgentClasses = UserAgentClasses;
 
 
   constructor(public sharingService: ShareService,
@@ -31,6 +34,19 @@ export class SharingsListComponent implements OnInit {
     await this.getSharingList();
   }
 
+  async toggleStats(sharing: SharingDTO): Promise<void> {
+    if (this.stats?.sharingKey === sharing.sharingKey) {
+      this.stats = null;
+      return;
+    }
+    try {
+      this.stats = await this.sharingService.getSharingStats(sharing);
+    } catch (err) {
+      this.stats = null;
+      throw err;
+    }
+  }
+
   private async getSharingList(): Promise<void> {
     try {
       this.shares = await this.sharingService.getSharingList();
@@ -89,6 +89,34 @@ export class UsersComponent implements OnInit {
     this.childModal.hide();
   }
 
+  getPermissions(user: UserDTO): string {
+    return (user.permissions || []).join(', ');
+  }
+
+  async updatePermissions(user: UserDTO, permissions: string): Promise<void> {
+    user.permissions = permissions.split(',')
+        .map((p) => p.trim())
+        .filter((p) => p.length > 0);
+    try {
+      await this.userSettings.updatePermissions(user);
+    } catch (e) {
+      const err: ErrorDTO = e;
+      this.notification.error(
+          err.message + ', ' + err.details,
+          $localize`Permission change error!`
+      );
+    }
+    await this.getUsersList();
+  }
+
+  get PermissionsPlaceholder(): string {
+    const libraries = this.settingsService.settings.value.Media.libraries || [];
+    if (libraries.length === 0) {
+      return $localize`All folders`;
+    }
+    return libraries.map((l) => '/' + l.name + '*').join(', ');
+  }
+
   async deleteUser(user: UserDTO): Promise<void> {
     await this.userSettings.deleteUser(user);
     await this.getUsersList();
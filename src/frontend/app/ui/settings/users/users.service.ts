@@ -28,4 +28,10 @@ export class UsersSettingsService {
       newRole: user.role,
     });
   }
+
+  public updatePermissions(user: UserDTO): Promise<void> {
+    return this.networkService.postJson('/user/' + user.id + '/permissions', {
+      newPermissions: user.permissions || [],
+    });
+  }
 }
@@ -48,6 +48,7 @@ export class JobButtonComponent {
     return (
       this.Progress &&
       (this.Progress.state === JobProgressStates.running ||
+        this.Progress.state === JobProgressStates.paused ||
         this.Progress.state === JobProgressStates.cancelling)
     );
   }
@@ -107,6 +108,25 @@ export class JobButtonComponent {
     return false;
   }
 
+  public async resume(): Promise<boolean> {
+    this.jobError.emit('');
+    try {
+      await this.jobsService.resume(this.jobName);
+      this.notification.success(
+        $localize`Job resumed` +
+        ': ' +
+        this.backendTextService.getJobName(this.jobName)
+      );
+      return true;
+    } catch (err) {
+      console.error(err);
+      if (err.message) {
+        this.jobError.emit((err as ErrorDTO).message);
+      }
+    }
+    return false;
+  }
+
   public async stop(): Promise<boolean> {
     this.jobError.emit('');
     try {
@@ -3,6 +3,8 @@ import {JobProgressDTO, JobProgressStates,} from '../../../../../../common/entit
 import {Subscription, timer} from 'rxjs';
 import {BsModalRef, BsModalService} from 'ngx-bootstrap/modal';
 import {BackendtextService} from '../../../../model/backendtext.service';
+import {ScheduledJobsService} from '../../scheduled-jobs.service';
+import {JobHistoryDTO, JobHistoryPageDTO} from '../../../../../../common/entities/job/JobHistoryDTO';
 
 @Component({
   selector: 'app-settings-job-progress',
@@ -14,10 +16,24 @@ export class JobProgressComponent implements OnDestroy, OnChanges {
   JobProgressStates = JobProgressStates;
   timeCurrentCopy: number;
   modalRef: BsModalRef;
+  history: JobHistoryPageDTO = null;
+  historyPage = 0;
+  historyState: JobProgressStates = null;
+  selectedRun: JobHistoryDTO = null;
+  readonly historyPageSize = 10;
+  // states to filter the history by
+  readonly HistoryStates = [
+    JobProgressStates.running,
+    JobProgressStates.finished,
+    JobProgressStates.canceled,
+    JobProgressStates.failed,
+    JobProgressStates.interrupted,
+  ];
   private timerSub: Subscription;
 
   constructor(
       private modalService: BsModalService,
+      private jobsService: ScheduledJobsService,
       public backendTextService: BackendtextService
   ) {
   }
@@ -63,6 +79,7 @@ export class JobProgressComponent implements OnDestroy, OnChanges {
     return (
         this.progress &&
         (this.progress.state === JobProgressStates.running ||
+            this.progress.state === JobProgressStates.paused ||
             this.progress.state === JobProgressStates.cancelling)
     );
   }
@@ -71,6 +88,7 @@ export class JobProgressComponent implements OnDestroy, OnChanges {
     return (
         this.progress &&
         this.progress.state !== JobProgressStates.running &&
+        this.progress.state !== JobProgressStates.paused &&
         this.progress.state !== JobProgressStates.cancelling
     );
   }
@@ -96,9 +114,22 @@ export class JobProgressComponent implements OnDestroy, OnChanges {
     if (!this.progress) {
       return '';
     }
-    switch (this.progress.state) {
+    return this.getStateName(this.progress.state);
+  }
+
+  get HistoryPageCount(): number {
+    if (!this.history) {
+      return 0;
+    }
+    return Math.ceil(this.history.total / this.historyPageSize);
+  }
+
+  getStateName(state: JobProgressStates): string {
+    switch (state) {
       case JobProgressStates.running:
         return $localize`running`;
+      case JobProgressStates.paused:
+        return $localize`paused`;
       case JobProgressStates.cancelling:
         return $localize`cancelling`;
       case JobProgressStates.canceled:
@@ -116,6 +147,26 @@ export class JobProgressComponent implements OnDestroy, OnChanges {
 
   openModal(template: TemplateRef<unknown>): void {
     this.modalRef = this.modalService.show(template, {class: 'modal-lg'});
+    this.selectedRun = null;
+    this.loadHistory(0).catch(console.error);
+  }
+
+  async loadHistory(page: number): Promise<void> {
+    this.historyPage = page;
+    this.history = await this.jobsService.getHistory(
+        this.progress.jobName,
+        this.historyState,
+        this.historyPage,
+        this.historyPageSize
+    );
+  }
+
+  async selectRun(run: JobHistoryDTO): Promise<void> {
+    if (this.selectedRun?.id === run.id) {
+      this.selectedRun = null;
+      return;
+    }
+    this.selectedRun = await this.jobsService.getHistoryRun(run.id);
   }
 
   ngOnChanges(): void {
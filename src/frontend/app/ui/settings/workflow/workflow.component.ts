@@ -2,6 +2,7 @@ import {Component, forwardRef, OnDestroy, OnInit, QueryList, ViewChildren} from
 import {ModalDirective} from 'ngx-bootstrap/modal';
 import {
   AfterJobTrigger,
+  CronJobTrigger,
   JobScheduleDTO,
   JobScheduleDTOUtils,
   JobTriggerType,
@@ -13,6 +14,9 @@ import {ConfigStyle, SettingsService} from '../settings.service';
 import {JobProgressDTO, JobProgressStates} from '../../../../../common/entities/job/JobProgressDTO';
 import {
   AfterJobTriggerConfig,
+  CronJobTriggerConfig,
+  JobNotificationConfig,
+  JobRunWindowConfig,
   JobScheduleConfig,
   NeverJobTriggerConfig,
   PeriodicJobTriggerConfig,
@@ -22,6 +26,7 @@ import {ControlValueAccessor, NG_VALIDATORS, NG_VALUE_ACCESSOR, ValidationErrors
 import {SortByTypes, SortingMethod} from '../../../../../common/entities/SortingMethods';
 import {MediaPickDTO} from '../../../../../common/entities/MediaPickDTO';
 import {SearchQueryTypes, TextSearch} from '../../../../../common/entities/SearchQueryDTO';
+import {CronExpression} from '../../../../../common/CronExpression';
 
 @Component({
   selector: 'app-settings-workflow',
@@ -62,9 +67,14 @@ export class WorkflowComponent implements ControlValueAccessor, Validator, OnIni
       type: JobTriggerType.never,
     },
     allowParallelRun: false,
+    runWindow: new JobRunWindowConfig(),
+    resumeInterrupted: false,
+    notification: new JobNotificationConfig(),
   };
   public readonly ConfigStyle = ConfigStyle;
   protected readonly SortByTypes = SortByTypes;
+  // number of upcoming runs to preview
+  public readonly nextRunsCount = 5;
 
 
   error: string;
@@ -76,6 +86,7 @@ export class WorkflowComponent implements ControlValueAccessor, Validator, OnIni
   ) {
     this.JobTriggerTypeMap = [
       {key: JobTriggerType.after, value: $localize`after`},
+      {key: JobTriggerType.cron, value: $localize`cron`},
       {key: JobTriggerType.never, value: $localize`never`},
       {key: JobTriggerType.periodic, value: $localize`periodic`},
       {key: JobTriggerType.scheduled, value: $localize`scheduled`},
@@ -104,6 +115,15 @@ export class WorkflowComponent implements ControlValueAccessor, Validator, OnIni
     return d;
   }
 
+  /**
+   * The server evaluates the run window in UTC, so it is shown next to the picked local times.
+   */
+  getRunWindowUTC(window: JobRunWindowConfig): string {
+    const format = (time: number): string =>
+      ('0' + Math.floor(time / 60)).slice(-2) + ':' + ('0' + (time % 60)).slice(-2);
+    return format(window.start) + ' - ' + format(window.end) + ' UTC';
+  }
+
 
   ngOnInit(): void {
     this.jobsService.subscribeToProgress();
@@ -135,6 +155,17 @@ export class WorkflowComponent implements ControlValueAccessor, Validator, OnIni
   }
 
 
+  notificationMessengerChanged(schedule: JobScheduleDTO): void {
+    schedule.notification.config = {};
+    const ct = this.jobsService.getMessengerConfigTemplate(schedule.notification.messenger);
+    if (ct) {
+      ct.forEach(
+        (c) => (schedule.notification.config[c.id] = c.defaultValue as never)
+      );
+    }
+  }
+
+
   jobTriggerTypeChanged(
     triggerType: JobTriggerType,
     schedule: JobScheduleDTO
@@ -154,6 +185,10 @@ export class WorkflowComponent implements ControlValueAccessor, Validator, OnIni
         schedule.trigger.atTime = 0;
         break;
 
+      case JobTriggerType.cron:
+        schedule.trigger = new CronJobTriggerConfig();
+        break;
+
       case JobTriggerType.after:
         schedule.trigger = new AfterJobTriggerConfig();
         if (!(schedule.trigger as unknown as AfterJobTrigger).afterScheduleName && this.schedules.length > 1) {
@@ -163,6 +198,19 @@ export class WorkflowComponent implements ControlValueAccessor, Validator, OnIni
     }
   }
 
+  getCronError(trigger: CronJobTrigger): string {
+    try {
+      CronExpression.parse(trigger.cron);
+      return null;
+    } catch (e) {
+      return e.message;
+    }
+  }
+
+  getNextRuns(schedule: JobScheduleDTO): Date[] {
+    return JobScheduleDTOUtils.getNextRunningDates(new Date(), schedule, this.nextRunsCount);
+  }
+
   setEmailArray(configElement: any, id: string, value: string): void {
     value = value.replace(new RegExp(',', 'g'), ';');
     value = value.replace(new RegExp(' ', 'g'), ';');
@@ -236,7 +284,7 @@ export class WorkflowComponent implements ControlValueAccessor, Validator, OnIni
     this.schedules.push(this.newSchedule);
 
     this.jobModalQL.first.hide();
-    this.onChange(null); // trigger change detection after adding new job
+    this.onChange(); // trigger change detection after adding new job
   }
 
   getProgress(schedule: JobScheduleDTO): JobProgressDTO {
@@ -272,10 +320,15 @@ export class WorkflowComponent implements ControlValueAccessor, Validator, OnIni
   }
 
   validate(): ValidationErrors {
+    const invalid = (this.schedules || []).find(s => s.trigger.type === JobTriggerType.cron &&
+      !CronExpression.isValid((s.trigger as CronJobTrigger).cron));
+    if (invalid) {
+      return {cron: invalid.name};
+    }
     return null;
   }
 
-  public onChange = (value: unknown): void => {
+  public onChange = (): void => {
     // empty
   };
 
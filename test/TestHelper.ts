@@ -34,6 +34,8 @@ export class TestHelper {
     dir.name = name;
     dir.path = DiskManager.pathFromParent({path: '', name: '.'});
     dir.mediaCount = 0;
+    dir.videoCount = 0;
+    dir.directoryCount = 0;
     dir.youngestMedia = 10;
     dir.oldestMedia = 1000;
     dir.directories = [];
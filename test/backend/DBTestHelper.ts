@@ -44,7 +44,9 @@ export class DBTestHelper {
 
   static enable = {
     sqlite: process.env.TEST_SQLITE !== 'false',
-    mysql: process.env.TEST_MYSQL !== 'false'
+    mysql: process.env.TEST_MYSQL !== 'false',
+    // needs a local PostgreSQL instance, see Config.Database.postgres
+    postgres: process.env.TEST_POSTGRES === 'true'
   };
   public static readonly savedDescribe = savedDescribe;
   public readonly testGalleyEntities: {
@@ -84,6 +86,7 @@ export class DBTestHelper {
   static describe(settingsOverride: {
     sqlite?: boolean;
     mysql?: boolean;
+    postgres?: boolean;
   } = {}): (name: string, tests: (helper?: DBTestHelper) => void) => void {
     const settings = Utils.clone(DBTestHelper.enable);
     for (const key of Object.keys(settingsOverride)) {
@@ -104,6 +107,13 @@ export class DBTestHelper {
             return tests(helper);
           });
         }
+        if (settings.postgres) {
+          const helper = new DBTestHelper(DatabaseType.postgres);
+          savedDescribe('postgres', function(): void {
+            this.timeout(99999999); // hint for the test environment
+            return tests(helper);
+          });
+        }
       });
     };
   }
@@ -150,6 +160,8 @@ export class DBTestHelper {
       await this.initSQLite();
     } else if (this.dbType === DatabaseType.mysql) {
       await this.initMySQL();
+    } else if (this.dbType === DatabaseType.postgres) {
+      await this.initPostgres();
     }
   }
 
@@ -158,6 +170,8 @@ export class DBTestHelper {
       await this.clearUpSQLite();
     } else if (this.dbType === DatabaseType.mysql) {
       await this.clearUpMysql();
+    } else if (this.dbType === DatabaseType.postgres) {
+      await this.clearUpPostgres();
     }
   }
 
@@ -210,6 +224,25 @@ export class DBTestHelper {
     await SQLConnection.close();
   }
 
+  private async initPostgres(): Promise<void> {
+    Logger.debug(LOG_TAG, 'resetting up postgres');
+    await this.clearUpPostgres();
+    await ObjectManagers.getInstance().init();
+  }
+
+  private async clearUpPostgres(): Promise<void> {
+    Logger.debug(LOG_TAG, 'clearing up postgres');
+    await ObjectManagers.reset();
+    Config.Database.type = DatabaseType.postgres;
+    Config.Database.postgres.database = 'pigallery2_test';
+    await fs.promises.rm(TestHelper.TMP_DIR, {recursive: true, force: true});
+    const conn = await SQLConnection.getConnection();
+    const schema = Config.Database.postgres.schema;
+    await conn.query('DROP SCHEMA IF EXISTS "' + schema + '" CASCADE');
+    await conn.query('CREATE SCHEMA "' + schema + '"');
+    await SQLConnection.close();
+  }
+
   private async initSQLite(): Promise<void> {
     await this.resetSQLite();
   }
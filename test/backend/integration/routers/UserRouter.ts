@@ -190,4 +190,94 @@ describe('UserRouter', () => {
       checkUserResult(result, expectedGuestUser);
     });
   });
+
+  describe('/PUT user/token', () => {
+    beforeEach(setUp);
+    afterEach(tearDown);
+
+    const createToken = async (loginRes: any, newToken: any): Promise<any> => {
+      return chai.request(server.Server)
+        .put(Config.Server.apiPath + '/user/token')
+        .set('Cookie', loginRes.res.headers['set-cookie'])
+        .set('CSRF-Token', loginRes.body.result.csrfToken)
+        .send({newToken});
+    };
+
+    it('it should authenticate with API token', async () => {
+      Config.Users.authenticationRequired = true;
+      const loginRes = await login(server);
+
+      const tokenRes = await createToken(loginRes, {name: 'cron', role: UserRoles.Guest});
+      tokenRes.should.have.status(200);
+      tokenRes.body.result.token.should.be.a('string');
+
+      const result = await chai.request(server.Server)
+        .get(Config.Server.apiPath + '/user/me')
+        .set('Authorization', 'Bearer ' + tokenRes.body.result.token);
+
+      result.should.have.status(200);
+      result.body.result.name.should.equal(testUser.name);
+      result.body.result.role.should.equal(UserRoles.Guest);
+      should.equal(result.res.headers['set-cookie'], undefined);
+
+      const list = await chai.request(server.Server)
+        .get(Config.Server.apiPath + '/user/token/list')
+        .set('Cookie', loginRes.res.headers['set-cookie']);
+      list.body.result.length.should.equal(1);
+      should.equal(list.body.result[0].token, undefined);
+      list.body.result[0].lastUsed.should.be.a('number');
+    });
+
+    it('it should not create token with higher role than the user', async () => {
+      Config.Users.authenticationRequired = true;
+      const loginRes = await login(server);
+
+      const tokenRes = await createToken(loginRes, {name: 'cron', role: UserRoles.Admin});
+      should.equal(tokenRes.body.error.code, ErrorCodes.INPUT_ERROR);
+    });
+
+    it('it should stop authenticating once the API token is revoked', async () => {
+      Config.Users.authenticationRequired = true;
+      const loginRes = await login(server);
+
+      const tokenRes = await createToken(loginRes, {name: 'cron'});
+      let result = await chai.request(server.Server)
+        .get(Config.Server.apiPath + '/user/me')
+        .set('Authorization', 'Bearer ' + tokenRes.body.result.token);
+      result.should.have.status(200);
+
+      await chai.request(server.Server)
+        .delete(Config.Server.apiPath + '/user/token/' + tokenRes.body.result.id)
+        .set('Cookie', loginRes.res.headers['set-cookie'])
+        .set('CSRF-Token', loginRes.body.result.csrfToken);
+
+      result = await chai.request(server.Server)
+        .get(Config.Server.apiPath + '/user/me')
+        .set('Authorization', 'Bearer ' + tokenRes.body.result.token);
+      result.should.have.status(401);
+    });
+
+    it('it should not authenticate with revoked or expired API token', async () => {
+      Config.Users.authenticationRequired = true;
+      const loginRes = await login(server);
+
+      const tokenRes = await createToken(loginRes, {name: 'cron'});
+      await chai.request(server.Server)
+        .delete(Config.Server.apiPath + '/user/token/' + tokenRes.body.result.id)
+        .set('Cookie', loginRes.res.headers['set-cookie'])
+        .set('CSRF-Token', loginRes.body.result.csrfToken);
+
+      let result = await chai.request(server.Server)
+        .get(Config.Server.apiPath + '/user/me')
+        .set('Authorization', 'Bearer ' + tokenRes.body.result.token);
+      result.should.have.status(401);
+
+      const expiringRes = await createToken(loginRes, {name: 'cron', expires: Date.now() + 200});
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      result = await chai.request(server.Server)
+        .get(Config.Server.apiPath + '/user/me')
+        .set('Authorization', 'Bearer ' + expiringRes.body.result.token);
+      result.should.have.status(401);
+    });
+  });
 });
@@ -0,0 +1,119 @@
+import {expect} from 'chai';
+import {GalleryMWs} from '../../../../src/backend/middlewares/GalleryMWs';
+import {ObjectManagers} from '../../../../src/backend/model/ObjectManagers';
+import {SearchManager} from '../../../../src/backend/model/database/SearchManager';
+import {MediaEntity} from '../../../../src/backend/model/database/enitites/MediaEntity';
+import {Config} from '../../../../src/common/config/private/Config';
+import {MemoriesMediaPickConfig} from '../../../../src/common/config/public/ClientConfig';
+import {ErrorDTO} from '../../../../src/common/entities/Error';
+import {SortingMethod} from '../../../../src/common/entities/SortingMethods';
+import {
+  ANDSearchQuery,
+  SearchQueryDTO,
+  SearchQueryTypes,
+  TextSearch,
+  ToDateSearch
+} from '../../../../src/common/entities/SearchQueryDTO';
+import {ContentWrapper} from '../../../../src/common/entities/ConentWrapper';
+
+
+declare const describe: any;
+declare const it: any;
+declare const beforeEach: any;
+declare const afterEach: any;
+
+describe('Gallery middleware', () => {
+
+  describe('getMemories', () => {
+
+    const media = (name: string): MediaEntity => ({
+      name,
+      directory: {path: './', name: 'memories'}
+    } as MediaEntity);
+
+    const keyword = (text: string): TextSearch => ({
+      type: SearchQueryTypes.keyword,
+      text
+    } as TextSearch);
+
+    let queries: SearchQueryDTO[];
+    let mediaPick: MemoriesMediaPickConfig[];
+
+    class TestSearchManager extends SearchManager {
+      constructor(private readonly results: { [key: string]: MediaEntity[] }) {
+        super();
+      }
+
+      async getNMedia(query: SearchQueryDTO, sortings: SortingMethod[], take: number): Promise<MediaEntity[]> {
+        queries.push(query);
+        const text = ((query as ANDSearchQuery).list[0] as TextSearch).text;
+        return this.results[text].slice(0, take);
+      }
+    }
+
+    const getMemories = (): Promise<ContentWrapper> => {
+      const req: any = {
+        session: {user: {permissions: null}}
+      };
+      return new Promise((resolve, reject) => {
+        const next: any = (err?: ErrorDTO) => {
+          if (err) {
+            return reject(err);
+          }
+          resolve(req.resultPipe);
+        };
+        GalleryMWs.getMemories(req, null, next);
+      });
+    };
+
+    beforeEach(async () => {
+      await ObjectManagers.reset();
+      queries = [];
+      mediaPick = Config.Gallery.Memories.mediaPick;
+    });
+
+    afterEach(() => {
+      Config.Gallery.Memories.mediaPick = mediaPick;
+    });
+
+    it('should only list media until the end of this day a year ago', async () => {
+      Config.Gallery.Memories.mediaPick = [new MemoriesMediaPickConfig(keyword('a'), [], 5)];
+      ObjectManagers.getInstance().SearchManager = new TestSearchManager({a: [media('a.jpg')]});
+
+      const now = new Date();
+      await getMemories();
+
+      expect(queries.length).to.equal(1);
+      const to = (queries[0] as ANDSearchQuery).list[1] as ToDateSearch;
+      expect(to.type).to.equal(SearchQueryTypes.to_date);
+      const lastMoment = new Date(to.value);
+      expect(lastMoment.getFullYear()).to.equal(now.getFullYear() - 1);
+      expect(lastMoment.getMonth()).to.equal(now.getMonth());
+      expect(lastMoment.getDate()).to.equal(now.getDate());
+      expect([lastMoment.getHours(), lastMoment.getMinutes(), lastMoment.getSeconds(), lastMoment.getMilliseconds()])
+        .to.deep.equal([23, 59, 59, 999]);
+      // the configured query is not changed
+      expect(Config.Gallery.Memories.mediaPick[0].searchQuery).to.deep.equal(keyword('a'));
+    });
+
+    it('should not list the same media twice from multiple media picks', async () => {
+      Config.Gallery.Memories.mediaPick = [
+        new MemoriesMediaPickConfig(keyword('a'), [], 5),
+        new MemoriesMediaPickConfig(keyword('b'), [], 5)
+      ];
+      ObjectManagers.getInstance().SearchManager = new TestSearchManager({
+        a: [media('1.jpg'), media('2.jpg')],
+        b: [media('2.jpg'), media('3.jpg'), media('1.jpg')]
+      });
+
+      const result = await getMemories();
+
+      expect(queries.length).to.equal(2);
+      expect(result.searchResult.media.map(m => m.name)).to.deep.equal(['1.jpg', '2.jpg', '3.jpg']);
+      expect(result.searchResult.searchQuery).to.deep.equal({
+        type: SearchQueryTypes.OR,
+        list: [keyword('a'), keyword('b')]
+      });
+    });
+  });
+});
@@ -7,6 +7,10 @@ import {ObjectManagers} from '../../../../../src/backend/model/ObjectManagers';
 import {Config} from '../../../../../src/common/config/private/Config';
 import * as path from 'path';
 import {UserManager} from '../../../../../src/backend/model/database/UserManager';
+import {SharingManager} from '../../../../../src/backend/model/database/SharingManager';
+import {SharingDTO} from '../../../../../src/common/entities/SharingDTO';
+import {Request, Response} from 'express';
+import {QueryParams} from '../../../../../src/common/QueryParams';
 
 
 declare const describe: any;
@@ -118,6 +122,104 @@ describe('Authentication middleware', () => {
       expect(await test('/sub/subsub/test/two')).to.be.eql('ok');
     });
 
+    it('should only allow the media of a selection sharing', async () => {
+      const sharing: SharingDTO = {
+        id: 1,
+        sharingKey: 'key',
+        path: '/',
+        media: ['sub/a.jpg'],
+        password: null,
+        includeSubfolders: false,
+        expires: Date.now() + 60 * 1000,
+        timeStamp: Date.now(),
+        creator: null
+      };
+      let dbQueries = 0;
+
+      class TestSharingManager extends SharingManager {
+        async findOne(): Promise<SharingDTO> {
+          dbQueries++;
+          return sharing;
+        }
+
+        async isMediaShared(s: SharingDTO, p: string): Promise<boolean> {
+          dbQueries++;
+          return s.media.includes(p);
+        }
+      }
+
+      ObjectManagers.getInstance().SharingManager = new TestSharingManager();
+      const authoriseMediaPath = AuthenticationMWs.authorisePath('path', false);
+      const testMedia = (relativePath: string): Promise<string | number> => {
+        return new Promise((resolve) => {
+          const r = {...req, params: {path: relativePath}} as unknown as Request;
+          const res = {sendStatus: resolve} as unknown as Response;
+          authoriseMediaPath(r, res, () => {
+            resolve('ok');
+          });
+        });
+      };
+      req.session['user'].permissions = ['/*'];
+      (req.session['user'] as UserDTO).usedSharingKey = 'key';
+      expect(await testMedia('sub/a.jpg')).to.be.eql('ok');
+      expect(await testMedia('sub/b.jpg')).to.be.eql(403);
+      expect(await test('/sub')).to.be.eql(403);
+      expect(dbQueries).to.be.eql(3);
+      // guests load the same media again, these are cached
+      expect(await testMedia('sub/a.jpg')).to.be.eql('ok');
+      expect(await testMedia('sub/b.jpg')).to.be.eql(403);
+      expect(dbQueries).to.be.eql(3);
+      delete (req.session['user'] as UserDTO).usedSharingKey;
+    });
+
+  });
+
+  describe('tryAuthenticate', () => {
+
+    it('should count a sharing open once per session', async () => {
+      const sharing: SharingDTO = {
+        id: 1,
+        sharingKey: 'key',
+        path: '/',
+        password: null,
+        includeSubfolders: false,
+        expires: Date.now() + 60 * 1000,
+        timeStamp: Date.now(),
+        creator: null
+      };
+      let opens = 0;
+
+      class TestSharingManager extends SharingManager {
+        async findOne(): Promise<SharingDTO> {
+          return sharing;
+        }
+
+        async registerAccess(): Promise<void> {
+          opens++;
+        }
+      }
+
+      ObjectManagers.getInstance().SharingManager = new TestSharingManager();
+      Config.Users.authenticationRequired = true;
+      Config.Sharing.enabled = true;
+      Config.Sharing.passwordRequired = false;
+      const session = {};
+      const login = (): Promise<void> => {
+        const req = {
+          session,
+          query: {[QueryParams.gallery.sharingKey_query]: 'key'},
+          params: {},
+          get: (): string => null
+        } as unknown as Request;
+        return new Promise((resolve) => {
+          AuthenticationMWs.tryAuthenticate(req, null, () => resolve());
+        });
+      };
+      await login();
+      await login();
+      expect((session as { user: UserDTO }).user.usedSharingKey).to.be.eql('key');
+      expect(opens).to.be.eql(1);
+    });
   });
 
   describe('inverseAuthenticate', () => {
@@ -0,0 +1,41 @@
+import {expect} from 'chai';
+import {FaceDetector} from '../../../../../src/backend/model/fileaccess/FaceDetector';
+import {ExtensionDecoratorObject} from '../../../../../src/backend/model/extension/ExtensionDecorator';
+import {ExtensionEvent} from '../../../../../src/backend/model/extension/ExtensionEvent';
+import {IExtensionEvents} from '../../../../../src/backend/model/extension/IExtension';
+import {Config} from '../../../../../src/common/config/private/Config';
+
+declare const afterEach: any;
+
+describe('FaceDetector', () => {
+
+  const origEvents = ExtensionDecoratorObject.events;
+
+  afterEach(() => {
+    ExtensionDecoratorObject.init(origEvents);
+    Config.Faces.Detection.detectorModel = '';
+    Config.Faces.Detection.embeddingModel = '';
+  });
+
+  it('should fail the model check without models', async () => {
+    Config.Faces.Detection.detectorModel = '';
+    try {
+      await FaceDetector.checkModels();
+      expect.fail('should throw');
+    } catch (e) {
+      expect(e.message).to.contain('needs a detector and an embedding model');
+    }
+  });
+
+  it('should skip the model check if an extension detects the faces', async () => {
+    const detect = new ExtensionEvent<[string], unknown>();
+    detect.before(async (input, event) => {
+      event.stopPropagation = true;
+      return [];
+    });
+    ExtensionDecoratorObject.init({gallery: {FaceDetector: {detect}}} as unknown as IExtensionEvents);
+
+    await FaceDetector.checkModels();
+    expect(await FaceDetector.detect('photo.jpg')).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,103 @@
+import {expect} from 'chai';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {WatcherManager} from '../../../../../src/backend/model/fileaccess/WatcherManager';
+import {Config} from '../../../../../src/common/config/private/Config';
+import {ProjectPath} from '../../../../../src/backend/ProjectPath';
+
+declare const before: any;
+declare const after: any;
+declare const afterEach: any;
+
+class TestWatcherManager extends WatcherManager {
+  public reindexed: string[][] = [];
+  private batch: string[] = [];
+
+  public enqueue(absDir: string): void {
+    super.enqueue(absDir);
+  }
+
+  protected async reindex(relDir: string): Promise<void> {
+    this.batch.push(relDir);
+    // collects the directories that were reindexed in the same processing run
+    setImmediate(() => {
+      if (this.batch.length > 0) {
+        this.reindexed.push(this.batch);
+        this.batch = [];
+      }
+    });
+  }
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('WatcherManager', () => {
+
+  let tmpDir: string;
+  let watcher: TestWatcherManager;
+
+  before(async () => {
+    await Config.load();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pigallery2-watcher-'));
+    fs.mkdirSync(path.join(tmpDir, 'images', 'a'), {recursive: true});
+    fs.mkdirSync(path.join(tmpDir, 'images', 'b'), {recursive: true});
+    Config.Media.folder = path.join(tmpDir, 'images');
+    Config.Media.tempFolder = path.join(tmpDir, 'tmp');
+    Config.Indexing.Watcher.enabled = true;
+    Config.Indexing.Watcher.debounceTime = 100;
+    Config.Indexing.Watcher.pollingInterval = 50;
+    ProjectPath.reset();
+  });
+
+  afterEach(async () => {
+    await watcher?.cleanUp();
+    Config.Indexing.Watcher.usePolling = false;
+  });
+
+  after(async () => {
+    fs.rmSync(tmpDir, {recursive: true, force: true});
+    await Config.load();
+    ProjectPath.reset();
+  });
+
+  it('should debounce changes', async () => {
+    watcher = new TestWatcherManager();
+    watcher.enqueue(path.join(ProjectPath.ImageFolder, 'a'));
+    await wait(50);
+    watcher.enqueue(path.join(ProjectPath.ImageFolder, 'a'));
+    await wait(50);
+    // the second change restarted the timer
+    expect(watcher.reindexed).to.deep.equal([]);
+    expect(watcher.Status.pendingDirectories).to.deep.equal(['a']);
+    await wait(150);
+    expect(watcher.reindexed).to.deep.equal([['a']]);
+    expect(watcher.Status.pendingDirectories).to.deep.equal([]);
+  });
+
+  it('should batch pending directories', async () => {
+    watcher = new TestWatcherManager();
+    watcher.enqueue(path.join(ProjectPath.ImageFolder, 'a'));
+    watcher.enqueue(path.join(ProjectPath.ImageFolder, 'b'));
+    watcher.enqueue(path.join(ProjectPath.ImageFolder, 'a'));
+    expect(watcher.Status.pendingDirectories).to.deep.equal(['a', 'b']);
+    await wait(200);
+    // reindexed in a single run, after a single debounce
+    expect(watcher.reindexed).to.deep.equal([['a', 'b']]);
+  });
+
+  it('should fall back to polling', async () => {
+    Config.Indexing.Watcher.usePolling = true;
+    watcher = new TestWatcherManager();
+    await watcher.init();
+    expect(watcher.Status.watchedDirectories).to.equal(0);
+    expect(watcher.Status.polledDirectories).to.equal(3);
+
+    fs.writeFileSync(path.join(ProjectPath.ImageFolder, 'b', 'new.jpg'), '');
+    await wait(400);
+    expect(watcher.reindexed.flat()).to.deep.equal(['b']);
+
+    await watcher.cleanUp();
+    expect(watcher.Status.polledDirectories).to.equal(0);
+  });
+});
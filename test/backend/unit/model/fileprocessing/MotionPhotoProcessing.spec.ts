@@ -0,0 +1,89 @@
+import {expect} from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import {MotionPhotoProcessing} from '../../../../../src/backend/model/fileaccess/fileprocessing/MotionPhotoProcessing';
+import {Config} from '../../../../../src/common/config/private/Config';
+import {ProjectPath} from '../../../../../src/backend/ProjectPath';
+
+declare const before: any;
+declare const after: any;
+
+describe('MotionPhotoProcessing', () => {
+
+  const tempDir = path.join(__dirname, '../../../tmp');
+  const clip = Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from('ftypmp42'), Buffer.alloc(12, 1)]);
+  const photo = (xmp: string) => Buffer.concat([Buffer.from([0xff, 0xd8]), Buffer.from(xmp), Buffer.from([0xff, 0xd9])]);
+  const origFolders = {folder: Config.Media.folder, tempFolder: Config.Media.tempFolder};
+
+  before(async () => {
+    await fs.promises.rm(tempDir, {recursive: true, force: true});
+    await fs.promises.mkdir(path.join(tempDir, 'images'), {recursive: true});
+    Config.Media.folder = path.join(tempDir, 'images');
+    Config.Media.tempFolder = path.join(tempDir, 'tmp');
+    ProjectPath.reset();
+  });
+
+  after(async () => {
+    await fs.promises.rm(tempDir, {recursive: true, force: true});
+    Config.Media.folder = origFolders.folder;
+    Config.Media.tempFolder = origFolders.tempFolder;
+    ProjectPath.reset();
+  });
+
+  /* eslint-disable no-unused-expressions,@typescript-eslint/no-unused-expressions */
+  it('should extract embedded video', async () => {
+    const photoPath = path.join(ProjectPath.ImageFolder, 'motion.jpg');
+    await fs.promises.writeFile(photoPath, Buffer.concat([
+      photo('<x GCamera:MotionPhoto="1" Item:Semantic="MotionPhoto" Item:Length="' + clip.length + '"/>'),
+      clip
+    ]));
+
+    const clipPath = await MotionPhotoProcessing.extractClip(photoPath);
+
+    expect(clipPath).to.equal(MotionPhotoProcessing.generateClipPath(photoPath));
+    expect(await fs.promises.readFile(clipPath)).to.deep.equal(clip);
+    expect(MotionPhotoProcessing.isClipPath(clipPath)).to.be.true;
+    expect(await MotionPhotoProcessing.isValidClipPath(clipPath)).to.be.true;
+    expect(await MotionPhotoProcessing.getMotionVideo(photoPath)).to.equal(clipPath);
+  });
+
+  it('should detect embedded video without extracting it', async () => {
+    const photoPath = path.join(ProjectPath.ImageFolder, 'detect.jpg');
+    await fs.promises.writeFile(photoPath, Buffer.concat([
+      photo('<x GCamera:MicroVideo="1" GCamera:MicroVideoOffset="' + clip.length + '"/>'),
+      clip
+    ]));
+    const noLengthPath = path.join(ProjectPath.ImageFolder, 'detect-no-length.jpg');
+    await fs.promises.writeFile(noLengthPath, Buffer.concat([photo('<x GCamera:MotionPhoto="1"/>'), clip]));
+    const plainPath = path.join(ProjectPath.ImageFolder, 'detect-plain.jpg');
+    await fs.promises.writeFile(plainPath, Buffer.concat([photo(''), clip]));
+
+    expect(await MotionPhotoProcessing.hasEmbeddedClip(photoPath)).to.be.true;
+    expect(await MotionPhotoProcessing.hasEmbeddedClip(noLengthPath)).to.be.true;
+    expect(await MotionPhotoProcessing.hasEmbeddedClip(plainPath)).to.be.false;
+    expect(fs.existsSync(MotionPhotoProcessing.generateClipPath(photoPath))).to.be.false;
+    expect(await fs.promises.readFile(await MotionPhotoProcessing.extractClip(noLengthPath))).to.deep.equal(clip);
+  });
+
+  it('should not extract from plain photo', async () => {
+    const photoPath = path.join(ProjectPath.ImageFolder, 'plain.jpg');
+    await fs.promises.writeFile(photoPath, Buffer.concat([photo(''), clip]));
+
+    expect(await MotionPhotoProcessing.extractClip(photoPath)).to.be.null;
+    expect(await MotionPhotoProcessing.isValidClipPath(MotionPhotoProcessing.generateClipPath(photoPath + 'noPath')))
+      .to.be.false;
+  });
+
+  it('should reuse the known Live Photos without probing their videos', async () => {
+    await fs.promises.writeFile(path.join(ProjectPath.ImageFolder, 'live.heic'), photo(''));
+    await fs.promises.writeFile(path.join(ProjectPath.ImageFolder, 'live.mov'), clip);
+    const files = ['live.heic', 'live.mov'];
+
+    // the video has no content identifier
+    expect(await MotionPhotoProcessing.findLivePhotoVideos(ProjectPath.ImageFolder, files))
+      .to.deep.equal(new Map());
+    expect(await MotionPhotoProcessing.findLivePhotoVideos(ProjectPath.ImageFolder, files, async () => true))
+      .to.deep.equal(new Map([['live.heic', 'live.mov']]));
+  });
+
+});
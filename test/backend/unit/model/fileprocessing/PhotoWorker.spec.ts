@@ -0,0 +1,21 @@
+import {expect} from 'chai';
+import * as path from 'path';
+import {PhotoWorker} from '../../../../../src/backend/model/fileaccess/PhotoWorker';
+
+
+describe('PhotoWorker', () => {
+
+  const assets = path.join(__dirname, './../../../assets');
+
+  it('should calculate perceptual hash', async () => {
+    const hash = await PhotoWorker.calcPerceptualHash(path.join(assets, 'wild-1-small.jpg'));
+    expect(hash).to.match(/^[0-9a-f]{16}$/);
+  });
+
+  it('should calculate the same perceptual hash for copies with different metadata', async () => {
+    const hash = await PhotoWorker.calcPerceptualHash(path.join(assets, 'Chars.jpg'));
+    expect(await PhotoWorker.calcPerceptualHash(path.join(assets, 'sidecar/Chars.jpg'))).to.equal(hash);
+    expect(await PhotoWorker.calcPerceptualHash(path.join(assets, 'wild-1-small.jpg'))).to.not.equal(hash);
+  });
+
+});
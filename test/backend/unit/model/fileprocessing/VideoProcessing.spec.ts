@@ -42,4 +42,29 @@ describe('VideoProcessing', () => {
     }
   });
 
+  it('should generate HLS stream path', async () => {
+
+    await Config.load();
+    ProjectPath.ImageFolder = path.join(__dirname, './../../../assets');
+    const videoPath = path.join(ProjectPath.ImageFolder, 'video.mp4');
+    const hlsPath = VideoProcessing.generateHLSPath(videoPath);
+    expect(VideoProcessing.isHLSPath(hlsPath)).to.be.true;
+    expect(VideoProcessing.isHLSPath(VideoProcessing.generateConvertedFilePath(videoPath))).to.be.false;
+    expect(VideoProcessing.isHLSPath(path.join(ProjectPath.TranscodedFolder, 'my_hls'))).to.be.false;
+    expect(VideoProcessing.isHLSPath(path.join(ProjectPath.TranscodedFolder, 'video.mp4_hls_old'))).to.be.false;
+    expect(await VideoProcessing.isValidHLSPath(hlsPath)).to.be.true;
+
+    expect(await VideoProcessing
+      .isValidHLSPath(VideoProcessing.generateHLSPath(videoPath + 'noPath')))
+      .to.be.false;
+
+    Config.Media.Video.transcoding.hlsSegmentLength = 10;
+    expect(await VideoProcessing.isValidHLSPath(hlsPath)).to.be.false;
+    expect(VideoProcessing.isHLSPath(hlsPath)).to.be.true;
+
+    await Config.load();
+    Config.Media.Video.transcoding.hlsResolutions = [240];
+    expect(await VideoProcessing.isValidHLSPath(hlsPath)).to.be.false;
+  });
+
 });
@@ -0,0 +1,34 @@
+import {expect} from 'chai';
+import {VideoSpriteProcessing} from '../../../../../src/backend/model/fileaccess/fileprocessing/VideoSpriteProcessing';
+import {VideoProcessing} from '../../../../../src/backend/model/fileaccess/fileprocessing/VideoProcessing';
+import {Config} from '../../../../../src/common/config/private/Config';
+import {ProjectPath} from '../../../../../src/backend/ProjectPath';
+import * as path from 'path';
+
+
+describe('VideoSpriteProcessing', () => {
+
+  /* eslint-disable no-unused-expressions,@typescript-eslint/no-unused-expressions */
+  it('should generate sprite path', async () => {
+
+    await Config.load();
+    ProjectPath.ImageFolder = path.join(__dirname, './../../../assets');
+    const videoPath = path.join(ProjectPath.ImageFolder, 'video.mp4');
+    const spritePath = VideoSpriteProcessing.generateSpritePath(videoPath);
+    const vttPath = VideoSpriteProcessing.generateVTTPath(videoPath);
+    expect(VideoSpriteProcessing.isSpritePath(spritePath)).to.be.true;
+    expect(VideoSpriteProcessing.isSpritePath(vttPath)).to.be.true;
+    expect(VideoSpriteProcessing.isSpritePath(VideoProcessing.generateConvertedFilePath(videoPath))).to.be.false;
+    expect(await VideoSpriteProcessing.isValidSpritePath(spritePath)).to.be.true;
+    expect(await VideoSpriteProcessing.isValidSpritePath(vttPath)).to.be.true;
+
+    expect(await VideoSpriteProcessing
+      .isValidSpritePath(VideoSpriteProcessing.generateSpritePath(videoPath + 'noPath')))
+      .to.be.false;
+
+    Config.Media.Video.sprite.frameCount = 10;
+    expect(await VideoSpriteProcessing.isValidSpritePath(spritePath)).to.be.false;
+    await Config.load();
+  });
+
+});
@@ -0,0 +1,81 @@
+import {expect} from 'chai';
+import * as path from 'path';
+import * as fs from 'fs';
+import {OfflineGeocodingProvider} from '../../../../../src/backend/model/geocoding/OfflineGeocodingProvider';
+
+declare const before: any;
+declare const after: any;
+
+describe('OfflineGeocodingProvider', () => {
+
+  const tempDir = path.join(__dirname, '../../../tmp');
+
+  const writeDataset = async (name: string, content: string): Promise<string> => {
+    const p = path.join(tempDir, name);
+    await fs.promises.writeFile(p, content, 'utf8');
+    return p;
+  };
+
+  before(async () => {
+    await fs.promises.rm(tempDir, {recursive: true, force: true});
+    await fs.promises.mkdir(tempDir, {recursive: true});
+  });
+
+  after(async () => {
+    await fs.promises.rm(tempDir, {recursive: true, force: true});
+  });
+
+  it('should geocode and reverse geocode from csv', async () => {
+    const provider = new OfflineGeocodingProvider(await writeDataset('places.csv',
+      'name,latitude,longitude,state,country,population\n' +
+      'Budapest,47.49801,19.03991,Budapest,Hungary,1741041\n' +
+      'Paris,48.85341,2.3488,Île-de-France,France,2138551\n' +
+      'Paris,33.66094,-95.55551,Texas,"United States, The",24782\n'));
+
+    expect(await provider.geocode('paris')).to.deep.equal({latitude: 48.85341, longitude: 2.3488});
+    expect(await provider.geocode('Paris, Texas')).to.deep.equal({latitude: 33.66094, longitude: -95.55551});
+    expect(await provider.geocode('Vienna')).to.be.null;
+
+    expect(await provider.reverse({latitude: 47.5, longitude: 19.1})).to.deep.equal({
+      city: 'Budapest',
+      state: 'Budapest',
+      country: 'Hungary'
+    });
+    expect((await provider.reverse({latitude: 33.7, longitude: -95.5})).country).to.equal('United States, The');
+    expect(await provider.reverse({latitude: 0, longitude: 0})).to.be.null;
+  });
+
+  it('should read GeoNames dump', async () => {
+    const row = (name: string, lat: number, lon: number, country: string, admin1: string, population: number) =>
+      ['1', name, name, '', lat, lon, 'P', 'PPL', country, '', admin1, '', '', '', population].join('\t');
+    await writeDataset('countryInfo.txt', '#ISO\tISO3\tISO-Numeric\tfips\tCountry\nHU\tHUN\t348\tHU\tHungary\n');
+    await writeDataset('admin1CodesASCII.txt', 'HU.05\tBudapest\tBudapest\t3054643\n');
+    const provider = new OfflineGeocodingProvider(await writeDataset('cities.txt',
+      row('Budapest', 47.49801, 19.03991, 'HU', '05', 1741041) + '\n' +
+      row('Suva', -18.14161, 178.44149, 'FJ', '01', 77366) + '\n'));
+
+    expect(await provider.reverse({latitude: 47.49, longitude: 19.04})).to.deep.equal({
+      city: 'Budapest',
+      state: 'Budapest',
+      country: 'Hungary'
+    });
+    // no names available, falling back to the codes
+    expect(await provider.reverse({latitude: -18.1, longitude: 178.4})).to.deep.equal({
+      city: 'Suva',
+      state: '01',
+      country: 'FJ'
+    });
+  });
+
+  it('should fail if dataset is missing', async () => {
+    const provider = new OfflineGeocodingProvider(path.join(tempDir, 'not_existing.csv'));
+    let error: Error = null;
+    try {
+      await provider.geocode('Budapest');
+    } catch (err) {
+      error = err;
+    }
+    expect(error).to.not.be.null;
+  });
+
+});
@@ -0,0 +1,135 @@
+import {expect} from 'chai';
+import {Job} from '../../../../../src/backend/model/jobs/jobs/Job';
+import {DynamicConfig} from '../../../../../src/common/entities/DynamicConfig';
+import {JobProgressStates} from '../../../../../src/common/entities/job/JobProgressDTO';
+import {JobCheckpointDTO} from '../../../../../src/common/entities/job/JobCheckpointDTO';
+import {Config} from '../../../../../src/common/config/private/Config';
+
+declare const before: any;
+declare const after: any;
+
+class TestJob extends Job {
+  public readonly Name = 'Test';
+  public readonly ConfigTemplate: DynamicConfig[] = null;
+  public processed: number[] = [];
+  private queue: number[] = [];
+
+  public get Supported(): boolean {
+    return true;
+  }
+
+  protected async init(): Promise<void> {
+    this.queue = [1, 2, 3, 4, 5];
+    this.Progress.Left = this.queue.length;
+  }
+
+  protected async step(): Promise<boolean> {
+    if (this.queue.length === 0) {
+      return false;
+    }
+    // gives time for the checkpoint interval to elapse
+    await new Promise(resolve => setTimeout(resolve, 5));
+    this.processed.push(this.queue.shift());
+    this.Progress.Processed++;
+    return true;
+  }
+
+  protected getCheckpoint(): Record<string, unknown> {
+    return {queue: this.queue};
+  }
+
+  protected async restore(state: Record<string, unknown>): Promise<void> {
+    this.queue = state.queue as number[];
+  }
+}
+
+describe('Job', () => {
+
+  before(() => {
+    Config.loadSync();
+    Config.Jobs.checkpointInterval = 1;
+  });
+
+  after(() => {
+    Config.loadSync();
+  });
+
+  const runJob = (job: TestJob, checkpoint: JobCheckpointDTO = null): Promise<JobCheckpointDTO[]> => {
+    const checkpoints: JobCheckpointDTO[] = [];
+    return new Promise((resolve) => {
+      job.JobListener = {
+        onJobFinished: () => resolve(checkpoints),
+        onProgressUpdate: () => {
+          // empty
+        },
+        onJobCheckpoint: (_, c) => checkpoints.push(c ? JSON.parse(JSON.stringify(c)) : null)
+      };
+      if (checkpoint) {
+        job.resume(checkpoint).catch(console.error);
+        return;
+      }
+      job.start({}).catch(console.error);
+    });
+  };
+
+  it('should save checkpoints and clear them when finished', async () => {
+    const job = new TestJob();
+    const checkpoints = await runJob(job);
+
+    expect(job.processed).to.deep.equal([1, 2, 3, 4, 5]);
+    // the first one clears the checkpoint of the previous run
+    expect(checkpoints[0]).to.be.null;
+    expect(checkpoints[checkpoints.length - 1]).to.be.null;
+    const saved = checkpoints.filter(c => c !== null);
+    expect(saved.length).to.be.greaterThan(0);
+    expect(saved[0].jobName).to.equal('Test');
+    expect(saved[0].steps.processed).to.equal(5 - (saved[0].state.queue as number[]).length);
+  });
+
+  it('should resume from checkpoint', async () => {
+    const job = new TestJob();
+    await runJob(job, {
+      jobName: 'Test',
+      HashName: 'Test',
+      config: {},
+      soloRun: false,
+      allowParallelRun: false,
+      runWindow: null,
+      steps: {all: 5, processed: 3, skipped: 0},
+      timestamp: Date.now(),
+      state: {queue: [4, 5]}
+    });
+
+    expect(job.processed).to.deep.equal([4, 5]);
+    expect(job.Progress).to.be.null;
+  });
+
+  it('should continue the progress of the resumed run', async () => {
+    const job = new TestJob();
+    let progress: { processed: number, state: JobProgressStates } = null;
+    await new Promise<void>((resolve) => {
+      job.JobListener = {
+        onJobFinished: () => resolve(),
+        onProgressUpdate: (p) => {
+          progress = {processed: p.Processed, state: p.State};
+        },
+        onJobCheckpoint: () => {
+          // empty
+        }
+      };
+      job.resume({
+        jobName: 'Test',
+        HashName: 'Test',
+        config: {},
+        soloRun: false,
+        allowParallelRun: false,
+        runWindow: null,
+        steps: {all: 5, processed: 4, skipped: 0},
+        timestamp: Date.now(),
+        state: {queue: [5]}
+      }).catch(console.error);
+    });
+
+    expect(progress).to.deep.equal({processed: 5, state: JobProgressStates.finished});
+  });
+});
@@ -0,0 +1,145 @@
+import {expect} from 'chai';
+import * as http from 'http';
+import * as path from 'path';
+import {AddressInfo} from 'net';
+import {WebhookMessenger} from '../../../../../src/backend/model/messenger/WebhookMessenger';
+import {Config} from '../../../../../src/common/config/private/Config';
+import {JobProgressStates} from '../../../../../src/common/entities/job/JobProgressDTO';
+import {MediaDTOWithThPath} from '../../../../../src/backend/model/messenger/Messenger';
+
+declare const before: any;
+declare const after: any;
+
+describe('WebhookMessenger', () => {
+
+  let server: http.Server;
+  let url: string;
+  let requests: { headers: http.IncomingHttpHeaders, body: string }[] = [];
+
+  before(async () => {
+    Config.loadSync();
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => body += chunk);
+      req.on('end', () => {
+        requests.push({headers: req.headers, body});
+        res.statusCode = req.url === '/fail' ? 500 : 200;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = 'http://127.0.0.1:' + (server.address() as AddressInfo).port;
+  });
+
+  after(async () => {
+    Config.loadSync();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const getConfig = (override: Record<string, unknown> = {}) => {
+    const config: Record<string, unknown> = {};
+    new WebhookMessenger().ConfigTemplate.forEach(ct => config[ct.id] = ct.defaultValue);
+    config.webhookUrl = url;
+    return Object.assign(config, override) as {
+      webhookUrl: string,
+      webhookText: string,
+      webhookTemplate: string,
+      webhookEmbedThumbnails: boolean
+    };
+  };
+
+  it('should render template', () => {
+    const values = {
+      title: 'Gallery',
+      subject: null as string,
+      text: 'hello',
+      media: [{name: 'a.jpg', url: 'u', thumbnail: 't', date: 1, location: ''}],
+      job: null as never,
+      timestamp: 'now'
+    };
+    expect(WebhookMessenger.render({
+      msg: '{{title}}: {{ text }}',
+      list: '{{media}}',
+      nested: ['{{media.0.name}}', 3, true, null],
+      missing: '{{job.name}}',
+      empty: 'x{{subject}}x'
+    }, values)).to.deep.equal({
+      msg: 'Gallery: hello',
+      list: values.media,
+      nested: ['a.jpg', 3, true, null],
+      missing: null,
+      empty: 'xx'
+    });
+  });
+
+  it('should send text', async () => {
+    requests = [];
+    Config.Messaging.Webhook.secret = '';
+    await new WebhookMessenger().send(getConfig({webhookTemplate: '{"content":"{{text}}"}'}), 'hello');
+
+    expect(requests.length).to.equal(1);
+    expect(requests[0].headers['content-type']).to.equal('application/json');
+    expect(requests[0].headers['x-pigallery2-signature']).to.be.undefined;
+    expect(JSON.parse(requests[0].body)).to.deep.equal({content: 'hello'});
+  });
+
+  it('should send signed job summary', async () => {
+    requests = [];
+    Config.Messaging.Webhook.secret = 'secret';
+    await new WebhookMessenger().send(getConfig(), {
+      jobName: 'Indexing',
+      HashName: 'Indexing-""',
+      steps: {all: 10, processed: 8, skipped: 2},
+      state: JobProgressStates.failed,
+      logs: [],
+      time: {start: 1000, end: 2000},
+      error: 'Error: failed'
+    });
+
+    expect(requests.length).to.equal(1);
+    expect(requests[0].headers['x-pigallery2-signature'])
+      .to.equal(WebhookMessenger.sign(requests[0].body, 'secret'));
+    const body = JSON.parse(requests[0].body);
+    expect(body.job).to.deep.equal({
+      name: 'Indexing',
+      state: 'failed',
+      steps: {all: 10, processed: 8, skipped: 2},
+      time: {start: 1000, end: 2000},
+      error: 'Error: failed'
+    });
+    expect(body.media).to.deep.equal([]);
+    expect(body.subject).to.contain('Indexing failed');
+    expect(body.text).to.contain('Error: failed');
+  });
+
+  it('should embed thumbnails when authentication is required', async () => {
+    const media = {
+      name: 'old_photo.jpg',
+      directory: {path: '/', name: 'assets'},
+      metadata: {creationDate: 1},
+      thumbnailPath: path.join(__dirname, '../../../assets/old_photo.jpg'),
+      thumbnailUrl: 'u'
+    } as MediaDTOWithThPath;
+    const sendMedia = async (): Promise<string> => {
+      requests = [];
+      await (new WebhookMessenger() as any).sendMedia(getConfig({webhookTemplate: '{"media":"{{media}}"}'}), [media]);
+      return JSON.parse(requests[0].body).media[0].thumbnail;
+    };
+
+    Config.Users.authenticationRequired = false;
+    expect(await sendMedia()).to.contain('/gallery/content/');
+    Config.Users.authenticationRequired = true;
+    expect(await sendMedia()).to.match(/^data:image\/jpg;base64,/);
+  });
+
+  it('should fail on error response', async () => {
+    let error: Error = null;
+    try {
+      await new WebhookMessenger().send(getConfig({webhookUrl: url + '/fail'}), 'hello');
+    } catch (e) {
+      error = e;
+    }
+    expect(error).to.not.be.null;
+    expect(error.message).to.contain('status: 500');
+  });
+});
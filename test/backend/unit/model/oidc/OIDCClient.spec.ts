@@ -0,0 +1,197 @@
+import {expect} from 'chai';
+import * as http from 'http';
+import * as crypto from 'crypto';
+import {AddressInfo} from 'net';
+import {OIDCClient} from '../../../../../src/backend/model/oidc/OIDCClient';
+import {Config} from '../../../../../src/common/config/private/Config';
+import {UserRoles} from '../../../../../src/common/entities/UserDTO';
+import {ServerOIDCConfig} from '../../../../../src/common/config/private/PrivateConfig';
+
+declare const before: any;
+declare const after: any;
+
+/**
+ * Minimal OpenID Connect provider for testing the authorization code flow.
+ */
+class MockOIDCServer {
+  server: http.Server;
+  issuer: string;
+  // code -> authorization request
+  codes = new Map<string, { nonce: string, challenge: string, redirectUri: string }>();
+  claims: { [key: string]: unknown } = {};
+
+  async start(): Promise<void> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.issuer = 'http://127.0.0.1:' + (this.server.address() as AddressInfo).port;
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Simulates the user logging in at the provider, returns the callback params.
+   */
+  authorize(loginUrl: string): { code: string, state: string } {
+    const url = new URL(loginUrl);
+    const code = crypto.randomBytes(8).toString('hex');
+    this.codes.set(code, {
+      nonce: url.searchParams.get('nonce'),
+      challenge: url.searchParams.get('code_challenge'),
+      redirectUri: url.searchParams.get('redirect_uri')
+    });
+    return {code, state: url.searchParams.get('state')};
+  }
+
+  private json(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, {'Content-Type': 'application/json'});
+    res.end(JSON.stringify(body));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (req.url === '/.well-known/openid-configuration') {
+      return this.json(res, 200, {
+        issuer: this.issuer,
+        authorization_endpoint: this.issuer + '/authorize',
+        token_endpoint: this.issuer + '/token',
+        userinfo_endpoint: this.issuer + '/userinfo',
+      });
+    }
+    if (req.url === '/userinfo') {
+      if (req.headers.authorization !== 'Bearer access-token') {
+        return this.json(res, 401, {});
+      }
+      return this.json(res, 200, {sub: this.claims.sub, groups: ['family']});
+    }
+    if (req.url === '/token' && req.method === 'POST') {
+      let body = '';
+      req.on('data', (c) => body += c);
+      req.on('end', () => {
+        const params = new URLSearchParams(body);
+        const auth = this.codes.get(params.get('code'));
+        this.codes.delete(params.get('code'));
+        const challenge = crypto.createHash('sha256')
+          .update(params.get('code_verifier') || '').digest('base64url');
+        if (!auth || auth.challenge !== challenge ||
+          auth.redirectUri !== params.get('redirect_uri') ||
+          params.get('client_secret') !== 'secret') {
+          return this.json(res, 400, {error: 'invalid_grant'});
+        }
+        const encode = (o: unknown) => Buffer.from(JSON.stringify(o)).toString('base64url');
+        const idToken = [encode({alg: 'none'}), encode({
+          iss: this.issuer,
+          aud: 'pigallery2',
+          exp: Math.floor(Date.now() / 1000) + 60,
+          nonce: auth.nonce,
+          ...this.claims
+        }), ''].join('.');
+        return this.json(res, 200, {id_token: idToken, access_token: 'access-token', token_type: 'Bearer'});
+      });
+      return;
+    }
+    this.json(res, 404, {});
+  }
+}
+
+describe('OIDCClient', () => {
+  const provider = new MockOIDCServer();
+  const redirectUri = 'http://localhost/api/user/oidc/callback';
+
+  before(async () => {
+    await provider.start();
+  });
+
+  after(async () => {
+    await provider.stop();
+    Config.Users.OIDC = new ServerOIDCConfig();
+  });
+
+  beforeEach(() => {
+    Config.Users.OIDC = new ServerOIDCConfig();
+    Config.Users.OIDC.enabled = true;
+    Config.Users.OIDC.issuer = provider.issuer;
+    Config.Users.OIDC.clientId = 'pigallery2';
+    Config.Users.OIDC.clientSecret = 'secret';
+    provider.claims = {sub: 'user-1', preferred_username: 'john', roles: ['admins']};
+  });
+
+  it('should login with authorization code flow', async () => {
+    const request = await OIDCClient.createLoginRequest(redirectUri);
+    const url = new URL(request.url);
+    expect(url.origin + url.pathname).to.equal(provider.issuer + '/authorize');
+    expect(url.searchParams.get('client_id')).to.equal('pigallery2');
+    expect(url.searchParams.get('code_challenge_method')).to.equal('S256');
+
+    const claims = await OIDCClient.handleCallback(provider.authorize(request.url), request.state);
+    expect(claims.sub).to.equal('user-1');
+    expect(claims.preferred_username).to.equal('john');
+    // merged from userinfo
+    expect(claims.groups).to.deep.equal(['family']);
+  });
+
+  it('should reject invalid state and nonce', async () => {
+    const request = await OIDCClient.createLoginRequest(redirectUri);
+    const params = provider.authorize(request.url);
+    let error: Error = null;
+    try {
+      await OIDCClient.handleCallback({...params, state: 'other'}, request.state);
+    } catch (err) {
+      error = err;
+    }
+    expect(error.message).to.contain('state');
+
+    const request2 = await OIDCClient.createLoginRequest(redirectUri);
+    error = null;
+    try {
+      await OIDCClient.handleCallback(provider.authorize(request2.url), {...request2.state, nonce: 'other'});
+    } catch (err) {
+      error = err;
+    }
+    expect(error.message).to.contain('nonce');
+  });
+
+  it('should reject provider errors', async () => {
+    const request = await OIDCClient.createLoginRequest(redirectUri);
+    let error: Error = null;
+    try {
+      await OIDCClient.handleCallback({error: 'access_denied', state: request.state.state}, request.state);
+    } catch (err) {
+      error = err;
+    }
+    expect(error.message).to.contain('access_denied');
+  });
+
+  it('should map claims to role and permissions', () => {
+    Config.Users.OIDC.roleClaim = 'realm_access.roles';
+    Config.Users.OIDC.roleMapping = [
+      {claimValue: 'viewers', role: UserRoles.Guest},
+      {claimValue: 'admins', role: UserRoles.Admin}
+    ];
+    Config.Users.OIDC.permissionMapping = [
+      {claimValue: 'family', permissions: ['/family*']},
+      {claimValue: 'friends', permissions: ['/trips*', '/family*']}
+    ];
+    const user = OIDCClient.mapUser({
+      sub: 'user-1',
+      preferred_username: 'john',
+      realm_access: {roles: ['viewers', 'admins']},
+      groups: ['family', 'friends']
+    });
+    expect(user).to.deep.equal({
+      subject: 'user-1',
+      name: 'john',
+      role: UserRoles.Admin,
+      permissions: ['/family*', '/trips*']
+    });
+
+    const other = OIDCClient.mapUser({sub: 'user-2', email: 'jane@example.com'});
+    expect(other.name).to.equal('jane@example.com');
+    expect(other.role).to.equal(Config.Users.OIDC.defaultRole);
+    expect(other.permissions).to.equal(null);
+
+    Config.Users.OIDC.allowUnmappedUsers = false;
+    expect(() => OIDCClient.mapUser({sub: 'user-2'})).to.throw();
+  });
+
+});
@@ -2,12 +2,14 @@ import {DBTestHelper} from '../../../DBTestHelper';
 import {ParentDirectoryDTO} from '../../../../../src/common/entities/DirectoryDTO';
 import {ObjectManagers} from '../../../../../src/backend/model/ObjectManagers';
 import {AlbumManager} from '../../../../../src/backend/model/database/AlbumManager';
-import {SearchQueryTypes, TextSearch} from '../../../../../src/common/entities/SearchQueryDTO';
+import {SearchQueryTypes, TextSearch, TextSearchQueryMatchTypes} from '../../../../../src/common/entities/SearchQueryDTO';
 import {SQLConnection} from '../../../../../src/backend/model/database/SQLConnection';
 import {AlbumBaseEntity} from '../../../../../src/backend/model/database/enitites/album/AlbumBaseEntity';
 import {Utils} from '../../../../../src/common/Utils';
 import {MediaDTO} from '../../../../../src/common/entities/MediaDTO';
 import {SavedSearchDTO} from '../../../../../src/common/entities/album/SavedSearchDTO';
+import {MediaEntity} from '../../../../../src/backend/model/database/enitites/MediaEntity';
+import {PhotoEntity} from '../../../../../src/backend/model/database/enitites/PhotoEntity';
 
 
 // eslint-disable-next-line @typescript-eslint/no-var-requires
@@ -52,6 +54,8 @@ describe('AlbumManager', (sqlHelper: DBTestHelper) => {
     delete ret.id;
     ret.directory = {path: ret.directory.path, name: ret.directory.name};
     delete ret.metadata;
+    delete ret.alternates;
+    delete (ret as PhotoEntity).motion;
     tmpDir.directories = tmpD;
     tmpDir.media = tmpM;
     tmpDir.cover = tmpP;
@@ -139,6 +143,100 @@ describe('AlbumManager', (sqlHelper: DBTestHelper) => {
     });
   });
 
+  describe('Manual album', () => {
+
+    beforeEach(setUpSqlDB);
+    afterEach(sqlHelper.clearDB);
+
+    it('should add album with media', async () => {
+      const am = new AlbumManager();
+      const {p, p2} = sqlHelper.testGalleyEntities;
+
+      const album = await am.addManualAlbum('Best of', [p2.id, p.id]);
+
+      expect((await am.getAlbumMedia(album.id)).map(m => m.id)).to.deep.equal([p2.id, p.id]);
+      expect((await am.getAlbums()).find(a => a.id === album.id).count).to.equal(2);
+    });
+
+    it('should only list the album media of the permitted directories', async () => {
+      const am = new AlbumManager();
+      const {p, p2, p3, p4, subDir} = sqlHelper.testGalleyEntities;
+
+      const album = await am.addManualAlbum('Best of', [p.id, p3.id, p4.id, p2.id]);
+
+      const permissions = [subDir.path + subDir.name];
+      expect((await am.getAlbumMedia(album.id, permissions)).map(m => m.id)).to.deep.equal([p3.id]);
+      expect((await am.getAlbumMedia(album.id, ['/*'])).map(m => m.id)).to.deep.equal([p.id, p3.id, p4.id, p2.id]);
+    });
+
+    it('should add, remove and reorder media', async () => {
+      const am = new AlbumManager();
+      const {p, p2, p3, p4} = sqlHelper.testGalleyEntities;
+
+      const album = await am.addManualAlbum('Best of', [p.id]);
+      await am.addMediaToAlbum(album.id, [p2.id, p.id, p3.id, p4.id]);
+      expect((await am.getAlbumMedia(album.id)).map(m => m.id)).to.deep.equal([p.id, p2.id, p3.id, p4.id]);
+
+      await am.removeMediaFromAlbum(album.id, [p2.id]);
+      expect((await am.getAlbumMedia(album.id)).map(m => m.id)).to.deep.equal([p.id, p3.id, p4.id]);
+
+      await am.reorderAlbumMedia(album.id, [p4.id, p.id]);
+      expect((await am.getAlbumMedia(album.id)).map(m => m.id)).to.deep.equal([p4.id, p.id, p3.id]);
+    });
+
+    it('should find album media with search', async () => {
+      const am = new AlbumManager();
+      const {p, p3} = sqlHelper.testGalleyEntities;
+
+      await am.addManualAlbum('Best of', [p3.id, p.id]);
+
+      const res = await ObjectManagers.getInstance().SearchManager.search({
+        type: SearchQueryTypes.album,
+        text: 'Best of',
+        matchType: TextSearchQueryMatchTypes.exact_match
+      } as TextSearch);
+      expect(res.media.map(m => m.id)).to.deep.equalInAnyOrder([p3.id, p.id]);
+    });
+
+    it('should match album names literally', async () => {
+      const am = new AlbumManager();
+      const {p, p2, p3} = sqlHelper.testGalleyEntities;
+
+      await am.addManualAlbum('100% best_of', [p.id]);
+      await am.addManualAlbum('100 % bestXof', [p2.id]);
+      await am.addManualAlbum('100\\ best_of', [p3.id]);
+
+      const search = async (text: string, matchType: TextSearchQueryMatchTypes) =>
+        (await ObjectManagers.getInstance().SearchManager.search({
+          type: SearchQueryTypes.album,
+          text,
+          matchType
+        } as TextSearch)).media.map(m => m.id);
+      expect(await search('100% best_of', TextSearchQueryMatchTypes.exact_match)).to.deep.equal([p.id]);
+      expect(await search('% best_', TextSearchQueryMatchTypes.like)).to.deep.equal([p.id]);
+      expect(await search('100\\ best', TextSearchQueryMatchTypes.like)).to.deep.equal([p3.id]);
+    });
+
+    it('should match media again after reindexing', async () => {
+      const am = new AlbumManager();
+      const {p, p2} = sqlHelper.testGalleyEntities;
+      const connection = await SQLConnection.getConnection();
+
+      const album = await am.addManualAlbum('Best of', [p.id, p2.id]);
+      // simulating that the photo got a new id
+      await connection.getRepository(MediaEntity).delete({id: p.id});
+      const newP = Utils.clone({...p, directory: null});
+      delete newP.id;
+      newP.directory = {id: (p.directory as ParentDirectoryDTO).id} as ParentDirectoryDTO;
+      const saved = await connection.getRepository(PhotoEntity).save(newP as PhotoEntity);
+      expect((await am.getAlbumMedia(album.id)).map(m => m.id)).to.deep.equal([p2.id]);
+
+      await am.onNewDataVersion();
+
+      expect((await am.getAlbumMedia(album.id)).map(m => m.id)).to.deep.equal([saved.id, p2.id]);
+    });
+  });
+
   it('should list album', async () => {
     const am = new AlbumManager();
 
@@ -148,9 +148,13 @@ describe('CoverManager', (sqlHelper: DBTestHelper) => {
     delete (ret.directory as DirectoryBaseDTO).lastScanned;
     delete (ret.directory as DirectoryBaseDTO).lastModified;
     delete (ret.directory as DirectoryBaseDTO).mediaCount;
+    delete (ret.directory as DirectoryBaseDTO).videoCount;
+    delete (ret.directory as DirectoryBaseDTO).directoryCount;
     delete (ret.directory as DirectoryBaseDTO).youngestMedia;
     delete (ret.directory as DirectoryBaseDTO).oldestMedia;
     delete (ret as PhotoDTO).metadata;
+    delete (ret as PhotoDTO).alternates;
+    delete (ret as PhotoDTO).motion;
     tmpDir.directories = tmpD;
     tmpDir.media = tmpM;
     tmpDir.cover = tmpP;
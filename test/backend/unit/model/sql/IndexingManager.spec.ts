@@ -483,6 +483,57 @@ describe('IndexingManager', (sqlHelper: DBTestHelper) => {
       .to.deep.equalInAnyOrder(Utils.removeNullOrEmptyObj(indexifyReturn(parent)));
   });
 
+  it('should save edited metadata', async () => {
+    const gm = new GalleryManagerTest();
+    const im = new IndexingManagerTest();
+
+    const parent = TestHelper.getRandomizedDirectoryEntry();
+    const p1 = TestHelper.getRandomizedPhotoEntry(parent, 'Photo1');
+    const p2 = TestHelper.getRandomizedPhotoEntry(parent, 'Photo2');
+
+    DirectoryDTOUtils.removeReferences(parent);
+    await im.saveToDB(Utils.clone(parent) as ParentDirectoryDTO);
+
+    p1.metadata.rating = 5;
+    p1.metadata.keywords = ['edited', 'keyword'];
+    p1.metadata.title = 'edited title';
+    delete p1.metadata.caption;
+    await im.saveEditedMetadata(path.join(parent.path, parent.name, p1.name), p1.metadata);
+
+    const conn = await SQLConnection.getConnection();
+    const selected = await gm.getParentDirFromId(conn,
+      (await gm.getDirIdAndTime(conn, parent.name, parent.path)).id);
+
+    DirectoryDTOUtils.removeReferences(selected);
+    removeIds(selected);
+    expect(Utils.clone(Utils.removeNullOrEmptyObj(selected)))
+      .to.deep.equalInAnyOrder(Utils.removeNullOrEmptyObj(indexifyReturn(parent)));
+  });
+
+  it('should list indexed media', async () => {
+    const im = new IndexingManagerTest();
+
+    const parent = TestHelper.getRandomizedDirectoryEntry();
+    parent.lastScanned = Date.now();
+    const p1 = TestHelper.getRandomizedPhotoEntry(parent, 'Photo1');
+    const p2 = TestHelper.getRandomizedPhotoEntry(parent, 'Photo2');
+    p1.metadata.perceptualHash = '00ff00ff00ff00ff';
+    p1.motion = true;
+    delete p2.metadata.perceptualHash;
+
+    expect(await im.getIndexedMedia(path.join(parent.path, parent.name))).to.equal(null);
+
+    DirectoryDTOUtils.removeReferences(parent);
+    await im.saveToDB(Utils.clone(parent) as ParentDirectoryDTO);
+
+    const indexed = await im.getIndexedMedia(path.join(parent.path, parent.name));
+    expect(indexed.lastScanned).to.equal(parent.lastScanned);
+    expect(Object.fromEntries(indexed.media)).to.deep.equal({
+      [p1.name]: {fileSize: p1.metadata.fileSize, perceptualHash: '00ff00ff00ff00ff', motion: true},
+      [p2.name]: {fileSize: p2.metadata.fileSize, perceptualHash: null, motion: false}
+    });
+  });
+
   it('should skip meta files', async () => {
     const gm = new GalleryManagerTest();
     const im = new IndexingManagerTest();
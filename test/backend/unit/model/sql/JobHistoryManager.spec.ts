@@ -0,0 +1,148 @@
+import {expect} from 'chai';
+import {DBTestHelper} from '../../../DBTestHelper';
+import {JobHistoryManager} from '../../../../../src/backend/model/jobs/JobHistoryManager';
+import {JobProgress} from '../../../../../src/backend/model/jobs/jobs/JobProgress';
+import {JobProgressStates} from '../../../../../src/common/entities/job/JobProgressDTO';
+import {Config} from '../../../../../src/common/config/private/Config';
+import {SQLConnection} from '../../../../../src/backend/model/database/SQLConnection';
+import {JobHistoryEntity, JobHistoryLogEntity} from '../../../../../src/backend/model/database/enitites/JobHistoryEntity';
+
+
+// to help WebStorm to handle the test cases
+declare let describe: any;
+declare const after: any;
+declare const before: any;
+declare const beforeEach: any;
+declare const it: any;
+
+
+// eslint-disable-next-line prefer-const
+describe = DBTestHelper.describe();
+
+describe('JobHistoryManager', (sqlHelper: DBTestHelper) => {
+  /* eslint-disable no-unused-expressions,@typescript-eslint/no-unused-expressions */
+
+  let counter = 0;
+
+  before(async () => {
+    await sqlHelper.initDB();
+  });
+
+  beforeEach(async () => {
+    await (await SQLConnection.getConnection()).query('DELETE FROM job_history_entity');
+    Config.Jobs.history.maxRuns = 500;
+    Config.Jobs.history.maxAge = 90;
+    Config.Jobs.history.maxLogLines = 10000;
+  });
+
+  after(async () => {
+    await sqlHelper.clearDB();
+  });
+
+  const runJob = async (hm: JobHistoryManager, jobName: string, state: JobProgressStates,
+                        logs: string[] = [], trigger: string = null): Promise<JobProgress> => {
+    const progress = new JobProgress(jobName, jobName + (counter++));
+    progress.OnChange = (p) => hm.onJobProgressUpdate(p);
+    hm.onJobStart(progress, trigger, {indexChangesOnly: true});
+    const run = (hm as any).runs[progress.HashName];
+    logs.forEach(l => progress.log(l));
+    progress.All = 10;
+    progress.Processed = 4;
+    if (state === JobProgressStates.failed) {
+      progress.Error = 'Error: failed\n    at step';
+    }
+    progress.State = state;
+    await run.saving;
+    return progress;
+  };
+
+
+  it('should save runs with the logs', async () => {
+    const hm = new JobHistoryManager();
+    await runJob(hm, 'Indexing', JobProgressStates.failed, ['started', 'indexing /', 'failed'], 'nightly');
+
+    const page = await hm.getRuns({page: 0, pageSize: 10});
+    expect(page.total).to.equal(1);
+    expect(page.runs[0].jobName).to.equal('Indexing');
+    expect(page.runs[0].trigger).to.equal('nightly');
+    expect(page.runs[0].config).to.deep.equal({indexChangesOnly: true});
+    expect(page.runs[0].state).to.equal(JobProgressStates.failed);
+    expect(page.runs[0].steps).to.deep.equal({all: 10, processed: 4, skipped: 0});
+    expect(page.runs[0].time.end).to.be.at.least(page.runs[0].time.start);
+    expect(page.runs[0].logs).to.be.undefined;
+
+    const run = await hm.getRun(page.runs[0].id);
+    expect(run.error).to.equal('Error: failed\n    at step');
+    expect(run.logs.map(l => l.comment)).to.deep.equal(['started', 'indexing /', 'failed']);
+    expect(await hm.getRun(page.runs[0].id + 1)).to.be.null;
+  });
+
+  it('should limit the saved log lines', async () => {
+    Config.Jobs.history.maxLogLines = 2;
+    const hm = new JobHistoryManager();
+    await runJob(hm, 'Indexing', JobProgressStates.finished, ['1', '2', '3']);
+
+    const page = await hm.getRuns({page: 0, pageSize: 10});
+    const run = await hm.getRun(page.runs[0].id);
+    expect(run.logs.map(l => l.comment)).to.deep.equal(['1', '2']);
+  });
+
+  it('should filter and paginate runs', async () => {
+    const hm = new JobHistoryManager();
+    await runJob(hm, 'Indexing', JobProgressStates.finished);
+    await runJob(hm, 'Indexing', JobProgressStates.canceled);
+    await runJob(hm, 'Video Converting', JobProgressStates.finished);
+
+    expect((await hm.getRuns({jobName: 'Indexing', page: 0, pageSize: 10})).total).to.equal(2);
+    expect((await hm.getRuns({state: JobProgressStates.finished, page: 0, pageSize: 10})).total).to.equal(2);
+    const page = await hm.getRuns({jobName: 'Indexing', state: JobProgressStates.finished, page: 0, pageSize: 10});
+    expect(page.runs.map(r => r.state)).to.deep.equal([JobProgressStates.finished]);
+
+    const secondPage = await hm.getRuns({page: 1, pageSize: 2});
+    expect(secondPage.total).to.equal(3);
+    expect(secondPage.runs.length).to.equal(1);
+  });
+
+  it('should delete runs above the limit', async () => {
+    const hm = new JobHistoryManager();
+    await runJob(hm, 'Indexing', JobProgressStates.finished, ['old']);
+    await runJob(hm, 'Indexing', JobProgressStates.finished, ['new']);
+    Config.Jobs.history.maxRuns = 1;
+    await hm.cleanUp();
+
+    const page = await hm.getRuns({page: 0, pageSize: 10});
+    expect(page.total).to.equal(1);
+    const logs = await (await SQLConnection.getConnection()).getRepository(JobHistoryLogEntity).find();
+    expect(logs.map(l => l.comment)).to.deep.equal(['new']);
+  });
+
+  it('should delete runs above the max age', async () => {
+    const hm = new JobHistoryManager();
+    await runJob(hm, 'Indexing', JobProgressStates.finished, ['old']);
+    await runJob(hm, 'Indexing', JobProgressStates.finished, ['new']);
+    const repository = (await SQLConnection.getConnection()).getRepository(JobHistoryEntity);
+    const oldRun = (await hm.getRuns({page: 0, pageSize: 10})).runs[1];
+    await repository.update(oldRun.id, {timeStart: Date.now() - 91 * 24 * 60 * 60 * 1000});
+    await hm.cleanUp();
+
+    const page = await hm.getRuns({page: 0, pageSize: 10});
+    expect(page.total).to.equal(1);
+    expect(page.runs[0].id).to.not.equal(oldRun.id);
+    const logs = await (await SQLConnection.getConnection()).getRepository(JobHistoryLogEntity).find();
+    expect(logs.map(l => l.comment)).to.deep.equal(['new']);
+  });
+
+  it('should mark unfinished runs as interrupted on init', async () => {
+    const hm = new JobHistoryManager();
+    const progress = await runJob(hm, 'Indexing', JobProgressStates.running);
+    await new JobHistoryManager().init();
+
+    const page = await hm.getRuns({page: 0, pageSize: 10});
+    expect(page.runs[0].state).to.equal(JobProgressStates.interrupted);
+
+    // stopping the run, so it does not get saved after the test
+    const run = (hm as any).runs[progress.HashName];
+    progress.State = JobProgressStates.canceled;
+    await run.saving;
+  });
+});
@@ -1,4 +1,5 @@
 import {expect} from 'chai';
+import * as path from 'path';
 import {PersonManager} from '../../../../../src/backend/model/database/PersonManager';
 import {DBTestHelper} from '../../../DBTestHelper';
 import {TestHelper} from '../../../../TestHelper';
@@ -8,6 +9,11 @@ import {ParentDirectoryDTO} from '../../../../../src/common/entities/DirectoryDT
 import {VideoDTO} from '../../../../../src/common/entities/VideoDTO';
 import {SQLConnection} from '../../../../../src/backend/model/database/SQLConnection';
 import {PersonEntry} from '../../../../../src/backend/model/database/enitites/PersonEntry';
+import {Config} from '../../../../../src/common/config/private/Config';
+import {MediaEntity} from '../../../../../src/backend/model/database/enitites/MediaEntity';
+import {PersonDTO} from '../../../../../src/common/entities/PersonDTO';
+import {SearchManager} from '../../../../../src/backend/model/database/SearchManager';
+import {SearchQueryTypes, TextSearch} from '../../../../../src/common/entities/SearchQueryDTO';
 
 
 // to help WebStorm to handle the test cases
@@ -21,6 +27,7 @@ declare const it: any;
 describe = DBTestHelper.describe();
 
 describe('PersonManager', (sqlHelper: DBTestHelper) => {
+  /* eslint-disable no-unused-expressions,@typescript-eslint/no-unused-expressions */
 
 
   let dir: ParentDirectoryDTO;
@@ -32,16 +39,19 @@ describe('PersonManager', (sqlHelper: DBTestHelper) => {
 
   let savedPerson: PersonEntry[] = [];
 
-  const setUpSqlDB = async () => {
-    await sqlHelper.initDB();
+  const getTestDir = (): ParentDirectoryDTO => {
     const directory: ParentDirectoryDTO = TestHelper.getDirectoryEntry();
     p = TestHelper.getPhotoEntry1(directory);
     p2 = TestHelper.getPhotoEntry2(directory);
     const pFaceLessTmp = TestHelper.getPhotoEntry3(directory);
     delete pFaceLessTmp.metadata.faces;
     v = TestHelper.getVideoEntry1(directory);
+    return directory;
+  };
 
-    dir = await DBTestHelper.persistTestDir(directory);
+  const setUpSqlDB = async () => {
+    await sqlHelper.initDB();
+    dir = await DBTestHelper.persistTestDir(getTestDir());
     p = (dir.media.filter(m => m.name === p.name)[0] as any);
     p2 = (dir.media.filter(m => m.name === p2.name)[0] as any);
     pFaceLess = (dir.media[2] as any);
@@ -76,5 +86,122 @@ describe('PersonManager', (sqlHelper: DBTestHelper) => {
     expect((await pm.get('Boba Fett') as PersonEntry).sampleRegion.media.name).to.deep.equal(p.name);
   });
 
+  it('should merge persons and keep them merged after reindexing', async () => {
+    await setUpSqlDB();
+    const pm = new PersonManager();
+    const merged = await pm.mergePersons('Luke Skywalker', ['Anakin Skywalker', 'Boba Fett']);
+    expect(merged.count).to.equal(2);
+    expect(await pm.get('Anakin Skywalker')).to.be.undefined;
+    expect(await pm.get('Boba Fett')).to.be.undefined;
+
+    await DBTestHelper.persistTestDir(getTestDir());
+    await pm.resetPreviews();
+    expect(await pm.get('Anakin Skywalker')).to.be.undefined;
+    expect((await pm.get('Luke Skywalker')).count).to.equal(2);
+  });
+
+  it('should rename person and keep the name after reindexing', async () => {
+    await setUpSqlDB();
+    const pm = new PersonManager();
+    await pm.updatePerson('Han Solo', {name: 'Han'} as PersonDTO);
+    expect((await pm.get('Han')).count).to.equal(1);
+
+    await DBTestHelper.persistTestDir(getTestDir());
+    await pm.resetPreviews();
+    expect(await pm.get('Han Solo')).to.be.undefined;
+    expect((await pm.get('Han')).count).to.equal(1);
+    expect((await pm.getAliases()).get('han solo')).to.equal('Han');
+
+    // renaming to an existing person merges them
+    await pm.updatePerson('Han', {name: 'R2-D2'} as PersonDTO);
+    expect(await pm.get('Han')).to.be.undefined;
+    expect((await pm.get('R2-D2')).count).to.equal(2);
+  });
+
+  it('should rename person by changing the case only', async () => {
+    await setUpSqlDB();
+    const pm = new PersonManager();
+    await pm.updatePerson('Han Solo', {name: 'han solo'} as PersonDTO);
+    expect(await pm.get('Han Solo')).to.be.undefined;
+    expect((await pm.get('han solo')).count).to.equal(1);
+  });
+
+  it('should update person by its name in any case', async () => {
+    await setUpSqlDB();
+    const pm = new PersonManager();
+    await pm.updatePerson('boba fett', {isFavourite: true} as PersonDTO);
+    expect((await pm.get('Boba Fett')).isFavourite).to.be.true;
+    await pm.updatePerson('BOBA FETT', {isFavourite: false, isHidden: true} as PersonDTO);
+    expect((await pm.get('Boba Fett')).isFavourite).to.be.false;
+    expect((await pm.get('Boba Fett')).isHidden).to.be.true;
+  });
+
+  it('should hide person from search', async () => {
+    await setUpSqlDB();
+    const pm = new PersonManager();
+    const sm = new SearchManager();
+    const query = {type: SearchQueryTypes.person, text: 'r2-d2'} as TextSearch;
+    expect((await sm.search(query)).media.length).to.equal(2);
+    await pm.updatePerson('R2-D2', {isHidden: true} as PersonDTO);
+    expect((await pm.get('R2-D2')).isHidden).to.be.true;
+    expect(await sm.autocomplete('R2-D', SearchQueryTypes.person)).to.deep.equal([]);
+    expect((await sm.search(query)).media).to.deep.equal([]);
+  });
+
+  it('should use the picked cover', async () => {
+    await setUpSqlDB();
+    const pm = new PersonManager();
+    const auto = (await pm.get('R2-D2') as PersonEntry).sampleRegion.media.id;
+    const picked = auto === p.id ? p2 : p;
+    await pm.setCover('R2-D2', path.join(dir.path, dir.name, picked.name));
+    expect((await pm.get('R2-D2') as PersonEntry).sampleRegion.media.id).to.equal(picked.id);
+    await pm.setCover('R2-D2', null);
+    expect((await pm.get('R2-D2') as PersonEntry).sampleRegion.media.id).to.equal(auto);
+  });
+
+  it('should cluster embeddings', async () => {
+    const a = [1, 0, 0];
+    const a2 = [0.99, 0.141, 0];
+    const b = [0, 1, 0];
+    const c = [0, 0, 1];
+    expect(PersonManager.clusterEmbeddings([a, b, a2, b, c, a], 0.1, 2))
+      .to.deep.equal([1, 2, 1, 2, null, 1]);
+  });
+
+  it('should cluster and name detected faces', async () => {
+    const origDetection = Utils.clone(Config.Faces.Detection);
+    Config.Faces.Detection.minClusterSize = 2;
+    try {
+      const pm = new PersonManager();
+      const face = (left: number, embedding: number[]) => ({
+        box: {left, top: 10, width: 10, height: 10},
+        confidence: 0.9,
+        embedding
+      });
+      // the first one is already tagged on the photo
+      await pm.saveDetectedFaces(p, [face(11, [1, 0]), face(500, [1, 0])]);
+      await pm.saveDetectedFaces(p2, [face(500, [1, 0])]);
+      await pm.saveDetectedFaces(pFaceLess, [face(500, [1, 0]), face(600, [0, 1])]);
+
+      expect(await pm.clusterFaces()).to.equal(1);
+      const clusters = await pm.getFaceClusters();
+      expect(clusters.map(c => ({id: c.id, count: c.count}))).to.deep.equal([{id: 1, count: 3}]);
+      expect((await pm.getDetectedFace(clusters[0].sampleFaceId)).media.name).to.equal(p.name);
+
+      const person = await pm.nameFaceCluster(1, 'Detected Person');
+      expect(person.count).to.equal(3);
+      expect(await pm.getFaceClusters()).to.deep.equal([]);
+      const photo = await (await SQLConnection.getConnection()).getRepository(MediaEntity)
+        .createQueryBuilder('media')
+        .select(['media.id', 'media.metadata.faces', 'media.metadata.persons'])
+        .where('media.id = :id', {id: pFaceLess.id})
+        .getOne();
+      expect(photo.metadata.persons).to.deep.equal(['Detected Person']);
+      expect(photo.metadata.faces).to.deep.equal([{name: 'Detected Person', box: face(500, []).box}]);
+    } finally {
+      Config.Faces.Detection = origDetection;
+    }
+  });
+
 
 });
@@ -0,0 +1,107 @@
+import {expect} from 'chai';
+import * as fs from 'fs';
+import * as path from 'path';
+import {SQLConnection} from '../../../../../src/backend/model/database/SQLConnection';
+import {UserEntity} from '../../../../../src/backend/model/database/enitites/UserEntity';
+import {VersionEntity} from '../../../../../src/backend/model/database/enitites/VersionEntity';
+import {UserRoles} from '../../../../../src/common/entities/UserDTO';
+import {Config} from '../../../../../src/common/config/private/Config';
+import {DBTestHelper} from '../../../DBTestHelper';
+import {TestHelper} from '../../../../TestHelper';
+import {SavedSearchEntity} from '../../../../../src/backend/model/database/enitites/album/SavedSearchEntity';
+import {SearchQueryTypes, TextSearch} from '../../../../../src/common/entities/SearchQueryDTO';
+import {DataStructureVersion, MigratableDataStructureVersion} from '../../../../../src/common/DataStructureVersion';
+
+// to help WebStorm to handle the test cases
+declare let describe: any;
+declare const after: any;
+// backups are only made for the sqlite db file
+// eslint-disable-next-line prefer-const
+describe = DBTestHelper.describe({mysql: false, postgres: false});
+
+describe('SQLConnection', (sqlHelper: DBTestHelper) => {
+
+  const getBackups = (): string[] =>
+    fs.readdirSync(TestHelper.TMP_DIR).filter(f => f.endsWith('.bak'));
+
+  const getAppliedMigrations = async (): Promise<string[]> =>
+    (await (await SQLConnection.getConnection()).query('SELECT name FROM migrations'))
+      .map((r: { name: string }) => r.name);
+
+  const savePendingMigrationState = async (): Promise<void> => {
+    const conn = await SQLConnection.getConnection();
+    await conn.getRepository(UserEntity).save({name: 'test user', password: '', role: UserRoles.User});
+    for (let i = 0; i < conn.migrations.length; ++i) {
+      await conn.undoLastMigration();
+    }
+    await SQLConnection.close();
+  };
+
+  beforeEach(async () => {
+    await sqlHelper.initDB();
+  });
+
+  after(async () => {
+    await sqlHelper.clearDB();
+  });
+
+  it('should mark migrations as applied on a new db', async () => {
+    const conn = await SQLConnection.getConnection();
+    expect(await getAppliedMigrations()).to.deep.equal(conn.migrations.map(m => m.name));
+    expect(getBackups()).to.deep.equal([]);
+  });
+
+  it('should apply pending migrations and keep the data', async () => {
+    await savePendingMigrationState();
+
+    expect(await getAppliedMigrations()).to.have.length.above(0);
+    const conn = await SQLConnection.getConnection();
+    expect(await conn.getRepository(UserEntity).findOneBy({name: 'test user'})).to.not.equal(null);
+    expect(getBackups()).to.have.length(1);
+  });
+
+  it('should not apply migrations on dry run', async () => {
+    await savePendingMigrationState();
+    Config.Database.migrationDryRun = true;
+    try {
+      await SQLConnection.getConnection();
+      expect(await getAppliedMigrations()).to.deep.equal([]);
+    } finally {
+      Config.Database.migrationDryRun = false;
+    }
+    await SQLConnection.close();
+    expect(getBackups()).to.deep.equal([]);
+  });
+
+  it('should migrate older db and keep the data', async () => {
+    let conn = await SQLConnection.getConnection();
+    await conn.getRepository(SavedSearchEntity).save({
+      name: 'test search',
+      searchQuery: {type: SearchQueryTypes.any_text, text: 'test'} as TextSearch
+    });
+    await conn.getRepository(VersionEntity).update({}, {version: MigratableDataStructureVersion});
+    for (let i = 0; i < conn.migrations.length; ++i) {
+      await conn.undoLastMigration();
+    }
+    await SQLConnection.close();
+
+    conn = await SQLConnection.getConnection();
+    expect(await conn.getRepository(SavedSearchEntity).findOneBy({name: 'test search'})).to.not.equal(null);
+    expect(await getAppliedMigrations()).to.deep.equal(conn.migrations.map(m => m.name));
+    expect((await conn.getRepository(VersionEntity).find())[0].version).to.equal(DataStructureVersion);
+  });
+
+  it('should recreate too old db and keep the users', async () => {
+    let conn = await SQLConnection.getConnection();
+    await conn.getRepository(UserEntity).save({name: 'test user', password: '', role: UserRoles.User});
+    await conn.getRepository(VersionEntity).update({}, {version: 1});
+    await SQLConnection.close();
+
+    conn = await SQLConnection.getConnection();
+    expect(await conn.getRepository(UserEntity).findOneBy({name: 'test user'})).to.not.equal(null);
+    expect(await getAppliedMigrations()).to.have.length.above(0);
+    expect(getBackups()).to.have.length(1);
+    expect(fs.existsSync(path.join(TestHelper.TMP_DIR, Config.Database.sqlite.DBFileName))).to.be.true;
+  });
+
+});
@@ -9,9 +9,15 @@ import {
   DatePatternSearch,
   DistanceSearch,
   FromDateSearch,
+  MaxExposureSearch,
+  MaxFocalLengthSearch,
+  MaxISOSearch,
   MaxPersonCountSearch,
   MaxRatingSearch,
   MaxResolutionSearch,
+  MinExposureSearch,
+  MinFStopSearch,
+  MinISOSearch,
   MinPersonCountSearch,
   MinRatingSearch,
   MinResolutionSearch,
@@ -119,6 +125,12 @@ describe('SearchManager', (sqlHelper: DBTestHelper) => {
     p2 = TestHelper.getPhotoEntry2(directory);
     p2.metadata.creationDate = Date.now() - 60 * 60 * 24 * 1000;
     p2.metadata.creationDateOffset = "+02:00";
+    p2.metadata.cameraData.ISO = 3200;
+    p2.metadata.cameraData.model = 'EOS R5';
+    p2.metadata.cameraData.fStop = 2.8;
+    p2.metadata.cameraData.focalLength = 50;
+    p2.metadata.cameraData.exposure = 1 / 250;
+    p2.metadata.cameraData.lens = 'RF 50mm';
     v = TestHelper.getVideoEntry1(directory);
     v.metadata.creationDate = Date.now() - 60 * 60 * 24 * 7 * 1000;
     v.metadata.creationDateOffset = "+02:00";
@@ -128,6 +140,13 @@ describe('SearchManager', (sqlHelper: DBTestHelper) => {
     //set creation date to one year and one day earlier
     p4.metadata.creationDate = d.getTime() - 60 * 60 * 24 * (Utils.isDateFromLeapYear(d) ? 367 : 366) * 1000;
     p4.metadata.creationDateOffset = "+02:00";
+    p4.metadata.cameraData.ISO = 400;
+    p4.metadata.cameraData.make = 'Nikon';
+    p4.metadata.cameraData.model = 'D750';
+    p4.metadata.cameraData.fStop = 8;
+    p4.metadata.cameraData.focalLength = 200;
+    p4.metadata.cameraData.exposure = 2;
+    p4.metadata.cameraData.lens = 'Nikkor 70-200mm';
     const pFaceLessTmp = TestHelper.getPhotoEntry3(subDir);
     delete pFaceLessTmp.metadata.faces;
     d = new Date();
@@ -186,6 +205,10 @@ describe('SearchManager', (sqlHelper: DBTestHelper) => {
 
     expect((await sm.autocomplete('tat', SearchQueryTypes.any_text))).to.deep.equalInAnyOrder([
       new AutoCompleteItem('Tatooine', SearchQueryTypes.position)]);
+    expect((await sm.autocomplete('eos', SearchQueryTypes.camera))).to.deep.equalInAnyOrder([
+      new AutoCompleteItem('EOS R5', SearchQueryTypes.camera)]);
+    expect((await sm.autocomplete('70-200', SearchQueryTypes.lens))).to.deep.equalInAnyOrder([
+      new AutoCompleteItem('Nikkor 70-200mm', SearchQueryTypes.lens)]);
     expect((await sm.autocomplete('star', SearchQueryTypes.any_text))).to.deep.equalInAnyOrder([
       new AutoCompleteItem('star wars', SearchQueryTypes.keyword),
       new AutoCompleteItem('death star', SearchQueryTypes.keyword)]);
@@ -242,6 +265,8 @@ describe('SearchManager', (sqlHelper: DBTestHelper) => {
     delete (ret.directory as DirectoryBaseDTO).lastScanned;
     delete (ret.directory as DirectoryBaseDTO).lastModified;
     delete (ret.directory as DirectoryBaseDTO).mediaCount;
+    delete (ret.directory as DirectoryBaseDTO).videoCount;
+    delete (ret.directory as DirectoryBaseDTO).directoryCount;
     delete (ret.directory as DirectoryBaseDTO).youngestMedia;
     delete (ret.directory as DirectoryBaseDTO).oldestMedia;
     if ((ret as PhotoDTO).metadata &&
@@ -880,6 +905,73 @@ describe('SearchManager', (sqlHelper: DBTestHelper) => {
     });
 
 
+    it('should search camera and lens', async () => {
+      const sm = new SearchManager();
+
+      const checkQuery = async (query: SearchQueryDTO, media: PhotoDTO[]) => {
+        expect(Utils.clone(await sm.search(query))).to.deep.equalInAnyOrder(removeDir({
+          searchQuery: query,
+          directories: [],
+          media,
+          metaFile: [],
+          resultOverflow: false
+        } as SearchResultDTO), JSON.stringify(query));
+      };
+
+      await checkQuery({text: 'Canon', type: SearchQueryTypes.camera} as TextSearch, [p, p2, pFaceLess]);
+      await checkQuery({text: 'EOS', type: SearchQueryTypes.camera} as TextSearch, [p2]);
+      await checkQuery({
+        text: 'D75',
+        type: SearchQueryTypes.camera,
+        matchType: TextSearchQueryMatchTypes.exact_match
+      } as TextSearch, []);
+      await checkQuery({text: 'D750', type: SearchQueryTypes.camera, negate: true} as TextSearch, [p, p2, pFaceLess]);
+      await checkQuery({text: 'nikkor', type: SearchQueryTypes.lens} as TextSearch, [p4]);
+    });
+
+    it('should search library', async () => {
+      const sm = new SearchManager();
+
+      const checkQuery = async (query: SearchQueryDTO, media: (PhotoDTO | VideoDTO)[]) => {
+        expect(Utils.clone(await sm.search(query))).to.deep.equalInAnyOrder(removeDir({
+          searchQuery: query,
+          directories: [],
+          media,
+          metaFile: [],
+          resultOverflow: false
+        } as SearchResultDTO), JSON.stringify(query));
+      };
+
+      // libraries are top level directories
+      await checkQuery({text: dir.name, type: SearchQueryTypes.library} as TextSearch, [p, p2, v, pFaceLess, p4]);
+      await checkQuery({text: 'wars', type: SearchQueryTypes.library} as TextSearch, []);
+      await checkQuery({text: subDir.name, type: SearchQueryTypes.library} as TextSearch, []);
+      await checkQuery({text: dir.name, type: SearchQueryTypes.library, negate: true} as TextSearch, []);
+      await checkQuery({text: 'wars', type: SearchQueryTypes.library, negate: true} as TextSearch, [p, p2, v, pFaceLess, p4]);
+    });
+
+    it('should search camera settings', async () => {
+      const sm = new SearchManager();
+
+      const checkQuery = async (query: SearchQueryDTO, media: PhotoDTO[]) => {
+        expect(Utils.clone(await sm.search(query))).to.deep.equalInAnyOrder(removeDir({
+          searchQuery: query,
+          directories: [],
+          media,
+          metaFile: [],
+          resultOverflow: false
+        } as SearchResultDTO), JSON.stringify(query));
+      };
+
+      await checkQuery({value: 400, type: SearchQueryTypes.min_iso} as MinISOSearch, [p2, p4]);
+      await checkQuery({value: 100, type: SearchQueryTypes.max_iso} as MaxISOSearch, [p, pFaceLess]);
+      await checkQuery({value: 400, negate: true, type: SearchQueryTypes.min_iso} as MinISOSearch, [p, pFaceLess]);
+      await checkQuery({value: 2, type: SearchQueryTypes.min_fstop} as MinFStopSearch, [p2, p4]);
+      await checkQuery({value: 50, type: SearchQueryTypes.max_focal_length} as MaxFocalLengthSearch, [p, p2, pFaceLess]);
+      await checkQuery({value: 1, type: SearchQueryTypes.min_exposure} as MinExposureSearch, [p, p4, pFaceLess]);
+      await checkQuery({value: 1 / 100, type: SearchQueryTypes.max_exposure} as MaxExposureSearch, [p2]);
+    });
+
     it('should search date', async () => {
       const sm = new SearchManager();
 
@@ -1711,6 +1803,46 @@ describe('SearchManager', (sqlHelper: DBTestHelper) => {
   });
 
 
+  it('should get map clusters', async () => {
+    const sm = new SearchManager();
+    const toCluster = (count: number, sample: PhotoDTO, media: PhotoDTO[]) => ({
+      lat: media.reduce((sum, m) => sum + m.metadata.positionData.GPSData.latitude, 0) / media.length,
+      lng: media.reduce((sum, m) => sum + m.metadata.positionData.GPSData.longitude, 0) / media.length,
+      count,
+      sample: searchifyMedia(sample)
+    });
+    const clusters = async (query: SearchQueryDTO, z: number, x: number, y: number, permissions: string[] = null) =>
+      Utils.clone(await sm.getMapClusters(query, {z, x, y}, permissions));
+
+    const all = {
+      text: '',
+      type: SearchQueryTypes.directory
+    } as TextSearch;
+    // the whole world is on the single tile of zoom level 0
+    expect(await clusters(all, 0, 0, 0)).to.deep.equalInAnyOrder([
+      toCluster(3, pFaceLess, [p, pFaceLess, p4]),
+      toCluster(1, p2, [p2])
+    ]);
+    // north-western quarter
+    expect(await clusters(all, 1, 0, 0)).to.deep.equalInAnyOrder([]);
+    // south-western quarter
+    expect(await clusters(all, 1, 0, 1)).to.deep.equalInAnyOrder([toCluster(1, p2, [p2])]);
+
+    const folder = {
+      text: dir.path + dir.name,
+      matchType: TextSearchQueryMatchTypes.exact_match,
+      type: SearchQueryTypes.directory
+    } as TextSearch;
+    expect(await clusters(folder, 0, 0, 0)).to.deep.equalInAnyOrder([
+      toCluster(1, p, [p]),
+      toCluster(1, p2, [p2])
+    ]);
+
+    expect(await clusters(all, 0, 0, 0, [subDir.path + subDir.name])).to.deep.equalInAnyOrder([
+      toCluster(1, pFaceLess, [pFaceLess])
+    ]);
+  });
+
   it('should get random photo', async () => {
     const sm = new SearchManager();
 
@@ -1733,4 +1865,20 @@ describe('SearchManager', (sqlHelper: DBTestHelper) => {
     }], 1, true))).to.deep.equalInAnyOrder([searchifyMedia(pFaceLess)]);
   });
 
+  it('should get N media within permissions', async () => {
+    const sm = new SearchManager();
+
+    const query = {
+      text: '',
+      type: SearchQueryTypes.directory
+    } as TextSearch;
+    const sorting = [{method: SortByTypes.Name, ascending: true}];
+
+    expect((await sm.getNMedia(query, sorting, 10)).length).to.equal(5);
+    expect(Utils.clone(await sm.getNMedia(query, sorting, 10, false, [subDir2.path + subDir2.name])))
+      .to.deep.equalInAnyOrder([searchifyMedia(p4)]);
+    expect(Utils.clone(await sm.getNMedia(query, sorting, 1, false, [subDir.path + subDir.name])))
+      .to.deep.equalInAnyOrder([searchifyMedia(pFaceLess)]);
+  });
+
 });
@@ -1,10 +1,11 @@
 import {expect} from 'chai';
 import {SQLConnection} from '../../../../../src/backend/model/database/SQLConnection';
 import {SharingManager} from '../../../../../src/backend/model/database/SharingManager';
-import {SharingDTO} from '../../../../../src/common/entities/SharingDTO';
+import {SharingAccessTypes, SharingDTO, UserAgentClasses} from '../../../../../src/common/entities/SharingDTO';
 import {UserEntity} from '../../../../../src/backend/model/database/enitites/UserEntity';
 import {UserDTO, UserRoles} from '../../../../../src/common/entities/UserDTO';
 import {DBTestHelper} from '../../../DBTestHelper';
+import {SearchQueryTypes, TextSearch} from '../../../../../src/common/entities/SearchQueryDTO';
 
 // to help WebStorm to handle the test cases
 declare let describe: any;
@@ -131,4 +132,87 @@ describe('SharingManager', (sqlHelper: DBTestHelper) => {
     expect(updated.includeSubfolders).to.equals(update.includeSubfolders);
   });
 
+  it('should treat sharing as expired after max views', async () => {
+    const sm = new SharingManager();
+
+    const sharing: SharingDTO = {
+      id: null,
+      sharingKey: 'testKey',
+      path: '/',
+      password: null,
+      creator,
+      expires: Date.now() + 10000,
+      includeSubfolders: true,
+      maxViews: 2,
+      timeStamp: Date.now()
+    };
+
+    await sm.createSharing(sharing);
+    await sm.registerAccess('testKey', SharingAccessTypes.Open, '127.0.0.1', 'Mozilla/5.0 (iPhone) Mobile');
+    expect(await sm.findOne('testKey')).to.not.equals(null);
+    await sm.registerAccess('testKey', SharingAccessTypes.Open, '127.0.0.2', 'Mozilla/5.0 (Windows NT 10.0)');
+    expect(await sm.findOne('testKey')).to.equals(null);
+    const exhausted = await sm.findOne('testKey', true);
+    expect(exhausted.viewCount).to.equals(2);
+    expect(exhausted.lastAccess).to.not.equals(null);
+  });
+
+  it('should collect sharing stats', async () => {
+    const sm = new SharingManager();
+
+    const sharing: SharingDTO = {
+      id: null,
+      sharingKey: 'testKey',
+      path: '/',
+      password: null,
+      creator,
+      expires: Date.now() + 10000,
+      includeSubfolders: true,
+      timeStamp: Date.now()
+    };
+
+    await sm.createSharing(sharing);
+    await sm.registerAccess('testKey', SharingAccessTypes.Open, '127.0.0.1', 'Googlebot/2.1');
+    await sm.registerAccess('testKey', SharingAccessTypes.View, '127.0.0.1', 'Googlebot/2.1', 'a.jpg');
+    // the same view is only logged once
+    await sm.registerAccess('testKey', SharingAccessTypes.View, '127.0.0.1', 'Googlebot/2.1', 'a.jpg');
+    await sm.registerAccess('testKey', SharingAccessTypes.Download, '127.0.0.1', 'Googlebot/2.1', 'a.jpg');
+    await sm.registerAccess('testKey', SharingAccessTypes.View, '127.0.0.2', 'Googlebot/2.1', 'b.jpg');
+
+    const stats = await sm.getStats(await sm.findOne('testKey'));
+    expect(stats.viewCount).to.equals(1);
+    expect(stats.visitors).to.equals(2);
+    expect(stats.media).to.deep.equals([
+      {media: 'a.jpg', views: 1, downloads: 1},
+      {media: 'b.jpg', views: 1, downloads: 0}]);
+    expect(stats.accesses.length).to.equals(4);
+    expect(stats.accesses[0].userAgent).to.equals(UserAgentClasses.Bot);
+    expect(stats.accesses[0].ipHash).to.not.contain('127.0.0');
+  });
+
+  it('should only allow the shared query for guests', async () => {
+    const dirQuery = {type: SearchQueryTypes.directory, text: 'shared'} as TextSearch;
+    const sharedQuery = {type: SearchQueryTypes.person, text: 'Han Solo'} as TextSearch;
+    const otherQuery = {type: SearchQueryTypes.person, text: 'R2-D2'} as TextSearch;
+    expect(SharingManager.isGuestQueryAllowed(null, dirQuery)).to.be.true;
+    expect(SharingManager.isGuestQueryAllowed(null, otherQuery)).to.be.false;
+
+    const guestSharing = (selection: Partial<SharingDTO>): SharingDTO => ({
+      id: 1,
+      sharingKey: 'testKey',
+      path: '/',
+      password: null,
+      expires: Date.now() + 1000,
+      timeStamp: Date.now(),
+      includeSubfolders: true,
+      creator: null,
+      ...selection
+    });
+    const sharing = guestSharing({searchQuery: sharedQuery});
+    expect(SharingManager.isGuestQueryAllowed(sharing, {...sharedQuery})).to.be.true;
+    expect(SharingManager.isGuestQueryAllowed(sharing, otherQuery)).to.be.false;
+    expect(SharingManager.isGuestQueryAllowed(sharing, dirQuery)).to.be.false;
+    expect(SharingManager.isGuestQueryAllowed(guestSharing({media: ['a.jpg']}), dirQuery)).to.be.false;
+  });
+
 });
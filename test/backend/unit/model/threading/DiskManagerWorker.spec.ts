@@ -5,6 +5,7 @@ import {ProjectPath} from '../../../../../src/backend/ProjectPath';
 import {Utils} from '../../../../../src/common/Utils';
 import {DatabaseType} from '../../../../../src/common/config/private/PrivateConfig';
 import {DiskManager} from '../../../../../src/backend/model/fileaccess/DiskManager';
+import {MediaLibraryConfig} from '../../../../../src/common/config/private/PrivateConfig';
 
 declare const before: any;
 
@@ -32,4 +33,47 @@ describe('DiskMangerWorker', () => {
     expect(Utils.clone(dir.media[i].name)).to.be.deep.equal('test image öüóőúéáű-.,.jpg');
     expect(Utils.clone(dir.media[i].metadata)).to.be.deep.equal(expected);
   });
+
+  it('should list libraries as top level directories', async () => {
+    Config.Media.folder = path.join(__dirname, '/../../../assets/orientation');
+    ProjectPath.ImageFolder = path.join(__dirname, '/../../../assets/orientation');
+    const library = new MediaLibraryConfig();
+    library.name = 'family';
+    library.folder = path.join(__dirname, '/../../../assets/sidecar');
+    Config.Media.libraries = [library];
+    try {
+      expect(ProjectPath.getMediaPath('/family/Chars.jpg')).to.equal(path.join(library.folder, 'Chars.jpg'));
+      expect(ProjectPath.getRelativePathToImages(path.join(library.folder, 'sub'))).to.equal(path.join('family', 'sub'));
+      expect(ProjectPath.getMediaPath('/familyx')).to.equal(path.join(ProjectPath.ImageFolder, 'familyx'));
+
+      const root = await DiskManager.scanDirectory('/');
+      expect(root.directories.map(d => d.name)).to.include('family');
+
+      const dir = await DiskManager.scanDirectory('/family');
+      expect(dir.name).to.equal('family');
+      expect(dir.path).to.equal('.' + path.sep);
+      expect(dir.media.map(m => m.name)).to.include('Chars.jpg');
+    } finally {
+      Config.Media.libraries = [];
+    }
+  });
+
+  it('should group same name photos', () => {
+    const files = ['IMG_1.dng', 'IMG_1.JPG', 'IMG_1.dng.xmp', 'IMG_1.xmp', 'IMG_2.arw', 'IMG_2.heic', 'IMG_3.jpg', 'IMG_3.jpg.xmp', 'IMG_4.mp4'];
+    const groups = DiskManager.groupSameNamePhotos(files);
+    expect(Array.from(groups.byPrimary.entries())).to.deep.equal([
+      ['IMG_1.JPG', ['IMG_1.dng', 'IMG_1.dng.xmp', 'IMG_1.xmp']],
+      ['IMG_2.heic', ['IMG_2.arw']]
+    ]);
+    expect(Array.from(groups.hidden)).to.deep.equal(['IMG_1.dng', 'IMG_2.arw']);
+
+    const priority = Config.Media.Photo.groupingPriority;
+    Config.Media.Photo.groupingPriority = ['dng'];
+    try {
+      expect(DiskManager.groupSameNamePhotos(files).byPrimary.get('IMG_1.dng'))
+        .to.deep.equal(['IMG_1.JPG', 'IMG_1.dng.xmp', 'IMG_1.xmp']);
+    } finally {
+      Config.Media.Photo.groupingPriority = priority;
+    }
+  });
 });
@@ -0,0 +1,102 @@
+import {expect} from 'chai';
+import * as path from 'path';
+import * as fs from 'fs';
+import {MetadataWriter} from '../../../../../src/backend/model/fileaccess/MetadataWriter';
+import {MetadataLoader} from '../../../../../src/backend/model/fileaccess/MetadataLoader';
+import {Config} from '../../../../../src/common/config/private/Config';
+
+declare const before: any;
+declare const after: any;
+
+describe('MetadataWriter', () => {
+
+  const assets = path.join(__dirname, '/../../../assets/sidecar');
+  const tempDir = path.join(__dirname, '../../../tmp');
+
+  const copyAsset = async (...names: string[]): Promise<string> => {
+    for (const name of names) {
+      await fs.promises.copyFile(path.join(assets, name), path.join(tempDir, name));
+    }
+    return path.join(tempDir, names[0]);
+  };
+
+  before(() => {
+    Config.loadSync();
+    Config.Extensions.enabled = false;
+  });
+
+  beforeEach(async () => {
+    await fs.promises.rm(tempDir, {recursive: true, force: true});
+    await fs.promises.mkdir(tempDir, {recursive: true});
+  });
+
+  after(async () => {
+    await fs.promises.rm(tempDir, {recursive: true, force: true});
+  });
+
+  it('should create sidecar without modifying the photo', async () => {
+    const photo = await copyAsset('metadata.jpg');
+    const original = await fs.promises.readFile(photo);
+
+    const data = await MetadataWriter.writePhotoMetadata(photo, {
+      rating: 4,
+      keywords: ['sea & sun', 'új'],
+      title: 'Title',
+      caption: '<Caption>'
+    });
+
+    expect(fs.existsSync(photo + '.xmp')).to.be.true;
+    expect(await fs.promises.readFile(photo)).to.deep.equal(original);
+    expect(data.rating).to.equal(4);
+    expect(data.keywords).to.deep.equal(['sea & sun', 'új']);
+    expect(data.title).to.equal('Title');
+    expect(data.caption).to.equal('<Caption>');
+  });
+
+  it('should keep not edited fields', async () => {
+    const photo = await copyAsset('metadata.jpg');
+    const loaded = await MetadataLoader.loadPhotoMetadata(photo);
+
+    const data = await MetadataWriter.writePhotoMetadata(photo, {rating: 2});
+
+    expect(data.rating).to.equal(2);
+    expect(data.keywords).to.deep.equal(loaded.keywords);
+    expect(data.caption).to.equal(loaded.caption);
+    expect(data.creationDate).to.equal(loaded.creationDate);
+  });
+
+  it('should clear embedded values', async () => {
+    const photo = await copyAsset('metadata.jpg');
+
+    const data = await MetadataWriter.writePhotoMetadata(photo, {rating: 0, keywords: [], title: '', caption: ''});
+
+    expect(data.rating).to.be.undefined;
+    expect(data.keywords).to.be.undefined;
+    expect(data.title).to.be.undefined;
+    expect(data.caption).to.be.undefined;
+  });
+
+  it('should update existing sidecar and keep its other fields', async () => {
+    const photo = await copyAsset('20240107_110258.jpg', '20240107_110258.jpg.xmp');
+    const loaded = await MetadataLoader.loadPhotoMetadata(photo);
+
+    const data = await MetadataWriter.writePhotoMetadata(photo, {rating: 5, keywords: ['Travel']});
+
+    expect(data.rating).to.equal(5);
+    expect(data.keywords).to.deep.equal(['Travel']);
+    expect(data.positionData).to.deep.equal(loaded.positionData);
+    expect(data.cameraData).to.deep.equal(loaded.cameraData);
+    expect(fs.readdirSync(tempDir)).to.deep.equal(['20240107_110258.jpg', '20240107_110258.jpg.xmp']);
+  });
+
+  it('should update sidecar without media extension', async () => {
+    const photo = await copyAsset('no_metadata_v3.jpg', 'no_metadata_v3.xmp');
+
+    const data = await MetadataWriter.writePhotoMetadata(photo, {title: 'New title'});
+
+    expect(data.title).to.equal('New title');
+    expect(data.keywords).to.deep.equal(['first']);
+    expect(fs.existsSync(photo + '.xmp')).to.be.false;
+  });
+
+});
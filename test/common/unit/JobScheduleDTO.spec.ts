@@ -1,5 +1,6 @@
 import {expect} from 'chai';
 import {JobScheduleDTO, JobScheduleDTOUtils, JobTriggerType} from '../../../src/common/entities/job/JobScheduleDTO';
+import {CronExpression} from '../../../src/common/CronExpression';
 
 describe('JobScheduleDTO', () => {
 
@@ -75,4 +76,74 @@ describe('JobScheduleDTO', () => {
       } as any)).to.be.deep.equal((new Date(Date.UTC(2019, 7, 19, h, m, 0))));
     }
   });
+
+  it('should get date from cron schedule', async () => {
+    const refDate = new Date(Date.UTC(2019, 7, 18, 5, 10, 10, 0)); // its a sunday
+    const cron = (expr: string) => JobScheduleDTOUtils.getNextRunningDate(refDate, {
+      trigger: {
+        type: JobTriggerType.cron,
+        cron: expr
+      }
+    } as any);
+
+    expect(cron('0 */6 * * *')).to.be.deep.equal(new Date(Date.UTC(2019, 7, 18, 6, 0)));
+    expect(cron('*/15 * * * *')).to.be.deep.equal(new Date(Date.UTC(2019, 7, 18, 5, 15)));
+    expect(cron('30 2 * * MON-FRI')).to.be.deep.equal(new Date(Date.UTC(2019, 7, 19, 2, 30)));
+    expect(cron('0 3 * * SUN#1')).to.be.deep.equal(new Date(Date.UTC(2019, 8, 1, 3, 0)));
+    expect(cron('0 0 1 JAN *')).to.be.deep.equal(new Date(Date.UTC(2020, 0, 1, 0, 0)));
+    expect(cron('@daily')).to.be.deep.equal(new Date(Date.UTC(2019, 7, 19, 0, 0)));
+    // if both day fields are set, either of them matches
+    expect(cron('0 0 25 * 2')).to.be.deep.equal(new Date(Date.UTC(2019, 7, 20, 0, 0)));
+    expect(cron('0 0 30 2 *')).to.be.equal(null);
+    expect(cron('61 * * * *')).to.be.equal(null);
+    expect(cron('* * *')).to.be.equal(null);
+  });
+
+  it('should validate cron expression', async () => {
+    expect(CronExpression.isValid('0 0 * * 7')).to.be.equal(true);
+    expect(CronExpression.isValid('0-30/10 1,13 1-15 */2 SAT')).to.be.equal(true);
+    expect(CronExpression.isValid('0 0 * * MON#6')).to.be.equal(false);
+    expect(CronExpression.isValid('0 0 * * 5-1')).to.be.equal(false);
+    expect(CronExpression.isValid('0 0 * * */0')).to.be.equal(false);
+    expect(CronExpression.isValid('')).to.be.equal(false);
+  });
+
+  it('should get next running dates', async () => {
+    const refDate = new Date(Date.UTC(2019, 7, 18, 5, 10, 10, 0));
+    expect(JobScheduleDTOUtils.getNextRunningDates(refDate, {
+      trigger: {
+        type: JobTriggerType.cron,
+        cron: '0 12 * * *'
+      }
+    } as any, 3)).to.be.deep.equal([
+      new Date(Date.UTC(2019, 7, 18, 12, 0)),
+      new Date(Date.UTC(2019, 7, 19, 12, 0)),
+      new Date(Date.UTC(2019, 7, 20, 12, 0))
+    ]);
+    expect(JobScheduleDTOUtils.getNextRunningDates(refDate, {
+      trigger: {
+        type: JobTriggerType.cron,
+        cron: '* * * * *'
+      }
+    } as any, 2)).to.be.deep.equal([
+      new Date(Date.UTC(2019, 7, 18, 5, 11)),
+      new Date(Date.UTC(2019, 7, 18, 5, 12))
+    ]);
+    expect(JobScheduleDTOUtils.getNextRunningDates(refDate, {
+      trigger: {
+        type: JobTriggerType.never
+      }
+    } as any, 3)).to.be.deep.equal([]);
+  });
+
+  it('should check run window', async () => {
+    const window = {enabled: true, start: 22 * 60, end: 6 * 60}; // spans midnight
+    expect(JobScheduleDTOUtils.isInRunWindow(new Date(Date.UTC(2019, 7, 18, 23, 0)), window)).to.be.equal(true);
+    expect(JobScheduleDTOUtils.isInRunWindow(new Date(Date.UTC(2019, 7, 18, 3, 0)), window)).to.be.equal(true);
+    expect(JobScheduleDTOUtils.isInRunWindow(new Date(Date.UTC(2019, 7, 18, 12, 0)), window)).to.be.equal(false);
+    expect(JobScheduleDTOUtils.isInRunWindow(new Date(Date.UTC(2019, 7, 18, 12, 0)),
+      {enabled: false, start: 22 * 60, end: 6 * 60})).to.be.equal(true);
+    expect(JobScheduleDTOUtils.getRunWindowStart(new Date(Date.UTC(2019, 7, 18, 12, 0)), window))
+      .to.be.deep.equal(new Date(Date.UTC(2019, 7, 18, 22, 0)));
+  });
 });
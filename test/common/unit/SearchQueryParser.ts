@@ -5,9 +5,18 @@ import {
   DatePatternSearch,
   DistanceSearch,
   FromDateSearch,
+  MaxExposureSearch,
+  MaxFocalLengthSearch,
+  MaxFStopSearch,
+  MaxISOSearch,
   MaxPersonCountSearch,
   MaxRatingSearch,
-  MaxResolutionSearch, MinPersonCountSearch,
+  MaxResolutionSearch,
+  MinExposureSearch,
+  MinFocalLengthSearch,
+  MinFStopSearch,
+  MinISOSearch,
+  MinPersonCountSearch,
   MinRatingSearch,
   MinResolutionSearch,
   OrientationSearch,
@@ -47,6 +56,15 @@ describe('SearchQueryParser', () => {
       check({type: SearchQueryTypes.caption, text: 'caption'} as TextSearch);
       check({type: SearchQueryTypes.file_name, text: 'filename'} as TextSearch);
       check({type: SearchQueryTypes.position, text: 'New York'} as TextSearch);
+      check({type: SearchQueryTypes.album, text: 'Wedding best of'} as TextSearch);
+      check({type: SearchQueryTypes.camera, text: 'Canon EOS 5D'} as TextSearch);
+      check({type: SearchQueryTypes.lens, text: 'EF 24-70mm f/2.8L', negate: true} as TextSearch);
+      check({type: SearchQueryTypes.library, text: 'family'} as TextSearch);
+      check({
+        type: SearchQueryTypes.album,
+        matchType: TextSearchQueryMatchTypes.exact_match,
+        text: 'Wedding'
+      } as TextSearch);
       check({
         type: SearchQueryTypes.position,
         matchType: TextSearchQueryMatchTypes.exact_match,
@@ -111,6 +129,22 @@ describe('SearchQueryParser', () => {
       check({type: SearchQueryTypes.min_resolution, value: 10, negate: true} as MinResolutionSearch);
       check({type: SearchQueryTypes.max_resolution, value: 5, negate: true} as MaxResolutionSearch);
     });
+    it('Camera settings search', () => {
+      check({type: SearchQueryTypes.min_iso, value: 100} as MinISOSearch);
+      check({type: SearchQueryTypes.max_iso, value: 3200, negate: true} as MaxISOSearch);
+      check({type: SearchQueryTypes.min_fstop, value: 1.4} as MinFStopSearch);
+      check({type: SearchQueryTypes.max_fstop, value: 8} as MaxFStopSearch);
+      check({type: SearchQueryTypes.min_focal_length, value: 24} as MinFocalLengthSearch);
+      check({type: SearchQueryTypes.max_focal_length, value: 70.5} as MaxFocalLengthSearch);
+      check({type: SearchQueryTypes.min_exposure, value: 2} as MinExposureSearch);
+      check({type: SearchQueryTypes.max_exposure, value: 1 / 250, negate: true} as MaxExposureSearch);
+
+      const parser = new SearchQueryParser(defaultQueryKeywords);
+      expect(parser.stringify({type: SearchQueryTypes.max_exposure, value: 1 / 250} as MaxExposureSearch))
+        .to.equal(defaultQueryKeywords.maxExposure + ':1/250');
+      expect(parser.parse(defaultQueryKeywords.minExposure + ':0.5'))
+        .to.deep.equals({type: SearchQueryTypes.min_exposure, value: 0.5} as MinExposureSearch);
+    });
     it('Distance search', () => {
       check({type: SearchQueryTypes.distance, distance: 10, from: {text: 'New York'}} as DistanceSearch);
       check({type: SearchQueryTypes.distance, distance: 10, from: {text: 'New York'}, negate: true} as DistanceSearch);